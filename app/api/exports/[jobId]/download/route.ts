@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AuthenticationError, verifyRequestUser } from "@/lib/ai-credits"
+import { ExportJobNotFoundError, ExportQueue } from "@/lib/export-queue"
+
+/**
+ * Streams a finished export's file to its owner until the file expires
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  try {
+    const userId = await verifyRequestUser(request)
+    const { jobId } = await params
+    const { bytes, filename, contentType } = await ExportQueue.getArtifact(jobId, userId)
+
+    return new NextResponse(bytes as BodyInit, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof ExportJobNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    console.error("Export download error:", error)
+    return NextResponse.json({ error: "Failed to download export" }, { status: 500 })
+  }
+}
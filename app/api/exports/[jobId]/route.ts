@@ -0,0 +1,42 @@
+import { after, type NextRequest, NextResponse } from "next/server"
+import { AuthenticationError, verifyRequestUser } from "@/lib/ai-credits"
+import { ExportJobNotFoundError, ExportLimitError, ExportQueue } from "@/lib/export-queue"
+
+/**
+ * Cancels one of the caller's export jobs, or retries it as a new job
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  try {
+    const userId = await verifyRequestUser(request)
+    const { jobId } = await params
+    const { action } = await request.json().catch(() => ({}))
+
+    if (action === "cancel") {
+      const cancelled = await ExportQueue.cancelJob(jobId, userId)
+      if (!cancelled) return NextResponse.json({ error: "Only queued or running exports can be cancelled" }, { status: 409 })
+      return NextResponse.json({ success: true })
+    }
+
+    if (action === "retry") {
+      const retryJobId = await ExportQueue.retryJob(jobId, userId)
+      if (!retryJobId) return NextResponse.json({ error: "This export is still active" }, { status: 409 })
+      after(() => ExportQueue.processQueue({ userId }).catch((error) => console.error("Export worker failed:", error)))
+      return NextResponse.json({ jobId: retryJobId })
+    }
+
+    return NextResponse.json({ error: "Invalid action" }, { status: 400 })
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof ExportLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    if (error instanceof ExportJobNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    console.error("Export job error:", error)
+    return NextResponse.json({ error: "Failed to update export" }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AuthenticationError, verifyRequestUser } from "@/lib/ai-credits"
+import { ExportAccessError, ExportNotFoundError, loadProjectExportData } from "@/lib/export-data"
+import type { ExportOptions } from "@/lib/export-service"
+import { renderProjectReport } from "@/lib/pdf-report"
+
+interface PdfExportRequest {
+  projectId?: string
+  options?: Omit<ExportOptions, "format">
+}
+
+/**
+ * Renders a project's PDF report on the server, for exports that run without a browser tab
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await verifyRequestUser(request)
+    const body: PdfExportRequest = await request.json().catch(() => ({}))
+
+    if (!body.projectId) {
+      return NextResponse.json({ error: "projectId is required" }, { status: 400 })
+    }
+
+    const options: ExportOptions = {
+      includeIdea: true,
+      includeTasks: true,
+      includeAnalytics: true,
+      includeTeam: true,
+      includeChat: false,
+      ...body.options,
+      format: "pdf",
+    }
+
+    const data = await loadProjectExportData(body.projectId, userId, options)
+    const bytes = renderProjectReport(data, options)
+    const fileName = `${data.project.name.replace(/[^a-zA-Z0-9]/g, "_")}_report.pdf`
+
+    return new NextResponse(bytes as BodyInit, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof ExportAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    if (error instanceof ExportNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    console.error("PDF export error:", error)
+    return NextResponse.json({ error: "Failed to render PDF" }, { status: 500 })
+  }
+}
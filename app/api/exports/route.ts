@@ -0,0 +1,48 @@
+import { after, type NextRequest, NextResponse } from "next/server"
+import { AuthenticationError, verifyRequestUser } from "@/lib/ai-credits"
+import { ExportAccessError, ExportNotFoundError } from "@/lib/export-data"
+import { ExportLimitError, ExportQueue } from "@/lib/export-queue"
+import type { ExportJob, ExportJobType } from "@/lib/types"
+
+const JOB_TYPES: ExportJobType[] = ["pdf", "json", "csv", "markdown", "pitch_deck"]
+
+interface ExportJobRequest {
+  projectId?: string
+  type?: ExportJobType
+  options?: ExportJob["options"]
+}
+
+/**
+ * Queues a background export. The worker starts once the response is sent; progress is read
+ * from the job document in export_jobs.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await verifyRequestUser(request)
+    const body: ExportJobRequest = await request.json().catch(() => ({}))
+
+    if (!body.projectId || !body.type || !JOB_TYPES.includes(body.type)) {
+      return NextResponse.json({ error: "projectId and a valid type are required" }, { status: 400 })
+    }
+
+    // Queue priority comes from the caller's plan, never from the request
+    const jobId = await ExportQueue.addJob(userId, body.projectId, body.type, body.options || {})
+
+    after(() => ExportQueue.processQueue({ userId }).catch((error) => console.error("Export worker failed:", error)))
+
+    return NextResponse.json({ jobId }, { status: 202 })
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+    if (error instanceof ExportAccessError || error instanceof ExportLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    if (error instanceof ExportNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    console.error("Export queue error:", error)
+    return NextResponse.json({ error: "Failed to queue export" }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AuthenticationError, verifyRequestUser } from "@/lib/ai-credits"
+import { ExportQueue } from "@/lib/export-queue"
+
+/**
+ * Export queue worker.
+ * Called on a schedule with `Authorization: Bearer $CRON_SECRET` it runs every due job, requeues
+ * abandoned ones and deletes expired files. A signed-in user may call it to run their own due retries.
+ */
+async function runWorker(request: NextRequest) {
+  try {
+    const header = request.headers.get("authorization") || ""
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && header === `Bearer ${cronSecret}`) {
+      const processed = await ExportQueue.processQueue()
+      const expired = await ExportQueue.cleanupExpiredArtifacts()
+      return NextResponse.json({ processed, expired })
+    }
+
+    const userId = await verifyRequestUser(request)
+    const processed = await ExportQueue.processQueue({ userId })
+    return NextResponse.json({ processed })
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+
+    console.error("Export worker error:", error)
+    return NextResponse.json({ error: "Export worker failed" }, { status: 500 })
+  }
+}
+
+export const GET = runWorker
+export const POST = runWorker
@@ -1,17 +1,32 @@
 import { type NextRequest, NextResponse } from "next/server"
-
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY!
-
-/**
- * Stable FREE models (order matters)
- * Gemini free is LAST because it rate-limits a lot
- */
-const FREE_MODELS = [
-  "meta-llama/llama-3.2-3b-instruct:free",
-  "mistralai/mistral-7b-instruct:free",
-  "huggingfaceh4/zephyr-7b-beta:free",
-  "google/gemini-2.0-flash-exp:free",
-]
+import { completeWithBudget, getPromptBudget } from "@/lib/ai-provider"
+import {
+  DOC_SECTION_ORDER,
+  buildDocSectionPrompt,
+  getFallbackDocSection,
+  isDocSectionId,
+  normalizeDocSection,
+  type DocsInput,
+} from "@/lib/docs-generator"
+import { buildMentorMessages } from "@/lib/mentor-chat"
+import { buildChecklistPrompt, getFallbackChecklist, normalizeChecklist } from "@/lib/task-checklist"
+import {
+  buildTaskBreakdownPrompt,
+  getFallbackTaskBreakdown,
+  normalizeTaskBreakdown,
+  type TaskBreakdownMember,
+} from "@/lib/task-breakdown"
+import {
+  AuthenticationError,
+  InsufficientCreditsError,
+  chargeExtraCredits,
+  debitCredits,
+  isAIAction,
+  recordLedgerOutput,
+  refundCredits,
+  verifyRequestUser,
+} from "@/lib/ai-credits"
+import { AI_CREDIT_COSTS } from "@/lib/constants"
 
 /**
  * Optimized caching with longer TTL and request deduplication
@@ -24,10 +39,14 @@ const CACHE_TTL = {
   analyze_idea: 24 * 60 * 60 * 1000,    // 24 hours - analysis doesn't change
   generate_tasks: 12 * 60 * 60 * 1000,  // 12 hours - tasks are fairly stable
   mentor_chat: 60 * 60 * 1000,          // 1 hour - chat can be cached briefly
+  generate_docs: 12 * 60 * 60 * 1000,   // 12 hours - docs only change when inputs do
+  generate_checklist: 12 * 60 * 60 * 1000, // 12 hours - same task, same steps
 }
 
 interface GeminiRequest {
-  action: "analyze_idea" | "generate_tasks" | "mentor_chat"
+  action: "analyze_idea" | "generate_tasks" | "mentor_chat" | "generate_docs" | "generate_checklist"
+  skipCache?: boolean // Force a fresh answer, e.g. when regenerating a docs section
+  projectId?: string // Recorded on the credit ledger entry
   data: {
     idea?: string
     features?: string[]
@@ -36,6 +55,11 @@ interface GeminiRequest {
     projectName?: string
     duration?: string
     persona?: string
+    techStack?: string
+    description?: string
+    sections?: string[]
+    members?: TaskBreakdownMember[]
+    taskTitle?: string
   }
 }
 
@@ -55,6 +79,13 @@ function cleanAndParseJSON(text: string, expectedType: 'object' | 'array'): any
       const match = cleaned.match(/\[[\s\S]*\]/)
       if (match) cleaned = match[0]
     }
+
+    // Well-formed JSON is returned as is; the fixes below would corrupt apostrophes in prose
+    try {
+      return JSON.parse(cleaned)
+    } catch {
+      // Fall through to the repairs
+    }
     
     // Fix common JSON issues
     cleaned = cleaned
@@ -85,16 +116,10 @@ function getFallbackResponse(action: string, data: any): any {
       }
     
     case "generate_tasks":
-      return [
-        { title: "Set up project structure", description: "Initialize the project with basic folder structure and dependencies", effort: "Low" },
-        { title: "Design user interface", description: "Create wireframes and basic UI components for the application", effort: "Medium" },
-        { title: "Implement core functionality", description: "Build the main features and business logic of the application", effort: "High" },
-        { title: "Add styling and polish", description: "Improve the visual design and user experience", effort: "Medium" },
-        { title: "Test and debug", description: "Fix bugs and ensure everything works properly", effort: "Medium" },
-        { title: "Prepare presentation", description: "Create demo materials and presentation for judges", effort: "Low" },
-        { title: "Deploy application", description: "Set up hosting and deploy the final version", effort: "Low" },
-        { title: "Documentation", description: "Write README and basic documentation", effort: "Low" }
-      ]
+      return getFallbackTaskBreakdown(data.members || [])
+
+    case "generate_checklist":
+      return getFallbackChecklist(data.taskTitle || "this task")
     
     default:
       return null
@@ -106,64 +131,27 @@ function getCacheKey(action: string, data: any): string {
 }
 
 async function callAI(prompt: string): Promise<string> {
-  let lastError: Error | null = null
-
-  for (const model of FREE_MODELS) {
-    try {
-      const response = await fetch(
-        "https://openrouter.ai/api/v1/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${OPENROUTER_API_KEY}`,
-            "Content-Type": "application/json",
-            "HTTP-Referer": "https://hackmate.vercel.app",
-            "X-Title": "HackMate AI",
-          },
-          body: JSON.stringify({
-            model,
-            messages: [{ role: "user", content: prompt.slice(0, 2000) }], // token safety
-            temperature: 0.7, // Optimize for consistency
-            max_tokens: 1000, // Limit response size
-          }),
-        }
-      )
-
-      // Handle rate limit with exponential backoff
-      if (response.status === 429) {
-        console.warn(`⚠️ ${model} rate-limited. Waiting...`)
-        const retryAfter = parseInt(response.headers.get('retry-after') || '2')
-        await new Promise((res) => setTimeout(res, retryAfter * 1000))
-        continue
-      }
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        lastError = new Error(errorText)
-        continue
-      }
-
-      const data = await response.json()
-      const content = data?.choices?.[0]?.message?.content
-
-      if (content) return content
-    } catch (err) {
-      lastError = err instanceof Error ? err : new Error("Unknown error")
-      continue
-    }
-  }
-
-  throw lastError || new Error("All AI models failed")
+  return completeWithBudget([{ role: "user", content: prompt }], {
+    temperature: 0.7, // Optimize for consistency
+    maxTokens: 1000, // Limit response size
+  })
 }
 
 export async function POST(request: NextRequest) {
+  let ledgerId: string | null = null
+
   try {
+    const userId = await verifyRequestUser(request)
     const body: GeminiRequest = await request.json()
     const { action, data } = body
 
+    if (!isAIAction(action)) {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 })
+    }
+
     const cacheKey = getCacheKey(action, data)
     const cacheTTL = CACHE_TTL[action] || CACHE_TTL.mentor_chat
-    const cached = responseCache.get(cacheKey)
+    const cached = body.skipCache ? undefined : responseCache.get(cacheKey)
 
     // ✅ Check cache with action-specific TTL
     if (cached && Date.now() - cached.timestamp < cacheTTL) {
@@ -171,7 +159,7 @@ export async function POST(request: NextRequest) {
     }
 
     // ✅ Request deduplication - check if same request is already in flight
-    const existingRequest = pendingRequests.get(cacheKey)
+    const existingRequest = body.skipCache ? undefined : pendingRequests.get(cacheKey)
     if (existingRequest) {
       try {
         const result = await existingRequest
@@ -182,8 +170,15 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Only calls that reach the provider are metered; cached and deduplicated answers are free
+    ledgerId = await debitCredits(userId, action, {
+      projectId: body.projectId,
+      input: JSON.stringify(data),
+    })
+
     let result = ""
     let parsedResult: any = null
+    let usedFallback = false
 
     // ✅ Create promise for request deduplication
     const requestPromise = (async () => {
@@ -217,72 +212,72 @@ Return this EXACT JSON structure with NO extra text:
           }
 
           case "generate_tasks": {
-            const prompt = `You are a hackathon task generator. Create tasks for this project and return ONLY valid JSON.
-
-Project: ${data.projectName}
-Features: ${data.features?.join(", ") || "Basic functionality"}
-Duration: ${data.duration}
-
-Return this EXACT JSON array with NO extra text:
-[
-  {"title": "Task name", "description": "Brief description", "effort": "Low"},
-  {"title": "Task name", "description": "Brief description", "effort": "Medium"},
-  {"title": "Task name", "description": "Brief description", "effort": "High"}
-]
-
-Generate 6-8 realistic tasks. Use only "Low", "Medium", or "High" for effort.`
-
-            result = await callAI(prompt)
-            parsedResult = cleanAndParseJSON(result, 'array')
-            
-            // Validate array structure
-            if (!Array.isArray(parsedResult) || parsedResult.length === 0) {
-              throw new Error('Invalid task array')
-            }
-            
-            // Validate each task
-            parsedResult = parsedResult.map((task: any) => ({
-              title: task.title || "Untitled Task",
-              description: task.description || "No description provided",
-              effort: ["Low", "Medium", "High"].includes(task.effort) ? task.effort : "Medium"
-            }))
+            const members = data.members || []
+            const prompt = buildTaskBreakdownPrompt({
+              projectName: data.projectName || "Untitled Project",
+              features: data.features || [],
+              duration: data.duration || "",
+              members,
+            })
+
+            // The graph needs more room than a flat list
+            result = await completeWithBudget([{ role: "user", content: prompt }], { temperature: 0.7, maxTokens: 2000 })
+            parsedResult = normalizeTaskBreakdown(cleanAndParseJSON(result, 'array'), members)
             
             result = JSON.stringify(parsedResult)
             break
           }
 
-          case "mentor_chat": {
-            const persona = data.persona || "general";
-            const projectContext = typeof data.context === 'string' ? data.context : JSON.stringify(data.context);
-            
-            let systemInstruction = "";
-            switch (persona) {
-              case "technical":
-                systemInstruction = "You are a Senior Chief Technology Officer (CTO) mentor. Focus on architecture, code quality, best practices, scalability, and solving specific bugs. Provide code snippets where helpful.";
-                break;
-              case "product":
-                systemInstruction = "You are a Lead Product Manager mentor. Focus on user value, MVP definition, feature prioritization, 'jobs to be done', and user experience. Helps cut scope to meet deadlines.";
-                break;
-              case "pitch":
-                systemInstruction = "You are a Pitch Deck Coach and Venture Capitalist. Focus on storytelling, the 'hook', business model, market size, and presentation delivery. Critique the pitch.";
-                break;
-              default:
-                systemInstruction = "You are an experienced Hackathon Guide. You provide balanced advice on teamwork, time management, stress reduction, and overall project success.";
-            }
-
-            const prompt = `${systemInstruction}
+          case "generate_checklist": {
+            const prompt = buildChecklistPrompt({
+              title: data.taskTitle || "Untitled task",
+              description: data.description,
+              projectName: data.projectName,
+              techStack: data.techStack,
+            })
 
-You are helping a team at a hackathon. Time is critical.
-Be encouraging but direct. Use Markdown formatting.
-
-Project Context:
-${projectContext}
-
-User Question: ${data.question}
+            result = await callAI(prompt)
+            result = JSON.stringify(normalizeChecklist(cleanAndParseJSON(result, 'array')))
+            break
+          }
 
-Response:`;
+          case "mentor_chat": {
+            const messages = await buildMentorMessages(data, getPromptBudget(), {
+              scope: userId,
+              onSummarize: () => chargeExtraCredits(ledgerId!, AI_CREDIT_COSTS.history_summary),
+            })
+            result = await completeWithBudget(messages)
+            break
+          }
 
-            result = await callAI(prompt)
+          case "generate_docs": {
+            const input: DocsInput = {
+              projectName: data.projectName || "Untitled Project",
+              techStack: data.techStack || "",
+              description: data.description || "",
+              features: data.features || [],
+              context: data.context,
+            }
+            const requested = (data.sections || []).filter(isDocSectionId)
+            const sectionIds = requested.length > 0 ? requested : DOC_SECTION_ORDER
+
+            // Sections are generated independently so one bad answer only falls back for that section
+            let failedSections = 0
+            const sections = await Promise.all(
+              sectionIds.map(async (id) => {
+                try {
+                  const raw = await callAI(buildDocSectionPrompt(id, input))
+                  return normalizeDocSection(id, cleanAndParseJSON(raw, 'object'))
+                } catch (sectionError) {
+                  console.warn(`Docs section ${id} failed, using fallback:`, sectionError)
+                  failedSections++
+                  return getFallbackDocSection(id, input)
+                }
+              })
+            )
+
+            usedFallback = failedSections === sectionIds.length
+            result = JSON.stringify({ sections })
             break
           }
 
@@ -295,9 +290,10 @@ Response:`;
         console.warn(`AI failed for ${action}, using fallback:`, aiError)
         
         // Use fallback responses for structured data
-        if (action === "analyze_idea" || action === "generate_tasks") {
+        if (action === "analyze_idea" || action === "generate_tasks" || action === "generate_checklist") {
           const fallback = getFallbackResponse(action, data)
           if (fallback) {
+            usedFallback = true
             return JSON.stringify(fallback)
           }
         }
@@ -315,6 +311,14 @@ Response:`;
       pendingRequests.delete(cacheKey)
     }
 
+    // Canned fallbacks are not charged for, and not cached so the next call retries the AI
+    if (usedFallback) {
+      await refundCredits(ledgerId, "fallback")
+      return NextResponse.json({ result, fallback: true })
+    }
+
+    await recordLedgerOutput(ledgerId, result)
+
     // ✅ Cache response with action-specific TTL
     responseCache.set(cacheKey, {
       result,
@@ -323,6 +327,23 @@ Response:`;
 
     return NextResponse.json({ result })
   } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return NextResponse.json({ error: error.message }, { status: 401 })
+    }
+
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: error.message, code: "insufficient_credits", required: error.required, remaining: error.remaining },
+        { status: 402 }
+      )
+    }
+
+    if (ledgerId) {
+      await refundCredits(ledgerId, "provider_error").catch((refundError) =>
+        console.error("AI credit refund failed:", refundError)
+      )
+    }
+
     console.error("AI API Error:", error)
     return NextResponse.json(
       { error: "AI is temporarily busy. Please try again." },
@@ -0,0 +1,115 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getPromptBudget, streamWithBudget } from "@/lib/ai-provider"
+import { encodeServerSentEvent } from "@/lib/ai-stream"
+import { buildMentorMessages, type MentorChatInput } from "@/lib/mentor-chat"
+import {
+  AuthenticationError,
+  InsufficientCreditsError,
+  chargeExtraCredits,
+  debitCredits,
+  recordLedgerOutput,
+  refundCredits,
+  verifyRequestUser,
+} from "@/lib/ai-credits"
+import { AI_CREDIT_COSTS } from "@/lib/constants"
+
+interface StreamRequest {
+  action: "mentor_chat"
+  projectId?: string
+  data: MentorChatInput
+}
+
+/**
+ * Streaming variant of /api/gemini for conversational actions.
+ * Emits SSE events: `delta` ({ text }) per chunk, then `done` or `error`.
+ * Responses are not cached; when the client disconnects the upstream request is aborted.
+ * Credits are debited up front and refunded if the stream fails before producing any text.
+ */
+export async function POST(request: NextRequest) {
+  let userId: string
+  try {
+    userId = await verifyRequestUser(request)
+  } catch (error) {
+    const message = error instanceof AuthenticationError ? error.message : "Authentication required"
+    return NextResponse.json({ error: message }, { status: 401 })
+  }
+
+  let body: StreamRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+  }
+
+  if (body.action !== "mentor_chat") {
+    return NextResponse.json({ error: "Invalid action" }, { status: 400 })
+  }
+
+  let ledgerId: string
+  try {
+    ledgerId = await debitCredits(userId, body.action, {
+      projectId: body.projectId,
+      input: JSON.stringify(body.data),
+    })
+  } catch (error) {
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: error.message, code: "insufficient_credits", required: error.required, remaining: error.remaining },
+        { status: 402 }
+      )
+    }
+    console.error("AI credit debit failed:", error)
+    return NextResponse.json({ error: "Could not verify AI credits. Please try again." }, { status: 503 })
+  }
+
+  const upstream = new AbortController()
+  request.signal.addEventListener("abort", () => upstream.abort())
+
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let output = ""
+      try {
+        const messages = await buildMentorMessages(body.data || {}, getPromptBudget(), {
+          scope: userId,
+          onSummarize: () => chargeExtraCredits(ledgerId, AI_CREDIT_COSTS.history_summary),
+        })
+        for await (const text of streamWithBudget(messages, {}, upstream.signal)) {
+          output += text
+          controller.enqueue(encoder.encode(encodeServerSentEvent("delta", { text })))
+        }
+        controller.enqueue(encoder.encode(encodeServerSentEvent("done", {})))
+      } catch (error) {
+        if (!upstream.signal.aborted) {
+          console.error("AI stream error:", error)
+          controller.enqueue(
+            encoder.encode(encodeServerSentEvent("error", { error: "AI is temporarily busy. Please try again." }))
+          )
+        }
+      } finally {
+        try {
+          controller.close()
+        } catch {
+          // Already closed by a cancelled reader
+        }
+
+        // A stopped stream is still charged for the text it produced
+        const settle = output
+          ? recordLedgerOutput(ledgerId, output)
+          : refundCredits(ledgerId, upstream.signal.aborted ? "cancelled" : "provider_error")
+        await settle.catch((ledgerError) => console.error("AI credit ledger update failed:", ledgerError))
+      }
+    },
+    cancel() {
+      upstream.abort()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
@@ -68,6 +68,7 @@ export async function GET(req: NextRequest) {
       message: commit.commit.message,
       author: {
         name: commit.commit.author.name,
+        login: commit.author?.login,
         date: commit.commit.author.date,
         avatar_url: commit.author?.avatar_url
       },
@@ -1,6 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { AuthenticationError, verifyRequestUser } from '@/lib/ai-credits';
+import { getAdminDb } from '@/lib/firebase-admin';
 import { NodemailerService } from '@/lib/nodemailer-service';
 
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://hackmate-ai.vercel.app';
+
+class MentionEmailError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'MentionEmailError';
+  }
+}
+
+/**
+ * Emails the members mentioned in a stored comment. Everything but the ids is read from Firestore,
+ * so callers can only notify project members they actually mentioned, with a link built here.
+ */
+async function sendMentionEmails(userId: string, taskId: unknown, commentId: unknown): Promise<void> {
+  if (typeof taskId !== 'string' || typeof commentId !== 'string' || !taskId || !commentId) {
+    throw new MentionEmailError('taskId and commentId are required', 400);
+  }
+
+  const db = getAdminDb();
+  const taskRef = db.collection('tasks').doc(taskId);
+  const [taskSnap, commentSnap] = await Promise.all([taskRef.get(), taskRef.collection('comments').doc(commentId).get()]);
+  if (!taskSnap.exists || !commentSnap.exists) throw new MentionEmailError('Comment not found', 404);
+  if (commentSnap.get('author_id') !== userId) {
+    throw new MentionEmailError('Only the author of a comment can email its mentions', 403);
+  }
+
+  const projectId: string = taskSnap.get('project_id');
+  const projectSnap = await db.collection('projects').doc(projectId).get();
+  const memberIds: string[] = projectSnap.get('members') || [];
+  const mentions = ((commentSnap.get('mentions') || []) as string[]).filter((id) => id !== userId && memberIds.includes(id));
+  if (mentions.length === 0) return;
+
+  const [authorSnap, ...recipientSnaps] = await db.getAll(...[userId, ...mentions].map((id) => db.collection('users').doc(id)));
+  const taskUrl = `${APP_URL}/project/${encodeURIComponent(projectId)}?tab=tasks&task=${encodeURIComponent(taskId)}`;
+
+  await Promise.all(
+    recipientSnaps
+      .filter((recipient) => recipient.get('email'))
+      .map((recipient) =>
+        NodemailerService.sendMentionEmail(
+          recipient.get('email'),
+          authorSnap.get('name') || 'A teammate',
+          projectSnap.get('name') || 'your project',
+          taskSnap.get('title'),
+          commentSnap.get('body'),
+          taskUrl
+        )
+      )
+  );
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Check environment variables first
@@ -52,6 +105,13 @@ export async function POST(request: NextRequest) {
         );
         break;
 
+      case 'mention': {
+        const userId = await verifyRequestUser(request);
+        console.log('Sending mention emails for comment:', data.commentId);
+        await sendMentionEmails(userId, data.taskId, data.commentId);
+        break;
+      }
+
       case 'custom':
         console.log('Sending custom email to:', data.to);
         await NodemailerService.sendEmail({
@@ -72,6 +132,13 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+    if (error instanceof MentionEmailError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     console.error('Email sending failed:', error);
     
     // More detailed error information
@@ -9,6 +9,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useAuth } from '@/lib/auth-context';
 import { UserProfile } from '@/components/auth/user-profile';
 import { CreateProjectDialog } from '@/components/projects/create-project-dialog';
+import { ImportProjectDialog } from '@/components/projects/import-project-dialog';
 import { JoinTeamDialog } from '@/components/teams/join-team-dialog';
 import { ProjectsList } from '@/components/projects/projects-list';
 import { USER_TYPE_DISPLAY_NAMES, TIER_DISPLAY_NAMES } from '@/lib/constants';
@@ -21,7 +22,9 @@ import {
   Zap,
   BarChart3,
   Calendar,
-  LogOut
+  LogOut,
+  Gavel,
+  Upload
 } from 'lucide-react';
 
 export function DashboardContent() {
@@ -239,6 +242,15 @@ export function DashboardContent() {
                 </div>
               </div>
               
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => router.push('/judging')}
+                title="Judging queue"
+              >
+                <Gavel className="h-4 w-4" />
+              </Button>
+              
               <Button
                 variant="ghost"
                 size="sm"
@@ -318,11 +330,19 @@ export function DashboardContent() {
           {/* Projects Section */}
           <div id="projects-section">
             <Card>
-              <CardHeader>
-                <CardTitle>My Projects</CardTitle>
-                <CardDescription>
-                  Your active and recent projects
-                </CardDescription>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>My Projects</CardTitle>
+                  <CardDescription>
+                    Your active and recent projects
+                  </CardDescription>
+                </div>
+                <ImportProjectDialog onImported={handleProjectCreated}>
+                  <Button variant="outline" size="sm">
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import
+                  </Button>
+                </ImportProjectDialog>
               </CardHeader>
               <CardContent>
                 <ProjectsList 
@@ -1,16 +1,40 @@
 "use client"
 
-import { useState } from "react"
+import { useMemo, useState } from "react"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { Loader2, ArrowLeft, Sparkles, Copy, FileText, Download, Printer } from "lucide-react"
+import { Loader2, ArrowLeft, Sparkles, Copy, FileText, Download, Printer, RefreshCw } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
-import ReactMarkdown from "react-markdown"
+import ReactMarkdown, { type Components } from "react-markdown"
 import { MermaidDiagram } from "@/components/mermaid-diagram"
+import { renderDocs, renderDocSection } from "@/lib/docs-generator"
+import { getAIRequestHeaders } from "@/lib/ai-client"
+import type { DocSection, DocSectionId } from "@/lib/types"
+
+const markdownComponents: Components = {
+    code({ node, className, children, ...props }) {
+        const match = /language-(\w+)/.exec(className || "")
+        const isMermaid = match && match[1] === "mermaid"
+
+        if (isMermaid) {
+            return (
+                <div className="flex justify-center p-4 my-4 bg-white rounded-lg border border-gray-200 shadow-sm">
+                    <MermaidDiagram chart={String(children).replace(/\n$/, "")} />
+                </div>
+            )
+        }
+
+        return (
+            <code className={className} {...props}>
+                {children}
+            </code>
+        )
+    }
+}
 
 export default function DocsGeneratorPage() {
     const router = useRouter()
@@ -22,7 +46,42 @@ export default function DocsGeneratorPage() {
     const [features, setFeatures] = useState("")
     const [context, setContext] = useState("") // GitHub README or code
     const [isGenerating, setIsGenerating] = useState(false)
-    const [generatedDocs, setGeneratedDocs] = useState("")
+    const [docsTitle, setDocsTitle] = useState("")
+    const [sections, setSections] = useState<DocSection[]>([])
+    const [regeneratingId, setRegeneratingId] = useState<DocSectionId | null>(null)
+
+    const generatedDocs = useMemo(
+        () => (sections.length > 0 ? renderDocs(docsTitle, sections) : ""),
+        [docsTitle, sections]
+    )
+
+    // Omitting sectionIds generates every section
+    const requestSections = async (sectionIds?: DocSectionId[]): Promise<DocSection[]> => {
+        const response = await fetch("/api/gemini", {
+            method: "POST",
+            headers: await getAIRequestHeaders(),
+            body: JSON.stringify({
+                action: "generate_docs",
+                skipCache: !!sectionIds,
+                data: {
+                    projectName,
+                    techStack,
+                    description,
+                    features: features.split("\n").filter(f => f.trim()),
+                    context,
+                    sections: sectionIds,
+                },
+            }),
+        })
+
+        const data = await response.json()
+
+        if (data.error) {
+            throw new Error(data.error)
+        }
+
+        return JSON.parse(data.result).sections
+    }
 
     const handleGenerate = async () => {
         if (!projectName.trim() || !techStack.trim() || !description.trim()) {
@@ -35,31 +94,11 @@ export default function DocsGeneratorPage() {
         }
 
         setIsGenerating(true)
-        setGeneratedDocs("")
+        setSections([])
 
         try {
-            const response = await fetch("/api/gemini", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    action: "generate_docs",
-                    data: {
-                        projectName,
-                        techStack,
-                        description,
-                        features: features.split("\n").filter(f => f.trim()),
-                        context,
-                    },
-                }),
-            })
-
-            const data = await response.json()
-
-            if (data.error) {
-                throw new Error(data.error)
-            }
-
-            setGeneratedDocs(data.result)
+            setSections(await requestSections())
+            setDocsTitle(projectName)
             toast({
                 title: "Documentation generated!",
                 description: "Review and download your docs below.",
@@ -75,6 +114,24 @@ export default function DocsGeneratorPage() {
         }
     }
 
+    const handleRegenerateSection = async (id: DocSectionId) => {
+        setRegeneratingId(id)
+
+        try {
+            const [section] = await requestSections([id])
+            setSections(prev => prev.map(s => (s.id === id ? section : s)))
+            toast({ title: `${section.title} regenerated` })
+        } catch (error: any) {
+            toast({
+                title: "Regeneration failed",
+                description: error.message || "Something went wrong. Please try again.",
+                variant: "destructive",
+            })
+        } finally {
+            setRegeneratingId(null)
+        }
+    }
+
     const handleCopy = async () => {
         try {
             await navigator.clipboard.writeText(generatedDocs)
@@ -339,30 +396,24 @@ export default function DocsGeneratorPage() {
                                         id="pdf-content"
                                         className="prose dark:prose-invert max-w-none h-[calc(100vh-300px)] overflow-y-auto p-4 border rounded-md bg-white dark:bg-zinc-950 text-black dark:text-gray-100 print:h-auto print:overflow-visible print:border-none print:p-0"
                                     >
-                                        <ReactMarkdown
-                                            components={{
-                                                code({ node, className, children, ...props }) {
-                                                    const match = /language-(\w+)/.exec(className || "")
-                                                    const isMermaid = match && match[1] === "mermaid"
-
-                                                    if (isMermaid) {
-                                                        return (
-                                                            <div className="flex justify-center p-4 my-4 bg-white rounded-lg border border-gray-200 shadow-sm">
-                                                                <MermaidDiagram chart={String(children).replace(/\n$/, "")} />
-                                                            </div>
-                                                        )
-                                                    }
-
-                                                    return (
-                                                        <code className={className} {...props}>
-                                                            {children}
-                                                        </code>
-                                                    )
-                                                }
-                                            }}
-                                        >
-                                            {generatedDocs}
-                                        </ReactMarkdown>
+                                        <h1>{docsTitle}</h1>
+                                        {sections.map(section => (
+                                            <div key={section.id} className="relative group">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    className="absolute right-0 top-0 print:hidden"
+                                                    onClick={() => handleRegenerateSection(section.id)}
+                                                    disabled={isGenerating || regeneratingId !== null}
+                                                >
+                                                    <RefreshCw className={`h-4 w-4 mr-2 ${regeneratingId === section.id ? "animate-spin" : ""}`} />
+                                                    Regenerate
+                                                </Button>
+                                                <ReactMarkdown components={markdownComponents}>
+                                                    {renderDocSection(section)}
+                                                </ReactMarkdown>
+                                            </div>
+                                        ))}
                                     </div>
                                 ) : (
                                     <div className="h-full flex flex-col items-center justify-center text-muted-foreground p-8 border-2 border-dashed rounded-md print:hidden">
@@ -1,7 +1,7 @@
 "use client"
 
 import { useState, useEffect, useRef, useMemo } from "react"
-import { useParams, useRouter } from "next/navigation"
+import { useParams, useRouter, useSearchParams } from "next/navigation"
 import { useAuth } from "@/lib/auth-context"
 import {
   DndContext,
@@ -19,38 +19,62 @@ import { CSS } from "@dnd-kit/utilities"
 import {
   getProject,
   updateProjectIdea,
-  addTask,
-  updateTask,
-  deleteTask,
+  createTasks,
+  reserveTaskIds,
   updateDemoMode,
   updateProjectUrls,
   subscribeToProject,
   subscribeToTasks,
+  subscribeToTaskStatusHistory,
   subscribeToMessages,
   getProjectMembers,
-  uploadResource,
   subscribeToResources,
   addActivity,
   subscribeToActivities,
   createNotification,
   subscribeToNotifications,
   deleteProject,
-  deleteResource,
   removeMemberFromProject,
+  getTask,
+  getResource,
 } from "@/lib/firestore"
-import { Project, Task, ChatMessage, IdeaAnalysis, ProjectMember, SharedResource, LiveActivity, TeamNotification, SubscriptionTier } from "@/lib/types"
-import { SubscriptionService, UsageTracker } from "@/lib/subscription-service"
+import { applyPendingMutations, newDocumentId, saveOrQueue, subscribeToOutboxRefreshes } from "@/lib/offline-outbox"
+import { Project, Task, TaskDraft, TaskStatusTransition, ChatMessage, IdeaAnalysis, ProjectMember, SharedResource, LiveActivity, TeamNotification, SubscriptionTier } from "@/lib/types"
 import { UpgradeDialog } from "@/components/subscription/upgrade-dialog"
 import { GitHubCollaboration } from "@/components/github-collaboration"
 import { ExportDialog } from "@/components/projects/export-dialog"
+import { ImportProjectDialog } from "@/components/projects/import-project-dialog"
+import { ExportHistory } from "@/components/projects/export-history"
+import { TaskBreakdownReview } from "@/components/projects/task-breakdown-review"
+import { TaskDependencyGraph } from "@/components/projects/task-dependency-graph"
+import { BlockTaskDialog } from "@/components/projects/block-task-dialog"
+import { TaskTimer } from "@/components/projects/task-timer"
+import { TaskChecklist } from "@/components/projects/task-checklist"
+import { TaskComments } from "@/components/projects/task-comments"
+import { SyncStatusIndicator } from "@/components/projects/sync-status-indicator"
+import { ConflictMergeDialog } from "@/components/projects/conflict-merge-dialog"
 import { InviteMembersDialog } from "@/components/teams/invite-members-dialog"
 import { AdvancedAnalytics } from "@/components/analytics/advanced-analytics"
+import { TaskFlowCharts } from "@/components/analytics/task-flow-charts"
 import { InvitationManager } from "@/components/teams/invitation-manager"
+import { TeamWellbeing } from "@/components/teams/team-wellbeing"
 import { AIMentorChat } from "@/components/ai/ai-mentor-chat"
 import { JudgeFeedbackSystem } from "@/components/judging/judge-feedback-system"
-import { ConflictResolver } from "@/lib/conflict-resolution"
+import { HackathonEntry } from "@/components/projects/hackathon-entry"
+import { getJudgeAssignment } from "@/lib/judging-service"
 import { CloudStorageService } from "@/lib/cloud-storage"
-import { ExportQueue } from "@/lib/export-queue"
+import { getAIRequestHeaders } from "@/lib/ai-client"
+import { draftsToTasks, validateTaskGraph } from "@/lib/task-breakdown"
+import { analyzeCriticalPath, getBlockingTasks } from "@/lib/task-graph"
+import { getProjectWindow, getVelocity } from "@/lib/task-flow"
+import type { BurnoutCommit } from "@/lib/burnout-risk"
+import {
+  buildBlockUpdate,
+  buildUnblockUpdate,
+  describeBlocker,
+  getBlockerAlertRecipients,
+  type BlockerInput,
+} from "@/lib/task-blockers"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -106,6 +130,11 @@ import {
   RefreshCcw,
   Award,
   Mail,
+  GitBranch,
+  LayoutGrid,
+  Lock,
+  Flame,
+  Ban,
 } from "lucide-react"
 import {
   archiveProject,
@@ -122,6 +151,7 @@ interface RetryState {
 export default function ProjectPage() {
   const params = useParams()
   const router = useRouter()
+  const searchParams = useSearchParams()
   const { user, loading: authLoading, updateUserProfile } = useAuth()
   const { toast } = useToast()
   const projectId = params.id as string
@@ -147,6 +177,7 @@ export default function ProjectPage() {
   const [members, setMembers] = useState<ProjectMember[]>([])
   const [resources, setResources] = useState<SharedResource[]>([])
   const [activities, setActivities] = useState<LiveActivity[]>([])
+  const [statusHistory, setStatusHistory] = useState<TaskStatusTransition[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -164,6 +195,11 @@ export default function ProjectPage() {
   const [ideaInput, setIdeaInput] = useState("")
   const [isAnalyzingIdea, setIsAnalyzingIdea] = useState(false)
   const [isGeneratingTasks, setIsGeneratingTasks] = useState(false)
+  const [taskDrafts, setTaskDrafts] = useState<TaskDraft[]>([])
+  const [taskReviewOpen, setTaskReviewOpen] = useState(false)
+  const [isSavingTaskDrafts, setIsSavingTaskDrafts] = useState(false)
+  const [taskView, setTaskView] = useState<"board" | "graph">("board")
+  const [taskToBlock, setTaskToBlock] = useState<Task | null>(null)
 
   // Task creation state
   const [newTaskTitle, setNewTaskTitle] = useState("")
@@ -209,7 +245,6 @@ export default function ProjectPage() {
 
   // Advanced features state
   const [cloudStorageConnected, setCloudStorageConnected] = useState(false)
-  const [exportJobs, setExportJobs] = useState<any[]>([])
 
   // Retry state
   const [retryState, setRetryState] = useState<RetryState>({
@@ -217,11 +252,16 @@ export default function ProjectPage() {
     retryAfter: 0,
     action: null,
   })
+  const [outOfCredits, setOutOfCredits] = useState(false)
 
   const retryTimerRef = useRef<NodeJS.Timeout | null>(null)
 
-  // Commit count state for health score
+  // Commit count state for health score; recent commit times also feed the wellbeing check
   const [commitsCount, setCommitsCount] = useState(0)
+  const [recentCommits, setRecentCommits] = useState<BurnoutCommit[]>([])
+
+  // Only judges the organizer assigned to this project get the scoring view
+  const [isAssignedJudge, setIsAssignedJudge] = useState(false)
 
   // Hydration fix: track if component has mounted on client
   const [hasMounted, setHasMounted] = useState(false)
@@ -245,6 +285,12 @@ export default function ProjectPage() {
     return `${hours}h ${minutes}m remaining`
   }, [project?.createdAt, project?.duration, currentTime])
 
+  const criticalPath = useMemo(() => analyzeCriticalPath(tasks), [tasks])
+  const velocity = useMemo(
+    () => (project ? getVelocity(tasks, statusHistory, getProjectWindow(project), currentTime) : null),
+    [tasks, statusHistory, project?.createdAt, project?.duration, currentTime]
+  )
+
   // Set hasMounted on client and initialize currentTime
   useEffect(() => {
     setHasMounted(true)
@@ -309,13 +355,6 @@ export default function ProjectPage() {
           } catch (error) {
             console.warn('Cloud storage initialization failed:', error)
           }
-
-          // Initialize export queue
-          ExportQueue.initialize()
-
-          // Load export jobs
-          const userJobs = ExportQueue.getUserJobs(user.uid)
-          setExportJobs(userJobs)
         }
 
         // Load project members
@@ -336,8 +375,13 @@ export default function ProjectPage() {
             if (mounted && p) setProject(p)
           })
 
+          // Changes still waiting in the offline outbox stay visible over the server copy
           const unsubTasks = subscribeToTasks(projectId, (t) => {
-            if (mounted) setTasks(t)
+            if (mounted) setTasks(applyPendingMutations("tasks", projectId, t))
+          })
+
+          const unsubStatusHistory = subscribeToTaskStatusHistory(projectId, (h) => {
+            if (mounted) setStatusHistory(h)
           })
 
           const unsubMessages = subscribeToMessages(projectId, (m) => {
@@ -345,7 +389,7 @@ export default function ProjectPage() {
           })
 
           const unsubResources = subscribeToResources(projectId, (r) => {
-            if (mounted) setResources(r)
+            if (mounted) setResources(applyPendingMutations("shared_resources", projectId, r))
           })
 
           const unsubActivities = subscribeToActivities(projectId, (a) => {
@@ -355,6 +399,7 @@ export default function ProjectPage() {
           return () => {
             unsubProject()
             unsubTasks()
+            unsubStatusHistory()
             unsubMessages()
             unsubResources()
             unsubActivities()
@@ -375,6 +420,46 @@ export default function ProjectPage() {
     }
   }, [projectId, user, authLoading, router])
 
+  // A queued change the server rejected never reaches the snapshot listeners, so reload that record
+  useEffect(() => {
+    return subscribeToOutboxRefreshes(async (mutation) => {
+      if (mutation.projectId !== projectId) return
+      try {
+        if (mutation.collection === "tasks") {
+          const task = await getTask(mutation.docId)
+          setTasks((prev) => {
+            if (!task) return prev.filter((t) => t.task_id !== mutation.docId)
+            return prev.some((t) => t.task_id === task.task_id)
+              ? prev.map((t) => (t.task_id === task.task_id ? task : t))
+              : [...prev, task]
+          })
+        } else if (mutation.collection === "shared_resources") {
+          const resource = await getResource(mutation.docId)
+          setResources((prev) => {
+            if (!resource) return prev.filter((r) => r.resource_id !== mutation.docId)
+            return prev.some((r) => r.resource_id === resource.resource_id)
+              ? prev.map((r) => (r.resource_id === resource.resource_id ? resource : r))
+              : [...prev, resource]
+          })
+        }
+      } catch (err) {
+        console.error("Failed to reload record after a rejected change:", err)
+      }
+    })
+  }, [projectId])
+
+  // Check whether the current user is assigned to judge this project
+  useEffect(() => {
+    if (!user || !projectId) return
+    let cancelled = false
+    getJudgeAssignment(projectId, user.uid).then((assignment) => {
+      if (!cancelled) setIsAssignedJudge(!!assignment)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [projectId, user])
+
   // Fetch commit count for health score
   useEffect(() => {
     if (!project?.github_repo) return
@@ -387,6 +472,9 @@ export default function ProjectPage() {
         const data = await response.json()
         if (response.ok && data.commits) {
           setCommitsCount(data.commits.length)
+          setRecentCommits(
+            data.commits.map((c: any) => ({ author: c.author?.login || c.author?.name || "", date: c.author?.date }))
+          )
         }
       } catch (err) {
         console.error("Failed to fetch commit count for health:", err)
@@ -410,6 +498,9 @@ export default function ProjectPage() {
       throw new Error(`Rate limited. Retry in ${data.retryAfter}s`)
     }
 
+    // Credits are metered server-side; a 402 means this month's allowance is spent
+    if (response.status === 402 && data.code === "insufficient_credits") setOutOfCredits(true)
+
     if (data.error) throw new Error(data.error)
     return data
   }
@@ -419,24 +510,25 @@ export default function ProjectPage() {
     if (!ideaInput.trim() || !project) return
     if (retryState.isRetrying) return
 
-    // Check AI credits
-    const usage = UsageTracker.getUsage(user!.uid);
-    if (!SubscriptionService.canUseAI(usage.aiCreditsUsed, user!.subscriptionTier as SubscriptionTier)) {
-      setError('You have reached your AI credit limit. Please upgrade your plan to continue using AI features.');
-      return;
-    }
-
     setIsAnalyzingIdea(true)
     try {
-      const data = await callApiWithRetry("analyze", () =>
+      const data = await callApiWithRetry("analyze", async () =>
         fetch("/api/gemini", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: await getAIRequestHeaders(),
           body: JSON.stringify({
             action: "analyze_idea",
+            projectId,
             data: {
               idea: ideaInput,
               duration: project.duration,
+              members: members.map(({ user_id, name, role, skills, availability }) => ({
+                user_id,
+                name,
+                role,
+                skills,
+                availability,
+              })),
             },
           }),
         }),
@@ -458,9 +550,6 @@ export default function ProjectPage() {
       await updateProjectIdea(projectId, analysis)
       setProject((prev) => (prev ? { ...prev, idea: analysis } : prev))
 
-      // Track AI usage
-      UsageTracker.incrementAICredits(user!.uid, 10); // 10 credits for idea analysis
-
       toast({
         title: "Idea analyzed!",
         description: "Your project plan is ready.",
@@ -482,21 +571,15 @@ export default function ProjectPage() {
     if (!project?.idea?.features?.length) return
     if (retryState.isRetrying) return
 
-    // Check AI credits
-    const usage = UsageTracker.getUsage(user!.uid);
-    if (!SubscriptionService.canUseAI(usage.aiCreditsUsed, user!.subscriptionTier as SubscriptionTier)) {
-      setError('You have reached your AI credit limit. Please upgrade your plan to continue using AI features.');
-      return;
-    }
-
     setIsGeneratingTasks(true)
     try {
-      const data = await callApiWithRetry("tasks", () =>
+      const data = await callApiWithRetry("tasks", async () =>
         fetch("/api/gemini", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: await getAIRequestHeaders(),
           body: JSON.stringify({
             action: "generate_tasks",
+            projectId,
             data: {
               features: project.idea?.features || [],
               projectName: project.name,
@@ -523,44 +606,9 @@ export default function ProjectPage() {
         throw new Error("No tasks were generated")
       }
 
-      let successCount = 0
-      const newTasks: Task[] = []
-      for (const task of generatedTasks) {
-        try {
-          const newTask = await addTask({
-            project_id: projectId,
-            title: task.title || "Untitled Task",
-            description: task.description || "",
-            status: "ToDo",
-            effort: task.effort || "Medium",
-            priority: task.priority || "Medium",
-            assigned_to: null,
-          })
-          if (newTask) {
-            newTasks.push(newTask)
-            successCount++
-          }
-        } catch (taskError) {
-          console.error("Failed to add task:", task.title, taskError)
-        }
-      }
-
-      // Update local state with new tasks (add to beginning for visibility)
-      if (newTasks.length > 0) {
-        setTasks((prev) => [...newTasks, ...prev])
-      }
-
-      if (successCount > 0) {
-        // Track AI usage
-        UsageTracker.incrementAICredits(user!.uid, 15); // 15 credits for task generation
-
-        toast({
-          title: "Tasks generated!",
-          description: `${successCount} tasks added to your board.`,
-        })
-      } else {
-        throw new Error("Failed to add any tasks to the board")
-      }
+      // Nothing is written until the team has reviewed the breakdown
+      setTaskDrafts(generatedTasks)
+      setTaskReviewOpen(true)
     } catch (error: any) {
       console.error("Task generation error:", error)
       toast({
@@ -572,13 +620,58 @@ export default function ProjectPage() {
       setIsGeneratingTasks(false)
     }
   }
+  const handleConfirmTaskDrafts = async (drafts: TaskDraft[]) => {
+    const issues = validateTaskGraph(drafts)
+    if (issues.length > 0) {
+      toast({
+        title: "Fix the task dependencies first",
+        description: issues[0].message,
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSavingTaskDrafts(true)
+    try {
+      const newTasks = await createTasks(draftsToTasks(drafts, projectId, reserveTaskIds(drafts.length)))
+      setTasks((prev) => [...newTasks, ...prev])
+      setTaskReviewOpen(false)
+      setTaskDrafts([])
+
+      if (user) {
+        addActivity({
+          project_id: projectId,
+          user_id: user.uid,
+          type: "task_update",
+          description: `added ${newTasks.length} AI-generated tasks`,
+        }).catch(console.error)
+      }
+
+      toast({
+        title: "Tasks generated!",
+        description: `${newTasks.length} tasks added to your board.`,
+      })
+    } catch (error: any) {
+      console.error("Failed to add generated tasks:", error)
+      toast({
+        title: "Failed to add tasks",
+        description: error.message || "Please try again in a moment.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSavingTaskDrafts(false)
+    }
+  }
+
   // Task management handlers
   const handleAddTask = async () => {
     if (!newTaskTitle.trim()) return
 
     setIsAddingTask(true)
     try {
-      const newTask = await addTask({
+      const [taskId] = reserveTaskIds(1)
+      const newTask: Task = {
+        task_id: taskId,
         project_id: projectId,
         title: newTaskTitle,
         description: newTaskDescription,
@@ -586,19 +679,33 @@ export default function ProjectPage() {
         effort: newTaskEffort,
         priority: newTaskPriority,
         assigned_to: newTaskAssignee,
-      })
-
-      if (newTask) {
-        setTasks((prev) => [...prev, newTask])
+        last_updated: new Date(),
+        created_at: new Date(),
+        time_spent: 0,
+        dependencies: [],
+        tags: [],
       }
 
+      const result = await saveOrQueue({
+        projectId,
+        collection: "tasks",
+        operation: "create",
+        docId: taskId,
+        data: newTask,
+        label: `Added "${newTask.title}"`,
+      })
+      setTasks((prev) => [...prev, newTask])
+
       setNewTaskTitle("")
       setNewTaskDescription("")
       setNewTaskEffort("Medium")
       setNewTaskPriority("Medium")
       setNewTaskAssignee(null)
       setAddTaskDialogOpen(false)
-      toast({ title: "Task added!" })
+      toast({
+        title: "Task added!",
+        description: result === "queued" ? "Saved offline. It will sync when you reconnect." : undefined,
+      })
     } catch (error: any) {
       toast({
         title: "Failed to add task",
@@ -610,46 +717,72 @@ export default function ProjectPage() {
     }
   }
 
+  // A task can't start while its prerequisites are unfinished
+  const canMoveTask = (task: Task, status: Task["status"]) => {
+    if (status !== "InProgress") return true
+
+    const blockers = getBlockingTasks(task, tasks)
+    if (blockers.length === 0) return true
+
+    toast({
+      title: "Task is blocked",
+      description: `Finish ${blockers.map((t) => `"${t.title}"`).join(", ")} first.`,
+      variant: "destructive",
+    })
+    return false
+  }
+
   const handleUpdateTaskStatus = async (taskId: string, status: Task["status"]) => {
     const originalTask = tasks.find(t => t.task_id === taskId)
     if (!originalTask || !user) return
+    if (!canMoveTask(originalTask, status)) return
 
-    // Log conflict resolution event
-    ConflictResolver.logEvent({
-      type: 'task_update',
-      resourceId: taskId,
-      userId: user.uid,
-      data: { status, previousStatus: originalTask.status }
-    })
+    // Blocking needs a reason, which the block dialog collects
+    if (status === "Blocked") {
+      if (originalTask.status !== "Blocked") setTaskToBlock(originalTask)
+      return
+    }
+
+    const updates: Partial<Task> =
+      originalTask.status === "Blocked" ? buildUnblockUpdate(originalTask, status) : { status }
 
     // Optimistic update
-    setTasks((prev) => prev.map((t) => (t.task_id === taskId ? { ...t, status } : t)))
+    setTasks((prev) => prev.map((t) => (t.task_id === taskId ? { ...t, ...updates } : t)))
 
     try {
-      await updateTask(taskId, { status })
+      const description = `Moved "${originalTask.title}" to ${status}`
+      await saveOrQueue({
+        projectId,
+        collection: "tasks",
+        operation: "update",
+        docId: taskId,
+        data: updates,
+        previous: originalTask,
+        label: description,
+      })
 
-      // Add activity
-      await addActivity({
+      // Not awaited: offline, Firestore holds these until it reconnects
+      addActivity({
         project_id: projectId,
         user_id: user.uid,
         type: "task_update",
-        description: `Moved "${originalTask.title}" to ${status}`,
-      })
+        description,
+      }).catch(console.error)
 
       // Create notification for assigned user if different
       if (originalTask.assigned_to && originalTask.assigned_to !== user.uid) {
-        await createNotification({
+        createNotification({
           project_id: projectId,
           user_id: originalTask.assigned_to,
           type: "task_assigned",
           title: "Task Updated",
           message: `${user.displayName || "Team member"} moved "${originalTask.title}" to ${status}`,
           read: false,
-        })
+        }).catch(console.error)
       }
     } catch (error) {
       // Revert on error
-      setTasks((prev) => prev.map((t) => (t.task_id === taskId ? { ...t, status: originalTask.status } : t)))
+      setTasks((prev) => prev.map((t) => (t.task_id === taskId ? originalTask : t)))
       toast({
         title: "Update failed",
         description: "Failed to update task status.",
@@ -658,21 +791,75 @@ export default function ProjectPage() {
     }
   }
 
+  const handleBlockTask = async (task: Task, blocker: BlockerInput) => {
+    if (!user) return
+
+    const updates = buildBlockUpdate(blocker)
+    setTasks((prev) => prev.map((t) => (t.task_id === task.task_id ? { ...t, ...updates } : t)))
+
+    try {
+      await saveOrQueue({
+        projectId,
+        collection: "tasks",
+        operation: "update",
+        docId: task.task_id,
+        data: updates,
+        previous: task,
+        label: `Blocked "${task.title}"`,
+      })
+      setTaskToBlock(null)
+
+      const description = describeBlocker(updates.blocker!, tasks, members)
+      addActivity({
+        project_id: projectId,
+        user_id: user.uid,
+        type: "task_update",
+        description: `Marked "${task.title}" as blocked: ${description}`,
+      }).catch(console.error)
+
+      const recipients = getBlockerAlertRecipients(task, blocker, tasks, members, user.uid)
+      Promise.all(
+        recipients.map((userId) =>
+          createNotification({
+            project_id: projectId,
+            user_id: userId,
+            type: "blocker_alert",
+            title: `Blocked: ${task.title}`,
+            message: `${user.displayName || "Team member"} is blocked: ${description}`,
+            read: false,
+          })
+        )
+      ).catch(console.error)
+
+      toast({
+        title: "Task blocked",
+        description: recipients.length > 0 ? `Alerted ${recipients.length} teammate${recipients.length === 1 ? "" : "s"}.` : undefined,
+      })
+    } catch (error) {
+      setTasks((prev) => prev.map((t) => (t.task_id === task.task_id ? task : t)))
+      toast({
+        title: "Update failed",
+        description: "Failed to mark the task as blocked.",
+        variant: "destructive",
+      })
+    }
+  }
+
   const handleAssignTask = async (taskId: string, assignedTo: string | null) => {
     const originalTask = tasks.find(t => t.task_id === taskId)
     if (!originalTask || !user) return
 
-    // Log conflict resolution event
-    ConflictResolver.logEvent({
-      type: 'task_assignment',
-      resourceId: taskId,
-      userId: user.uid,
-      data: { assignedTo, previousAssignedTo: originalTask.assigned_to }
-    })
-
     setTasks((prev) => prev.map((t) => (t.task_id === taskId ? { ...t, assigned_to: assignedTo } : t)))
     try {
-      await updateTask(taskId, { assigned_to: assignedTo })
+      await saveOrQueue({
+        projectId,
+        collection: "tasks",
+        operation: "update",
+        docId: taskId,
+        data: { assigned_to: assignedTo },
+        previous: originalTask,
+        label: `${assignedTo ? "Assigned" : "Unassigned"} "${originalTask.title}"`,
+      })
       toast({ title: assignedTo ? "Task assigned!" : "Task unassigned!" })
     } catch (error) {
       // Revert on error
@@ -686,11 +873,22 @@ export default function ProjectPage() {
     }
   }
 
+  // Until the merge dialog settles a conflict the board shows what is stored
+  const handleTaskConflict = (taskId: string, theirs: Partial<Task>) => {
+    setTasks((prev) => prev.map((t) => (t.task_id === taskId ? { ...t, ...theirs } : t)))
+  }
+
   const handleDeleteTask = async (taskId: string) => {
     const taskToDelete = tasks.find((t) => t.task_id === taskId)
     setTasks((prev) => prev.filter((t) => t.task_id !== taskId))
     try {
-      await deleteTask(taskId)
+      await saveOrQueue({
+        projectId,
+        collection: "tasks",
+        operation: "delete",
+        docId: taskId,
+        label: `Deleted "${taskToDelete?.title || "task"}"`,
+      })
       toast({ title: "Task deleted!" })
     } catch (error) {
       if (taskToDelete) {
@@ -723,6 +921,7 @@ export default function ProjectPage() {
     const statusMap: Record<string, Task["status"]> = {
       "todo-column": "ToDo",
       "inprogress-column": "InProgress",
+      "blocked-column": "Blocked",
       "done-column": "Done"
     }
 
@@ -731,7 +930,9 @@ export default function ProjectPage() {
 
     const task = tasks.find((t) => t.task_id === taskId)
     if (task && task.status !== mappedStatus) {
+      if (!canMoveTask(task, mappedStatus)) return
       handleUpdateTaskStatus(taskId, mappedStatus)
+      if (mappedStatus === "Blocked") return
       toast({
         title: "Task moved!",
         description: `Task moved to ${mappedStatus === "ToDo" ? "To Do" : mappedStatus === "InProgress" ? "In Progress" : "Done"}`,
@@ -951,15 +1152,22 @@ export default function ProjectPage() {
     }
 
     try {
-      await deleteResource(resource.resource_id)
+      await saveOrQueue({
+        projectId,
+        collection: "shared_resources",
+        operation: "delete",
+        docId: resource.resource_id,
+        label: `Deleted ${resource.type} "${resource.name}"`,
+      })
+      setResources((prev) => prev.filter((r) => r.resource_id !== resource.resource_id))
 
       // Add activity
-      await addActivity({
+      addActivity({
         project_id: projectId,
         user_id: user.uid,
         type: "file_upload",
         description: `Deleted ${resource.type}: ${resource.name}`,
-      })
+      }).catch(console.error)
 
       toast({
         title: "Resource deleted",
@@ -1127,15 +1335,24 @@ export default function ProjectPage() {
         resourceData.original_name = selectedFile.name
       }
 
-      await uploadResource(resourceData)
+      const resourceId = newDocumentId("shared_resources")
+      await saveOrQueue({
+        projectId,
+        collection: "shared_resources",
+        operation: "create",
+        docId: resourceId,
+        data: resourceData,
+        label: `Added ${resourceType} "${resourceName}"`,
+      })
+      setResources((prev) => [...prev, { ...resourceData, resource_id: resourceId, created_at: new Date() }])
 
       // Add activity
-      await addActivity({
+      addActivity({
         project_id: projectId,
         user_id: user.uid,
         type: "file_upload",
         description: `Added ${resourceType}: ${resourceName}`,
-      })
+      }).catch(console.error)
 
       // Reset form
       setResourceName("")
@@ -1196,7 +1413,9 @@ export default function ProjectPage() {
 
   const todoTasks = tasks.filter((t) => t.status === "ToDo")
   const inProgressTasks = tasks.filter((t) => t.status === "InProgress")
+  const blockedTasks = tasks.filter((t) => t.status === "Blocked")
   const doneTasks = tasks.filter((t) => t.status === "Done")
+  const projectEnd = new Date(new Date(project.createdAt).getTime() + (project.duration === "24h" ? 24 : 48) * 60 * 60 * 1000)
 
   return (
     <div className="min-h-screen bg-background">
@@ -1242,6 +1461,7 @@ export default function ProjectPage() {
               </div>
             </div>
             <div className="flex items-center gap-4">
+              <SyncStatusIndicator projectId={projectId} />
               {retryState.isRetrying && (
                 <div className="flex items-center gap-2 px-3 py-1.5 bg-amber-500/10 border border-amber-500/20 rounded-lg text-sm">
                   <Clock className="h-4 w-4 text-amber-500" />
@@ -1496,7 +1716,7 @@ export default function ProjectPage() {
       </header>
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6">
-        <Tabs defaultValue="idea" className="space-y-6">
+        <Tabs defaultValue={searchParams.get("tab") || "idea"} className="space-y-6">
           <TabsList className="grid w-full grid-cols-3 lg:grid-cols-9 max-w-6xl h-auto">
             <TabsTrigger value="idea" className="flex items-center gap-2">
               <Lightbulb className="h-4 w-4" />
@@ -1574,7 +1794,7 @@ export default function ProjectPage() {
                       </>
                     )}
                   </Button>
-                  {user && !SubscriptionService.canUseAI(UsageTracker.getUsage(user.uid).aiCreditsUsed, user.subscriptionTier) && (
+                  {outOfCredits && (
                     <UpgradeDialog
                       reason="You've reached your AI credit limit"
                       requiredFeature="AI Idea Analysis"
@@ -1691,6 +1911,7 @@ export default function ProjectPage() {
                     members={members}
                     commitsCount={commitsCount}
                     now={currentTime}
+                    history={statusHistory}
                   />
                 </div>
               </div>
@@ -1700,207 +1921,266 @@ export default function ProjectPage() {
           <TabsContent value="tasks" className="space-y-6">
             <div className="flex justify-between items-center">
               <h2 className="text-lg font-semibold">Task Board</h2>
-              <Dialog open={addTaskDialogOpen} onOpenChange={setAddTaskDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button size="sm">
-                    <Plus className="mr-2 h-4 w-4" />
-                    Add Task
+              <div className="flex items-center gap-2">
+                <div className="flex rounded-md border p-0.5">
+                  <Button
+                    size="sm"
+                    variant={taskView === "board" ? "secondary" : "ghost"}
+                    className="h-7"
+                    onClick={() => setTaskView("board")}
+                  >
+                    <LayoutGrid className="mr-1 h-4 w-4" />
+                    Board
                   </Button>
-                </DialogTrigger>
-                <DialogContent>
-                  <DialogHeader>
-                    <DialogTitle>Add New Task</DialogTitle>
-                    <DialogDescription>Create a new task for your project</DialogDescription>
-                  </DialogHeader>
-                  <div className="space-y-4 pt-4">
-                    <Input
-                      placeholder="Task title"
-                      value={newTaskTitle}
-                      onChange={(e) => setNewTaskTitle(e.target.value)}
-                    />
-                    <Textarea
-                      placeholder="Task description (optional)"
-                      value={newTaskDescription}
-                      onChange={(e) => setNewTaskDescription(e.target.value)}
-                      rows={3}
-                    />
+                  <Button
+                    size="sm"
+                    variant={taskView === "graph" ? "secondary" : "ghost"}
+                    className="h-7"
+                    onClick={() => setTaskView("graph")}
+                  >
+                    <GitBranch className="mr-1 h-4 w-4" />
+                    Graph
+                  </Button>
+                </div>
+                <Dialog open={addTaskDialogOpen} onOpenChange={setAddTaskDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button size="sm">
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Task
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Add New Task</DialogTitle>
+                      <DialogDescription>Create a new task for your project</DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 pt-4">
+                      <Input
+                        placeholder="Task title"
+                        value={newTaskTitle}
+                        onChange={(e) => setNewTaskTitle(e.target.value)}
+                      />
+                      <Textarea
+                        placeholder="Task description (optional)"
+                        value={newTaskDescription}
+                        onChange={(e) => setNewTaskDescription(e.target.value)}
+                        rows={3}
+                      />
 
-                    <div className="grid grid-cols-2 gap-4">
-                      <div className="space-y-2">
-                        <Label>Effort Level</Label>
-                        <Select value={newTaskEffort} onValueChange={(value) => setNewTaskEffort(value as "Low" | "Medium" | "High")}>
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="Low">Low</SelectItem>
-                            <SelectItem value="Medium">Medium</SelectItem>
-                            <SelectItem value="High">High</SelectItem>
-                          </SelectContent>
-                        </Select>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label>Effort Level</Label>
+                          <Select value={newTaskEffort} onValueChange={(value) => setNewTaskEffort(value as "Low" | "Medium" | "High")}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="Low">Low</SelectItem>
+                              <SelectItem value="Medium">Medium</SelectItem>
+                              <SelectItem value="High">High</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label>Priority</Label>
+                          <Select value={newTaskPriority} onValueChange={(value) => setNewTaskPriority(value as "Low" | "Medium" | "High" | "Critical")}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="Low">Low</SelectItem>
+                              <SelectItem value="Medium">Medium</SelectItem>
+                              <SelectItem value="High">High</SelectItem>
+                              <SelectItem value="Critical">Critical</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
                       </div>
 
                       <div className="space-y-2">
-                        <Label>Priority</Label>
-                        <Select value={newTaskPriority} onValueChange={(value) => setNewTaskPriority(value as "Low" | "Medium" | "High" | "Critical")}>
+                        <Label>Assign to</Label>
+                        <Select value={newTaskAssignee || "unassigned"} onValueChange={(value) => setNewTaskAssignee(value === "unassigned" ? null : value)}>
                           <SelectTrigger>
-                            <SelectValue />
+                            <SelectValue>
+                              {newTaskAssignee ? (
+                                (() => {
+                                  const member = members.find(m => m.user_id === newTaskAssignee)
+                                  return member ? (
+                                    <div className="flex items-center gap-2">
+                                      <div className="h-4 w-4 rounded-full bg-primary/20 flex items-center justify-center text-xs font-bold text-primary">
+                                        {member?.name ? member.name.charAt(0).toUpperCase() : "?"}
+                                      </div>
+                                      <span>{member.name}</span>
+                                    </div>
+                                  ) : "Unassigned"
+                                })()
+                              ) : (
+                                "Unassigned"
+                              )}
+                            </SelectValue>
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="Low">Low</SelectItem>
-                            <SelectItem value="Medium">Medium</SelectItem>
-                            <SelectItem value="High">High</SelectItem>
-                            <SelectItem value="Critical">Critical</SelectItem>
+                            <SelectItem value="unassigned">
+                              <span className="text-muted-foreground">Unassigned</span>
+                            </SelectItem>
+                            {members.map((member, i) => (
+                              <SelectItem key={`${member.user_id}-${i}`} value={member.user_id}>
+                                <div className="flex items-center gap-2">
+                                  <div className="h-4 w-4 rounded-full bg-primary/20 flex items-center justify-center text-xs font-bold text-primary">
+                                    {member?.name ? member.name.charAt(0).toUpperCase() : "?"}
+                                  </div>
+                                  <span>{member.name}</span>
+                                </div>
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
-                    </div>
 
-                    <div className="space-y-2">
-                      <Label>Assign to</Label>
-                      <Select value={newTaskAssignee || "unassigned"} onValueChange={(value) => setNewTaskAssignee(value === "unassigned" ? null : value)}>
-                        <SelectTrigger>
-                          <SelectValue>
-                            {newTaskAssignee ? (
-                              (() => {
-                                const member = members.find(m => m.user_id === newTaskAssignee)
-                                return member ? (
-                                  <div className="flex items-center gap-2">
-                                    <div className="h-4 w-4 rounded-full bg-primary/20 flex items-center justify-center text-xs font-bold text-primary">
-                                      {member?.name ? member.name.charAt(0).toUpperCase() : "?"}
-                                    </div>
-                                    <span>{member.name}</span>
-                                  </div>
-                                ) : "Unassigned"
-                              })()
-                            ) : (
-                              "Unassigned"
-                            )}
-                          </SelectValue>
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="unassigned">
-                            <span className="text-muted-foreground">Unassigned</span>
-                          </SelectItem>
-                          {members.map((member, i) => (
-                            <SelectItem key={`${member.user_id}-${i}`} value={member.user_id}>
-                              <div className="flex items-center gap-2">
-                                <div className="h-4 w-4 rounded-full bg-primary/20 flex items-center justify-center text-xs font-bold text-primary">
-                                  {member?.name ? member.name.charAt(0).toUpperCase() : "?"}
-                                </div>
-                                <span>{member.name}</span>
-                              </div>
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                      <Button onClick={handleAddTask} disabled={!newTaskTitle.trim() || isAddingTask} className="w-full">
+                        {isAddingTask ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add Task"}
+                      </Button>
                     </div>
-
-                    <Button onClick={handleAddTask} disabled={!newTaskTitle.trim() || isAddingTask} className="w-full">
-                      {isAddingTask ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add Task"}
-                    </Button>
-                  </div>
-                </DialogContent>
-              </Dialog>
+                  </DialogContent>
+                </Dialog>
+              </div>
             </div>
 
-            <DndContext
-              sensors={sensors}
-              onDragStart={handleDragStart}
-              onDragEnd={handleDragEnd}
-            >
-              <div className="grid gap-4 md:grid-cols-3">
-                {/* Todo Column */}
-                <DroppableColumn
-                  id="todo-column"
-                  title="To Do"
-                  count={todoTasks.length}
-                  color="bg-slate-400"
-                >
-                  <SortableContext items={todoTasks.map(t => t.task_id)} strategy={verticalListSortingStrategy}>
-                    {todoTasks.map((task) => (
-                      <TaskCard
-                        key={task.task_id}
-                        task={task}
-                        onStatusChange={handleUpdateTaskStatus}
-                        onDelete={handleDeleteTask}
-                        onAssign={handleAssignTask}
-                        members={members}
-                      />
-                    ))}
-                    {todoTasks.length === 0 && (
-                      <p className="text-sm text-muted-foreground text-center py-4">No tasks yet</p>
-                    )}
-                  </SortableContext>
-                </DroppableColumn>
-
-                {/* In Progress Column */}
-                <DroppableColumn
-                  id="inprogress-column"
-                  title="In Progress"
-                  count={inProgressTasks.length}
-                  color="bg-blue-500"
-                >
-                  <SortableContext items={inProgressTasks.map(t => t.task_id)} strategy={verticalListSortingStrategy}>
-                    {inProgressTasks.map((task) => (
-                      <TaskCard
-                        key={task.task_id}
-                        task={task}
-                        onStatusChange={handleUpdateTaskStatus}
-                        onDelete={handleDeleteTask}
-                        onAssign={handleAssignTask}
-                        members={members}
-                      />
-                    ))}
-                    {inProgressTasks.length === 0 && (
-                      <p className="text-sm text-muted-foreground text-center py-4">No tasks in progress</p>
-                    )}
-                  </SortableContext>
-                </DroppableColumn>
-
-                {/* Done Column */}
-                <DroppableColumn
-                  id="done-column"
-                  title="Done"
-                  count={doneTasks.length}
-                  color="bg-green-500"
-                >
-                  <SortableContext items={doneTasks.map(t => t.task_id)} strategy={verticalListSortingStrategy}>
-                    {doneTasks.map((task) => (
-                      <TaskCard
-                        key={task.task_id}
-                        task={task}
-                        onStatusChange={handleUpdateTaskStatus}
-                        onDelete={handleDeleteTask}
-                        onAssign={handleAssignTask}
-                        members={members}
-                      />
-                    ))}
-                    {doneTasks.length === 0 && (
-                      <p className="text-sm text-muted-foreground text-center py-4">No completed tasks</p>
-                    )}
-                  </SortableContext>
-                </DroppableColumn>
-              </div>
+            {taskView === "graph" ? (
+              <TaskDependencyGraph tasks={tasks} analysis={criticalPath} deadline={projectEnd} now={currentTime} />
+            ) : (
+              <DndContext
+                sensors={sensors}
+                onDragStart={handleDragStart}
+                onDragEnd={handleDragEnd}
+              >
+                <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+                  {/* Todo Column */}
+                  <DroppableColumn
+                    id="todo-column"
+                    title="To Do"
+                    count={todoTasks.length}
+                    color="bg-slate-400"
+                  >
+                    <SortableContext items={todoTasks.map(t => t.task_id)} strategy={verticalListSortingStrategy}>
+                      {todoTasks.map((task) => (
+                        <TaskCard
+                          key={task.task_id}
+                          task={task}
+                          onStatusChange={handleUpdateTaskStatus}
+                          onDelete={handleDeleteTask}
+                          onAssign={handleAssignTask}
+                          members={members}
+                          blockedBy={getBlockingTasks(task, tasks)}
+                          critical={criticalPath.schedule[task.task_id]?.critical}
+                        />
+                      ))}
+                      {todoTasks.length === 0 && (
+                        <p className="text-sm text-muted-foreground text-center py-4">No tasks yet</p>
+                      )}
+                    </SortableContext>
+                  </DroppableColumn>
+
+                  {/* In Progress Column */}
+                  <DroppableColumn
+                    id="inprogress-column"
+                    title="In Progress"
+                    count={inProgressTasks.length}
+                    color="bg-blue-500"
+                  >
+                    <SortableContext items={inProgressTasks.map(t => t.task_id)} strategy={verticalListSortingStrategy}>
+                      {inProgressTasks.map((task) => (
+                        <TaskCard
+                          key={task.task_id}
+                          task={task}
+                          onStatusChange={handleUpdateTaskStatus}
+                          onDelete={handleDeleteTask}
+                          onAssign={handleAssignTask}
+                          members={members}
+                          blockedBy={getBlockingTasks(task, tasks)}
+                          critical={criticalPath.schedule[task.task_id]?.critical}
+                        />
+                      ))}
+                      {inProgressTasks.length === 0 && (
+                        <p className="text-sm text-muted-foreground text-center py-4">No tasks in progress</p>
+                      )}
+                    </SortableContext>
+                  </DroppableColumn>
+
+                  {/* Blocked Column */}
+                  <DroppableColumn
+                    id="blocked-column"
+                    title="Blocked"
+                    count={blockedTasks.length}
+                    color="bg-red-500"
+                  >
+                    <SortableContext items={blockedTasks.map(t => t.task_id)} strategy={verticalListSortingStrategy}>
+                      {blockedTasks.map((task) => (
+                        <TaskCard
+                          key={task.task_id}
+                          task={task}
+                          onStatusChange={handleUpdateTaskStatus}
+                          onDelete={handleDeleteTask}
+                          onAssign={handleAssignTask}
+                          members={members}
+                          blockedBy={getBlockingTasks(task, tasks)}
+                          critical={criticalPath.schedule[task.task_id]?.critical}
+                          blockerDescription={task.blocker ? describeBlocker(task.blocker, tasks, members) : undefined}
+                        />
+                      ))}
+                      {blockedTasks.length === 0 && (
+                        <p className="text-sm text-muted-foreground text-center py-4">Nothing is blocked</p>
+                      )}
+                    </SortableContext>
+                  </DroppableColumn>
+
+                  {/* Done Column */}
+                  <DroppableColumn
+                    id="done-column"
+                    title="Done"
+                    count={doneTasks.length}
+                    color="bg-green-500"
+                  >
+                    <SortableContext items={doneTasks.map(t => t.task_id)} strategy={verticalListSortingStrategy}>
+                      {doneTasks.map((task) => (
+                        <TaskCard
+                          key={task.task_id}
+                          task={task}
+                          onStatusChange={handleUpdateTaskStatus}
+                          onDelete={handleDeleteTask}
+                          onAssign={handleAssignTask}
+                          members={members}
+                          blockedBy={getBlockingTasks(task, tasks)}
+                          critical={criticalPath.schedule[task.task_id]?.critical}
+                        />
+                      ))}
+                      {doneTasks.length === 0 && (
+                        <p className="text-sm text-muted-foreground text-center py-4">No completed tasks</p>
+                      )}
+                    </SortableContext>
+                  </DroppableColumn>
+                </div>
 
-              {/* Drag Overlay */}
-              <DragOverlay>
-                {activeTask ? (
-                  <div className="p-3 bg-background border-2 border-primary/50 rounded-lg space-y-2 shadow-2xl opacity-95 scale-105 rotate-2 ring-2 ring-primary/30">
-                    <p className="text-sm font-medium">{activeTask.title}</p>
-                    {activeTask.description && <p className="text-xs text-muted-foreground">{activeTask.description}</p>}
-                    <div className="flex items-center gap-2">
-                      <Badge variant="secondary" className="text-xs">
-                        {activeTask.effort}
-                      </Badge>
-                      <Badge variant="outline" className="text-xs">
-                        {activeTask.status === "ToDo" ? "To Do" : activeTask.status === "InProgress" ? "In Progress" : "Done"}
-                      </Badge>
+                {/* Drag Overlay */}
+                <DragOverlay>
+                  {activeTask ? (
+                    <div className="p-3 bg-background border-2 border-primary/50 rounded-lg space-y-2 shadow-2xl opacity-95 scale-105 rotate-2 ring-2 ring-primary/30">
+                      <p className="text-sm font-medium">{activeTask.title}</p>
+                      {activeTask.description && <p className="text-xs text-muted-foreground">{activeTask.description}</p>}
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary" className="text-xs">
+                          {activeTask.effort}
+                        </Badge>
+                        <Badge variant="outline" className="text-xs">
+                          {activeTask.status === "ToDo" ? "To Do" : activeTask.status === "InProgress" ? "In Progress" : activeTask.status}
+                        </Badge>
+                      </div>
                     </div>
-                  </div>
-                ) : null}
-              </DragOverlay>
-            </DndContext>
+                  ) : null}
+                </DragOverlay>
+              </DndContext>
+            )}
           </TabsContent>
 
           {/* Analytics Tab */}
@@ -1912,6 +2192,7 @@ export default function ProjectPage() {
                 members={members}
                 commitsCount={commitsCount}
                 now={currentTime}
+                history={statusHistory}
               />
             </div>
 
@@ -1940,15 +2221,26 @@ export default function ProjectPage() {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold text-blue-600">
-                    {(() => {
-                      const hoursElapsed = Math.max(1, (new Date().getTime() - new Date(project.createdAt).getTime()) / (1000 * 60 * 60))
-                      return (doneTasks.length / hoursElapsed).toFixed(1)
-                    })()}
+                    {(velocity?.tasksPerHour ?? 0).toFixed(1)}
                   </div>
                   <div className="text-xs text-muted-foreground">Tasks/Hour</div>
                   <div className="flex items-center gap-1 mt-2">
-                    <TrendingUp className="h-3 w-3 text-green-500" />
-                    <span className="text-xs text-green-600">On Track</span>
+                    {velocity?.trend === "decreasing" ? (
+                      <>
+                        <TrendingUp className="h-3 w-3 text-red-500 rotate-180" />
+                        <span className="text-xs text-red-600">Slowing Down</span>
+                      </>
+                    ) : velocity?.trend === "increasing" ? (
+                      <>
+                        <TrendingUp className="h-3 w-3 text-green-500" />
+                        <span className="text-xs text-green-600">Speeding Up</span>
+                      </>
+                    ) : (
+                      <>
+                        <Activity className="h-3 w-3 text-amber-500" />
+                        <span className="text-xs text-amber-600">Steady</span>
+                      </>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -2093,12 +2385,15 @@ export default function ProjectPage() {
               </Card>
             </div>
 
+            <TaskFlowCharts project={project} tasks={tasks} history={statusHistory} now={currentTime} />
+
             {/* Advanced Analytics Section */}
             <AdvancedAnalytics 
               project={project}
               tasks={tasks}
               members={members}
               activities={activities}
+              statusHistory={statusHistory}
             />
           </TabsContent>
 
@@ -2311,6 +2606,17 @@ export default function ProjectPage() {
               </Card>
             </div>
 
+            <TeamWellbeing
+              project={project}
+              tasks={tasks}
+              members={members}
+              activities={activities}
+              commits={recentCommits}
+              isLead={project.created_by === user?.uid || members.some((m) => m.user_id === user?.uid && m.role === "lead")}
+              now={currentTime}
+              onReassign={handleAssignTask}
+            />
+
             {/* Invitation Management */}
             <Card>
               <CardHeader>
@@ -2530,10 +2836,11 @@ export default function ProjectPage() {
 
           {/* Judging Tab */}
           <TabsContent value="judging" className="space-y-6">
+            {!isAssignedJudge && <HackathonEntry project={project} canManage={project.created_by === user?.uid} />}
             <JudgeFeedbackSystem 
               project={project}
               members={members}
-              isJudgeView={false}
+              isJudgeView={isAssignedJudge}
               isPublicDemo={false}
             />
           </TabsContent>
@@ -2754,10 +3061,24 @@ export default function ProjectPage() {
                       </Button>
                     </ExportDialog>
 
-                    <Button className="w-full justify-start" variant="outline">
-                      <Image className="mr-2 h-4 w-4" />
-                      Generate Pitch Deck
-                    </Button>
+                    <ExportDialog
+                      project={project}
+                      tasks={tasks}
+                      members={members}
+                      messages={messages}
+                    >
+                      <Button className="w-full justify-start" variant="outline">
+                        <Image className="mr-2 h-4 w-4" />
+                        Generate Pitch Deck (PPTX)
+                      </Button>
+                    </ExportDialog>
+
+                    <ImportProjectDialog projectId={projectId}>
+                      <Button className="w-full justify-start" variant="outline">
+                        <Upload className="mr-2 h-4 w-4" />
+                        Import from JSON Export
+                      </Button>
+                    </ImportProjectDialog>
                   </div>
                 </CardContent>
               </Card>
@@ -2771,33 +3092,7 @@ export default function ProjectPage() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <ScrollArea className="h-64">
-                    <div className="space-y-3">
-                      {exportJobs.length > 0 ? (
-                        exportJobs.slice(0, 10).map((_job, index) => (
-                          <div key={index} className="flex items-center gap-3 p-2 border rounded">
-                            <div className="shrink-0">
-                              <FileText className="h-4 w-4 text-blue-500" />
-                            </div>
-                            <div className="flex-1 min-w-0">
-                              <p className="text-sm font-medium">Project Export</p>
-                              <p className="text-xs text-muted-foreground">
-                                {new Date().toLocaleDateString()} • PDF Format
-                              </p>
-                            </div>
-                            <Badge variant="secondary" className="text-xs">
-                              Completed
-                            </Badge>
-                          </div>
-                        ))
-                      ) : (
-                        <div className="text-center text-muted-foreground py-8">
-                          <Download className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                          <p className="text-sm">No exports yet</p>
-                        </div>
-                      )}
-                    </div>
-                  </ScrollArea>
+                  <ExportHistory projectId={projectId} />
                 </CardContent>
               </Card>
             </div>
@@ -2856,6 +3151,31 @@ export default function ProjectPage() {
           </TabsContent>
         </Tabs>
       </main>
+
+      <ConflictMergeDialog
+        projectId={projectId}
+        tasks={tasks}
+        members={members}
+        onConflict={handleTaskConflict}
+      />
+
+      <BlockTaskDialog
+        task={taskToBlock}
+        tasks={tasks}
+        members={members}
+        onOpenChange={(open) => !open && setTaskToBlock(null)}
+        onConfirm={handleBlockTask}
+      />
+
+      <TaskBreakdownReview
+        open={taskReviewOpen}
+        onOpenChange={setTaskReviewOpen}
+        drafts={taskDrafts}
+        onDraftsChange={setTaskDrafts}
+        members={members}
+        onConfirm={handleConfirmTaskDrafts}
+        isSaving={isSavingTaskDrafts}
+      />
     </div>
   )
 }
@@ -2908,12 +3228,18 @@ function TaskCard({
   onDelete,
   onAssign,
   members,
+  blockedBy = [],
+  critical = false,
+  blockerDescription,
 }: {
   task: Task
   onStatusChange: (id: string, status: Task["status"]) => void
   onDelete: (id: string) => void
   onAssign: (id: string, assignedTo: string | null) => void
   members: ProjectMember[]
+  blockedBy?: Task[]
+  critical?: boolean
+  blockerDescription?: string
 }) {
   const {
     attributes,
@@ -2956,7 +3282,7 @@ function TaskCard({
       style={style}
       {...attributes}
       {...listeners}
-      className={`p-3 bg-background border rounded-lg space-y-2 cursor-grab active:cursor-grabbing select-none ${isDragging ? "opacity-70 shadow-2xl scale-110 z-50 rotate-3 ring-2 ring-primary/50" : "hover:shadow-lg hover:scale-[1.02]"
+      className={`p-3 bg-background border rounded-lg space-y-2 cursor-grab active:cursor-grabbing select-none ${critical ? "border-red-500/60" : ""} ${isDragging ? "opacity-70 shadow-2xl scale-110 z-50 rotate-3 ring-2 ring-primary/50" : "hover:shadow-lg hover:scale-[1.02]"
         } transition-all duration-100 ease-out will-change-transform`}
     >
       <div className="flex items-start justify-between gap-2">
@@ -2979,6 +3305,30 @@ function TaskCard({
         <p className="text-xs text-muted-foreground pointer-events-none">{task.description}</p>
       )}
 
+      {task.status === "Blocked" && blockerDescription && (
+        <div className="flex items-start gap-1.5 rounded-md bg-red-500/10 p-2 text-xs text-red-700 dark:text-red-400 pointer-events-none">
+          <Ban className="h-3 w-3 mt-0.5 shrink-0" />
+          <span>{blockerDescription}</span>
+        </div>
+      )}
+
+      {(critical || (blockedBy.length > 0 && task.status !== "Done")) && (
+        <div className="flex flex-wrap items-center gap-1 pointer-events-none">
+          {critical && (
+            <Badge variant="outline" className="bg-red-500/10 text-red-600 text-xs flex items-center gap-1" title="Any delay moves the project end date">
+              <Flame className="h-3 w-3" />
+              Critical path
+            </Badge>
+          )}
+          {blockedBy.length > 0 && task.status !== "Done" && (
+            <Badge variant="outline" className="bg-slate-500/10 text-slate-600 text-xs flex items-center gap-1" title={blockedBy.map((t) => t.title).join(", ")}>
+              <Lock className="h-3 w-3" />
+              Waiting on {blockedBy.length === 1 ? `"${blockedBy[0].title}"` : `${blockedBy.length} tasks`}
+            </Badge>
+          )}
+        </div>
+      )}
+
       <div className="flex items-center justify-between gap-2">
         <div className="flex items-center gap-2">
           <Badge variant="secondary" className={`${effortColors[task.effort as keyof typeof effortColors] || ""} pointer-events-none transition-all duration-100 flex items-center gap-1`} title="Effort">
@@ -3010,12 +3360,22 @@ function TaskCard({
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="ToDo">To Do</SelectItem>
-            <SelectItem value="InProgress">In Progress</SelectItem>
+            <SelectItem value="InProgress" disabled={blockedBy.length > 0 && task.status !== "InProgress"}>In Progress</SelectItem>
+            <SelectItem value="Blocked">Blocked</SelectItem>
             <SelectItem value="Done">Done</SelectItem>
           </SelectContent>
         </Select>
       </div>
 
+      {/* Checklist */}
+      <TaskChecklist task={task} members={members} />
+
+      {/* Time Tracking */}
+      <TaskTimer task={task} members={members} />
+
+      {/* Discussion */}
+      <TaskComments task={task} members={members} />
+
       {/* Member Assignment */}
       <div className="flex items-center justify-between gap-2 pt-1 border-t">
         <span className="text-xs text-muted-foreground pointer-events-none">Assigned to:</span>
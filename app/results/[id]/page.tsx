@@ -0,0 +1,127 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { getPublishedResults } from '@/lib/hackathon-results';
+import { HackathonResults } from '@/lib/types';
+import { Trophy, Medal } from 'lucide-react';
+
+const podiumColors = ['text-yellow-500', 'text-gray-400', 'text-amber-700'];
+
+export default function HackathonResultsPage() {
+  const params = useParams();
+  const hackathonId = params.id as string;
+  const [results, setResults] = useState<HackathonResults | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    getPublishedResults(hackathonId).then((published) => {
+      setResults(published);
+      setLoading(false);
+    });
+  }, [hackathonId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="h-8 w-8 animate-spin mx-auto mb-4 border-2 border-primary border-t-transparent rounded-full" />
+          <p className="text-muted-foreground">Loading results...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!results) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center text-muted-foreground">
+          <Trophy className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>Results for this hackathon have not been published yet</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-6">
+          <h1 className="text-2xl font-bold">{results.hackathonName}</h1>
+          <p className="text-sm text-muted-foreground">
+            Final results · published {results.publishedAt.toLocaleDateString()}
+          </p>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {results.winners.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Trophy className="h-5 w-5" />
+                Winners
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+              {results.winners.map(winner => (
+                <div key={winner.prize} className="p-4 border rounded-lg">
+                  <div className="text-sm text-muted-foreground">{winner.prize}</div>
+                  <div className="text-lg font-semibold">{winner.projectName}</div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Medal className="h-5 w-5" />
+              Leaderboard
+            </CardTitle>
+            <CardDescription>
+              {results.config.normalizeJudgeScores
+                ? 'Ranked by judge-normalized scores'
+                : 'Ranked by average judge score'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Rank</TableHead>
+                  <TableHead>Project</TableHead>
+                  <TableHead className="text-right">Score</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.leaderboard.map(entry => (
+                  <TableRow key={entry.projectId}>
+                    <TableCell>
+                      <div className="flex items-center gap-1 font-bold">
+                        {entry.rank <= 3 && <Trophy className={`h-4 w-4 ${podiumColors[entry.rank - 1]}`} />}
+                        #{entry.rank}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {entry.projectName}
+                        {entry.track && <Badge variant="outline">{entry.track}</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{entry.score.toFixed(2)}/10</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -8,11 +8,13 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/lib/auth-context';
-import { callApiWithRetry } from '@/lib/utils';
-import { sendMessage } from '@/lib/firestore';
-import { Project, ChatMessage, Task, ProjectMember, LiveActivity, SubscriptionTier } from '@/lib/types';
-import { UsageTracker, SubscriptionService } from '@/lib/subscription-service';
+import { streamAIResponse } from '@/lib/ai-client';
+import { sendMessage, subscribeToMilestones } from '@/lib/firestore';
+import { buildProjectFacts, toMentorHistory, type MentorCommit } from '@/lib/mentor-context';
+import { Project, ChatMessage, Task, ProjectMember, LiveActivity, Milestone } from '@/lib/types';
+import { AI_CREDIT_COSTS } from '@/lib/constants';
 import { useToast } from '@/components/ui/use-toast';
+import ReactMarkdown from 'react-markdown';
 import { 
   Sparkles, 
   Send, 
@@ -22,7 +24,8 @@ import {
   Code, 
   Lightbulb, 
   Target,
-  User
+  User,
+  Square
 } from 'lucide-react';
 
 interface AIMentorChatProps {
@@ -36,6 +39,18 @@ interface AIMentorChatProps {
 
 type Persona = 'general' | 'technical' | 'product' | 'pitch';
 
+// Close a dangling code fence so partially streamed markdown renders as a code block
+const closeOpenFences = (markdown: string) =>
+  (markdown.match(/```/g) || []).length % 2 === 1 ? `${markdown}\n\`\`\`` : markdown;
+
+function MarkdownMessage({ content }: { content: string }) {
+  return (
+    <div className="prose prose-sm dark:prose-invert max-w-none leading-relaxed prose-p:my-1 prose-pre:my-2">
+      <ReactMarkdown>{closeOpenFences(content)}</ReactMarkdown>
+    </div>
+  );
+}
+
 export function AIMentorChat({ 
   project, 
   tasks, 
@@ -49,27 +64,56 @@ export function AIMentorChat({
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [persona, setPersona] = useState<Persona>('general');
+  const [streamingContent, setStreamingContent] = useState<string | null>(null);
+  const [milestones, setMilestones] = useState<Milestone[]>([]);
+  const [commits, setCommits] = useState<MentorCommit[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => {
+    const unsubscribe = subscribeToMilestones(project.id, setMilestones);
+    return () => unsubscribe?.();
+  }, [project.id]);
+
+  // Recent commits give the mentor a view of what the team actually shipped
+  useEffect(() => {
+    if (!project.github_repo) return;
+    let cancelled = false;
+
+    fetch(`/api/github/commits?url=${encodeURIComponent(project.github_repo)}`)
+      .then((response) => (response.ok ? response.json() : { commits: [] }))
+      .then((data) => {
+        if (cancelled) return;
+        setCommits(
+          (data.commits || []).map((c: any) => ({
+            message: c.message,
+            author: c.author?.name || 'unknown',
+            date: c.author?.date,
+          }))
+        );
+      })
+      .catch((error) => console.warn('Could not load commits for mentor context:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [project.github_repo]);
+
   // Auto-scroll to bottom
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isLoading]);
+  }, [messages, isLoading, streamingContent]);
+
+  // Stop streaming if the chat unmounts mid-response
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
 
   const handleSendMessage = async () => {
     if (!input.trim() || !user || isLoading) return;
 
-    // Check AI credits
-    const usage = UsageTracker.getUsage(user.uid);
-    if (!SubscriptionService.canUseAI(usage.aiCreditsUsed, user.subscriptionTier as SubscriptionTier)) {
-      toast({
-        title: "AI Credit Limit Reached",
-        description: "Please upgrade your plan to continue using AI features.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setIsLoading(true);
     const userMessageContent = input;
     setInput('');
@@ -94,41 +138,40 @@ export function AIMentorChat({
         content: userMessageContent,
       });
 
-      // 2. Prepare Context
-      const context = {
-        project: {
-          name: project.name,
-          description: project.description,
-          idea: project.idea,
-          techStack: project.techStack,
-          status: project.status
-        },
-        tasksSummary: {
-          total: tasks.length,
-          completed: tasks.filter(t => t.status === 'Done').length,
-          highPriority: tasks.filter(t => t.priority === 'High' || t.priority === 'Critical').length
-        },
-        teamSize: members.length,
-        recentActivity: activities.slice(0, 5).map(a => a.description)
-      };
+      // 2. Prepare context: earlier turns plus project facts, ranked and budgeted server-side
+      const history = toMentorHistory(messages);
+      const facts = buildProjectFacts({ project, tasks, members, activities, milestones, commits });
+
+      // 3. Stream AI response
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      setStreamingContent('');
 
-      // 3. Call AI API
-      const data = await callApiWithRetry<{ result: string }>("chat", () =>
-        fetch("/api/gemini", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
+      let aiResponse = '';
+      try {
+        aiResponse = await streamAIResponse(
+          {
             action: "mentor_chat",
+            projectId: project.id,
             data: {
               question: userMessageContent,
-              context: JSON.stringify(context, null, 2),
+              history,
+              facts,
               persona: persona
             },
-          }),
-        })
-      );
+          },
+          (_delta, text) => {
+            aiResponse = text;
+            setStreamingContent(text);
+          },
+          abortController.signal
+        );
+      } catch (streamError: any) {
+        // A stopped response keeps whatever arrived so far
+        if (streamError.name !== 'AbortError') throw streamError;
+      }
 
-      const aiResponse = data.result;
+      if (!aiResponse.trim()) return;
 
       // 4. Save AI Message to DB
       const aiMsgId = await sendMessage({
@@ -149,9 +192,6 @@ export function AIMentorChat({
       };
       onMessageSent?.(tempAiMsg);
 
-      // 5. Track Usage
-      UsageTracker.incrementAICredits(user.uid, 5);
-
     } catch (error: any) {
       console.error("Mentor chat error:", error);
       toast({
@@ -160,6 +200,8 @@ export function AIMentorChat({
         variant: "destructive",
       });
     } finally {
+      abortControllerRef.current = null;
+      setStreamingContent(null);
       setIsLoading(false);
     }
   };
@@ -180,7 +222,7 @@ export function AIMentorChat({
             AI Mentor Chat
           </CardTitle>
           <Badge variant="secondary" className="font-normal">
-            {5} credits / msg
+            {AI_CREDIT_COSTS.mentor_message} credits / msg
           </Badge>
         </div>
         <CardDescription>
@@ -246,9 +288,13 @@ export function AIMentorChat({
                         : "bg-muted rounded-bl-none border"
                     }`}
                   >
-                   <div className="text-sm whitespace-pre-wrap leading-relaxed">
-                      {msg.content}
-                   </div>
+                   {msg.sender_type === "ai" ? (
+                     <MarkdownMessage content={msg.content} />
+                   ) : (
+                     <div className="text-sm whitespace-pre-wrap leading-relaxed">
+                        {msg.content}
+                     </div>
+                   )}
                   </div>
                   <span className="text-[10px] text-muted-foreground mt-1 px-1">
                     {msg.sender_type === 'ai' ? 'AI Mentor' : 'You'} • {new Date(msg.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
@@ -256,7 +302,20 @@ export function AIMentorChat({
                 </div>
               </div>
             ))}
-            {isLoading && (
+            {streamingContent && (
+              <div className="flex justify-start w-full">
+                <div className="flex flex-col max-w-[85%] items-start">
+                  <div className="rounded-2xl px-4 py-2.5 pb-3 shadow-sm bg-muted rounded-bl-none border">
+                    <MarkdownMessage content={streamingContent} />
+                  </div>
+                  <span className="text-[10px] text-muted-foreground mt-1 px-1 flex items-center gap-1">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    AI Mentor is typing...
+                  </span>
+                </div>
+              </div>
+            )}
+            {isLoading && !streamingContent && (
                <div className="flex justify-start w-full">
                  <div className="bg-muted rounded-2xl rounded-bl-none px-4 py-3 border flex items-center gap-2">
                     <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
@@ -277,18 +336,25 @@ export function AIMentorChat({
             disabled={isLoading}
             className="flex-1"
           />
-          <Button
-            onClick={handleSendMessage}
-            disabled={!input.trim() || isLoading}
-            size="icon"
-          >
-            {isLoading ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <Send className="h-4 w-4" />
-            )}
-            <span className="sr-only">Send</span>
-          </Button>
+          {streamingContent !== null ? (
+            <Button onClick={handleStop} variant="outline" size="icon">
+              <Square className="h-4 w-4" />
+              <span className="sr-only">Stop</span>
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSendMessage}
+              disabled={!input.trim() || isLoading}
+              size="icon"
+            >
+              {isLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4" />
+              )}
+              <span className="sr-only">Send</span>
+            </Button>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -9,7 +9,11 @@ import { Button } from '@/components/ui/button';
 import { useAuth } from '@/lib/auth-context';
 import { SubscriptionService } from '@/lib/subscription-service';
 import { UpgradeDialog } from '@/components/subscription/upgrade-dialog';
-import { Project, Task, ProjectMember, SubscriptionTier } from '@/lib/types';
+import { CompletionForecast } from '@/components/analytics/completion-forecast';
+import { forecastCompletion } from '@/lib/completion-forecast';
+import { formatDuration, subscribeToProjectTimeEntries } from '@/lib/time-tracking';
+import { getProjectWindow, getVelocity } from '@/lib/task-flow';
+import { Project, Task, ProjectMember, SubscriptionTier, TimeEntry, TaskStatusTransition } from '@/lib/types';
 import { 
   BarChart3, 
   TrendingUp, 
@@ -17,7 +21,6 @@ import {
   Users,
   Target,
   Activity,
-  Calendar,
   Zap,
   AlertTriangle,
   Crown
@@ -28,6 +31,7 @@ interface AdvancedAnalyticsProps {
   tasks: Task[];
   members: ProjectMember[];
   activities?: any[];
+  statusHistory?: TaskStatusTransition[];
 }
 
 interface TeamPerformanceMetrics {
@@ -35,7 +39,8 @@ interface TeamPerformanceMetrics {
   memberName: string;
   tasksCompleted: number;
   tasksInProgress: number;
-  averageTaskDuration: number;
+  averageTaskDuration: number; // Hours logged per completed task
+  hoursLogged: number;
   contributionScore: number;
   lastActive: Date;
 }
@@ -45,24 +50,35 @@ interface ProjectInsights {
   bottlenecks: string[];
   riskFactors: string[];
   recommendations: string[];
-  completionPrediction: Date;
+  completionPrediction: Date | null; // Median simulated finish; null if most simulations never finish
   efficiencyScore: number;
 }
 
-export function AdvancedAnalytics({ project, tasks, members, activities = [] }: AdvancedAnalyticsProps) {
+export function AdvancedAnalytics({ project, tasks, members, activities = [], statusHistory = [] }: AdvancedAnalyticsProps) {
   const { user } = useAuth();
   const [timeRange, setTimeRange] = useState<'24h' | '7d' | '30d'>('7d');
   const [teamMetrics, setTeamMetrics] = useState<TeamPerformanceMetrics[]>([]);
   const [insights, setInsights] = useState<ProjectInsights | null>(null);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
 
   const hasAdvancedAnalytics = user ? SubscriptionService.hasAdvancedAnalytics(user.subscriptionTier as SubscriptionTier) : false;
+  const forecast = useMemo(
+    () => forecastCompletion(project, tasks, statusHistory, { teamSize: members.length }),
+    [project, tasks, statusHistory, members.length]
+  );
+
+  useEffect(() => {
+    if (!hasAdvancedAnalytics) return;
+    const unsubscribe = subscribeToProjectTimeEntries(project.id, setTimeEntries);
+    return () => unsubscribe?.();
+  }, [project.id, hasAdvancedAnalytics]);
 
   useEffect(() => {
     if (hasAdvancedAnalytics) {
       calculateTeamMetrics();
       generateInsights();
     }
-  }, [tasks, members, timeRange, hasAdvancedAnalytics]);
+  }, [tasks, members, timeEntries, statusHistory, forecast, timeRange, hasAdvancedAnalytics]);
 
   const calculateTeamMetrics = () => {
     const metrics: TeamPerformanceMetrics[] = members.map(member => {
@@ -70,13 +86,23 @@ export function AdvancedAnalytics({ project, tasks, members, activities = [] }:
       const completedTasks = memberTasks.filter(task => task.status === 'Done');
       const inProgressTasks = memberTasks.filter(task => task.status === 'InProgress');
       
-      // Calculate average task duration (mock calculation)
-      const avgDuration = completedTasks.length > 0 ? 
-        completedTasks.reduce((sum, task) => {
-          // Mock duration calculation based on task complexity
-          const complexity = task.effort === 'High' ? 8 : task.effort === 'Medium' ? 4 : 2;
-          return sum + complexity;
-        }, 0) / completedTasks.length : 0;
+      // Average logged time on the completed tasks this member tracked time against
+      const memberEntries = timeEntries.filter(entry => entry.user_id === member.user_id);
+      const completedIds = new Set(tasks.filter(task => task.status === 'Done').map(task => task.task_id));
+      const minutesByCompletedTask = memberEntries
+        .filter(entry => completedIds.has(entry.task_id))
+        .reduce((acc, entry) => acc.set(entry.task_id, (acc.get(entry.task_id) || 0) + entry.duration_minutes), new Map<string, number>());
+      const avgDuration = minutesByCompletedTask.size > 0
+        ? Array.from(minutesByCompletedTask.values()).reduce((sum, minutes) => sum + minutes, 0) / minutesByCompletedTask.size / 60
+        : 0;
+      const hoursLogged = memberEntries.reduce((sum, entry) => sum + entry.duration_minutes, 0) / 60;
+      const lastEntry = memberEntries.reduce<Date | null>(
+        (latest, entry) => {
+          const at = entry.ended_at || new Date();
+          return !latest || at > latest ? at : latest;
+        },
+        null
+      );
 
       // Calculate contribution score based on tasks completed and complexity
       const contributionScore = completedTasks.reduce((score, task) => {
@@ -91,8 +117,9 @@ export function AdvancedAnalytics({ project, tasks, members, activities = [] }:
         tasksCompleted: completedTasks.length,
         tasksInProgress: inProgressTasks.length,
         averageTaskDuration: avgDuration,
+        hoursLogged,
         contributionScore,
-        lastActive: new Date(), // Mock - would come from activity data
+        lastActive: lastEntry || new Date(), // Falls back to now until time is logged
       };
     });
 
@@ -104,10 +131,8 @@ export function AdvancedAnalytics({ project, tasks, members, activities = [] }:
     const totalTasks = tasks.length;
     const completionRate = totalTasks > 0 ? completedTasks.length / totalTasks : 0;
 
-    // Mock velocity trend calculation
-    const velocityTrend: ProjectInsights['velocityTrend'] = 
-      completionRate > 0.7 ? 'increasing' : 
-      completionRate < 0.3 ? 'decreasing' : 'stable';
+    // Completion rate over the recorded status history, first half of the window so far vs second
+    const velocityTrend = getVelocity(tasks, statusHistory, getProjectWindow(project)).trend;
 
     // Identify bottlenecks
     const bottlenecks: string[] = [];
@@ -146,9 +171,10 @@ export function AdvancedAnalytics({ project, tasks, members, activities = [] }:
       recommendations.push('Assign ownership to all tasks for better accountability');
     }
 
-    // Mock completion prediction
-    const daysRemaining = project.duration === '24h' ? 1 : 2;
-    const completionPrediction = new Date(Date.now() + daysRemaining * 24 * 60 * 60 * 1000);
+    const completionPrediction = forecast.p50;
+    if (forecast.onTimeProbability < 50) {
+      riskFactors.push(`Only a ${forecast.onTimeProbability}% chance of finishing before the deadline at the current pace`);
+    }
 
     // Efficiency score (0-100)
     const efficiencyScore = Math.round(completionRate * 100);
@@ -354,7 +380,9 @@ export function AdvancedAnalytics({ project, tasks, members, activities = [] }:
                 <div className="flex justify-between items-center">
                   <span className="text-sm">Estimated Completion</span>
                   <span className="font-medium">
-                    {insights?.completionPrediction.toLocaleDateString()}
+                    {insights?.completionPrediction
+                      ? insights.completionPrediction.toLocaleString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' })
+                      : 'Not in sight'}
                   </span>
                 </div>
               </CardContent>
@@ -387,6 +415,10 @@ export function AdvancedAnalytics({ project, tasks, members, activities = [] }:
                         <p className="text-sm text-muted-foreground">
                           {metric.tasksCompleted} completed • {metric.tasksInProgress} in progress
                         </p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDuration(metric.hoursLogged * 60)} logged
+                          {metric.averageTaskDuration > 0 && ` • ${formatDuration(metric.averageTaskDuration * 60)} per completed task`}
+                        </p>
                       </div>
                     </div>
                     <div className="text-right">
@@ -482,24 +514,7 @@ export function AdvancedAnalytics({ project, tasks, members, activities = [] }:
 
         {/* Predictions Tab */}
         <TabsContent value="predictions" className="space-y-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Calendar className="h-5 w-5" />
-                Project Predictions
-              </CardTitle>
-              <CardDescription>
-                AI-powered forecasts based on current progress
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="text-center py-12 text-muted-foreground">
-                <Calendar className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                <p>Predictive analytics coming soon</p>
-                <p className="text-sm">Get completion forecasts and resource planning insights</p>
-              </div>
-            </CardContent>
-          </Card>
+          <CompletionForecast forecast={forecast} />
         </TabsContent>
       </Tabs>
     </div>
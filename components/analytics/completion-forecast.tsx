@@ -0,0 +1,97 @@
+'use client';
+
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import type { CompletionForecast as Forecast } from '@/lib/completion-forecast';
+import { Calendar, Dices } from 'lucide-react';
+
+interface CompletionForecastProps {
+  forecast: Forecast;
+}
+
+const chartConfig = {
+  probability: { label: 'Chance of finishing', color: 'var(--chart-1)' },
+} satisfies ChartConfig;
+
+const formatTime = (date: Date | null) =>
+  date ? date.toLocaleString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' }) : 'Not in sight';
+
+const getOnTimeColor = (probability: number) => {
+  if (probability >= 80) return 'text-green-600';
+  if (probability >= 50) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+export function CompletionForecast({ forecast }: CompletionForecastProps) {
+  const percentiles = [
+    { label: '50% likely by', date: forecast.p50 },
+    { label: '85% likely by', date: forecast.p85 },
+    { label: '95% likely by', date: forecast.p95 },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calendar className="h-5 w-5" />
+          Completion Forecast
+        </CardTitle>
+        <CardDescription>
+          {forecast.simulations.toLocaleString()} simulated finishes against the deadline of{' '}
+          {forecast.deadline.toLocaleString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <div className="flex items-end justify-between">
+            <span className={`text-3xl font-bold ${getOnTimeColor(forecast.onTimeProbability)}`}>
+              {forecast.onTimeProbability}%
+            </span>
+            <span className="text-sm text-muted-foreground">chance of finishing on time</span>
+          </div>
+          <Progress value={forecast.onTimeProbability} className="h-2" />
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-3">
+          {percentiles.map(({ label, date }) => (
+            <div key={label} className="rounded-lg border p-3">
+              <div className="text-xs text-muted-foreground">{label}</div>
+              <div className={`font-semibold ${date && date > forecast.deadline ? 'text-red-600' : ''}`}>
+                {formatTime(date)}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {forecast.histogram.length > 1 && (
+          <ChartContainer config={chartConfig} className="h-48 w-full">
+            <BarChart data={forecast.histogram} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis tickLine={false} axisLine={false} width={32} unit="%" />
+              <ChartTooltip content={<ChartTooltipContent hideIndicator />} />
+              <Bar dataKey="probability" radius={4}>
+                {forecast.histogram.map((bucket) => (
+                  <Cell key={bucket.label} fill={bucket.afterDeadline ? '#ef4444' : 'var(--color-probability)'} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ChartContainer>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <Dices className="h-3 w-3" />
+          <span>{forecast.remainingEffort}h of estimated effort left.</span>
+          <Badge variant="outline" className="text-xs">
+            {forecast.basis === 'throughput'
+              ? `Based on ${forecast.throughputSamples}h of team throughput`
+              : 'Based on task estimates until tasks are completed'}
+          </Badge>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
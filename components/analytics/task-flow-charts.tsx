@@ -0,0 +1,185 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Area, AreaChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import {
+  averageHours,
+  buildFlowSeries,
+  getProjectWindow,
+  getTaskCycleTimes,
+  getVelocity,
+} from '@/lib/task-flow';
+import { Project, Task, TaskStatusTransition } from '@/lib/types';
+import { Activity, Timer, TrendingDown } from 'lucide-react';
+
+interface TaskFlowChartsProps {
+  project: Project;
+  tasks: Task[];
+  history: TaskStatusTransition[];
+  now: number;
+}
+
+const burndownConfig = {
+  remaining: { label: 'Remaining', color: 'var(--chart-1)' },
+  ideal: { label: 'Ideal', color: 'var(--muted-foreground)' },
+} satisfies ChartConfig;
+
+const burnupConfig = {
+  completed: { label: 'Completed', color: '#22c55e' },
+  scope: { label: 'Scope', color: 'var(--chart-1)' },
+} satisfies ChartConfig;
+
+const flowConfig = {
+  Done: { label: 'Done', color: '#22c55e' },
+  Blocked: { label: 'Blocked', color: '#ef4444' },
+  InProgress: { label: 'In Progress', color: '#3b82f6' },
+  ToDo: { label: 'To Do', color: '#64748b' },
+} satisfies ChartConfig;
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return '—';
+  return hours < 1 ? `${Math.round(hours * 60)}m` : `${hours.toFixed(1)}h`;
+};
+
+/**
+ * Burndown, burnup and cumulative flow over the project window, built from the recorded
+ * status transitions, with velocity and cycle/lead times.
+ */
+export function TaskFlowCharts({ project, tasks, history, now }: TaskFlowChartsProps) {
+  const projectWindow = useMemo(() => getProjectWindow(project), [project.createdAt, project.duration]);
+  const series = useMemo(() => buildFlowSeries(tasks, history, projectWindow, now), [tasks, history, projectWindow, now]);
+  const cycleTimes = useMemo(() => getTaskCycleTimes(tasks, history), [tasks, history]);
+  const velocity = useMemo(() => getVelocity(tasks, history, projectWindow, now), [tasks, history, projectWindow, now]);
+
+  const avgLead = averageHours(cycleTimes.map((c) => c.leadHours));
+  const avgCycle = averageHours(cycleTimes.map((c) => c.cycleHours));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingDown className="h-5 w-5 text-primary" />
+          Task Flow
+        </CardTitle>
+        <CardDescription>
+          Built from every status change over the {project.duration} window. Effort is in estimated hours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="rounded-lg border p-3">
+            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Activity className="h-3 w-3" />
+              Velocity
+            </div>
+            <div className="text-xl font-bold">{velocity.tasksPerHour.toFixed(2)} tasks/h</div>
+            <div className="text-xs text-muted-foreground">
+              {velocity.effortPerHour.toFixed(1)} effort hours per hour · {velocity.trend}
+            </div>
+          </div>
+          <div className="rounded-lg border p-3">
+            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Timer className="h-3 w-3" />
+              Avg cycle time
+            </div>
+            <div className="text-xl font-bold">{formatHours(avgCycle)}</div>
+            <div className="text-xs text-muted-foreground">From In Progress to Done</div>
+          </div>
+          <div className="rounded-lg border p-3">
+            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Timer className="h-3 w-3" />
+              Avg lead time
+            </div>
+            <div className="text-xl font-bold">{formatHours(avgLead)}</div>
+            <div className="text-xs text-muted-foreground">From created to Done</div>
+          </div>
+        </div>
+
+        <Tabs defaultValue="burndown">
+          <TabsList>
+            <TabsTrigger value="burndown">Burndown</TabsTrigger>
+            <TabsTrigger value="burnup">Burnup</TabsTrigger>
+            <TabsTrigger value="flow">Cumulative Flow</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="burndown">
+            <ChartContainer config={burndownConfig} className="h-64 w-full">
+              <LineChart data={series} margin={{ left: 0, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent indicator="line" />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="ideal" stroke="var(--color-ideal)" strokeDasharray="4 4" dot={false} />
+                <Line dataKey="remaining" stroke="var(--color-remaining)" strokeWidth={2} dot={false} type="stepAfter" />
+              </LineChart>
+            </ChartContainer>
+          </TabsContent>
+
+          <TabsContent value="burnup">
+            <ChartContainer config={burnupConfig} className="h-64 w-full">
+              <LineChart data={series} margin={{ left: 0, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent indicator="line" />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="scope" stroke="var(--color-scope)" strokeDasharray="4 4" dot={false} type="stepAfter" />
+                <Line dataKey="completed" stroke="var(--color-completed)" strokeWidth={2} dot={false} type="stepAfter" />
+              </LineChart>
+            </ChartContainer>
+          </TabsContent>
+
+          <TabsContent value="flow">
+            <ChartContainer config={flowConfig} className="h-64 w-full">
+              <AreaChart data={series} margin={{ left: 0, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent indicator="dot" />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {(Object.keys(flowConfig) as (keyof typeof flowConfig)[]).map((status) => (
+                  <Area
+                    key={status}
+                    dataKey={status}
+                    stackId="flow"
+                    type="stepAfter"
+                    stroke={`var(--color-${status})`}
+                    fill={`var(--color-${status})`}
+                    fillOpacity={0.4}
+                  />
+                ))}
+              </AreaChart>
+            </ChartContainer>
+          </TabsContent>
+        </Tabs>
+
+        {cycleTimes.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Recently completed</h4>
+            <div className="divide-y rounded-lg border text-sm">
+              {cycleTimes.slice(0, 6).map((entry) => (
+                <div key={entry.taskId} className="flex items-center justify-between gap-2 px-3 py-2">
+                  <span className="truncate">{entry.title}</span>
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    cycle {formatHours(entry.cycleHours)} · lead {formatHours(entry.leadHours)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useAuth } from '@/lib/auth-context';
+import {
+  getJudgeHackathons,
+  subscribeToJudgeAssignments,
+  subscribeToJudgeFeedback
+} from '@/lib/judging-service';
+import { HackathonEvent, JudgeAssignment, JudgeFeedback } from '@/lib/types';
+import {
+  Gavel,
+  CheckCircle,
+  Clock,
+  ArrowRight
+} from 'lucide-react';
+
+export function JudgeDashboard() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [assignments, setAssignments] = useState<JudgeAssignment[]>([]);
+  const [feedback, setFeedback] = useState<JudgeFeedback[]>([]);
+  const [hackathons, setHackathons] = useState<HackathonEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    getJudgeHackathons(user.uid).then(setHackathons);
+    const unsubAssignments = subscribeToJudgeAssignments(user.uid, (a) => {
+      setAssignments(a);
+      setLoading(false);
+    });
+    const unsubFeedback = subscribeToJudgeFeedback(user.uid, setFeedback);
+
+    return () => {
+      unsubAssignments();
+      unsubFeedback();
+    };
+  }, [user]);
+
+  if (!user) return null;
+
+  const feedbackById = new Map(feedback.map(f => [f.id, f]));
+  const completedCount = assignments.filter(a => feedbackById.has(a.id)).length;
+  const hackathonIds = Array.from(new Set(assignments.map(a => a.hackathonId)));
+
+  const getHackathonName = (hackathonId: string) =>
+    hackathons.find(h => h.event_id === hackathonId)?.name || 'Hackathon';
+
+  if (loading) {
+    return (
+      <Card className="animate-pulse">
+        <CardHeader>
+          <div className="h-4 bg-muted rounded w-1/3"></div>
+        </CardHeader>
+        <CardContent>
+          <div className="h-20 bg-muted rounded"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gavel className="h-5 w-5" />
+            Your Judging Queue
+          </CardTitle>
+          <CardDescription>
+            Projects organizers have assigned to you for review
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {assignments.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Gavel className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No projects assigned to you yet</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span>Overall progress</span>
+                <span className="text-muted-foreground">
+                  {completedCount}/{assignments.length} reviewed
+                </span>
+              </div>
+              <Progress value={(completedCount / assignments.length) * 100} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {hackathonIds.map(hackathonId => {
+        const queue = assignments.filter(a => a.hackathonId === hackathonId);
+        // Pending reviews first so the next project to judge is always on top
+        const ordered = [...queue].sort((a, b) => Number(feedbackById.has(a.id)) - Number(feedbackById.has(b.id)));
+        const done = queue.filter(a => feedbackById.has(a.id)).length;
+
+        return (
+          <Card key={hackathonId}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">{getHackathonName(hackathonId)}</CardTitle>
+                <Badge variant="outline">{done}/{queue.length} reviewed</Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {ordered.map(assignment => {
+                const review = feedbackById.get(assignment.id);
+                return (
+                  <div key={assignment.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div className="flex items-center gap-3">
+                      {review ? (
+                        <CheckCircle className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <Clock className="h-4 w-4 text-muted-foreground" />
+                      )}
+                      <div>
+                        <div className="font-medium">{assignment.projectName}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {review
+                            ? `Scored ${review.overallScore.toFixed(1)}/10`
+                            : `Assigned ${assignment.assignedAt.toLocaleDateString()}`}
+                        </div>
+                      </div>
+                    </div>
+                    <Button
+                      variant={review ? 'outline' : 'default'}
+                      size="sm"
+                      onClick={() => router.push(`/project/${assignment.projectId}?tab=judging`)}
+                    >
+                      {review ? 'Edit Review' : 'Review'}
+                      <ArrowRight className="ml-2 h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -12,7 +12,19 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Slider } from '@/components/ui/slider';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useAuth } from '@/lib/auth-context';
-import { Project, ProjectMember } from '@/lib/types';
+import { getHackathon } from '@/lib/firestore';
+import { Project, ProjectMember, JudgeFeedback, JudgingCriteria } from '@/lib/types';
+import {
+  DEFAULT_CRITERIA,
+  aggregateProjectFeedback,
+  calculateOverallScore,
+  createJudgeFeedback,
+  getCriteriaForTrack,
+  getDefaultScores,
+  getRubricCriteria,
+  subscribeToProjectFeedback,
+  updateJudgeFeedback
+} from '@/lib/judging-service';
 import { 
   Star, 
   MessageSquare, 
@@ -30,71 +42,6 @@ import {
   Download
 } from 'lucide-react';
 
-interface JudgeFeedback {
-  id: string;
-  projectId: string;
-  judgeId: string;
-  judgeName: string;
-  judgeEmail: string;
-  scores: {
-    innovation: number;
-    technical: number;
-    design: number;
-    presentation: number;
-    impact: number;
-  };
-  overallScore: number;
-  comments: {
-    strengths: string;
-    improvements: string;
-    general: string;
-  };
-  categories: string[];
-  recommendation: 'winner' | 'finalist' | 'honorable_mention' | 'participant';
-  submittedAt: Date;
-  isPublic: boolean;
-}
-
-interface JudgingCriteria {
-  name: string;
-  description: string;
-  weight: number;
-  maxScore: number;
-}
-
-const DEFAULT_CRITERIA: JudgingCriteria[] = [
-  {
-    name: 'innovation',
-    description: 'Originality and creativity of the solution',
-    weight: 0.25,
-    maxScore: 10
-  },
-  {
-    name: 'technical',
-    description: 'Technical complexity and implementation quality',
-    weight: 0.25,
-    maxScore: 10
-  },
-  {
-    name: 'design',
-    description: 'User experience and interface design',
-    weight: 0.2,
-    maxScore: 10
-  },
-  {
-    name: 'presentation',
-    description: 'Quality of pitch and demonstration',
-    weight: 0.15,
-    maxScore: 10
-  },
-  {
-    name: 'impact',
-    description: 'Potential real-world impact and market viability',
-    weight: 0.15,
-    maxScore: 10
-  }
-];
-
 interface JudgeFeedbackSystemProps {
   project: Project;
   members: ProjectMember[];
@@ -110,116 +57,107 @@ export function JudgeFeedbackSystem({
 }: JudgeFeedbackSystemProps) {
   const { user } = useAuth();
   const [feedback, setFeedback] = useState<JudgeFeedback[]>([]);
+  const [criteria, setCriteria] = useState<JudgingCriteria[]>(DEFAULT_CRITERIA);
   const [currentFeedback, setCurrentFeedback] = useState<Partial<JudgeFeedback>>({
-    scores: { innovation: 5, technical: 5, design: 5, presentation: 5, impact: 5 },
+    scores: getDefaultScores(DEFAULT_CRITERIA),
     comments: { strengths: '', improvements: '', general: '' },
     categories: [],
     recommendation: 'participant',
     isPublic: false
   });
-  const [loading, setLoading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
   const [activeTab, setActiveTab] = useState('scoring');
 
+  const hackathonId = project.hackathonId || project.hackathon_event;
+  const existingFeedback = user ? feedback.find(f => f.judgeId === user.uid) : undefined;
+
+  useEffect(() => {
+    // Teams only see feedback judges chose to make public; judges and organizers see everything
+    const unsubscribe = subscribeToProjectFeedback(project.id, setFeedback, {
+      publicOnly: !isJudgeView,
+      hackathonId,
+      judgeId: user?.uid
+    });
+    return () => unsubscribe();
+  }, [project.id, isJudgeView, hackathonId, user?.uid]);
+
+  // Score against the hackathon's rubric, narrowed to the project's track
   useEffect(() => {
-    loadFeedback();
-  }, [project.id]);
+    if (!hackathonId) return;
+    let cancelled = false;
+    getHackathon(hackathonId).then((hackathon) => {
+      if (cancelled || !hackathon) return;
+      const rubric = getCriteriaForTrack(getRubricCriteria(hackathon.settings), project.track);
+      setCriteria(rubric);
+      setCurrentFeedback(prev => ({ ...prev, scores: { ...getDefaultScores(rubric), ...prev.scores } }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [hackathonId, project.track]);
 
-  const loadFeedback = () => {
-    // Load feedback from localStorage (in production, this would be from backend)
-    try {
-      const stored = localStorage.getItem(`feedback_${project.id}`);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        setFeedback(parsed.map((f: any) => ({
-          ...f,
-          submittedAt: new Date(f.submittedAt)
-        })));
-      }
-    } catch (error) {
-      console.error('Failed to load feedback:', error);
-    }
-  };
+  // Judges editing a previous evaluation start from what they submitted
+  useEffect(() => {
+    if (!existingFeedback) return;
+    setCurrentFeedback({
+      scores: existingFeedback.scores,
+      comments: existingFeedback.comments,
+      categories: existingFeedback.categories,
+      recommendation: existingFeedback.recommendation,
+      isPublic: existingFeedback.isPublic
+    });
+  }, [existingFeedback?.id]);
 
   const saveFeedback = async () => {
     if (!user) return;
 
     setSubmitting(true);
+    setError('');
     try {
-      const overallScore = calculateOverallScore(currentFeedback.scores!);
-      
-      const newFeedback: JudgeFeedback = {
-        id: `feedback_${Date.now()}_${user.uid}`,
-        projectId: project.id,
-        judgeId: user.uid,
+      if (!hackathonId) {
+        throw new Error('This project is not registered for a hackathon');
+      }
+
+      // Only keep scores for criteria in the current rubric
+      const scores = Object.fromEntries(
+        criteria.map(c => [c.name, currentFeedback.scores?.[c.name] ?? c.maxScore / 2])
+      );
+      const overallScore = calculateOverallScore(scores, criteria);
+      const evaluation = {
         judgeName: user.displayName || user.email,
         judgeEmail: user.email,
-        scores: currentFeedback.scores!,
+        scores,
         overallScore,
         comments: currentFeedback.comments!,
         categories: currentFeedback.categories!,
         recommendation: currentFeedback.recommendation!,
-        submittedAt: new Date(),
         isPublic: currentFeedback.isPublic!
       };
 
-      const updatedFeedback = [...feedback.filter(f => f.judgeId !== user.uid), newFeedback];
-      
-      // Save to localStorage (in production, this would be saved to backend)
-      localStorage.setItem(`feedback_${project.id}`, JSON.stringify(updatedFeedback));
-      
-      setFeedback(updatedFeedback);
-      
-      // Reset form
-      setCurrentFeedback({
-        scores: { innovation: 5, technical: 5, design: 5, presentation: 5, impact: 5 },
-        comments: { strengths: '', improvements: '', general: '' },
-        categories: [],
-        recommendation: 'participant',
-        isPublic: false
-      });
+      if (existingFeedback) {
+        await updateJudgeFeedback(existingFeedback.id, evaluation);
+      } else {
+        await createJudgeFeedback({
+          ...evaluation,
+          projectId: project.id,
+          hackathonId,
+          judgeId: user.uid
+        });
+      }
 
       setActiveTab('results');
-    } catch (error) {
+    } catch (error: any) {
       console.error('Failed to save feedback:', error);
+      setError(error.message || 'Failed to save feedback');
     } finally {
       setSubmitting(false);
     }
   };
 
-  const calculateOverallScore = (scores: JudgeFeedback['scores']) => {
-    return DEFAULT_CRITERIA.reduce((total, criteria) => {
-      const score = scores[criteria.name as keyof typeof scores];
-      return total + (score * criteria.weight);
-    }, 0);
-  };
-
-  const getAverageScores = () => {
+  const getAggregatedResults = () => {
     if (feedback.length === 0) return null;
-
-    const averages = {
-      innovation: 0,
-      technical: 0,
-      design: 0,
-      presentation: 0,
-      impact: 0,
-      overall: 0
-    };
-
-    feedback.forEach(f => {
-      averages.innovation += f.scores.innovation;
-      averages.technical += f.scores.technical;
-      averages.design += f.scores.design;
-      averages.presentation += f.scores.presentation;
-      averages.impact += f.scores.impact;
-      averages.overall += f.overallScore;
-    });
-
-    Object.keys(averages).forEach(key => {
-      averages[key as keyof typeof averages] /= feedback.length;
-    });
-
-    return averages;
+    return aggregateProjectFeedback(project.id, feedback, criteria);
   };
 
   const getScoreColor = (score: number) => {
@@ -267,14 +205,14 @@ export function JudgeFeedbackSystem({
             <div className="space-y-4">
               {/* Average Scores */}
               {(() => {
-                const averages = getAverageScores();
-                return averages ? (
+                const results = getAggregatedResults();
+                return results ? (
                   <div className="grid gap-4 md:grid-cols-3">
                     <Card>
                       <CardContent className="pt-4">
                         <div className="text-center">
-                          <div className={`text-2xl font-bold ${getScoreColor(averages.overall)}`}>
-                            {averages.overall.toFixed(1)}
+                          <div className={`text-2xl font-bold ${getScoreColor(results.overall.mean)}`}>
+                            {results.overall.mean.toFixed(1)}
                           </div>
                           <div className="text-sm text-muted-foreground">Overall Score</div>
                         </div>
@@ -392,41 +330,41 @@ export function JudgeFeedbackSystem({
                 Evaluation Criteria
               </CardTitle>
               <CardDescription>
-                Rate each aspect of the project on a scale of 1-10
+                Rate each aspect of the project against the hackathon's judging rubric
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
-              {DEFAULT_CRITERIA.map((criteria) => (
-                <div key={criteria.name} className="space-y-3">
+              {criteria.map((criterion) => (
+                <div key={criterion.name} className="space-y-3">
                   <div className="flex items-center justify-between">
                     <div>
                       <Label className="capitalize font-medium">
-                        {criteria.name} ({(criteria.weight * 100).toFixed(0)}% weight)
+                        {criterion.name} ({(criterion.weight * 100).toFixed(0)}% weight)
                       </Label>
                       <p className="text-sm text-muted-foreground">
-                        {criteria.description}
+                        {criterion.description}
                       </p>
                     </div>
                     <div className="text-right">
                       <div className="text-lg font-bold">
-                        {currentFeedback.scores?.[criteria.name as keyof typeof currentFeedback.scores] || 5}
+                        {currentFeedback.scores?.[criterion.name] ?? criterion.maxScore / 2}
                       </div>
-                      <div className="text-xs text-muted-foreground">/ 10</div>
+                      <div className="text-xs text-muted-foreground">/ {criterion.maxScore}</div>
                     </div>
                   </div>
                   <Slider
-                    value={[currentFeedback.scores?.[criteria.name as keyof typeof currentFeedback.scores] || 5]}
+                    value={[currentFeedback.scores?.[criterion.name] ?? criterion.maxScore / 2]}
                     onValueChange={(value) => {
                       setCurrentFeedback(prev => ({
                         ...prev,
                         scores: {
                           ...prev.scores!,
-                          [criteria.name]: value[0]
+                          [criterion.name]: value[0]
                         }
                       }));
                     }}
-                    max={10}
-                    min={1}
+                    max={criterion.maxScore}
+                    min={0}
                     step={0.5}
                     className="w-full"
                   />
@@ -437,7 +375,7 @@ export function JudgeFeedbackSystem({
                 <div className="flex items-center justify-between">
                   <span className="font-medium">Overall Score</span>
                   <span className="text-xl font-bold text-primary">
-                    {calculateOverallScore(currentFeedback.scores!).toFixed(1)} / 10
+                    {calculateOverallScore(currentFeedback.scores!, criteria).toFixed(1)} / 10
                   </span>
                 </div>
               </div>
@@ -549,6 +487,13 @@ export function JudgeFeedbackSystem({
                 </div>
               </div>
 
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
               <Button 
                 onClick={saveFeedback} 
                 disabled={submitting}
@@ -562,7 +507,7 @@ export function JudgeFeedbackSystem({
                 ) : (
                   <>
                     <Send className="mr-2 h-4 w-4" />
-                    Submit Evaluation
+                    {existingFeedback ? 'Update Evaluation' : 'Submit Evaluation'}
                   </>
                 )}
               </Button>
@@ -587,19 +532,33 @@ export function JudgeFeedbackSystem({
                 <div className="space-y-6">
                   {/* Summary Stats */}
                   {(() => {
-                    const averages = getAverageScores();
-                    return averages ? (
-                      <div className="grid gap-4 md:grid-cols-5">
-                        {DEFAULT_CRITERIA.map((criteria) => (
-                          <div key={criteria.name} className="text-center">
-                            <div className={`text-xl font-bold ${getScoreColor(averages[criteria.name as keyof typeof averages])}`}>
-                              {averages[criteria.name as keyof typeof averages].toFixed(1)}
-                            </div>
-                            <div className="text-xs text-muted-foreground capitalize">
-                              {criteria.name}
-                            </div>
-                          </div>
-                        ))}
+                    const results = getAggregatedResults();
+                    return results ? (
+                      <div className="space-y-4">
+                        <div className="grid gap-4 md:grid-cols-5">
+                          {criteria.map((criterion) => {
+                            const stats = results.criteria[criterion.name];
+                            return (
+                              <div key={criterion.name} className="text-center">
+                                <div className={`text-xl font-bold ${getScoreColor((stats.mean / criterion.maxScore) * 10)}`}>
+                                  {stats.mean.toFixed(1)}
+                                </div>
+                                <div className="text-xs text-muted-foreground capitalize">
+                                  {criterion.name}
+                                </div>
+                                <div className="text-xs text-muted-foreground">
+                                  median {stats.median.toFixed(1)} • σ {stats.stdDev.toFixed(2)}
+                                </div>
+                              </div>
+                            );
+                          })}
+                        </div>
+                        <div className="flex items-center justify-between pt-4 border-t text-sm">
+                          <span className="font-medium">Overall ({results.judgeCount} judges)</span>
+                          <span className="text-muted-foreground">
+                            mean {results.overall.mean.toFixed(2)} • median {results.overall.median.toFixed(2)} • σ {results.overall.stdDev.toFixed(2)}
+                          </span>
+                        </div>
                       </div>
                     ) : null;
                   })()}
@@ -6,6 +6,9 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TaskTimer } from '@/components/projects/task-timer';
+import { TaskChecklist } from '@/components/projects/task-checklist';
+import { TaskComments } from '@/components/projects/task-comments';
 import { Task, ProjectMember } from '@/lib/types';
 import { 
   MoreVertical, 
@@ -15,7 +18,8 @@ import {
   CheckCircle,
   Circle,
   Play,
-  Trash2
+  Trash2,
+  Ban
 } from 'lucide-react';
 
 interface MobileTaskCardProps {
@@ -41,6 +45,7 @@ export function MobileTaskCard({
     switch (status) {
       case 'ToDo': return <Circle className="h-4 w-4 text-muted-foreground" />;
       case 'InProgress': return <Play className="h-4 w-4 text-blue-500" />;
+      case 'Blocked': return <Ban className="h-4 w-4 text-red-500" />;
       case 'Done': return <CheckCircle className="h-4 w-4 text-green-500" />;
       default: return <Circle className="h-4 w-4" />;
     }
@@ -50,6 +55,7 @@ export function MobileTaskCard({
     switch (status) {
       case 'ToDo': return 'bg-muted text-muted-foreground';
       case 'InProgress': return 'bg-blue-100 text-blue-800';
+      case 'Blocked': return 'bg-red-100 text-red-800';
       case 'Done': return 'bg-green-100 text-green-800';
       default: return 'bg-muted text-muted-foreground';
     }
@@ -89,6 +95,11 @@ export function MobileTaskCard({
                   {task.description}
                 </p>
               )}
+              {task.status === 'Blocked' && task.blocker && (
+                <p className="text-xs text-red-600 line-clamp-2 mb-2">
+                  Blocked: {task.blocker.reason}
+                </p>
+              )}
             </div>
             <Sheet open={detailsOpen} onOpenChange={setDetailsOpen}>
               <SheetTrigger asChild>
@@ -126,6 +137,7 @@ export function MobileTaskCard({
                       <SelectContent>
                         <SelectItem value="ToDo">To Do</SelectItem>
                         <SelectItem value="InProgress">In Progress</SelectItem>
+                        <SelectItem value="Blocked">Blocked</SelectItem>
                         <SelectItem value="Done">Done</SelectItem>
                       </SelectContent>
                     </Select>
@@ -211,7 +223,7 @@ export function MobileTaskCard({
             <div className="flex items-center gap-2">
               <Badge className={getStatusColor(task.status)} variant="secondary">
                 {task.status === 'ToDo' ? 'To Do' : 
-                 task.status === 'InProgress' ? 'In Progress' : 'Done'}
+                 task.status === 'InProgress' ? 'In Progress' : task.status}
               </Badge>
               <Badge className={getPriorityColor(task.priority)} variant="outline">
                 {task.priority}
@@ -229,6 +241,12 @@ export function MobileTaskCard({
               </div>
             )}
           </div>
+
+          <div className="mt-2 space-y-2">
+            <TaskChecklist task={task} members={members} compact />
+            <TaskTimer task={task} members={members} compact />
+            <TaskComments task={task} members={members} compact />
+          </div>
         </CardContent>
       </Card>
     </>
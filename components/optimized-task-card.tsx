@@ -5,9 +5,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Trash2, User, Clock } from 'lucide-react'
+import { Trash2, User } from 'lucide-react'
 import type { Task, ProjectMember } from '@/lib/types'
 import { TASK_PRIORITIES, TASK_EFFORTS } from '@/lib/constants'
+import { TaskTimer } from '@/components/projects/task-timer'
+import { TaskChecklist } from '@/components/projects/task-checklist'
+import { TaskComments } from '@/components/projects/task-comments'
 
 interface OptimizedTaskCardProps {
   task: Task
@@ -164,12 +167,17 @@ const OptimizedTaskCard = memo<OptimizedTaskCardProps>(({
           </Select>
         </div>
 
+        {/* Checklist */}
+        <TaskChecklist task={task} members={members} />
+
+        {/* Time tracking */}
+        <TaskTimer task={task} members={members} />
+
+        {/* Discussion */}
+        <TaskComments task={task} members={members} />
+
         {/* Task metadata */}
-        <div className="flex items-center justify-between text-xs text-muted-foreground">
-          <div className="flex items-center gap-1">
-            <Clock className="h-3 w-3" />
-            {task.time_spent ? `${Math.round(task.time_spent / 60)}h` : '0h'}
-          </div>
+        <div className="flex items-center justify-end text-xs text-muted-foreground">
           {assignedMember && (
             <div className="flex items-center gap-1">
               <div className="h-2 w-2 rounded-full bg-green-500" />
@@ -191,6 +199,9 @@ const OptimizedTaskCard = memo<OptimizedTaskCardProps>(({
     prevProps.task.effort === nextProps.task.effort &&
     prevProps.task.assigned_to === nextProps.task.assigned_to &&
     prevProps.task.time_spent === nextProps.task.time_spent &&
+    prevProps.task.active_timers === nextProps.task.active_timers &&
+    prevProps.task.checklist === nextProps.task.checklist &&
+    prevProps.task.comment_count === nextProps.task.comment_count &&
     prevProps.isDragging === nextProps.isDragging &&
     prevProps.members.length === nextProps.members.length
   )
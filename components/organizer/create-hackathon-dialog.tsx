@@ -11,7 +11,8 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useAuth } from '@/lib/auth-context';
 import { createHackathon } from '@/lib/firestore';
-import { HackathonEvent } from '@/lib/types';
+import { DEFAULT_CRITERIA, validateRubric } from '@/lib/judging-service';
+import { HackathonEvent, JudgingCriteria } from '@/lib/types';
 import { 
   Calendar, 
   Clock, 
@@ -20,9 +21,12 @@ import {
   Plus,
   X,
   Loader2,
-  AlertCircle
+  AlertCircle,
+  Scale
 } from 'lucide-react';
 
+const GENERAL_TRACK = '__general';
+
 interface CreateHackathonDialogProps {
   children: React.ReactNode;
   onHackathonCreated?: (hackathon: HackathonEvent) => void;
@@ -44,6 +48,8 @@ export function CreateHackathonDialog({ children, onHackathonCreated }: CreateHa
   const [theme, setTheme] = useState('');
   const [prizes, setPrizes] = useState<string[]>(['']);
   const [rules, setRules] = useState<string[]>(['']);
+  const [tracks, setTracks] = useState<string[]>([]);
+  const [criteria, setCriteria] = useState<JudgingCriteria[]>(DEFAULT_CRITERIA.map(c => ({ ...c })));
 
   if (!user) return null;
 
@@ -71,6 +77,45 @@ export function CreateHackathonDialog({ children, onHackathonCreated }: CreateHa
     setRules(prev => prev.map((rule, i) => i === index ? value : rule));
   };
 
+  const handleAddTrack = () => {
+    setTracks(prev => [...prev, '']);
+  };
+
+  const handleRemoveTrack = (index: number) => {
+    const removed = tracks[index];
+    setTracks(prev => prev.filter((_, i) => i !== index));
+    // Criteria for a removed track fall back to the general rubric
+    setCriteria(prev => prev.map(c => c.track === removed ? { ...c, track: undefined } : c));
+  };
+
+  const handleTrackChange = (index: number, value: string) => {
+    const previous = tracks[index];
+    setTracks(prev => prev.map((track, i) => i === index ? value : track));
+    setCriteria(prev => prev.map(c => previous && c.track === previous ? { ...c, track: value } : c));
+  };
+
+  const handleAddCriterion = () => {
+    setCriteria(prev => [...prev, { name: '', description: '', weight: 0, maxScore: 10 }]);
+  };
+
+  const handleRemoveCriterion = (index: number) => {
+    setCriteria(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleCriterionChange = (index: number, updates: Partial<JudgingCriteria>) => {
+    setCriteria(prev => prev.map((criterion, i) => i === index ? { ...criterion, ...updates } : criterion));
+  };
+
+  const getRubricCriteriaForSubmit = (): JudgingCriteria[] => {
+    // Firestore rejects undefined fields, so general criteria omit `track` entirely
+    return criteria.map(({ track, ...criterion }) => ({
+      ...criterion,
+      name: criterion.name.trim(),
+      description: criterion.description.trim(),
+      ...(track ? { track } : {})
+    }));
+  };
+
   const validateForm = (): string | null => {
     if (!name.trim()) return 'Hackathon name is required';
     if (!description.trim()) return 'Description is required';
@@ -79,6 +124,9 @@ export function CreateHackathonDialog({ children, onHackathonCreated }: CreateHa
     if (new Date(startDate) >= new Date(endDate)) return 'End date must be after start date';
     if (parseInt(maxTeams) < 1) return 'Maximum teams must be at least 1';
     if (parseInt(maxTeamSize) < 1) return 'Maximum team size must be at least 1';
+    if (tracks.some(t => !t.trim())) return 'Track names cannot be empty';
+    const rubricError = validateRubric(getRubricCriteriaForSubmit());
+    if (rubricError) return rubricError;
     return null;
   };
 
@@ -104,6 +152,12 @@ export function CreateHackathonDialog({ children, onHackathonCreated }: CreateHa
         rules: rules.filter(r => r.trim().length > 0),
         organizer: user.displayName || user.email || '',
         status: 'upcoming' as const,
+        settings: {
+          allowPublicDemo: true,
+          requireJudgeApproval: false,
+          judgingCriteria: getRubricCriteriaForSubmit(),
+          tracks: tracks.map(t => t.trim()),
+        },
       };
 
       const newHackathon = await createHackathon(hackathonData);
@@ -122,6 +176,8 @@ export function CreateHackathonDialog({ children, onHackathonCreated }: CreateHa
       setTheme('');
       setPrizes(['']);
       setRules(['']);
+      setTracks([]);
+      setCriteria(DEFAULT_CRITERIA.map(c => ({ ...c })));
       setOpen(false);
 
     } catch (err: any) {
@@ -337,6 +393,139 @@ export function CreateHackathonDialog({ children, onHackathonCreated }: CreateHa
             </div>
           </div>
 
+          {/* Judging Rubric */}
+          <div className="space-y-4">
+            <h3 className="font-medium flex items-center gap-2">
+              <Scale className="h-4 w-4" />
+              Judging Rubric
+            </h3>
+
+            <div className="space-y-2">
+              <Label>Tracks (Optional)</Label>
+              {tracks.map((track, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    placeholder={`Track ${index + 1} (e.g., Healthcare, Sustainability)`}
+                    value={track}
+                    onChange={(e) => handleTrackChange(index, e.target.value)}
+                    disabled={loading}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handleRemoveTrack(index)}
+                    disabled={loading}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleAddTrack}
+                disabled={loading}
+                className="w-full"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Track
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              {criteria.map((criterion, index) => (
+                <div key={index} className="space-y-2 p-3 border rounded-lg">
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Criterion name"
+                      value={criterion.name}
+                      onChange={(e) => handleCriterionChange(index, { name: e.target.value })}
+                      disabled={loading}
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleRemoveCriterion(index)}
+                      disabled={loading || criteria.length <= 1}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Input
+                    placeholder="What judges should look for"
+                    value={criterion.description}
+                    onChange={(e) => handleCriterionChange(index, { description: e.target.value })}
+                    disabled={loading}
+                  />
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Weight (%)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={Math.round(criterion.weight * 1000) / 10}
+                        onChange={(e) => handleCriterionChange(index, { weight: (parseFloat(e.target.value) || 0) / 100 })}
+                        disabled={loading}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Max Score</Label>
+                      <Input
+                        type="number"
+                        min="1"
+                        value={criterion.maxScore}
+                        onChange={(e) => handleCriterionChange(index, { maxScore: parseInt(e.target.value) || 0 })}
+                        disabled={loading}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Applies To</Label>
+                      <Select
+                        value={criterion.track || GENERAL_TRACK}
+                        onValueChange={(value) => handleCriterionChange(index, { track: value === GENERAL_TRACK ? undefined : value })}
+                        disabled={loading || tracks.filter(t => t.trim()).length === 0}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={GENERAL_TRACK}>All projects</SelectItem>
+                          {tracks.filter(t => t.trim()).map(track => (
+                            <SelectItem key={track} value={track}>{track} track</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </div>
+              ))}
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>
+                  General weights total{' '}
+                  <Badge variant="outline">
+                    {Math.round(criteria.filter(c => !c.track).reduce((sum, c) => sum + c.weight, 0) * 100)}%
+                  </Badge>
+                </span>
+                <span>Track-specific criteria replace the general rubric for that track</span>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleAddCriterion}
+                disabled={loading}
+                className="w-full"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Criterion
+              </Button>
+            </div>
+          </div>
+
           {error && (
             <Alert variant="destructive">
               <AlertCircle className="h-4 w-4" />
@@ -6,7 +6,10 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { CreateHackathonDialog } from './create-hackathon-dialog';
+import { JudgeManagement } from './judge-management';
+import { HackathonResultsPanel } from './hackathon-results';
 import { useAuth } from '@/lib/auth-context';
 import { getOrganizerHackathons, getHackathonTeams, getHackathonStats } from '@/lib/firestore';
 import { HackathonEvent, Project } from '@/lib/types';
@@ -22,7 +25,8 @@ import {
   MapPin,
   AlertCircle,
   TrendingUp,
-  Activity
+  Activity,
+  Gavel
 } from 'lucide-react';
 
 interface HackathonStats {
@@ -96,6 +100,11 @@ export function HackathonManagement() {
     }));
   };
 
+  const handleHackathonUpdated = (updated: HackathonEvent) => {
+    setHackathons(prev => prev.map(h => h.event_id === updated.event_id ? updated : h));
+    setSelectedHackathon(updated);
+  };
+
   const getStatusColor = (status: HackathonEvent['status']) => {
     switch (status) {
       case 'upcoming': return 'bg-blue-100 text-blue-800';
@@ -124,6 +133,25 @@ export function HackathonManagement() {
     return diffDays;
   };
 
+  const renderHackathonSelect = (Icon: typeof Gavel) => (
+    <div className="flex items-center gap-3">
+      <Icon className="h-5 w-5 text-muted-foreground" />
+      <Select
+        value={selectedHackathon?.event_id}
+        onValueChange={(id) => setSelectedHackathon(hackathons.find(h => h.event_id === id) || null)}
+      >
+        <SelectTrigger className="max-w-sm">
+          <SelectValue placeholder="Select a hackathon" />
+        </SelectTrigger>
+        <SelectContent>
+          {hackathons.map(h => (
+            <SelectItem key={h.event_id} value={h.event_id}>{h.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
   if (!user) return null;
 
   if (loading) {
@@ -193,6 +221,8 @@ export function HackathonManagement() {
           <TabsList>
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="events">Events</TabsTrigger>
+            <TabsTrigger value="judging">Judging</TabsTrigger>
+            <TabsTrigger value="results">Results</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
           </TabsList>
 
@@ -397,6 +427,30 @@ export function HackathonManagement() {
             </div>
           </TabsContent>
 
+          {/* Judging Tab */}
+          <TabsContent value="judging" className="space-y-6">
+            {renderHackathonSelect(Gavel)}
+            {selectedHackathon && (
+              <JudgeManagement
+                key={selectedHackathon.event_id}
+                hackathon={selectedHackathon}
+                onHackathonUpdated={handleHackathonUpdated}
+              />
+            )}
+          </TabsContent>
+
+          {/* Results Tab */}
+          <TabsContent value="results" className="space-y-6">
+            {renderHackathonSelect(Trophy)}
+            {selectedHackathon && (
+              <HackathonResultsPanel
+                key={selectedHackathon.event_id}
+                hackathon={selectedHackathon}
+                onHackathonUpdated={handleHackathonUpdated}
+              />
+            )}
+          </TabsContent>
+
           {/* Analytics Tab */}
           <TabsContent value="analytics" className="space-y-6">
             <Card>
@@ -0,0 +1,323 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  DEFAULT_RESULTS_CONFIG,
+  computeHackathonResults,
+  saveResultsSettings,
+  publishHackathonResults
+} from '@/lib/hackathon-results';
+import { getRubricCriteria } from '@/lib/judging-service';
+import { HackathonEvent, HackathonResults, PrizeCategory, ResultsConfig } from '@/lib/types';
+import {
+  Trophy,
+  Medal,
+  ArrowUp,
+  X,
+  Loader2,
+  AlertCircle,
+  CheckCircle,
+  ExternalLink,
+  RefreshCw
+} from 'lucide-react';
+
+interface HackathonResultsPanelProps {
+  hackathon: HackathonEvent;
+  onHackathonUpdated?: (hackathon: HackathonEvent) => void;
+}
+
+const OVERALL_CATEGORY = '__overall';
+
+// Prize categories are encoded as a single Select value: overall, track:<name> or criterion:<name>
+const encodeCategory = (category?: PrizeCategory) => {
+  if (category?.track) return `track:${category.track}`;
+  if (category?.criterion) return `criterion:${category.criterion}`;
+  return OVERALL_CATEGORY;
+};
+
+const decodeCategory = (prize: string, value: string): PrizeCategory => {
+  if (value.startsWith('track:')) return { prize, track: value.slice('track:'.length) };
+  if (value.startsWith('criterion:')) return { prize, criterion: value.slice('criterion:'.length) };
+  return { prize };
+};
+
+export function HackathonResultsPanel({ hackathon, onHackathonUpdated }: HackathonResultsPanelProps) {
+  const [config, setConfig] = useState<ResultsConfig>(hackathon.settings?.resultsConfig || DEFAULT_RESULTS_CONFIG);
+  const [categories, setCategories] = useState<PrizeCategory[]>(hackathon.settings?.prizeCategories || []);
+  const [results, setResults] = useState<Omit<HackathonResults, 'publishedAt'> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const [error, setError] = useState('');
+
+  const criterionNames = Array.from(new Set(getRubricCriteria(hackathon.settings).map(c => c.name)));
+  const tracks = hackathon.settings?.tracks || [];
+  const isPublished = hackathon.status === 'completed';
+
+  useEffect(() => {
+    calculateResults();
+  }, [hackathon.event_id, config, categories]);
+
+  const calculateResults = async () => {
+    setError('');
+    setLoading(true);
+    try {
+      setResults(await computeHackathonResults(hackathon, config, categories));
+    } catch (err: any) {
+      setError(err.message || 'Failed to calculate results');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addTieBreaker = (criterion: string) => {
+    setConfig(prev => ({ ...prev, tieBreakers: [...prev.tieBreakers, criterion] }));
+  };
+
+  const removeTieBreaker = (criterion: string) => {
+    setConfig(prev => ({ ...prev, tieBreakers: prev.tieBreakers.filter(c => c !== criterion) }));
+  };
+
+  const raiseTieBreaker = (index: number) => {
+    if (index === 0) return;
+    setConfig(prev => {
+      const tieBreakers = [...prev.tieBreakers];
+      [tieBreakers[index - 1], tieBreakers[index]] = [tieBreakers[index], tieBreakers[index - 1]];
+      return { ...prev, tieBreakers };
+    });
+  };
+
+  const updateCategory = (prize: string, value: string) => {
+    setCategories(prev => [...prev.filter(c => c.prize !== prize), decodeCategory(prize, value)]);
+  };
+
+  const handlePublish = async () => {
+    if (!results) return;
+    setError('');
+    setPublishing(true);
+    try {
+      await saveResultsSettings(hackathon.event_id, config, categories);
+      await publishHackathonResults(results);
+      onHackathonUpdated?.({
+        ...hackathon,
+        status: 'completed',
+        settings: { ...hackathon.settings, resultsConfig: config, prizeCategories: categories }
+      });
+    } catch (err: any) {
+      setError(err.message || 'Failed to publish results');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const availableTieBreakers = criterionNames.filter(name => !config.tieBreakers.includes(name));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Medal className="h-5 w-5" />
+            Ranking Rules
+          </CardTitle>
+          <CardDescription>
+            Decide how judge scores turn into a final ranking
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="normalizeJudgeScores">Normalize judge scores</Label>
+              <p className="text-xs text-muted-foreground">
+                Compares each score to the judge's own average so harsh and lenient judges carry equal weight
+              </p>
+            </div>
+            <Switch
+              id="normalizeJudgeScores"
+              checked={config.normalizeJudgeScores}
+              onCheckedChange={(checked) => setConfig(prev => ({ ...prev, normalizeJudgeScores: checked }))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tie-breakers</Label>
+            <p className="text-xs text-muted-foreground">
+              Criteria compared in order when projects have the same score
+            </p>
+            {config.tieBreakers.map((criterion, index) => (
+              <div key={criterion} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+                <span>{index + 1}. {criterion}</span>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => raiseTieBreaker(index)} disabled={index === 0}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => removeTieBreaker(criterion)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {availableTieBreakers.length > 0 && (
+              <Select value="" onValueChange={addTieBreaker}>
+                <SelectTrigger className="max-w-sm">
+                  <SelectValue placeholder="Add a tie-breaker" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableTieBreakers.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {hackathon.prizes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Prize categories</Label>
+              {hackathon.prizes.map(prize => (
+                <div key={prize} className="flex items-center justify-between gap-4 p-2 border rounded-lg text-sm">
+                  <span className="font-medium">{prize}</span>
+                  <Select
+                    value={encodeCategory(categories.find(c => c.prize === prize))}
+                    onValueChange={(value) => updateCategory(prize, value)}
+                  >
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={OVERALL_CATEGORY}>Overall ranking</SelectItem>
+                      {tracks.map(track => (
+                        <SelectItem key={`track:${track}`} value={`track:${track}`}>Best in {track} track</SelectItem>
+                      ))}
+                      {criterionNames.map(name => (
+                        <SelectItem key={`criterion:${name}`} value={`criterion:${name}`}>Highest {name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Trophy className="h-5 w-5" />
+                Leaderboard
+              </CardTitle>
+              <CardDescription>
+                {isPublished ? 'Results are published' : 'Preview — only you can see this until you publish'}
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={calculateResults} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!results || results.leaderboard.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Trophy className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{loading ? 'Calculating results...' : 'No reviews submitted yet'}</p>
+            </div>
+          ) : (
+            <>
+              {results.winners.length > 0 && (
+                <div className="grid gap-2 md:grid-cols-2">
+                  {results.winners.map(winner => (
+                    <div key={winner.prize} className="flex items-center gap-3 p-3 border rounded-lg">
+                      <Trophy className="h-4 w-4 text-yellow-500" />
+                      <div>
+                        <div className="text-xs text-muted-foreground">{winner.prize}</div>
+                        <div className="font-medium">{winner.projectName}</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Rank</TableHead>
+                    <TableHead>Project</TableHead>
+                    <TableHead className="text-right">Score</TableHead>
+                    {config.normalizeJudgeScores && <TableHead className="text-right">Normalized</TableHead>}
+                    <TableHead className="text-right">Judges</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.leaderboard.map(entry => (
+                    <TableRow key={entry.projectId}>
+                      <TableCell className="font-bold">#{entry.rank}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {entry.projectName}
+                          {entry.track && <Badge variant="outline">{entry.track}</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{entry.score.toFixed(2)}</TableCell>
+                      {config.normalizeJudgeScores && (
+                        <TableCell className="text-right">{(entry.normalizedScore ?? 0).toFixed(2)}</TableCell>
+                      )}
+                      <TableCell className="text-right">{entry.judgeCount}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex items-center justify-between gap-4 pt-2 border-t">
+            {isPublished ? (
+              <div className="flex items-center gap-2 text-sm text-green-600">
+                <CheckCircle className="h-4 w-4" />
+                Published — republishing updates the public page
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Publishing makes the leaderboard public and marks the hackathon as completed.
+              </p>
+            )}
+            <div className="flex gap-2">
+              {isPublished && (
+                <Button variant="outline" asChild>
+                  <a href={`/results/${hackathon.event_id}`} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="mr-2 h-4 w-4" />
+                    View Public Page
+                  </a>
+                </Button>
+              )}
+              <Button onClick={handlePublish} disabled={publishing || loading || !results?.leaderboard.length}>
+                {publishing ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Trophy className="mr-2 h-4 w-4" />
+                )}
+                {isPublished ? 'Republish Results' : 'Publish Results'}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
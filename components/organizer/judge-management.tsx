@@ -0,0 +1,280 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { getProjectMembers } from '@/lib/firestore';
+import {
+  addHackathonJudge,
+  removeHackathonJudge,
+  generateJudgeAssignments,
+  getHackathonAssignments,
+  getHackathonFeedback
+} from '@/lib/judging-service';
+import { HackathonEvent, JudgeAssignment, ProjectMember } from '@/lib/types';
+import {
+  Gavel,
+  UserPlus,
+  X,
+  Shuffle,
+  Loader2,
+  AlertCircle,
+  CheckCircle
+} from 'lucide-react';
+
+interface JudgeManagementProps {
+  hackathon: HackathonEvent;
+  onHackathonUpdated?: (hackathon: HackathonEvent) => void;
+}
+
+export function JudgeManagement({ hackathon, onHackathonUpdated }: JudgeManagementProps) {
+  const [judges, setJudges] = useState<ProjectMember[]>([]);
+  const [assignments, setAssignments] = useState<JudgeAssignment[]>([]);
+  const [reviewedIds, setReviewedIds] = useState<Set<string>>(new Set());
+  const [judgeEmail, setJudgeEmail] = useState('');
+  const [reviewsPerProject, setReviewsPerProject] = useState(String(hackathon.settings?.reviewsPerProject || 3));
+  const [understaffed, setUnderstaffed] = useState<{ projectId: string; missing: number }[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const judgeIds = hackathon.judgeIds || [];
+
+  useEffect(() => {
+    loadJudgingData();
+  }, [hackathon.event_id, judgeIds.join(',')]);
+
+  const loadJudgingData = async () => {
+    try {
+      const [judgeProfiles, hackathonAssignments, feedback] = await Promise.all([
+        getProjectMembers(judgeIds),
+        getHackathonAssignments(hackathon.event_id),
+        getHackathonFeedback(hackathon.event_id)
+      ]);
+      setJudges(judgeProfiles);
+      setAssignments(hackathonAssignments);
+      setReviewedIds(new Set(feedback.map(f => f.id)));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load judging data');
+    }
+  };
+
+  const handleAddJudge = async () => {
+    if (!judgeEmail.trim()) return;
+    setError('');
+    setLoading(true);
+    try {
+      const judgeId = await addHackathonJudge(hackathon.event_id, judgeEmail);
+      if (!judgeIds.includes(judgeId)) {
+        onHackathonUpdated?.({ ...hackathon, judgeIds: [...judgeIds, judgeId] });
+      }
+      setJudgeEmail('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to add judge');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemoveJudge = async (judgeId: string) => {
+    setError('');
+    setLoading(true);
+    try {
+      await removeHackathonJudge(hackathon.event_id, judgeId);
+      onHackathonUpdated?.({ ...hackathon, judgeIds: judgeIds.filter(id => id !== judgeId) });
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove judge');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleGenerateAssignments = async () => {
+    const reviews = parseInt(reviewsPerProject);
+    if (!(reviews >= 1)) {
+      setError('Each project needs at least 1 review');
+      return;
+    }
+
+    setError('');
+    setLoading(true);
+    try {
+      const plan = await generateJudgeAssignments(hackathon.event_id, reviews);
+      setUnderstaffed(plan.understaffed);
+      onHackathonUpdated?.({
+        ...hackathon,
+        settings: { ...hackathon.settings, reviewsPerProject: reviews }
+      });
+      await loadJudgingData();
+    } catch (err: any) {
+      setError(err.message || 'Failed to generate assignments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getJudgeName = (judgeId: string) => {
+    const judge = judges.find(j => j.user_id === judgeId);
+    return judge?.name || judge?.email || judgeId;
+  };
+
+  const completedCount = assignments.filter(a => reviewedIds.has(a.id)).length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gavel className="h-5 w-5" />
+            Judges
+          </CardTitle>
+          <CardDescription>
+            Judges can only score the projects assigned to them
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              type="email"
+              placeholder="judge@example.com"
+              value={judgeEmail}
+              onChange={(e) => setJudgeEmail(e.target.value)}
+              disabled={loading}
+            />
+            <Button onClick={handleAddJudge} disabled={loading || !judgeEmail.trim()}>
+              <UserPlus className="mr-2 h-4 w-4" />
+              Add Judge
+            </Button>
+          </div>
+
+          {judgeIds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No judges added yet</p>
+          ) : (
+            <div className="space-y-2">
+              {judgeIds.map(judgeId => {
+                const judgeAssignments = assignments.filter(a => a.judgeId === judgeId);
+                const judgeCompleted = judgeAssignments.filter(a => reviewedIds.has(a.id)).length;
+                return (
+                  <div key={judgeId} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <div className="font-medium">{getJudgeName(judgeId)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {judgeCompleted}/{judgeAssignments.length} reviews submitted
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleRemoveJudge(judgeId)}
+                      disabled={loading}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Shuffle className="h-5 w-5" />
+            Assignments
+          </CardTitle>
+          <CardDescription>
+            Spread projects across judges so every project gets independent reviews. Judges never review their own team.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-end gap-2">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="reviewsPerProject">Reviews per project</Label>
+              <Input
+                id="reviewsPerProject"
+                type="number"
+                min="1"
+                value={reviewsPerProject}
+                onChange={(e) => setReviewsPerProject(e.target.value)}
+                disabled={loading}
+              />
+            </div>
+            <Button onClick={handleGenerateAssignments} disabled={loading || judgeIds.length === 0}>
+              {loading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Shuffle className="mr-2 h-4 w-4" />
+              )}
+              {assignments.length > 0 ? 'Regenerate' : 'Generate'} Assignments
+            </Button>
+          </div>
+
+          {assignments.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span>Judging progress</span>
+                <span className="text-muted-foreground">
+                  {completedCount}/{assignments.length} reviews
+                </span>
+              </div>
+              <Progress value={(completedCount / assignments.length) * 100} />
+              <p className="text-xs text-muted-foreground">
+                Regenerating keeps submitted reviews and reshuffles only pending ones.
+              </p>
+            </div>
+          )}
+
+          {understaffed.length > 0 && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {understaffed.length} project{understaffed.length === 1 ? '' : 's'} could not get enough eligible judges.
+                Add more judges or lower the reviews per project.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {assignments.length > 0 && understaffed.length === 0 && (
+            <div className="flex items-center gap-2 text-sm text-green-600">
+              <CheckCircle className="h-4 w-4" />
+              Every project has its reviews assigned
+            </div>
+          )}
+
+          {assignments.length > 0 && (
+            <div className="space-y-2">
+              {Array.from(new Set(assignments.map(a => a.projectId))).map(projectId => {
+                const projectAssignments = assignments.filter(a => a.projectId === projectId);
+                return (
+                  <div key={projectId} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                    <span className="font-medium">{projectAssignments[0].projectName}</span>
+                    <div className="flex flex-wrap gap-1 justify-end">
+                      {projectAssignments.map(a => (
+                        <Badge key={a.id} variant={reviewedIds.has(a.id) ? 'default' : 'outline'}>
+                          {getJudgeName(a.judgeId)}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
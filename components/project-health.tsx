@@ -5,9 +5,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
-import { Activity, Info, TrendingUp, Users, Clock, Code } from "lucide-react"
+import { Activity, Info, TrendingUp, Users, Clock, Code, Ban, Calendar } from "lucide-react"
 import { calculateProjectHealth } from "@/lib/health-utils"
-import { Project, Task, ProjectMember } from "@/lib/types"
+import { forecastCompletion } from "@/lib/completion-forecast"
+import { Project, Task, ProjectMember, TaskStatusTransition } from "@/lib/types"
 
 interface ProjectHealthProps {
     project: Project
@@ -15,13 +16,22 @@ interface ProjectHealthProps {
     members: ProjectMember[]
     commitsCount?: number
     now?: number
+    history?: TaskStatusTransition[]
 }
 
-export function ProjectHealth({ project, tasks, members, commitsCount = 0, now }: ProjectHealthProps) {
+const NO_HISTORY: TaskStatusTransition[] = []
+
+export function ProjectHealth({ project, tasks, members, commitsCount = 0, now, history = NO_HISTORY }: ProjectHealthProps) {
     const health = useMemo(
         () => calculateProjectHealth(project, tasks, members, commitsCount, now),
         [project, tasks, members, commitsCount, now]
     )
+    // The Monte Carlo forecast re-runs once a minute rather than on every clock tick
+    const minute = now === undefined ? undefined : Math.floor(now / 60000)
+    const forecast = useMemo(
+        () => forecastCompletion(project, tasks, history, { now: minute === undefined ? undefined : minute * 60000, teamSize: members.length }),
+        [project, tasks, history, members.length, minute]
+    )
 
     const getFactorIcon = (label: string) => {
         switch (label) {
@@ -29,6 +39,7 @@ export function ProjectHealth({ project, tasks, members, commitsCount = 0, now }
             case "Time": return <Clock className="h-3 w-3" />
             case "Code": return <Code className="h-3 w-3" />
             case "Team": return <Users className="h-3 w-3" />
+            case "Blockers": return <Ban className="h-3 w-3" />
             default: return <Activity className="h-3 w-3" />
         }
     }
@@ -64,7 +75,7 @@ export function ProjectHealth({ project, tasks, members, commitsCount = 0, now }
                                     </div>
                                 ))}
                                 <p className="text-[10px] text-muted-foreground mt-2 italic">
-                                    Score is calculated based on code activity, task progress, and member collaboration.
+                                    Score is calculated based on code activity, task progress, member collaboration, and time lost to blockers.
                                 </p>
                             </TooltipContent>
                         </Tooltip>
@@ -91,6 +102,23 @@ export function ProjectHealth({ project, tasks, members, commitsCount = 0, now }
                         </div>
                     ))}
                 </div>
+
+                {tasks.length > 0 && (
+                    <div className="flex items-center justify-between text-xs">
+                        <span className="flex items-center gap-1.5 text-muted-foreground">
+                            <Calendar className="h-3 w-3" />
+                            On-time chance
+                        </span>
+                        <span className={`font-semibold ${forecast.onTimeProbability >= 80 ? "text-green-600" : forecast.onTimeProbability >= 50 ? "text-yellow-600" : "text-red-600"}`}>
+                            {forecast.onTimeProbability}%
+                            {forecast.p50 && (
+                                <span className="font-normal text-muted-foreground">
+                                    {" "}· likely {forecast.p50.toLocaleString("en-US", { weekday: "short", hour: "numeric", minute: "2-digit" })}
+                                </span>
+                            )}
+                        </span>
+                    </div>
+                )}
             </CardContent>
         </Card>
     )
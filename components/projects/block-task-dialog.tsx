@@ -0,0 +1,125 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { BlockerInput } from '@/lib/task-blockers';
+import { ProjectMember, Task } from '@/lib/types';
+import { Ban, Loader2 } from 'lucide-react';
+
+interface BlockTaskDialogProps {
+  task: Task | null;
+  tasks: Task[];
+  members: ProjectMember[];
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (task: Task, blocker: BlockerInput) => Promise<void>;
+}
+
+const NONE = '__none';
+
+export function BlockTaskDialog({ task, tasks, members, onOpenChange, onConfirm }: BlockTaskDialogProps) {
+  const [reason, setReason] = useState('');
+  const [blockingTaskId, setBlockingTaskId] = useState(NONE);
+  const [blockingUserId, setBlockingUserId] = useState(NONE);
+  const [saving, setSaving] = useState(false);
+
+  // Start fresh for every task that is being blocked
+  useEffect(() => {
+    setReason('');
+    setBlockingTaskId(NONE);
+    setBlockingUserId(NONE);
+  }, [task?.task_id]);
+
+  const otherTasks = tasks.filter((t) => t.task_id !== task?.task_id && t.status !== 'Done');
+
+  const handleConfirm = async () => {
+    if (!task || !reason.trim()) return;
+
+    setSaving(true);
+    try {
+      await onConfirm(task, {
+        reason,
+        blockingTaskId: blockingTaskId === NONE ? undefined : blockingTaskId,
+        blockingUserId: blockingUserId === NONE ? undefined : blockingUserId,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!task} onOpenChange={(open) => !saving && onOpenChange(open)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ban className="h-5 w-5 text-red-500" />
+            Mark as Blocked
+          </DialogTitle>
+          <DialogDescription>
+            {task ? `What is stopping "${task.title}"? The people involved will be alerted.` : null}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="blocker-reason">Reason *</Label>
+            <Textarea
+              id="blocker-reason"
+              placeholder="e.g. Waiting for API keys from the sponsor"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Blocked by task</Label>
+            <Select value={blockingTaskId} onValueChange={setBlockingTaskId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No specific task</SelectItem>
+                {otherTasks.map((t) => (
+                  <SelectItem key={t.task_id} value={t.task_id}>
+                    {t.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Blocked by person</Label>
+            <Select value={blockingUserId} onValueChange={setBlockingUserId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No specific person</SelectItem>
+                {members.map((member) => (
+                  <SelectItem key={member.user_id} value={member.user_id}>
+                    {member.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={saving || !reason.trim()}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Mark Blocked
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useAuth } from '@/lib/auth-context';
+import { useToast } from '@/hooks/use-toast';
+import { ConflictResolver, type FieldConflict, type TaskConflict } from '@/lib/conflict-resolution';
+import { ProjectMember, Task } from '@/lib/types';
+import { GitMerge, Loader2 } from 'lucide-react';
+
+interface ConflictMergeDialogProps {
+  projectId: string;
+  tasks: Task[];
+  members: ProjectMember[];
+  // Called once per new conflict with the teammate's values, which stay on the board until the user picks
+  onConflict: (taskId: string, theirs: Partial<Task>) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  assigned_to: 'Assignee',
+  blocked_minutes: 'Blocked time',
+  due_date: 'Due date',
+};
+
+/** Field-by-field merge for task edits that collided with a teammate's. */
+export function ConflictMergeDialog({ projectId, tasks, members, onConflict }: ConflictMergeDialogProps) {
+  const { user, userProfile } = useAuth();
+  const { toast } = useToast();
+  const [conflicts, setConflicts] = useState<TaskConflict[]>([]);
+  const [choices, setChoices] = useState<Record<string, 'mine' | 'theirs'>>({});
+  const [seen, setSeen] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => ConflictResolver.subscribe((all) => setConflicts(all.filter((c) => c.projectId === projectId))), [projectId]);
+
+  const conflict = conflicts[0];
+
+  // Show the stored values on the board while the user decides, and default every field to theirs
+  useEffect(() => {
+    if (!conflict || seen.has(conflict.id)) return;
+    setSeen((prev) => new Set(prev).add(conflict.id));
+    setChoices(Object.fromEntries(conflict.fields.map((f) => [f.field, 'theirs'])));
+    onConflict(conflict.taskId, Object.fromEntries(conflict.fields.map((f) => [f.field, f.theirs])) as Partial<Task>);
+  }, [conflict, seen, onConflict]);
+
+  const memberName = (userId: string | null | undefined) =>
+    members.find((m) => m.user_id === userId)?.name || (userId ? 'A teammate' : 'Unassigned');
+
+  const formatValue = (field: string, value: any): string => {
+    if (value === null || value === undefined || value === '') return field === 'assigned_to' ? 'Unassigned' : 'None';
+    if (field === 'assigned_to') return memberName(value);
+    if (field === 'blocker') return value.reason || 'Blocked';
+    if (field === 'dependencies' && Array.isArray(value)) {
+      return value.map((id) => tasks.find((t) => t.task_id === id)?.title || 'Deleted task').join(', ') || 'None';
+    }
+    if (field === 'checklist' && Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+    if (value?.toDate) return value.toDate().toLocaleString();
+    if (value instanceof Date) return value.toLocaleString();
+    if (Array.isArray(value)) return value.join(', ') || 'None';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  const handleApply = async (override?: 'theirs') => {
+    if (!conflict || !user) return;
+    setSaving(true);
+    try {
+      const picks = override ? Object.fromEntries(conflict.fields.map((f) => [f.field, override])) : choices;
+      const result = await ConflictResolver.resolveTaskConflict(conflict, picks, {
+        uid: user.uid,
+        name: userProfile?.name || user.displayName || 'A teammate',
+      });
+      if (result.status === 'conflict') {
+        toast({ title: 'Changed again', description: 'Someone edited this task while you were merging. Take another look.' });
+      } else if (result.status === 'missing') {
+        toast({ title: 'Task deleted', description: 'A teammate deleted this task.', variant: 'destructive' });
+      }
+    } catch (error: any) {
+      toast({ title: 'Could not apply merge', description: error.message || 'Please try again.', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderField = (field: FieldConflict) => (
+    <div key={field.field} className="space-y-2 rounded-md border p-3">
+      <p className="text-sm font-medium capitalize">{FIELD_LABELS[field.field] || field.field.replace(/_/g, ' ')}</p>
+      <RadioGroup
+        value={choices[field.field] || 'theirs'}
+        onValueChange={(value) => setChoices((prev) => ({ ...prev, [field.field]: value as 'mine' | 'theirs' }))}
+        className="gap-2"
+      >
+        <div className="flex items-start gap-2">
+          <RadioGroupItem value="mine" id={`${conflict.id}-${field.field}-mine`} className="mt-0.5" />
+          <Label htmlFor={`${conflict.id}-${field.field}-mine`} className="text-sm font-normal">
+            <span className="text-muted-foreground">Yours: </span>
+            {formatValue(field.field, field.mine)}
+          </Label>
+        </div>
+        <div className="flex items-start gap-2">
+          <RadioGroupItem value="theirs" id={`${conflict.id}-${field.field}-theirs`} className="mt-0.5" />
+          <Label htmlFor={`${conflict.id}-${field.field}-theirs`} className="text-sm font-normal">
+            <span className="text-muted-foreground">{memberName(conflict.theirUpdatedBy)}: </span>
+            {formatValue(field.field, field.theirs)}
+          </Label>
+        </div>
+      </RadioGroup>
+      <p className="text-xs text-muted-foreground">Before either edit: {formatValue(field.field, field.base)}</p>
+    </div>
+  );
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={(open) => !open && conflict && ConflictResolver.dismissConflict(conflict.id)}>
+      <DialogContent className="max-w-lg">
+        {conflict && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <GitMerge className="h-5 w-5" />
+                Edit conflict
+              </DialogTitle>
+              <DialogDescription>
+                {memberName(conflict.theirUpdatedBy)} changed &ldquo;{conflict.taskTitle}&rdquo; at the same time as you.
+                Their other changes were merged; pick which version to keep for these fields.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="max-h-96 space-y-3 overflow-y-auto">{conflict.fields.map(renderField)}</div>
+
+            <DialogFooter className="gap-2">
+              {conflicts.length > 1 && (
+                <span className="mr-auto self-center text-xs text-muted-foreground">{conflicts.length - 1} more after this</span>
+              )}
+              <Button variant="outline" onClick={() => handleApply('theirs')} disabled={saving}>
+                Keep all theirs
+              </Button>
+              <Button onClick={() => handleApply()} disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Apply
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
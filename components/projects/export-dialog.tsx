@@ -8,7 +8,9 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
-import { exportService, ExportOptions, ProjectExportData } from '@/lib/export-service';
+import { calculateProjectAnalytics, exportService, ExportOptions, ProjectExportData } from '@/lib/export-service';
+import { requestExport } from '@/lib/export-jobs';
+import { getHackathon, getProjectMilestones, getProjectResources } from '@/lib/firestore';
 import { Project, Task, ProjectMember, ChatMessage } from '@/lib/types';
 import { 
   Download, 
@@ -21,7 +23,9 @@ import {
   Lightbulb,
   Loader2,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  Clock,
+  Globe
 } from 'lucide-react';
 
 interface ExportDialogProps {
@@ -38,6 +42,7 @@ export function ExportDialog({ children, project, tasks, members, messages }: Ex
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState(false);
+  const [queued, setQueued] = useState(false);
 
   const [exportOptions, setExportOptions] = useState<ExportOptions>({
     includeIdea: true,
@@ -48,30 +53,6 @@ export function ExportDialog({ children, project, tasks, members, messages }: Ex
     format: 'pdf'
   });
 
-  const calculateAnalytics = () => {
-    const totalTasks = tasks.length;
-    const completedTasks = tasks.filter(t => t.status === 'Done').length;
-    const completionRate = totalTasks > 0 ? completedTasks / totalTasks : 0;
-    
-    const hoursElapsed = typeof window !== 'undefined' ? 
-      Math.max(1, (new Date().getTime() - new Date(project.createdAt).getTime()) / (1000 * 60 * 60)) :
-
-      1;
-    const teamVelocity = completedTasks / hoursElapsed;
-    
-    const timeElapsed = hoursElapsed < 24 
-      ? `${Math.round(hoursElapsed)}h` 
-      : `${Math.round(hoursElapsed / 24)}d ${Math.round(hoursElapsed % 24)}h`;
-
-    return {
-      totalTasks,
-      completedTasks,
-      completionRate,
-      timeElapsed,
-      teamVelocity
-    };
-  };
-
   const handleExport = async () => {
     setLoading(true);
     setError('');
@@ -86,7 +67,11 @@ export function ExportDialog({ children, project, tasks, members, messages }: Ex
         tasks,
         members,
         messages: exportOptions.includeChat ? messages : undefined,
-        analytics: exportOptions.includeAnalytics ? calculateAnalytics() : undefined
+        milestones: exportOptions.format === 'markdown' || exportOptions.format === 'json'
+          ? await getProjectMilestones(project.id)
+          : undefined,
+        resources: exportOptions.format === 'json' ? await getProjectResources(project.id) : undefined,
+        analytics: exportOptions.includeAnalytics ? calculateProjectAnalytics(project, tasks) : undefined
       };
 
       setProgress(50);
@@ -100,8 +85,10 @@ export function ExportDialog({ children, project, tasks, members, messages }: Ex
       const link = document.createElement('a');
       link.href = url;
       
-      const fileExtension = exportOptions.format === 'pdf' ? 'html' : exportOptions.format;
-      const fileName = `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_report.${fileExtension}`;
+      const safeName = project.name.replace(/[^a-zA-Z0-9]/g, '_');
+      const fileName = exportOptions.format === 'markdown'
+        ? (exportOptions.includeStaticSite ? `${safeName}_site.zip` : 'README.md')
+        : `${safeName}_report.${exportOptions.format}`;
       link.download = fileName;
       
       document.body.appendChild(link);
@@ -131,10 +118,15 @@ export function ExportDialog({ children, project, tasks, members, messages }: Ex
     setSuccess(false);
 
     try {
+      // The deck picks up the colors and logo of the hackathon the team is competing in
+      const hackathonId = project.hackathonId || project.hackathon_event;
+      const hackathon = hackathonId ? await getHackathon(hackathonId) : null;
+
       const exportData: ProjectExportData = {
         project,
         tasks,
-        members
+        members,
+        branding: hackathon?.settings?.customBranding
       };
 
       const blob = await exportService.generatePitchDeck(exportData);
@@ -143,7 +135,7 @@ export function ExportDialog({ children, project, tasks, members, messages }: Ex
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_pitch_deck.html`;
+      link.download = `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_pitch_deck.pptx`;
       
       document.body.appendChild(link);
       link.click();
@@ -163,14 +155,37 @@ export function ExportDialog({ children, project, tasks, members, messages }: Ex
     }
   };
 
+  // Runs on the server so the export survives closing the tab; the file appears in Export History
+  const handleQueueExport = async () => {
+    setLoading(true);
+    setError('');
+    setQueued(false);
+
+    try {
+      const { format, ...options } = exportOptions;
+      await requestExport(project.id, format, options);
+      setQueued(true);
+      setTimeout(() => {
+        setQueued(false);
+        setOpen(false);
+      }, 2000);
+    } catch (err: any) {
+      setError(err.message || 'Failed to queue export');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const getFormatDescription = (format: string) => {
     switch (format) {
       case 'pdf':
-        return 'Comprehensive HTML report (can be printed to PDF)';
+        return 'Paginated PDF report with cover page, task tables, charts and team';
       case 'json':
-        return 'Structured data export for developers';
+        return 'Project snapshot with tasks, milestones and resources; import it to clone the project';
       case 'csv':
         return 'Task list in spreadsheet format';
+      case 'markdown':
+        return 'README.md with idea, features, tech stack, team, task summary and milestones for your repo';
       default:
         return '';
     }
@@ -220,7 +235,7 @@ export function ExportDialog({ children, project, tasks, members, messages }: Ex
             <Label className="text-base font-medium">Export Format</Label>
             <Select 
               value={exportOptions.format} 
-              onValueChange={(value: 'pdf' | 'json' | 'csv') => 
+              onValueChange={(value: ExportOptions['format']) => 
                 setExportOptions(prev => ({ ...prev, format: value }))
               }
             >
@@ -228,14 +243,30 @@ export function ExportDialog({ children, project, tasks, members, messages }: Ex
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="pdf">PDF Report (HTML)</SelectItem>
+                <SelectItem value="pdf">PDF Report</SelectItem>
                 <SelectItem value="json">JSON Data</SelectItem>
                 <SelectItem value="csv">CSV Spreadsheet</SelectItem>
+                <SelectItem value="markdown">Markdown (README.md)</SelectItem>
               </SelectContent>
             </Select>
             <p className="text-sm text-muted-foreground">
               {getFormatDescription(exportOptions.format)}
             </p>
+            {exportOptions.format === 'markdown' && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="includeStaticSite"
+                  checked={exportOptions.includeStaticSite}
+                  onCheckedChange={(checked) =>
+                    setExportOptions(prev => ({ ...prev, includeStaticSite: !!checked }))
+                  }
+                />
+                <Label htmlFor="includeStaticSite" className="flex items-center gap-2 text-sm">
+                  <Globe className="h-4 w-4" />
+                  Also build a static HTML site (downloads a .zip)
+                </Label>
+              </div>
+            )}
           </div>
 
           {/* Content Options */}
@@ -345,6 +376,13 @@ export function ExportDialog({ children, project, tasks, members, messages }: Ex
             </Alert>
           )}
 
+          {queued && (
+            <Alert>
+              <CheckCircle className="h-4 w-4" />
+              <AlertDescription>Export queued. Download it from Export History when it is ready.</AlertDescription>
+            </Alert>
+          )}
+
           {/* Export Info */}
           <div className="bg-muted/50 p-4 rounded-lg">
             <h4 className="font-medium mb-2">Export Preview</h4>
@@ -368,6 +406,14 @@ export function ExportDialog({ children, project, tasks, members, messages }: Ex
             >
               Cancel
             </Button>
+            <Button
+              variant="outline"
+              onClick={handleQueueExport}
+              disabled={loading}
+            >
+              <Clock className="mr-2 h-4 w-4" />
+              Export in Background
+            </Button>
             <Button 
               onClick={handleExport}
               disabled={loading}
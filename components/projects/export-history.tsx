@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useAuth } from '@/lib/auth-context';
+import { useToast } from '@/hooks/use-toast';
+import {
+  cancelExportJob,
+  downloadExportJob,
+  retryExportJob,
+  runDueExportJobs,
+  subscribeToExportJobs,
+} from '@/lib/export-jobs';
+import { ExportJob } from '@/lib/types';
+import { Database, Download, FileCode, FileText, Presentation, RotateCcw, Table, X } from 'lucide-react';
+
+interface ExportHistoryProps {
+  projectId: string;
+}
+
+const TYPE_LABELS: Record<ExportJob['type'], { label: string; icon: typeof FileText }> = {
+  pdf: { label: 'PDF Report', icon: FileText },
+  json: { label: 'JSON Data', icon: Database },
+  csv: { label: 'CSV Tasks', icon: Table },
+  markdown: { label: 'Markdown README', icon: FileCode },
+  pitch_deck: { label: 'Pitch Deck', icon: Presentation },
+};
+
+const STATUS_STYLES: Record<ExportJob['status'], string> = {
+  queued: 'bg-amber-500/10 text-amber-600',
+  processing: 'bg-blue-500/10 text-blue-600',
+  completed: 'bg-green-500/10 text-green-600',
+  failed: 'bg-red-500/10 text-red-600',
+  cancelled: 'bg-muted text-muted-foreground',
+  expired: 'bg-muted text-muted-foreground',
+};
+
+const formatTime = (date: Date) => date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/** Background exports for the project with live progress, downloads, cancel and retry. */
+export function ExportHistory({ projectId }: ExportHistoryProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [jobs, setJobs] = useState<ExportJob[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribe = subscribeToExportJobs(user.uid, projectId, setJobs);
+    return () => unsubscribe?.();
+  }, [user, projectId]);
+
+  // Failed attempts wait out a backoff; nudge the worker once the earliest retry is due
+  const nextRetryAt = jobs
+    .filter((job) => job.status === 'queued' && job.attempts > 0 && job.nextAttemptAt)
+    .reduce<number | null>((earliest, job) => {
+      const at = job.nextAttemptAt!.getTime();
+      return earliest === null || at < earliest ? at : earliest;
+    }, null);
+
+  useEffect(() => {
+    if (nextRetryAt === null) return;
+    const timer = setTimeout(() => {
+      runDueExportJobs().catch((error) => console.error('Failed to run export retries:', error));
+    }, Math.max(0, nextRetryAt - Date.now()) + 1000);
+    return () => clearTimeout(timer);
+  }, [nextRetryAt]);
+
+  const runAction = async (job: ExportJob, action: (job: ExportJob) => Promise<unknown>, failure: string) => {
+    setBusy(job.id);
+    try {
+      await action(job);
+    } catch (error: any) {
+      toast({ title: failure, description: error.message || 'Please try again.', variant: 'destructive' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const describe = (job: ExportJob): string => {
+    switch (job.status) {
+      case 'queued':
+        return job.attempts > 0 && job.nextAttemptAt
+          ? `Attempt ${job.attempts} failed, retrying at ${job.nextAttemptAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+          : 'Waiting in queue';
+      case 'processing':
+        return `Generating (${job.progress}%)`;
+      case 'completed':
+        return job.result ? `Available until ${formatTime(job.result.expiresAt)}` : 'Completed';
+      case 'failed':
+        return job.error || 'Export failed';
+      case 'expired':
+        return 'File expired';
+      default:
+        return 'Cancelled';
+    }
+  };
+
+  if (jobs.length === 0) {
+    return (
+      <div className="text-center text-muted-foreground py-8">
+        <Download className="h-8 w-8 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">No exports yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-64">
+      <div className="space-y-3">
+        {jobs.map((job) => {
+          const { label, icon: Icon } = TYPE_LABELS[job.type] || TYPE_LABELS.pdf;
+          const active = job.status === 'queued' || job.status === 'processing';
+
+          return (
+            <div key={job.id} className="space-y-2 p-2 border rounded">
+              <div className="flex items-center gap-3">
+                <Icon className="h-4 w-4 shrink-0 text-blue-500" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">{label}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {formatTime(job.createdAt)} • {describe(job)}
+                  </p>
+                </div>
+                <Badge variant="secondary" className={`text-xs capitalize ${STATUS_STYLES[job.status]}`}>
+                  {job.status}
+                </Badge>
+                {job.status === 'completed' && job.result && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    disabled={busy === job.id}
+                    onClick={() => runAction(job, downloadExportJob, 'Download failed')}
+                    aria-label="Download export"
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                )}
+                {active && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    disabled={busy === job.id}
+                    onClick={() => runAction(job, (j) => cancelExportJob(j.id), 'Could not cancel export')}
+                    aria-label="Cancel export"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled' || job.status === 'expired') && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    disabled={busy === job.id}
+                    onClick={() => runAction(job, (j) => retryExportJob(j.id), 'Could not retry export')}
+                    aria-label="Retry export"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              {job.status === 'processing' && <Progress value={job.progress} className="h-1" />}
+            </div>
+          );
+        })}
+      </div>
+    </ScrollArea>
+  );
+}
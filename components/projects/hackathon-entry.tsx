@@ -0,0 +1,159 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { getHackathon, getHackathonByJoinCode, joinHackathon, leaveHackathon } from '@/lib/firestore';
+import { HackathonEvent, Project } from '@/lib/types';
+import { Loader2, Trophy } from 'lucide-react';
+
+interface HackathonEntryProps {
+  project: Project;
+  canManage: boolean; // Only the project lead enters, switches track or withdraws
+}
+
+/** Enters the project into a hackathon and picks its track, which decides the judging rubric. */
+export function HackathonEntry({ project, canManage }: HackathonEntryProps) {
+  const { toast } = useToast();
+  const hackathonId = project.hackathonId || project.hackathon_event;
+  const [hackathon, setHackathon] = useState<HackathonEvent | null>(null);
+  const [code, setCode] = useState('');
+  const [track, setTrack] = useState(project.track || '');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!hackathonId) {
+      setHackathon(null);
+      return;
+    }
+    let cancelled = false;
+    getHackathon(hackathonId).then((event) => {
+      if (!cancelled) setHackathon(event);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [hackathonId]);
+
+  useEffect(() => {
+    setTrack(project.track || '');
+  }, [project.track]);
+
+  const tracks = hackathon?.settings?.tracks || [];
+  const entered = !!hackathonId && hackathon?.event_id === hackathonId;
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setLoading(true);
+    try {
+      await action();
+    } catch (error: any) {
+      toast({ title: failure, description: error.message || 'Please try again.', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Organizers share the hackathon's id; older events also have a join code
+  const handleFind = () =>
+    run(async () => {
+      const value = code.trim();
+      const event = (await getHackathon(value)) || (await getHackathonByJoinCode(value));
+      if (!event) throw new Error('No hackathon matches that code');
+      setHackathon(event);
+      setTrack('');
+    }, 'Could not find the hackathon');
+
+  const handleJoin = () =>
+    run(async () => {
+      await joinHackathon(hackathon!.event_id, project.id, track || undefined);
+      toast({ title: entered ? 'Track updated' : `Entered ${hackathon!.name}` });
+    }, entered ? 'Could not change track' : 'Could not enter the hackathon');
+
+  const handleLeave = () =>
+    run(async () => {
+      await leaveHackathon(project.id);
+      setCode('');
+    }, 'Could not withdraw from the hackathon');
+
+  if (!entered && !canManage) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trophy className="h-5 w-5 text-yellow-500" />
+          Hackathon Entry
+        </CardTitle>
+        <CardDescription>
+          {entered
+            ? `Entered in ${hackathon!.name}${project.track ? ` • ${project.track} track` : ''}`
+            : 'Enter this project into a hackathon so judges can score it'}
+        </CardDescription>
+      </CardHeader>
+      {canManage && (
+        <CardContent className="space-y-4">
+          {!hackathon && (
+            <div className="space-y-2">
+              <Label htmlFor="hackathon-code">Hackathon code</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="hackathon-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="From the organizer"
+                  disabled={loading}
+                />
+                <Button variant="outline" onClick={handleFind} disabled={loading || !code.trim()}>
+                  Find
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {hackathon && tracks.length > 0 && (
+            <div className="space-y-2">
+              <Label>Track</Label>
+              <Select value={track} onValueChange={setTrack} disabled={loading}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a track" />
+                </SelectTrigger>
+                <SelectContent>
+                  {tracks.map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {hackathon && (
+            <div className="flex justify-end gap-2">
+              {entered ? (
+                <Button variant="outline" onClick={handleLeave} disabled={loading}>
+                  Withdraw
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={() => setHackathon(null)} disabled={loading}>
+                  Cancel
+                </Button>
+              )}
+              {(!entered || tracks.length > 0) && (
+                <Button
+                  onClick={handleJoin}
+                  disabled={loading || (tracks.length > 0 && !track) || (entered && track === (project.track || ''))}
+                >
+                  {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {entered ? 'Change track' : `Enter ${hackathon.name}`}
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,261 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useAuth } from '@/lib/auth-context';
+import {
+  importProjectSnapshot,
+  parseProjectSnapshot,
+  ImportConflictMode,
+  ProjectImportError,
+  ProjectImportResult,
+} from '@/lib/project-import';
+import { SubscriptionService, UsageTracker } from '@/lib/subscription-service';
+import { ProjectSnapshot, SubscriptionTier } from '@/lib/types';
+import { AlertCircle, CheckCircle, FileJson, Loader2, Upload } from 'lucide-react';
+
+interface ImportProjectDialogProps {
+  children: React.ReactNode;
+  projectId?: string; // Offers importing into this project as well as creating a new one
+  onImported?: (result: ProjectImportResult) => void;
+}
+
+const describeCounts = (counts: ProjectImportResult['created']) =>
+  `${counts.tasks} tasks, ${counts.milestones} milestones, ${counts.resources} resources`;
+
+/** Imports a JSON project export as a new project or into an existing one. */
+export function ImportProjectDialog({ children, projectId, onImported }: ImportProjectDialogProps) {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [snapshot, setSnapshot] = useState<ProjectSnapshot | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState('');
+  const [issues, setIssues] = useState<string[]>([]);
+  const [result, setResult] = useState<ProjectImportResult | null>(null);
+
+  const [target, setTarget] = useState<'new' | 'existing'>(projectId ? 'existing' : 'new');
+  const [conflictMode, setConflictMode] = useState<ImportConflictMode>('skip');
+  const [name, setName] = useState('');
+  const [shiftDates, setShiftDates] = useState(true);
+  const [resetProgress, setResetProgress] = useState(false);
+
+  if (!user) return null;
+
+  const reset = () => {
+    setSnapshot(null);
+    setFileName('');
+    setError('');
+    setIssues([]);
+    setResult(null);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    reset();
+    if (!file) return;
+
+    setFileName(file.name);
+    try {
+      const parsed = parseProjectSnapshot(await file.text());
+      setSnapshot(parsed);
+      setName(parsed.project.name);
+    } catch (err: any) {
+      setError(err.message || 'Could not read the export');
+      if (err instanceof ProjectImportError) setIssues(err.issues);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!snapshot) return;
+    setLoading(true);
+    setError('');
+    setIssues([]);
+
+    try {
+      const intoExisting = target === 'existing' && !!projectId;
+      if (!intoExisting) {
+        const usage = UsageTracker.getUsage(user.uid);
+        if (!SubscriptionService.canCreateProject(usage.projectsCreated, user.subscriptionTier as SubscriptionTier)) {
+          const limits = SubscriptionService.getLimits(user.subscriptionTier as SubscriptionTier);
+          throw new Error(`You've reached your project limit (${limits.maxProjects}). Please upgrade your plan to create more projects.`);
+        }
+      }
+
+      const imported = await importProjectSnapshot(snapshot, {
+        userId: user.uid,
+        projectId: intoExisting ? projectId : undefined,
+        conflictMode,
+        name,
+        shiftDates,
+        resetProgress,
+      });
+
+      onImported?.(imported);
+      if (intoExisting) {
+        setResult(imported);
+        return;
+      }
+
+      UsageTracker.incrementProjectCount(user.uid);
+      setOpen(false);
+      router.push(`/project/${imported.projectId}`);
+    } catch (err: any) {
+      setError(err.message || 'Import failed');
+      if (err instanceof ProjectImportError) setIssues(err.issues);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Project</DialogTitle>
+          <DialogDescription>
+            Recreate a project from a JSON export, or bring its tasks, milestones and resources into this one
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 pt-2">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">JSON export</Label>
+            <Input id="import-file" type="file" accept="application/json,.json" onChange={handleFileChange} disabled={loading} />
+          </div>
+
+          {snapshot && (
+            <div className="bg-muted/50 p-4 rounded-lg text-sm space-y-1">
+              <p className="flex items-center gap-2 font-medium">
+                <FileJson className="h-4 w-4" />
+                {snapshot.project.name}
+              </p>
+              <p className="text-muted-foreground">
+                {snapshot.tasks?.length || 0} tasks • {snapshot.milestones?.length || 0} milestones • {snapshot.resources?.length || 0} resources
+                {snapshot.idea ? ' • idea analysis' : ''}
+              </p>
+              {snapshot.exported_at && (
+                <p className="text-muted-foreground">Exported {new Date(snapshot.exported_at).toLocaleString()}</p>
+              )}
+            </div>
+          )}
+
+          {snapshot && !result && (
+            <div className="space-y-4">
+              {projectId && (
+                <div className="space-y-2">
+                  <Label>Import into</Label>
+                  <Select value={target} onValueChange={(value: 'new' | 'existing') => setTarget(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="existing">This project</SelectItem>
+                      <SelectItem value="new">A new project</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {target === 'existing' && projectId ? (
+                <div className="space-y-2">
+                  <Label>When a task, milestone or resource already exists</Label>
+                  <Select value={conflictMode} onValueChange={(value: ImportConflictMode) => setConflictMode(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="skip">Skip it and keep the current version</SelectItem>
+                      <SelectItem value="merge">Merge: overwrite it with the imported fields</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">Records are matched by name.</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="import-name">Project name</Label>
+                  <Input id="import-name" value={name} onChange={(e) => setName(e.target.value)} disabled={loading} />
+                </div>
+              )}
+
+              <div className="space-y-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox id="shiftDates" checked={shiftDates} onCheckedChange={(checked) => setShiftDates(!!checked)} />
+                  <Label htmlFor="shiftDates" className="text-sm">Move due dates and deadlines to start from today</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox id="resetProgress" checked={resetProgress} onCheckedChange={(checked) => setResetProgress(!!checked)} />
+                  <Label htmlFor="resetProgress" className="text-sm">Reset progress (tasks to To Do, milestones to upcoming)</Label>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {fileName && !snapshot ? `${fileName}: ` : ''}{error}
+                {issues.length > 0 && (
+                  <ul className="mt-2 list-disc pl-4 text-xs space-y-0.5">
+                    {issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                  </ul>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {result && (
+            <Alert>
+              <CheckCircle className="h-4 w-4" />
+              <AlertDescription>
+                Imported {describeCounts(result.created)}.
+                {conflictMode === 'merge'
+                  ? ` Merged ${describeCounts(result.merged)}.`
+                  : ` Skipped ${describeCounts(result.skipped)} that already existed.`}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={loading}>
+              {result ? 'Close' : 'Cancel'}
+            </Button>
+            {!result && (
+              <Button onClick={handleImport} disabled={loading || !snapshot}>
+                {loading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Importing...
+                  </>
+                ) : (
+                  <>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import
+                  </>
+                )}
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
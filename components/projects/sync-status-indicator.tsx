@@ -0,0 +1,178 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  discardOutboxMutation,
+  flushOutbox,
+  getSyncStatus,
+  resolveOutboxConflict,
+  retryOutboxMutation,
+  subscribeToSyncStatus,
+  type OutboxMutation,
+  type SyncStatus,
+} from '@/lib/offline-outbox';
+import { AlertTriangle, CheckCircle2, CloudOff, RefreshCw } from 'lucide-react';
+
+interface SyncStatusIndicatorProps {
+  projectId: string;
+}
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return 'empty';
+  if (value?.toDate) return value.toDate().toLocaleString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Header badge for the offline outbox: whether changes are saved, waiting for a connection or
+ * syncing, with the queued changes and any conflicts or rejected changes from replaying them.
+ */
+export function SyncStatusIndicator({ projectId }: SyncStatusIndicatorProps) {
+  const [status, setStatus] = useState<SyncStatus>(() => getSyncStatus());
+
+  useEffect(() => subscribeToSyncStatus(setStatus), []);
+
+  const pending = status.pending.filter((m) => m.projectId === projectId);
+  const conflicts = status.conflicts.filter((m) => m.projectId === projectId);
+  const failed = status.failed.filter((m) => m.projectId === projectId);
+
+  const { icon: Icon, label, className } = conflicts.length > 0
+    ? {
+        icon: AlertTriangle,
+        label: `${conflicts.length} conflict${conflicts.length === 1 ? '' : 's'}`,
+        className: 'text-red-600 border-red-500/30 bg-red-500/10',
+      }
+    : failed.length > 0
+      ? {
+          icon: AlertTriangle,
+          label: `${failed.length} not synced`,
+          className: 'text-red-600 border-red-500/30 bg-red-500/10',
+        }
+      : !status.online
+        ? {
+            icon: CloudOff,
+            label: pending.length > 0 ? `Offline · ${pending.length} pending` : 'Offline',
+            className: 'text-amber-600 border-amber-500/30 bg-amber-500/10',
+          }
+        : status.syncing || pending.length > 0
+          ? { icon: RefreshCw, label: `Syncing ${pending.length}`, className: 'text-blue-600 border-blue-500/30 bg-blue-500/10' }
+          : { icon: CheckCircle2, label: 'Saved', className: 'text-muted-foreground' };
+
+  const renderConflict = (mutation: OutboxMutation) => {
+    const conflict = mutation.conflict!;
+    return (
+      <div key={mutation.mutationId} className="space-y-2 rounded-md border border-red-500/30 p-2">
+        <p className="text-sm font-medium">{mutation.label}</p>
+        {conflict.remote ? (
+          <div className="space-y-1 text-xs">
+            {conflict.fields.map((field) => (
+              <div key={field} className="grid grid-cols-[auto_1fr] gap-x-2">
+                <span className="text-muted-foreground">{field.replace(/_/g, ' ')}</span>
+                <span className="truncate">
+                  yours: {formatValue(mutation.data?.[field])} · theirs: {formatValue(conflict.remote?.[field])}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">A teammate deleted this while you were offline.</p>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="ghost" className="h-7" onClick={() => resolveOutboxConflict(mutation.mutationId, 'theirs')}>
+            {conflict.remote ? 'Keep theirs' : 'Discard'}
+          </Button>
+          {conflict.remote && (
+            <Button size="sm" className="h-7" onClick={() => resolveOutboxConflict(mutation.mutationId, 'mine')}>
+              Keep mine
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className={`flex items-center gap-2 ${className}`}>
+          <Icon className={`h-4 w-4 ${Icon === RefreshCw && status.syncing ? 'animate-spin' : ''}`} />
+          <span className="hidden sm:inline">{label}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div>
+          <p className="text-sm font-medium">{status.online ? 'Online' : 'Offline'}</p>
+          <p className="text-xs text-muted-foreground">
+            {!status.online
+              ? 'Changes are kept on this device and sync when you reconnect.'
+              : status.lastSyncedAt
+                ? `Last synced ${new Date(status.lastSyncedAt).toLocaleTimeString()}`
+                : 'Changes save as you make them.'}
+          </p>
+          {status.error && <p className="mt-1 text-xs text-red-600">{status.error}</p>}
+        </div>
+
+        {conflicts.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">Changed by a teammate</p>
+            {conflicts.map(renderConflict)}
+          </div>
+        )}
+
+        {failed.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">Could not sync</p>
+            {failed.map((mutation) => (
+              <div key={mutation.mutationId} className="space-y-2 rounded-md border border-red-500/30 p-2">
+                <p className="text-sm font-medium">{mutation.label}</p>
+                <p className="text-xs text-muted-foreground">{mutation.failure!.message}</p>
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="ghost" className="h-7" onClick={() => discardOutboxMutation(mutation.mutationId)}>
+                    Discard
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="h-7"
+                    disabled={!status.online}
+                    onClick={() => retryOutboxMutation(mutation.mutationId)}
+                  >
+                    Retry
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {pending.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">Waiting to sync</p>
+            <ScrollArea className="max-h-40">
+              <ul className="space-y-1 text-sm">
+                {pending.map((mutation) => (
+                  <li key={mutation.mutationId} className="truncate">
+                    {mutation.label}
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-full"
+              disabled={!status.online || status.syncing}
+              onClick={() => flushOutbox()}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Sync now
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
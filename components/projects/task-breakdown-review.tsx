@@ -0,0 +1,229 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { removeTaskDraft, validateTaskGraph } from '@/lib/task-breakdown';
+import { ProjectMember, Task, TaskDraft } from '@/lib/types';
+import { AlertCircle, GitBranch, Loader2, Trash2, X } from 'lucide-react';
+
+interface TaskBreakdownReviewProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  drafts: TaskDraft[];
+  onDraftsChange: (drafts: TaskDraft[]) => void;
+  members: ProjectMember[];
+  onConfirm: (drafts: TaskDraft[]) => void;
+  isSaving?: boolean;
+}
+
+const UNASSIGNED = '__unassigned';
+
+const priorityColors: Record<Task['priority'], string> = {
+  Critical: 'bg-red-500 text-white',
+  High: 'bg-orange-500 text-white',
+  Medium: 'bg-yellow-500 text-white',
+  Low: 'bg-green-500 text-white',
+};
+
+export function TaskBreakdownReview({
+  open,
+  onOpenChange,
+  drafts,
+  onDraftsChange,
+  members,
+  onConfirm,
+  isSaving = false,
+}: TaskBreakdownReviewProps) {
+  const issues = useMemo(() => validateTaskGraph(drafts), [drafts]);
+  const issueKeys = new Set(issues.map((issue) => issue.taskKey));
+
+  const updateDraft = (key: string, updates: Partial<TaskDraft>) => {
+    onDraftsChange(drafts.map((d) => (d.key === key ? { ...d, ...updates } : d)));
+  };
+
+  const titleOf = (key: string) => drafts.find((d) => d.key === key)?.title || key;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitBranch className="h-5 w-5" />
+            Review Task Breakdown
+          </DialogTitle>
+          <DialogDescription>
+            Edit priorities, dependencies and assignees before adding {drafts.length} tasks to the board.
+          </DialogDescription>
+        </DialogHeader>
+
+        {issues.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="space-y-1">
+                {issues.map((issue, i) => (
+                  <li key={i}>{issue.message}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <ScrollArea className="flex-1 min-h-0 pr-3">
+          <div className="space-y-3">
+            {drafts.map((draft) => {
+              const candidates = drafts.filter((d) => d.key !== draft.key && !draft.depends_on.includes(d.key));
+
+              return (
+                <div
+                  key={draft.key}
+                  className={`rounded-lg border p-3 space-y-2 ${issueKeys.has(draft.key) ? 'border-destructive' : ''}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={draft.title}
+                      onChange={(e) => updateDraft(draft.key, { title: e.target.value })}
+                      className="font-medium"
+                    />
+                    <Badge className={priorityColors[draft.priority]}>{draft.priority}</Badge>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onDraftsChange(removeTaskDraft(drafts, draft.key))}
+                      aria-label={`Remove ${draft.title}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <Textarea
+                    value={draft.description}
+                    onChange={(e) => updateDraft(draft.key, { description: e.target.value })}
+                    rows={2}
+                    className="text-sm"
+                  />
+
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                    <Select
+                      value={draft.priority}
+                      onValueChange={(value) => updateDraft(draft.key, { priority: value as Task['priority'] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(['Critical', 'High', 'Medium', 'Low'] as const).map((p) => (
+                          <SelectItem key={p} value={p}>
+                            {p} priority
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    <Select
+                      value={draft.effort}
+                      onValueChange={(value) => updateDraft(draft.key, { effort: value as Task['effort'] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(['Low', 'Medium', 'High'] as const).map((e) => (
+                          <SelectItem key={e} value={e}>
+                            {e} effort
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    <Select
+                      value={draft.assigned_to || UNASSIGNED}
+                      onValueChange={(value) =>
+                        updateDraft(draft.key, { assigned_to: value === UNASSIGNED ? null : value })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                        {members.map((member) => (
+                          <SelectItem key={member.user_id} value={member.user_id}>
+                            {member.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-1 text-sm">
+                    <span className="text-muted-foreground mr-1">Depends on:</span>
+                    {draft.depends_on.length === 0 && <span className="text-muted-foreground">nothing</span>}
+                    {draft.depends_on.map((dep) => (
+                      <Badge key={dep} variant="secondary" className="gap-1">
+                        {titleOf(dep)}
+                        <button
+                          type="button"
+                          onClick={() =>
+                            updateDraft(draft.key, { depends_on: draft.depends_on.filter((d) => d !== dep) })
+                          }
+                          aria-label={`Remove dependency on ${titleOf(dep)}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                    {candidates.length > 0 && (
+                      <Select
+                        value=""
+                        onValueChange={(value) => updateDraft(draft.key, { depends_on: [...draft.depends_on, value] })}
+                      >
+                        <SelectTrigger className="h-7 w-auto text-xs">
+                          <SelectValue placeholder="Add dependency" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {candidates.map((d) => (
+                            <SelectItem key={d.key} value={d.key}>
+                              {d.title}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+
+                  {draft.skills.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {draft.skills.map((skill) => (
+                        <Badge key={skill} variant="outline" className="text-xs">
+                          {skill}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Discard
+          </Button>
+          <Button onClick={() => onConfirm(drafts)} disabled={isSaving || drafts.length === 0 || issues.length > 0}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add {drafts.length} Tasks
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
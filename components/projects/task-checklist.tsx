@@ -0,0 +1,209 @@
+'use client';
+
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/lib/auth-context';
+import { useToast } from '@/hooks/use-toast';
+import { getAIRequestHeaders } from '@/lib/ai-client';
+import { updateTaskChecklist } from '@/lib/firestore';
+import {
+  addChecklistItems,
+  getChecklistProgress,
+  removeChecklistItem,
+  toggleChecklistItem,
+  updateChecklistItem,
+  type ChecklistChange,
+} from '@/lib/task-checklist';
+import { ProjectMember, Task } from '@/lib/types';
+import { ListChecks, Loader2, Plus, Sparkles, Trash2 } from 'lucide-react';
+
+interface TaskChecklistProps {
+  task: Task;
+  members: ProjectMember[];
+  compact?: boolean;
+}
+
+const UNASSIGNED = 'unassigned';
+
+/** Checklist progress on a task card; opens the checklist editor. */
+export function TaskChecklist({ task, members, compact = false }: TaskChecklistProps) {
+  const [open, setOpen] = useState(false);
+  const progress = getChecklistProgress(task);
+
+  return (
+    <div
+      className="space-y-1"
+      onPointerDown={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      <button
+        type="button"
+        className="flex w-full items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        onClick={(e) => {
+          e.stopPropagation();
+          setOpen(true);
+        }}
+      >
+        <ListChecks className="h-3 w-3" />
+        {progress.total > 0 ? `${progress.done}/${progress.total}` : compact ? null : 'Add checklist'}
+      </button>
+      {progress.total > 0 && <Progress value={progress.percent} className="h-1" />}
+
+      <TaskChecklistDialog task={task} members={members} open={open} onOpenChange={setOpen} />
+    </div>
+  );
+}
+
+interface TaskChecklistDialogProps {
+  task: Task;
+  members: ProjectMember[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TaskChecklistDialog({ task, members, open, onOpenChange }: TaskChecklistDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [newItem, setNewItem] = useState('');
+  const [generating, setGenerating] = useState(false);
+
+  const items = task.checklist || [];
+  const progress = getChecklistProgress(task);
+
+  const apply = async (change: ChecklistChange, failure: string) => {
+    try {
+      await updateTaskChecklist(task.task_id, change);
+    } catch (error: any) {
+      toast({ title: failure, description: error.message || 'Please try again.', variant: 'destructive' });
+    }
+  };
+
+  const handleAdd = () => {
+    if (!newItem.trim()) return;
+    const title = newItem;
+    setNewItem('');
+    apply(addChecklistItems([title], task.assigned_to), 'Could not add item');
+  };
+
+  const handleGenerate = async () => {
+    if (!user) return;
+    setGenerating(true);
+    try {
+      const response = await fetch('/api/gemini', {
+        method: 'POST',
+        headers: await getAIRequestHeaders(),
+        body: JSON.stringify({
+          action: 'generate_checklist',
+          projectId: task.project_id,
+          data: { taskTitle: task.title, description: task.description },
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'AI request failed');
+
+      const titles: string[] = JSON.parse(data.result);
+      const existing = new Set(items.map((item) => item.title.toLowerCase()));
+      await updateTaskChecklist(task.task_id, addChecklistItems(titles.filter((t) => !existing.has(t.toLowerCase())), task.assigned_to));
+    } catch (error: any) {
+      toast({ title: 'Could not generate a checklist', description: error.message || 'Please try again.', variant: 'destructive' });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" onPointerDown={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Checklist
+          </DialogTitle>
+          <DialogDescription>
+            {task.title}
+            {progress.total > 0 && ` · ${progress.done} of ${progress.total} done`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {progress.total > 0 && <Progress value={progress.percent} className="h-2" />}
+
+        <ScrollArea className="max-h-80 pr-3">
+          {items.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              Break this task into steps, or let AI suggest some from the description.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {items.map((item) => (
+                <div key={item.item_id} className="flex items-center gap-2 rounded-md border p-2">
+                  <Checkbox
+                    checked={item.done}
+                    onCheckedChange={(checked) => apply(toggleChecklistItem(item.item_id, checked === true), 'Could not update item')}
+                    aria-label={`Mark "${item.title}" done`}
+                  />
+                  <span className={`min-w-0 flex-1 text-sm ${item.done ? 'text-muted-foreground line-through' : ''}`}>
+                    {item.title}
+                  </span>
+                  <Select
+                    value={item.assigned_to || UNASSIGNED}
+                    onValueChange={(value) =>
+                      apply(
+                        updateChecklistItem(item.item_id, { assigned_to: value === UNASSIGNED ? null : value }),
+                        'Could not assign item'
+                      )
+                    }
+                  >
+                    <SelectTrigger className="h-7 w-28 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                      {members.map((member) => (
+                        <SelectItem key={member.user_id} value={member.user_id}>
+                          {member.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => apply(removeChecklistItem(item.item_id), 'Could not remove item')}
+                    aria-label="Remove item"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        <div className="space-y-2 border-t pt-3">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Add a step"
+              value={newItem}
+              onChange={(e) => setNewItem(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            />
+            <Button onClick={handleAdd} disabled={!newItem.trim()}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          <Button variant="outline" className="w-full" onClick={handleGenerate} disabled={generating || !user}>
+            {generating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+            Generate checklist with AI
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
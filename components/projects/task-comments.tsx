@@ -0,0 +1,290 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/lib/auth-context';
+import { useToast } from '@/hooks/use-toast';
+import {
+  buildCommentThreads,
+  completeMention,
+  deleteTaskComment,
+  editTaskComment,
+  getMentionQuery,
+  MAX_COMMENT_LENGTH,
+  postTaskComment,
+  subscribeToTaskComments,
+} from '@/lib/task-comments';
+import { ProjectMember, Task, TaskComment } from '@/lib/types';
+import { Loader2, MessageSquare, Pencil, Reply, Send, Trash2, X } from 'lucide-react';
+
+interface TaskCommentsProps {
+  task: Task;
+  members: ProjectMember[];
+  compact?: boolean;
+}
+
+/** Comment count on a task card; opens the task's discussion. */
+export function TaskComments({ task, members, compact = false }: TaskCommentsProps) {
+  const [open, setOpen] = useState(false);
+  const count = task.comment_count || 0;
+
+  if (compact && count === 0) return null;
+
+  return (
+    <div onPointerDown={(e) => e.stopPropagation()} onKeyDown={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        onClick={(e) => {
+          e.stopPropagation();
+          setOpen(true);
+        }}
+      >
+        <MessageSquare className="h-3 w-3" />
+        {count > 0 ? `${count} comment${count === 1 ? '' : 's'}` : 'Comment'}
+      </button>
+
+      {open && (
+        <TaskCommentsDialog task={task} members={members} open={open} onOpenChange={setOpen} />
+      )}
+    </div>
+  );
+}
+
+interface TaskCommentsDialogProps {
+  task: Task;
+  members: ProjectMember[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TaskCommentsDialog({ task, members, open, onOpenChange }: TaskCommentsDialogProps) {
+  const { user, userProfile } = useAuth();
+  const { toast } = useToast();
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<TaskComment | null>(null);
+  const [emailMentions, setEmailMentions] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; body: string } | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToTaskComments(task.task_id, (next) => {
+      setComments(next);
+      setLoading(false);
+    });
+    return () => unsubscribe?.();
+  }, [task.task_id]);
+
+  const threads = useMemo(() => buildCommentThreads(comments), [comments]);
+  const mentionQuery = getMentionQuery(draft);
+  const suggestions =
+    mentionQuery === null
+      ? []
+      : members
+          .filter((m) => m.user_id !== user?.uid && m.name?.toLowerCase().startsWith(mentionQuery.toLowerCase()))
+          .slice(0, 5);
+
+  const getName = (userId: string) => members.find((m) => m.user_id === userId)?.name || 'Former member';
+
+  const handlePost = async () => {
+    if (!user || !draft.trim()) return;
+    setPosting(true);
+    try {
+      await postTaskComment({
+        task,
+        authorId: user.uid,
+        authorName: userProfile?.name || user.displayName || 'A teammate',
+        body: draft,
+        members,
+        parentId: replyTo ? replyTo.parent_id || replyTo.comment_id : null,
+        emailMentions,
+      });
+      setDraft('');
+      setReplyTo(null);
+    } catch (error: any) {
+      toast({ title: 'Could not post comment', description: error.message || 'Please try again.', variant: 'destructive' });
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleSaveEdit = async (comment: TaskComment) => {
+    if (!editing) return;
+    try {
+      await editTaskComment(comment, editing.body, members);
+      setEditing(null);
+    } catch (error: any) {
+      toast({ title: 'Could not save comment', description: error.message || 'Please try again.', variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (comment: TaskComment) => {
+    try {
+      await deleteTaskComment(comment);
+    } catch (error: any) {
+      toast({ title: 'Could not delete comment', description: error.message || 'Please try again.', variant: 'destructive' });
+    }
+  };
+
+  const renderComment = (comment: TaskComment, isReply: boolean) => {
+    const own = comment.author_id === user?.uid;
+    const isEditing = editing?.id === comment.comment_id;
+
+    return (
+      <div key={comment.comment_id} className={`space-y-1 rounded-md border p-3 ${isReply ? 'ml-6 bg-muted/40' : ''}`}>
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>
+            <span className="font-medium text-foreground">{getName(comment.author_id)}</span>
+            {' · '}
+            {new Date(comment.created_at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+            {comment.edited_at && ' · edited'}
+          </span>
+          <div className="flex items-center gap-1">
+            {!isReply && (
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setReplyTo(comment)} aria-label="Reply">
+                <Reply className="h-3 w-3" />
+              </Button>
+            )}
+            {own && !isEditing && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => setEditing({ id: comment.comment_id, body: comment.body })}
+                  aria-label="Edit comment"
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleDelete(comment)} aria-label="Delete comment">
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {isEditing ? (
+          <div className="space-y-2">
+            <Textarea
+              value={editing.body}
+              maxLength={MAX_COMMENT_LENGTH}
+              onChange={(e) => setEditing({ id: comment.comment_id, body: e.target.value })}
+              className="min-h-[60px] text-sm"
+            />
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={() => handleSaveEdit(comment)} disabled={!editing.body.trim()}>
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="prose prose-sm dark:prose-invert max-w-none break-words">
+            <ReactMarkdown>{comment.body}</ReactMarkdown>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" onPointerDown={(e) => e.stopPropagation()} onKeyDown={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            Discussion
+          </DialogTitle>
+          <DialogDescription>{task.title}</DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-96 pr-3">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : threads.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              No comments yet. Ask a question or @mention a teammate.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {threads.map(({ comment, replies }) => (
+                <div key={comment.comment_id} className="space-y-2">
+                  {renderComment(comment, false)}
+                  {replies.map((reply) => renderComment(reply, true))}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        <div className="space-y-2 border-t pt-3">
+          {replyTo && (
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Replying to {getName(replyTo.author_id)}</span>
+              <Button variant="ghost" size="icon" className="h-5 w-5" onClick={() => setReplyTo(null)} aria-label="Cancel reply">
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+
+          <div className="relative">
+            <Textarea
+              placeholder="Write a comment. Markdown works, and @name notifies a teammate."
+              value={draft}
+              maxLength={MAX_COMMENT_LENGTH}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handlePost();
+              }}
+              className="min-h-[80px] text-sm"
+            />
+            {suggestions.length > 0 && (
+              <div className="absolute bottom-full left-0 z-10 mb-1 w-48 rounded-md border bg-popover p-1 shadow-md">
+                {suggestions.map((member) => (
+                  <button
+                    key={member.user_id}
+                    type="button"
+                    className="w-full rounded-sm px-2 py-1 text-left text-sm hover:bg-accent"
+                    onClick={() => setDraft(completeMention(draft, member))}
+                  >
+                    {member.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`email-mentions-${task.task_id}`}
+                checked={emailMentions}
+                onCheckedChange={(checked) => setEmailMentions(checked === true)}
+              />
+              <Label htmlFor={`email-mentions-${task.task_id}`} className="text-xs font-normal">
+                Email people I mention
+              </Label>
+            </div>
+            <Button size="sm" onClick={handlePost} disabled={posting || !draft.trim() || !user}>
+              {posting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              {replyTo ? 'Reply' : 'Comment'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
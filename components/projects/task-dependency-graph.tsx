@@ -0,0 +1,111 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { MermaidDiagram } from '@/components/mermaid-diagram';
+import { buildDependencyChart, type CriticalPathAnalysis } from '@/lib/task-graph';
+import { Task } from '@/lib/types';
+import { AlertCircle, Flame, GitBranch } from 'lucide-react';
+
+interface TaskDependencyGraphProps {
+  tasks: Task[];
+  analysis: CriticalPathAnalysis;
+  deadline: Date;
+  now: number;
+}
+
+export function TaskDependencyGraph({ tasks, analysis, deadline, now }: TaskDependencyGraphProps) {
+  const chart = useMemo(() => buildDependencyChart(tasks, analysis), [tasks, analysis]);
+  const hasDependencies = tasks.some((t) => (t.dependencies || []).length > 0);
+
+  const estimatedFinish = new Date(now + analysis.remainingHours * 60 * 60 * 1000);
+  const hoursOver = Math.ceil((estimatedFinish.getTime() - deadline.getTime()) / (60 * 60 * 1000));
+  const criticalTasks = analysis.criticalPath.map((id) => tasks.find((t) => t.task_id === id)!).filter(Boolean);
+
+  if (tasks.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-sm text-muted-foreground">
+          Add tasks to see how they depend on each other.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Critical path</CardDescription>
+            <CardTitle className="text-2xl">{analysis.remainingHours}h</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">
+            Remaining effort on the longest dependency chain
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Estimated finish</CardDescription>
+            <CardTitle className={`text-2xl ${hoursOver > 0 ? 'text-red-600' : ''}`}>
+              {estimatedFinish.toLocaleString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">
+            {hoursOver > 0 ? `${hoursOver}h past the deadline` : 'Before the deadline'}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Tasks that can't slip</CardDescription>
+            <CardTitle className="text-2xl">{criticalTasks.length}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">
+            Any delay here moves the project end date
+          </CardContent>
+        </Card>
+      </div>
+
+      {analysis.hasCycle && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Some tasks depend on each other in a loop. The schedule ignores those links until one is removed.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <GitBranch className="h-4 w-4" />
+            Dependency Graph
+          </CardTitle>
+          <CardDescription>
+            {hasDependencies
+              ? 'Red tasks are on the critical path; dashed tasks are waiting on prerequisites.'
+              : 'No dependencies yet. Generate tasks with AI or link them to see the critical path.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <MermaidDiagram chart={chart} />
+          {criticalTasks.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Flame className="h-4 w-4 text-red-500" />
+              {criticalTasks.map((task, i) => (
+                <span key={task.task_id} className="flex items-center gap-2">
+                  {i > 0 && <span className="text-muted-foreground">→</span>}
+                  <Badge variant="outline" className="border-red-500/50 text-red-600">
+                    {task.title}
+                  </Badge>
+                </span>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
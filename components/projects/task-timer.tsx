@@ -0,0 +1,308 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useAuth } from '@/lib/auth-context';
+import { useToast } from '@/hooks/use-toast';
+import {
+  addManualTimeEntry,
+  deleteTimeEntry,
+  formatDuration,
+  formatElapsed,
+  getTimeEntries,
+  startTimer,
+  stopTimer,
+  updateTimeEntry,
+} from '@/lib/time-tracking';
+import { ProjectMember, Task, TimeEntry } from '@/lib/types';
+import { Clock, History, Loader2, Play, Plus, Square, Trash2 } from 'lucide-react';
+
+interface TaskTimerProps {
+  task: Task;
+  members: ProjectMember[];
+  compact?: boolean;
+}
+
+// Stops pointer events from starting a drag on sortable task cards
+const stopDrag = {
+  onPointerDown: (e: React.PointerEvent) => e.stopPropagation(),
+  onKeyDown: (e: React.KeyboardEvent) => e.stopPropagation(),
+};
+
+/**
+ * Start/stop timer for the signed-in user on a task, with the task's total logged time
+ * and a log of entries that can be corrected by hand.
+ */
+export function TaskTimer({ task, members, compact = false }: TaskTimerProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [now, setNow] = useState(() => Date.now());
+  const [busy, setBusy] = useState(false);
+  const [entriesOpen, setEntriesOpen] = useState(false);
+
+  const myTimer = user ? task.active_timers?.[user.uid] : undefined;
+  const othersRunning = Object.keys(task.active_timers || {}).filter((id) => id !== user?.uid);
+
+  useEffect(() => {
+    if (!myTimer) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [myTimer]);
+
+  const handleToggle = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    if (!user || busy) return;
+
+    setBusy(true);
+    try {
+      if (myTimer) {
+        await stopTimer(task, user.uid);
+      } else {
+        await startTimer(task, user.uid);
+        setNow(Date.now());
+      }
+    } catch (error) {
+      console.error('Timer update failed:', error);
+      toast({ title: 'Timer update failed', description: 'Please try again.', variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-2 text-xs" {...stopDrag}>
+      <div className="flex items-center gap-1 text-muted-foreground pointer-events-none">
+        <Clock className="h-3 w-3" />
+        {formatDuration(task.time_spent || 0)}
+        {othersRunning.length > 0 && (
+          <span className="ml-1 flex items-center gap-1 text-green-600" title={othersRunning.map((id) => members.find((m) => m.user_id === id)?.name || 'Teammate').join(', ')}>
+            <span className="h-1.5 w-1.5 rounded-full bg-green-500 animate-pulse" />
+            {!compact && `${othersRunning.length} working`}
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1">
+        {!compact && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={(e) => {
+              e.stopPropagation();
+              setEntriesOpen(true);
+            }}
+            aria-label="Time log"
+          >
+            <History className="h-3 w-3" />
+          </Button>
+        )}
+        <Button
+          variant={myTimer ? 'destructive' : 'outline'}
+          size="sm"
+          className="h-6 px-2 text-xs font-mono"
+          onClick={handleToggle}
+          disabled={!user || busy}
+        >
+          {busy ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : myTimer ? (
+            <>
+              <Square className="mr-1 h-3 w-3" />
+              {formatElapsed(myTimer.started_at, now)}
+            </>
+          ) : (
+            <>
+              <Play className="mr-1 h-3 w-3" />
+              Start
+            </>
+          )}
+        </Button>
+      </div>
+
+      <TimeEntriesDialog task={task} members={members} open={entriesOpen} onOpenChange={setEntriesOpen} />
+    </div>
+  );
+}
+
+interface TimeEntriesDialogProps {
+  task: Task;
+  members: ProjectMember[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TimeEntriesDialog({ task, members, open, onOpenChange }: TimeEntriesDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editing, setEditing] = useState<Record<string, string>>({});
+  const [manualMinutes, setManualMinutes] = useState('');
+  const [manualNote, setManualNote] = useState('');
+
+  const loadEntries = async () => {
+    setLoading(true);
+    try {
+      setEntries(await getTimeEntries(task.task_id));
+    } catch (error) {
+      console.error('Failed to load time entries:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadEntries();
+  }, [open, task.task_id]);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      await loadEntries();
+    } catch (error: any) {
+      toast({ title: failure, description: error.message || 'Please try again.', variant: 'destructive' });
+    }
+  };
+
+  const handleSaveDuration = (entry: TimeEntry) => {
+    const minutes = parseInt(editing[entry.entry_id] ?? '', 10);
+    if (isNaN(minutes) || minutes < 0) return;
+    setEditing(({ [entry.entry_id]: _, ...rest }) => rest);
+    run(() => updateTimeEntry(entry, { durationMinutes: minutes }), 'Could not update entry');
+  };
+
+  const handleAddManual = () => {
+    const minutes = parseInt(manualMinutes, 10);
+    if (!user || isNaN(minutes) || minutes <= 0) return;
+    setManualMinutes('');
+    setManualNote('');
+    run(
+      () =>
+        addManualTimeEntry(task, user.uid, {
+          startedAt: new Date(Date.now() - minutes * 60000),
+          durationMinutes: minutes,
+          note: manualNote,
+        }),
+      'Could not log time'
+    );
+  };
+
+  const memberName = (userId: string) =>
+    userId === user?.uid ? 'You' : members.find((m) => m.user_id === userId)?.name || 'Teammate';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" onPointerDown={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Time Log
+          </DialogTitle>
+          <DialogDescription>
+            {task.title} · {formatDuration(task.time_spent || 0)} logged
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-72 pr-3">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No time logged yet</p>
+          ) : (
+            <div className="space-y-2">
+              {entries.map((entry) => {
+                const isMine = entry.user_id === user?.uid;
+                const isRunning = !entry.ended_at;
+
+                return (
+                  <div key={entry.entry_id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium">
+                        {memberName(entry.user_id)}
+                        {entry.manual && <span className="ml-1 text-xs text-muted-foreground">(edited)</span>}
+                      </p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {entry.started_at.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                        {entry.note && ` · ${entry.note}`}
+                      </p>
+                    </div>
+
+                    {isRunning ? (
+                      <span className="text-xs text-green-600">Running</span>
+                    ) : isMine && editing[entry.entry_id] !== undefined ? (
+                      <div className="flex items-center gap-1">
+                        <Input
+                          type="number"
+                          min={0}
+                          className="h-7 w-20 text-xs"
+                          value={editing[entry.entry_id]}
+                          onChange={(e) => setEditing((prev) => ({ ...prev, [entry.entry_id]: e.target.value }))}
+                          onKeyDown={(e) => e.key === 'Enter' && handleSaveDuration(entry)}
+                        />
+                        <span className="text-xs text-muted-foreground">min</span>
+                        <Button size="sm" className="h-7" onClick={() => handleSaveDuration(entry)}>
+                          Save
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-1">
+                        <button
+                          type="button"
+                          className="font-mono text-xs disabled:cursor-default"
+                          disabled={!isMine}
+                          onClick={() => setEditing((prev) => ({ ...prev, [entry.entry_id]: String(entry.duration_minutes) }))}
+                          title={isMine ? 'Edit duration' : undefined}
+                        >
+                          {formatDuration(entry.duration_minutes)}
+                        </button>
+                        {isMine && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => run(() => deleteTimeEntry(entry), 'Could not delete entry')}
+                            aria-label="Delete entry"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+
+        {user && (
+          <div className="space-y-2 border-t pt-3">
+            <Label className="text-xs">Log time manually</Label>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={1}
+                placeholder="Minutes"
+                className="w-24"
+                value={manualMinutes}
+                onChange={(e) => setManualMinutes(e.target.value)}
+              />
+              <Input placeholder="Note (optional)" value={manualNote} onChange={(e) => setManualNote(e.target.value)} />
+              <Button onClick={handleAddManual} disabled={!manualMinutes || parseInt(manualMinutes, 10) <= 0}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,6 +6,7 @@ import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/lib/auth-context';
+import { subscribeToAICredits } from '@/lib/firestore';
 import { SubscriptionService, UsageTracker, UsageStats } from '@/lib/subscription-service';
 import { UpgradeDialog } from './upgrade-dialog';
 import { SubscriptionTier, UserType } from '@/lib/types';
@@ -25,6 +26,13 @@ export function UsageDashboard() {
   const { user } = useAuth();
   const [usage, setUsage] = useState<UsageStats | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
+  const [aiCreditsUsed, setAICreditsUsed] = useState(0);
+
+  // AI credits come from the server-side meter rather than this device's counters
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToAICredits(user.uid, (credits) => setAICreditsUsed(credits?.usedCredits || 0));
+  }, [user]);
 
   useEffect(() => {
     if (user) {
@@ -111,7 +119,7 @@ export function UsageDashboard() {
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold">
-                {usage.aiCreditsUsed}
+                {aiCreditsUsed}
               </div>
               <div className="text-sm text-muted-foreground">AI Credits Used</div>
             </div>
@@ -174,13 +182,13 @@ export function UsageDashboard() {
             <div className="space-y-2">
               <div className="flex justify-between items-center">
                 <span className="text-sm text-muted-foreground">Used this month</span>
-                <span className={`text-sm font-medium ${getUsageColor(usage.aiCreditsUsed, limits.aiCreditsPerMonth)}`}>
-                  {usage.aiCreditsUsed} / {formatLimit(limits.aiCreditsPerMonth)}
+                <span className={`text-sm font-medium ${getUsageColor(aiCreditsUsed, limits.aiCreditsPerMonth)}`}>
+                  {aiCreditsUsed} / {formatLimit(limits.aiCreditsPerMonth)}
                 </span>
               </div>
               {limits.aiCreditsPerMonth !== -1 && limits.aiCreditsPerMonth > 0 && (
                 <Progress 
-                  value={(usage.aiCreditsUsed / limits.aiCreditsPerMonth) * 100} 
+                  value={(aiCreditsUsed / limits.aiCreditsPerMonth) * 100} 
                   className="h-2"
                 />
               )}
@@ -189,7 +197,7 @@ export function UsageDashboard() {
                   AI features not available on this plan
                 </div>
               )}
-              {isAtLimit(usage.aiCreditsUsed, limits.aiCreditsPerMonth) && (
+              {isAtLimit(aiCreditsUsed, limits.aiCreditsPerMonth) && (
                 <div className="flex items-center gap-1 text-xs text-red-600">
                   <AlertTriangle className="h-3 w-3" />
                   Monthly limit reached
@@ -258,7 +266,7 @@ export function UsageDashboard() {
 
       {/* Warnings and Recommendations */}
       {(isNearLimit(usage.projectsCreated, limits.maxProjects) || 
-        isNearLimit(usage.aiCreditsUsed, limits.aiCreditsPerMonth) ||
+        isNearLimit(aiCreditsUsed, limits.aiCreditsPerMonth) ||
         recommendedPlan) && (
         <Card className="border-yellow-200 bg-yellow-50">
           <CardHeader>
@@ -275,10 +283,10 @@ export function UsageDashboard() {
               </div>
             )}
             
-            {isNearLimit(usage.aiCreditsUsed, limits.aiCreditsPerMonth) && (
+            {isNearLimit(aiCreditsUsed, limits.aiCreditsPerMonth) && (
               <div className="flex items-center gap-2 text-sm text-yellow-700">
                 <AlertTriangle className="h-4 w-4" />
-                You're running low on AI credits ({usage.aiCreditsUsed}/{limits.aiCreditsPerMonth})
+                You're running low on AI credits ({aiCreditsUsed}/{limits.aiCreditsPerMonth})
               </div>
             )}
 
@@ -0,0 +1,179 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAuth } from '@/lib/auth-context';
+import { subscribeToProjectTimeEntries } from '@/lib/time-tracking';
+import {
+  analyzeBurnoutRisk,
+  getTeamBurnoutRisk,
+  type BurnoutCommit,
+  type BurnoutRisk,
+  type MemberBurnoutReport,
+} from '@/lib/burnout-risk';
+import { LiveActivity, Project, ProjectMember, Task, TimeEntry } from '@/lib/types';
+import { ArrowRight, HeartPulse, Moon, Coffee, Clock, Layers } from 'lucide-react';
+
+interface TeamWellbeingProps {
+  project: Project;
+  tasks: Task[];
+  members: ProjectMember[];
+  activities: LiveActivity[];
+  commits: BurnoutCommit[];
+  isLead: boolean;
+  now: number;
+  onReassign: (taskId: string, userId: string) => Promise<void>;
+}
+
+const RISK_STYLES: Record<BurnoutRisk, string> = {
+  low: 'bg-green-100 text-green-700',
+  medium: 'bg-yellow-100 text-yellow-700',
+  high: 'bg-red-100 text-red-700',
+};
+
+const SIGNAL_ICONS = {
+  long_hours: Clock,
+  no_breaks: Coffee,
+  late_night: Moon,
+  overloaded: Layers,
+};
+
+/**
+ * Burnout check for the team tab. Leads see every member who shows signs of strain, with a nudge
+ * and tasks that could move to someone with room; everyone else sees only their own check.
+ */
+export function TeamWellbeing({ project, tasks, members, activities, commits, isLead, now, onReassign }: TeamWellbeingProps) {
+  const { user, userProfile, updateUserProfile } = useAuth();
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [moving, setMoving] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToProjectTimeEntries(project.id, setTimeEntries);
+    return () => unsubscribe?.();
+  }, [project.id]);
+
+  const me = members.find((m) => m.user_id === user?.uid);
+  const optedOut = userProfile?.wellbeing_opt_out ?? me?.wellbeing_opt_out ?? false;
+
+  // Re-run once a minute rather than on every clock tick; the member list may predate the viewer's own opt-out
+  const minute = Math.floor(now / 60000);
+  const reports = useMemo(() => {
+    const tracked = members.map((m) => (m.user_id === user?.uid ? { ...m, wellbeing_opt_out: optedOut } : m));
+    return analyzeBurnoutRisk({ members: tracked, tasks, activities, timeEntries, commits, now: minute * 60000 });
+  }, [members, tasks, activities, timeEntries, commits, minute, user?.uid, optedOut]);
+  const visible = isLead ? reports.filter((r) => r.risk !== 'low') : reports.filter((r) => r.userId === user?.uid);
+  const teamRisk = getTeamBurnoutRisk(reports);
+
+  const handleReassign = async (taskId: string, userId: string) => {
+    setMoving(taskId);
+    try {
+      await onReassign(taskId, userId);
+    } finally {
+      setMoving(null);
+    }
+  };
+
+  const renderReport = (report: MemberBurnoutReport) => (
+    <div key={report.userId} className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <p className="font-medium">{report.userId === user?.uid ? 'You' : report.name}</p>
+        <Badge className={`${RISK_STYLES[report.risk]} border-none capitalize`}>{report.risk} risk</Badge>
+      </div>
+
+      {report.signals.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {report.signals.map((signal) => {
+            const Icon = SIGNAL_ICONS[signal.type];
+            return (
+              <Badge key={signal.type} variant="outline" className="gap-1 text-xs font-normal">
+                <Icon className="h-3 w-3" />
+                {signal.detail}
+              </Badge>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No signs of strain in the last day. Keep pacing yourself.</p>
+      )}
+
+      {report.nudge && <p className="text-sm text-muted-foreground">{report.nudge}</p>}
+
+      {isLead && report.reassignments.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">Could move</p>
+          {report.reassignments.map((suggestion) => (
+            <div key={suggestion.taskId} className="flex items-center justify-between gap-2 text-sm">
+              <span className="flex min-w-0 items-center gap-1">
+                <span className="truncate">{suggestion.title}</span>
+                <ArrowRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+                <span className="shrink-0">{suggestion.toName}</span>
+              </span>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-7"
+                disabled={moving === suggestion.taskId}
+                onClick={() => handleReassign(suggestion.taskId, suggestion.toUserId)}
+              >
+                Reassign
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <HeartPulse className="h-5 w-5 text-rose-500" />
+              Team Wellbeing
+            </CardTitle>
+            <CardDescription>
+              {isLead
+                ? 'Spots long stretches, late nights and uneven workloads so you can step in early'
+                : 'A private check on your own pace over the last day'}
+            </CardDescription>
+          </div>
+          {isLead && reports.length > 0 && (
+            <Badge className={`${RISK_STYLES[teamRisk]} border-none capitalize`}>Team: {teamRisk}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {visible.length > 0 ? (
+          <div className="grid gap-4 md:grid-cols-2">{visible.map(renderReport)}</div>
+        ) : (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            {isLead
+              ? 'Everyone is pacing well right now.'
+              : optedOut
+                ? 'You are not included in wellbeing checks.'
+                : 'No signs of strain in the last day.'}
+          </p>
+        )}
+
+        {me && (
+          <div className="flex items-center justify-between border-t pt-4">
+            <Label htmlFor="wellbeing-opt-in" className="text-sm font-normal">
+              Include me in wellbeing checks
+            </Label>
+            <Switch
+              id="wellbeing-opt-in"
+              checked={!optedOut}
+              onCheckedChange={(checked) => updateUserProfile({ wellbeing_opt_out: !checked })}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
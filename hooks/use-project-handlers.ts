@@ -2,14 +2,15 @@ import { useCallback, useRef } from 'react'
 import { useAuth } from '@/lib/auth-context'
 import { useToast } from '@/hooks/use-toast'
 import {
-  updateTask,
-  deleteTask,
-  addTask,
+  reserveTaskIds,
   sendMessage,
   updateProjectIdea,
   updateDemoMode,
   addActivity,
 } from '@/lib/firestore'
+import { getAIRequestHeaders } from '@/lib/ai-client'
+import { buildUnblockUpdate } from '@/lib/task-blockers'
+import { saveOrQueue } from '@/lib/offline-outbox'
 import type { Task, IdeaAnalysis } from '@/lib/types'
 
 // Optimized handlers with useCallback to prevent re-renders
@@ -37,15 +38,29 @@ export function useProjectHandlers(projectId: string) {
     const originalTask = currentTasks.find(t => t.task_id === taskId)
     if (!originalTask) return
 
+    // Leaving Blocked closes the block so its duration counts towards blocked time
+    const updates: Partial<Task> = originalTask.status === 'Blocked' && newStatus !== 'Blocked'
+      ? buildUnblockUpdate(originalTask, newStatus)
+      : { status: newStatus }
+
     // Optimistic update
     setTasks(prev => prev.map(t => 
       t.task_id === taskId 
-        ? { ...t, status: newStatus, last_updated: new Date() }
+        ? { ...t, ...updates, last_updated: new Date() }
         : t
     ))
 
     try {
-      await updateTask(taskId, { status: newStatus })
+      // Queued in the offline outbox when there is no connection
+      await saveOrQueue({
+        projectId,
+        collection: 'tasks',
+        operation: 'update',
+        docId: taskId,
+        data: updates,
+        previous: originalTask,
+        label: `Moved "${originalTask.title}" to ${newStatus}`,
+      })
       
       // Add activity log
       if (user) {
@@ -95,7 +110,15 @@ export function useProjectHandlers(projectId: string) {
     ))
 
     try {
-      await updateTask(taskId, { assigned_to: assignedTo })
+      await saveOrQueue({
+        projectId,
+        collection: 'tasks',
+        operation: 'update',
+        docId: taskId,
+        data: { assigned_to: assignedTo },
+        previous: originalTask,
+        label: `${assignedTo ? 'Assigned' : 'Unassigned'} "${originalTask.title}"`,
+      })
       toast({ 
         title: assignedTo ? "Task assigned!" : "Task unassigned!",
         duration: 2000 
@@ -113,7 +136,7 @@ export function useProjectHandlers(projectId: string) {
     } finally {
       pendingRequests.current.delete(requestKey)
     }
-  }, [toast])
+  }, [projectId, toast])
 
   // Optimistic task deletion
   const handleDeleteTask = useCallback(async (
@@ -133,7 +156,13 @@ export function useProjectHandlers(projectId: string) {
     setTasks(prev => prev.filter(t => t.task_id !== taskId))
 
     try {
-      await deleteTask(taskId)
+      await saveOrQueue({
+        projectId,
+        collection: 'tasks',
+        operation: 'delete',
+        docId: taskId,
+        label: `Deleted "${taskToDelete.title}"`,
+      })
       toast({ title: "Task deleted!", duration: 2000 })
     } catch (error) {
       // Rollback - add task back
@@ -148,7 +177,7 @@ export function useProjectHandlers(projectId: string) {
     } finally {
       pendingRequests.current.delete(requestKey)
     }
-  }, [toast])
+  }, [projectId, toast])
 
   // Optimized task creation
   const handleAddTask = useCallback(async (
@@ -162,12 +191,33 @@ export function useProjectHandlers(projectId: string) {
     pendingRequests.current.add(requestKey)
 
     try {
-      const newTask = await addTask(taskData)
-      if (newTask) {
-        // Task is already added optimistically by the addTask function
-        toast({ title: "Task added!", duration: 2000 })
-        resetForm()
+      const [taskId] = reserveTaskIds(1)
+      const newTask: Task = {
+        ...taskData,
+        task_id: taskId,
+        last_updated: new Date(),
+        created_at: new Date(),
+        priority: taskData.priority || 'Medium',
+        time_spent: 0,
+        dependencies: [],
+        tags: [],
       }
+      const result = await saveOrQueue({
+        projectId,
+        collection: 'tasks',
+        operation: 'create',
+        docId: taskId,
+        data: newTask,
+        label: `Added "${newTask.title}"`,
+      })
+
+      setTasks(prev => [...prev, newTask])
+      toast({
+        title: "Task added!",
+        description: result === 'queued' ? "Saved offline. It will sync when you reconnect." : undefined,
+        duration: 2000,
+      })
+      resetForm()
     } catch (error) {
       toast({
         title: "Failed to add task",
@@ -177,7 +227,7 @@ export function useProjectHandlers(projectId: string) {
     } finally {
       pendingRequests.current.delete(requestKey)
     }
-  }, [toast])
+  }, [projectId, toast])
 
   // Optimized message sending
   const handleSendMessage = useCallback(async (
@@ -236,9 +286,10 @@ export function useProjectHandlers(projectId: string) {
     try {
       const response = await fetch('/api/gemini', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: await getAIRequestHeaders(),
         body: JSON.stringify({
           action: 'analyze_idea',
+          projectId,
           data: { idea, duration }
         })
       })
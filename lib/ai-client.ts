@@ -0,0 +1,59 @@
+"use client"
+
+import { getFirebaseAuth } from "./firebase"
+import { readServerSentEvents } from "./ai-stream"
+
+/**
+ * Client helpers for calling the AI routes.
+ * Every AI call is metered server-side, so requests carry the signed-in user's Firebase ID token.
+ */
+
+export async function getAIRequestHeaders(): Promise<Record<string, string>> {
+  const token = await getFirebaseAuth()?.currentUser?.getIdToken()
+  return {
+    "Content-Type": "application/json",
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  }
+}
+
+/**
+ * Posts to the streaming AI route and reports each text delta as it arrives.
+ * Resolves with the full text; rejects with an AbortError when the signal fires.
+ */
+export async function streamAIResponse(
+  body: unknown,
+  onDelta: (delta: string, text: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const response = await fetch("/api/gemini/stream", {
+    method: "POST",
+    headers: await getAIRequestHeaders(),
+    body: JSON.stringify(body),
+    signal,
+  })
+
+  if (!response.ok || !response.body) {
+    const errorText = await response.text()
+    let message = errorText
+    try {
+      message = JSON.parse(errorText).error || errorText
+    } catch {
+      // Plain-text error body
+    }
+    throw new Error(message || `Streaming request failed with status ${response.status}`)
+  }
+
+  let text = ""
+  for await (const { event, data } of readServerSentEvents(response.body)) {
+    const payload = JSON.parse(data)
+
+    if (event === "error") throw new Error(payload.error || "AI stream failed")
+    if (event === "done") break
+    if (event === "delta" && payload.text) {
+      text += payload.text
+      onDelta(payload.text, text)
+    }
+  }
+
+  return text
+}
@@ -0,0 +1,205 @@
+import { FieldValue, Timestamp, type DocumentSnapshot } from "firebase-admin/firestore"
+import { getAdminAuth, getAdminDb } from "./firebase-admin"
+import { AI_CREDIT_COSTS } from "./constants"
+import { SubscriptionService } from "./subscription-service"
+import type { AIAnalysis, SubscriptionTier } from "./types"
+
+/**
+ * Server-side AI credit metering.
+ * Credits are debited in a Firestore transaction before the provider is called, every call gets
+ * an `ai_analyses` ledger entry, and the debit is refunded when the AI fails or a fallback is served.
+ */
+
+export type AIAction = "analyze_idea" | "generate_tasks" | "mentor_chat" | "generate_docs" | "generate_checklist"
+
+const ACTION_METERING: Record<AIAction, { cost: number; type: AIAnalysis["type"] }> = {
+  analyze_idea: { cost: AI_CREDIT_COSTS.idea_analysis, type: "idea" },
+  generate_tasks: { cost: AI_CREDIT_COSTS.task_breakdown, type: "task_breakdown" },
+  mentor_chat: { cost: AI_CREDIT_COSTS.mentor_message, type: "mentor_chat" },
+  generate_docs: { cost: AI_CREDIT_COSTS.docs_generation, type: "documentation" },
+  generate_checklist: { cost: AI_CREDIT_COSTS.checklist_generation, type: "task_breakdown" },
+}
+
+// Ledger entries keep enough input/output to audit a charge without storing whole documents
+const LEDGER_TEXT_LIMIT = 5000
+
+export class AuthenticationError extends Error {
+  constructor(message = "Authentication required") {
+    super(message)
+    this.name = "AuthenticationError"
+  }
+}
+
+export class InsufficientCreditsError extends Error {
+  constructor(public required: number, public remaining: number) {
+    super(`This action needs ${required} AI credits but only ${remaining} remain this month`)
+    this.name = "InsufficientCreditsError"
+  }
+}
+
+export function isAIAction(action: unknown): action is AIAction {
+  return typeof action === "string" && action in ACTION_METERING
+}
+
+export function getActionCost(action: AIAction): number {
+  return ACTION_METERING[action].cost
+}
+
+/**
+ * Verifies the Firebase ID token sent as `Authorization: Bearer <token>` and returns the uid
+ */
+export async function verifyRequestUser(request: Request): Promise<string> {
+  const header = request.headers.get("authorization") || ""
+  const token = header.match(/^Bearer\s+(.+)$/i)?.[1]
+  if (!token) throw new AuthenticationError()
+
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(token)
+    return decoded.uid
+  } catch {
+    throw new AuthenticationError("Invalid or expired session")
+  }
+}
+
+/**
+ * The tier the server meters against. Clients cannot set paid tiers or their expiry on users/{uid}
+ * (see firestore.rules), and a paid tier past its expiry counts as free.
+ */
+export function getBillingTier(userSnap: DocumentSnapshot): SubscriptionTier {
+  const expiry: Date | undefined = userSnap.get("subscriptionExpiry")?.toDate?.()
+  if (expiry && expiry.getTime() <= Date.now()) return "free"
+  return (userSnap.get("subscriptionTier") || "free") as SubscriptionTier
+}
+
+export async function getUserBillingTier(userId: string): Promise<SubscriptionTier> {
+  return getBillingTier(await getAdminDb().collection("users").doc(userId).get())
+}
+
+function getNextResetDate(from: Date): Date {
+  return new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 1, 1))
+}
+
+/**
+ * Atomically debits the action's cost and opens a ledger entry.
+ * The monthly allowance comes from the user's subscription tier and resets on the first of the month.
+ * Returns the ledger entry id, needed to record the output or refund the charge.
+ */
+export async function debitCredits(
+  userId: string,
+  action: AIAction,
+  details: { projectId?: string; input: string }
+): Promise<string> {
+  const db = getAdminDb()
+  const { cost, type } = ACTION_METERING[action]
+  const creditRef = db.collection("ai_credits").doc(userId)
+  const userRef = db.collection("users").doc(userId)
+  const ledgerRef = db.collection("ai_analyses").doc()
+
+  await db.runTransaction(async (transaction) => {
+    const [creditSnap, userSnap] = await transaction.getAll(creditRef, userRef)
+    const now = new Date()
+
+    const tier = getBillingTier(userSnap)
+    const totalCredits = SubscriptionService.getLimits(tier).aiCreditsPerMonth
+    const resetDate: Date | null = creditSnap.exists ? creditSnap.get("resetDate")?.toDate?.() || null : null
+    const isNewPeriod = !resetDate || now >= resetDate
+    const usedCredits = isNewPeriod ? 0 : creditSnap.get("usedCredits") || 0
+
+    // -1 means unlimited
+    if (totalCredits !== -1 && usedCredits + cost > totalCredits) {
+      throw new InsufficientCreditsError(cost, Math.max(0, totalCredits - usedCredits))
+    }
+
+    const periodResetDate = Timestamp.fromDate(isNewPeriod ? getNextResetDate(now) : resetDate!)
+
+    transaction.set(creditRef, {
+      userId,
+      totalCredits,
+      usedCredits: usedCredits + cost,
+      resetDate: periodResetDate,
+      tier,
+    })
+
+    transaction.create(ledgerRef, {
+      id: ledgerRef.id,
+      userId,
+      projectId: details.projectId || "",
+      type,
+      input: details.input.slice(0, LEDGER_TEXT_LIMIT),
+      output: "",
+      creditsUsed: cost,
+      periodResetDate,
+      status: "charged",
+      createdAt: FieldValue.serverTimestamp(),
+    })
+  })
+
+  return ledgerRef.id
+}
+
+/**
+ * Adds credits to an open ledger entry's charge, e.g. for a follow-up provider call made while serving it.
+ * Throws InsufficientCreditsError when the allowance cannot cover the extra credits.
+ */
+export async function chargeExtraCredits(ledgerId: string, credits: number): Promise<void> {
+  const db = getAdminDb()
+  const ledgerRef = db.collection("ai_analyses").doc(ledgerId)
+
+  await db.runTransaction(async (transaction) => {
+    const ledgerSnap = await transaction.get(ledgerRef)
+    if (!ledgerSnap.exists || ledgerSnap.get("status") !== "charged") {
+      throw new Error(`Ledger entry ${ledgerId} is not open for charges`)
+    }
+
+    const creditRef = db.collection("ai_credits").doc(ledgerSnap.get("userId"))
+    const creditSnap = await transaction.get(creditRef)
+    const currentPeriod: Timestamp | undefined = creditSnap.get("resetDate")
+    if (!currentPeriod?.isEqual(ledgerSnap.get("periodResetDate"))) {
+      throw new Error(`Ledger entry ${ledgerId} belongs to an earlier credit period`)
+    }
+
+    const totalCredits: number = creditSnap.get("totalCredits")
+    const usedCredits: number = creditSnap.get("usedCredits") || 0
+    if (totalCredits !== -1 && usedCredits + credits > totalCredits) {
+      throw new InsufficientCreditsError(credits, Math.max(0, totalCredits - usedCredits))
+    }
+
+    transaction.update(creditRef, { usedCredits: usedCredits + credits })
+    transaction.update(ledgerRef, { creditsUsed: FieldValue.increment(credits) })
+  })
+}
+
+export async function recordLedgerOutput(ledgerId: string, output: string): Promise<void> {
+  const db = getAdminDb()
+  await db.collection("ai_analyses").doc(ledgerId).update({ output: output.slice(0, LEDGER_TEXT_LIMIT) })
+}
+
+/**
+ * Returns a ledger entry's credits to the user. Safe to call more than once.
+ */
+export async function refundCredits(ledgerId: string, reason: string): Promise<void> {
+  const db = getAdminDb()
+  const ledgerRef = db.collection("ai_analyses").doc(ledgerId)
+
+  await db.runTransaction(async (transaction) => {
+    const ledgerSnap = await transaction.get(ledgerRef)
+    if (!ledgerSnap.exists || ledgerSnap.get("status") === "refunded") return
+
+    const creditRef = db.collection("ai_credits").doc(ledgerSnap.get("userId"))
+    const creditSnap = await transaction.get(creditRef)
+
+    // A charge from an earlier period was already cleared by the reset, so only refund within the same period
+    const chargedPeriod: Timestamp | undefined = ledgerSnap.get("periodResetDate")
+    const currentPeriod: Timestamp | undefined = creditSnap.exists ? creditSnap.get("resetDate") : undefined
+    if (chargedPeriod && currentPeriod?.isEqual(chargedPeriod)) {
+      const usedCredits = Math.max(0, (creditSnap.get("usedCredits") || 0) - ledgerSnap.get("creditsUsed"))
+      transaction.update(creditRef, { usedCredits })
+    }
+
+    transaction.update(ledgerRef, {
+      status: "refunded",
+      refundReason: reason,
+      refundedAt: FieldValue.serverTimestamp(),
+    })
+  })
+}
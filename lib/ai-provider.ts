@@ -0,0 +1,464 @@
+import { readServerSentEvents } from "./ai-stream"
+
+/**
+ * Pluggable AI providers for the server-side AI route.
+ * The provider is picked from env config so the app can run against OpenRouter,
+ * Google Gemini, a local OpenAI-compatible server (Ollama, llama.cpp) or an offline mock.
+ */
+
+export type AIProviderName = "openrouter" | "gemini" | "openai-compatible" | "mock"
+
+export interface AIMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+export interface AICompletionOptions {
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface AIProvider {
+  name: AIProviderName
+  /** Models tried in order until one answers */
+  models: string[]
+  /** Prompt + response budget of the smallest model in the list */
+  contextTokens: number
+  complete(messages: AIMessage[], options?: AICompletionOptions): Promise<string>
+  /** Yields text deltas as the model produces them; aborting the signal cancels the upstream request */
+  stream(messages: AIMessage[], options?: AICompletionOptions, signal?: AbortSignal): AsyncGenerator<string>
+}
+
+const DEFAULT_MAX_TOKENS = 1000
+const DEFAULT_TEMPERATURE = 0.7
+
+/**
+ * Default model lists per provider (order matters).
+ * Gemini free is LAST on OpenRouter because it rate-limits a lot.
+ */
+export const PROVIDER_MODELS: Record<AIProviderName, string[]> = {
+  openrouter: [
+    "meta-llama/llama-3.2-3b-instruct:free",
+    "mistralai/mistral-7b-instruct:free",
+    "huggingfaceh4/zephyr-7b-beta:free",
+    "google/gemini-2.0-flash-exp:free",
+  ],
+  gemini: ["gemini-2.0-flash", "gemini-1.5-flash"],
+  "openai-compatible": ["llama3.2"],
+  mock: ["mock-1"],
+}
+
+const PROVIDER_CONTEXT_TOKENS: Record<AIProviderName, number> = {
+  openrouter: 4096,
+  gemini: 32768,
+  "openai-compatible": 4096,
+  mock: 4096,
+}
+
+// ---------------------------------------------------------------------------
+// Token budgeting
+// ---------------------------------------------------------------------------
+
+/**
+ * Rough token estimate without shipping a tokenizer. English text averages ~4 characters
+ * per token, while punctuation and code symbols split into far more tokens, so they are weighted higher.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0
+  const symbols = (text.match(/[^\w\s]/g) || []).length
+  return Math.ceil((text.length - symbols) / 4 + symbols / 2)
+}
+
+const TRUNCATION_MARKER = "\n\n[... truncated ...]\n\n"
+
+/**
+ * Cuts the middle out of a text so it fits the token budget. Prompts keep their instructions
+ * at the top and the question / output format at the bottom, so both ends are preserved.
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text
+
+  const markerTokens = estimateTokens(TRUNCATION_MARKER)
+  let keepChars = Math.max(0, Math.floor(((maxTokens - markerTokens) / estimateTokens(text)) * text.length))
+
+  // The estimate is not linear for symbol-heavy text, so shrink until it fits
+  while (keepChars > 0) {
+    const head = text.slice(0, Math.ceil(keepChars * 0.6))
+    const tail = text.slice(text.length - Math.floor(keepChars * 0.4))
+    const candidate = head + TRUNCATION_MARKER + tail
+    if (estimateTokens(candidate) <= maxTokens) return candidate
+    keepChars = Math.floor(keepChars * 0.9)
+  }
+
+  return ""
+}
+
+/**
+ * Fits a conversation into the provider's context window, leaving room for the response.
+ * Oldest non-system turns are dropped first; if the remaining prompt is still too large,
+ * the longest message is truncated in the middle.
+ */
+export function fitMessagesToBudget(messages: AIMessage[], maxPromptTokens: number): AIMessage[] {
+  const total = (list: AIMessage[]) => list.reduce((sum, m) => sum + estimateTokens(m.content), 0)
+  let fitted = [...messages]
+
+  while (total(fitted) > maxPromptTokens) {
+    const lastIndex = fitted.length - 1
+    const droppable = fitted.findIndex((m, i) => m.role !== "system" && i !== lastIndex)
+    if (droppable === -1) break
+    fitted.splice(droppable, 1)
+  }
+
+  const overflow = total(fitted) - maxPromptTokens
+  if (overflow > 0) {
+    const longest = fitted.reduce((best, m, i) =>
+      estimateTokens(m.content) > estimateTokens(fitted[best].content) ? i : best, 0)
+    const budget = Math.max(0, estimateTokens(fitted[longest].content) - overflow)
+    fitted = fitted.map((m, i) => (i === longest ? { ...m, content: truncateToTokens(m.content, budget) } : m))
+  }
+
+  return fitted
+}
+
+// ---------------------------------------------------------------------------
+// Providers
+// ---------------------------------------------------------------------------
+
+/**
+ * Tries each model in order, returning the first non-empty answer.
+ * Rate-limited models are skipped after waiting for their retry-after window.
+ */
+async function tryModels(
+  models: string[],
+  request: (model: string) => Promise<Response>,
+  extractContent: (data: any) => string | undefined
+): Promise<string> {
+  let lastError: Error | null = null
+
+  for (const model of models) {
+    try {
+      const response = await request(model)
+
+      // Handle rate limit with backoff
+      if (response.status === 429) {
+        console.warn(`⚠️ ${model} rate-limited. Waiting...`)
+        const retryAfter = parseInt(response.headers.get("retry-after") || "2")
+        await new Promise((res) => setTimeout(res, retryAfter * 1000))
+        continue
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        lastError = new Error(errorText)
+        continue
+      }
+
+      const content = extractContent(await response.json())
+      if (content) return content
+    } catch (err) {
+      lastError = err instanceof Error ? err : new Error("Unknown error")
+      continue
+    }
+  }
+
+  throw lastError || new Error("All AI models failed")
+}
+
+/**
+ * Streaming counterpart of tryModels: returns the first model response that opened successfully.
+ * Once tokens start flowing there is no fallback, so only the connection is retried.
+ */
+async function openFirstModelStream(
+  models: string[],
+  request: (model: string) => Promise<Response>,
+  signal?: AbortSignal
+): Promise<ReadableStream<Uint8Array>> {
+  let lastError: Error | null = null
+
+  for (const model of models) {
+    try {
+      const response = await request(model)
+
+      if (response.status === 429) {
+        console.warn(`⚠️ ${model} rate-limited. Trying next model...`)
+        continue
+      }
+
+      if (!response.ok || !response.body) {
+        lastError = new Error(await response.text())
+        continue
+      }
+
+      return response.body
+    } catch (err) {
+      // A cancelled request must not fall through to the next model
+      if (signal?.aborted) throw err
+      lastError = err instanceof Error ? err : new Error("Unknown error")
+    }
+  }
+
+  throw lastError || new Error("All AI models failed")
+}
+
+class OpenAICompatibleProvider implements AIProvider {
+  constructor(
+    public name: AIProviderName,
+    public models: string[],
+    public contextTokens: number,
+    private baseUrl: string,
+    private headers: Record<string, string>
+  ) {}
+
+  complete(messages: AIMessage[], options: AICompletionOptions = {}): Promise<string> {
+    return tryModels(
+      this.models,
+      (model) =>
+        fetch(`${this.baseUrl}/chat/completions`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...this.headers },
+          body: JSON.stringify({
+            model,
+            messages,
+            temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+            max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+          }),
+        }),
+      (data) => data?.choices?.[0]?.message?.content
+    )
+  }
+
+  async *stream(messages: AIMessage[], options: AICompletionOptions = {}, signal?: AbortSignal): AsyncGenerator<string> {
+    const body = await openFirstModelStream(
+      this.models,
+      (model) =>
+        fetch(`${this.baseUrl}/chat/completions`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...this.headers },
+          body: JSON.stringify({
+            model,
+            messages,
+            stream: true,
+            temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+            max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+          }),
+          signal,
+        }),
+      signal
+    )
+
+    for await (const { data } of readServerSentEvents(body)) {
+      if (data === "[DONE]") return
+      const delta = JSON.parse(data)?.choices?.[0]?.delta?.content
+      if (delta) yield delta
+    }
+  }
+}
+
+class GeminiProvider implements AIProvider {
+  name: AIProviderName = "gemini"
+
+  constructor(
+    public models: string[],
+    public contextTokens: number,
+    private apiKey: string
+  ) {}
+
+  private buildBody(messages: AIMessage[], options: AICompletionOptions): string {
+    const system = messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n")
+    const contents = messages
+      .filter((m) => m.role !== "system")
+      .map((m) => ({ role: m.role === "assistant" ? "model" : "user", parts: [{ text: m.content }] }))
+
+    return JSON.stringify({
+      ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+      contents,
+      generationConfig: {
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        maxOutputTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      },
+    })
+  }
+
+  private extractText(data: any): string {
+    return data?.candidates?.[0]?.content?.parts?.map((p: { text?: string }) => p.text || "").join("") || ""
+  }
+
+  complete(messages: AIMessage[], options: AICompletionOptions = {}): Promise<string> {
+    return tryModels(
+      this.models,
+      (model) =>
+        fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "x-goog-api-key": this.apiKey },
+          body: this.buildBody(messages, options),
+        }),
+      (data) => this.extractText(data)
+    )
+  }
+
+  async *stream(messages: AIMessage[], options: AICompletionOptions = {}, signal?: AbortSignal): AsyncGenerator<string> {
+    const body = await openFirstModelStream(
+      this.models,
+      (model) =>
+        fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "x-goog-api-key": this.apiKey },
+          body: this.buildBody(messages, options),
+          signal,
+        }),
+      signal
+    )
+
+    for await (const { data } of readServerSentEvents(body)) {
+      const delta = this.extractText(JSON.parse(data))
+      if (delta) yield delta
+    }
+  }
+}
+
+function hashString(text: string): number {
+  let hash = 0
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0
+  }
+  return Math.abs(hash)
+}
+
+/**
+ * Offline provider with deterministic output. Structured prompts embed the JSON shape they
+ * expect, so that template is echoed back; anything else gets a canned markdown answer
+ * keyed on the prompt, letting the route be exercised without network access or API keys.
+ */
+class MockProvider implements AIProvider {
+  name: AIProviderName = "mock"
+  contextTokens = PROVIDER_CONTEXT_TOKENS.mock
+
+  constructor(public models: string[]) {}
+
+  async complete(messages: AIMessage[]): Promise<string> {
+    const prompt = messages.filter((m) => m.role === "user").pop()?.content || ""
+
+    const template = prompt.match(/JSON[^\n]*:\s*\n(\{[\s\S]*\}|\[[\s\S]*\])/)
+    if (template) {
+      try {
+        return JSON.stringify(JSON.parse(template[1]))
+      } catch {
+        // Not a JSON template, fall through to a text answer
+      }
+    }
+
+    const id = hashString(prompt).toString(16).padStart(8, "0")
+    return [
+      `**Mock response** \`${id}\``,
+      "",
+      "- Break the problem into small, demoable steps",
+      "- Ship the core flow first, polish later",
+      "- Keep the pitch focused on the user problem",
+    ].join("\n")
+  }
+
+  // Replays the complete answer word by word so streaming UIs can be exercised offline
+  async *stream(messages: AIMessage[], _options?: AICompletionOptions, signal?: AbortSignal): AsyncGenerator<string> {
+    const text = await this.complete(messages)
+    for (const word of text.match(/\S+\s*/g) || []) {
+      if (signal?.aborted) return
+      await new Promise((res) => setTimeout(res, 20))
+      yield word
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Env-based selection
+// ---------------------------------------------------------------------------
+
+function parseModelList(value: string | undefined): string[] | null {
+  const models = value?.split(",").map((m) => m.trim()).filter(Boolean)
+  return models && models.length > 0 ? models : null
+}
+
+/**
+ * Resolves the configured provider name. AI_PROVIDER wins; otherwise the first provider
+ * with credentials is used, falling back to the mock so local development works keyless.
+ * Production only uses the mock when AI_PROVIDER=mock: canned answers would otherwise be billed
+ * as real ones, so a missing key selects Gemini and fails loudly instead.
+ */
+export function resolveProviderName(env: NodeJS.ProcessEnv = process.env): AIProviderName {
+  const configured = env.AI_PROVIDER?.trim().toLowerCase()
+  if (configured) {
+    if (configured in PROVIDER_MODELS) return configured as AIProviderName
+    console.warn(`Unknown AI_PROVIDER "${configured}", falling back to auto-detection`)
+  }
+
+  if (env.OPENROUTER_API_KEY) return "openrouter"
+  if (env.GEMINI_API_KEY) return "gemini"
+  if (env.AI_BASE_URL) return "openai-compatible"
+  return env.NODE_ENV === "production" ? "gemini" : "mock"
+}
+
+export function createAIProvider(env: NodeJS.ProcessEnv = process.env): AIProvider {
+  const name = resolveProviderName(env)
+  const models = parseModelList(env.AI_MODELS) || PROVIDER_MODELS[name]
+  const contextTokens = parseInt(env.AI_CONTEXT_TOKENS || "") || PROVIDER_CONTEXT_TOKENS[name]
+
+  switch (name) {
+    case "openrouter":
+      return new OpenAICompatibleProvider(name, models, contextTokens, "https://openrouter.ai/api/v1", {
+        Authorization: `Bearer ${env.OPENROUTER_API_KEY}`,
+        "HTTP-Referer": "https://hackmate.vercel.app",
+        "X-Title": "HackMate AI",
+      })
+
+    case "gemini":
+      return new GeminiProvider(models, contextTokens, env.GEMINI_API_KEY || "")
+
+    case "openai-compatible":
+      return new OpenAICompatibleProvider(
+        name,
+        models,
+        contextTokens,
+        (env.AI_BASE_URL || "http://localhost:11434/v1").replace(/\/$/, ""),
+        env.AI_API_KEY ? { Authorization: `Bearer ${env.AI_API_KEY}` } : {}
+      )
+
+    case "mock":
+      return new MockProvider(models)
+  }
+}
+
+let provider: AIProvider | null = null
+
+export function getAIProvider(): AIProvider {
+  if (!provider) provider = createAIProvider()
+  return provider
+}
+
+/** Tokens available for the prompt once room is left for a response of `maxTokens`. */
+export function getPromptBudget(maxTokens: number = DEFAULT_MAX_TOKENS): number {
+  return getAIProvider().contextTokens - maxTokens
+}
+
+/**
+ * Sends a conversation to the configured provider after fitting it into the model's
+ * context window with room left for the response.
+ */
+export async function completeWithBudget(
+  messages: AIMessage[],
+  options: AICompletionOptions = {}
+): Promise<string> {
+  const ai = getAIProvider()
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS
+  const fitted = fitMessagesToBudget(messages, ai.contextTokens - maxTokens)
+  return ai.complete(fitted, { ...options, maxTokens })
+}
+
+export function streamWithBudget(
+  messages: AIMessage[],
+  options: AICompletionOptions = {},
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const ai = getAIProvider()
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS
+  const fitted = fitMessagesToBudget(messages, ai.contextTokens - maxTokens)
+  return ai.stream(fitted, { ...options, maxTokens }, signal)
+}
@@ -0,0 +1,51 @@
+/**
+ * Server-Sent Events helpers for streaming AI responses.
+ * Used server-side to read provider streams and client-side to read /api/gemini/stream.
+ */
+
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+/**
+ * Parses an SSE byte stream into events. Multi-line data fields are joined with newlines,
+ * comments (": keep-alive") are skipped.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      // Events are separated by a blank line
+      const chunks = buffer.split(/\r?\n\r?\n/)
+      buffer = done ? "" : chunks.pop() || ""
+
+      for (const chunk of chunks) {
+        let event = "message"
+        const data: string[] = []
+
+        for (const line of chunk.split(/\r?\n/)) {
+          if (line.startsWith(":")) continue
+          if (line.startsWith("event:")) event = line.slice(6).trim()
+          if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""))
+        }
+
+        if (data.length > 0) yield { event, data: data.join("\n") }
+      }
+
+      if (done) return
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+export function encodeServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
@@ -16,6 +16,7 @@ import {
 import { doc, setDoc, getDoc, updateDoc, serverTimestamp } from "firebase/firestore"
 import { getFirebaseAuth, getFirebaseDb } from "./firebase"
 import { User, UserType, SubscriptionTier, AuthState } from "./types"
+import { SELF_SERVICE_TIERS } from "./subscription-service"
 
 // Legacy interface for backward compatibility
 export interface UserProfile {
@@ -30,6 +31,7 @@ export interface UserProfile {
   github_username?: string
   hours_worked?: number
   tasks_completed?: number
+  wellbeing_opt_out?: boolean
   created_at?: Date
 }
 
@@ -370,7 +372,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       setError(null)
       
-      // Determine default subscription tier based on user type
+      // Determine default subscription tier based on user type; paid tiers are left alone
+      if (!SELF_SERVICE_TIERS.includes(user.subscriptionTier)) {
+        await updateProfile({ userType })
+        return
+      }
+
       let subscriptionTier: SubscriptionTier = 'free'
       if (userType === 'hackathon_team') {
         subscriptionTier = 'hackathon_free'
@@ -392,6 +399,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     try {
       setError(null)
+      // Paid tiers are granted server-side once billing confirms them
+      if (!SELF_SERVICE_TIERS.includes(tier)) {
+        window.location.assign('/pricing')
+        return
+      }
       await updateProfile({ subscriptionTier: tier })
     } catch (err: any) {
       console.error('Upgrade subscription error:', err)
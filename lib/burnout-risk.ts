@@ -0,0 +1,263 @@
+/**
+ * Burnout signals per member from the last day of activity: hours logged, long stretches without a
+ * break, late-night work in the member's own timezone and a share of open work well above the team's.
+ * Members who opted out (ProjectMember.wellbeing_opt_out) are skipped entirely.
+ */
+
+import { EFFORT_HOURS } from "./constants"
+import type { LiveActivity, ProjectMember, Task, TeamAnalytics, TimeEntry } from "./types"
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const LOOKBACK_HOURS = 24
+// Activity with gaps shorter than this counts as one continuous stretch
+const BREAK_MINUTES = 30
+// A single activity or commit stands for this much work around it
+const EVENT_MINUTES = 10
+const LATE_NIGHT_START = 0
+const LATE_NIGHT_END = 5
+
+export type BurnoutRisk = TeamAnalytics["burnout_risk"]
+
+export interface BurnoutCommit {
+  author: string // GitHub login or commit author name
+  date: string | Date
+}
+
+export interface BurnoutSignal {
+  type: "long_hours" | "no_breaks" | "late_night" | "overloaded"
+  severity: "medium" | "high"
+  detail: string
+}
+
+export interface ReassignmentSuggestion {
+  taskId: string
+  title: string
+  fromUserId: string
+  toUserId: string
+  toName: string
+}
+
+export interface MemberBurnoutReport {
+  userId: string
+  name: string
+  risk: BurnoutRisk
+  hoursLast24: number
+  longestStretchHours: number
+  lateNightEvents: number
+  openEffortHours: number
+  signals: BurnoutSignal[]
+  nudge: string | null
+  reassignments: ReassignmentSuggestion[]
+}
+
+export interface BurnoutInput {
+  members: ProjectMember[]
+  tasks: Task[]
+  activities: LiveActivity[]
+  timeEntries: TimeEntry[]
+  commits?: BurnoutCommit[]
+  now?: number
+}
+
+interface Interval {
+  start: number
+  end: number
+}
+
+/** Hour of day (0-23) in the member's timezone, falling back to the viewer's */
+function localHour(at: number, timezone?: string): number {
+  if (timezone) {
+    try {
+      const hour = new Intl.DateTimeFormat("en-US", { hour: "numeric", hourCycle: "h23", timeZone: timezone }).format(at)
+      return parseInt(hour, 10)
+    } catch {
+      // Unknown timezone id
+    }
+  }
+  return new Date(at).getHours()
+}
+
+function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start)
+  const merged: Interval[] = []
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && interval.start - last.end < BREAK_MINUTES * MINUTE) {
+      last.end = Math.max(last.end, interval.end)
+    } else {
+      merged.push({ ...interval })
+    }
+  }
+  return merged
+}
+
+const isCommitBy = (commit: BurnoutCommit, member: ProjectMember) => {
+  const author = commit.author.toLowerCase()
+  return author === member.github_username?.toLowerCase() || author === member.name?.toLowerCase()
+}
+
+export function getOpenEffortHours(tasks: Task[], userId: string): number {
+  return tasks
+    .filter((task) => task.assigned_to === userId && task.status !== "Done")
+    .reduce((sum, task) => sum + EFFORT_HOURS[task.effort], 0)
+}
+
+function getRisk(signals: BurnoutSignal[]): BurnoutRisk {
+  if (signals.some((s) => s.severity === "high") || signals.length >= 3) return "high"
+  return signals.length > 0 ? "medium" : "low"
+}
+
+function buildNudge(name: string, signals: BurnoutSignal[]): string | null {
+  const first = name.split(" ")[0] || "This teammate"
+  if (signals.some((s) => s.type === "no_breaks")) {
+    return `${first} has been going for a long stretch. A short break, some food or a walk could help.`
+  }
+  if (signals.some((s) => s.type === "late_night")) {
+    return `${first} has been working late into the night. Check whether they can get some sleep before the next push.`
+  }
+  if (signals.some((s) => s.type === "long_hours")) {
+    return `${first} has logged a lot of hours today. Consider swapping them onto lighter work for a while.`
+  }
+  if (signals.some((s) => s.type === "overloaded")) {
+    return `${first} is carrying more open work than anyone else. Moving a task or two would spread the load.`
+  }
+  return null
+}
+
+function analyzeMember(member: ProjectMember, input: BurnoutInput, teamAverageEffort: number, now: number) {
+  const since = now - LOOKBACK_HOURS * HOUR
+
+  const entryIntervals = input.timeEntries
+    .filter((entry) => entry.user_id === member.user_id)
+    .map((entry) => ({
+      start: new Date(entry.started_at).getTime(),
+      end: entry.ended_at ? new Date(entry.ended_at).getTime() : now,
+    }))
+    .filter((interval) => interval.end >= since)
+
+  const eventTimes = [
+    ...input.activities
+      .filter((activity) => activity.user_id === member.user_id)
+      .map((activity) => new Date(activity.timestamp).getTime()),
+    ...(input.commits || []).filter((commit) => isCommitBy(commit, member)).map((commit) => new Date(commit.date).getTime()),
+  ].filter((at) => at >= since && at <= now)
+
+  const hoursLast24 =
+    entryIntervals.reduce((sum, interval) => sum + (interval.end - Math.max(interval.start, since)), 0) / HOUR
+
+  const stretches = mergeIntervals([
+    ...entryIntervals,
+    ...eventTimes.map((at) => ({ start: at - EVENT_MINUTES * MINUTE, end: at })),
+  ])
+  const longestStretchHours = stretches.reduce((max, s) => Math.max(max, s.end - s.start), 0) / HOUR
+
+  const lateNightEvents = [...eventTimes, ...entryIntervals.map((interval) => interval.end)].filter((at) => {
+    const hour = localHour(at, member.timezone)
+    return hour >= LATE_NIGHT_START && hour < LATE_NIGHT_END
+  }).length
+
+  const openEffortHours = getOpenEffortHours(input.tasks, member.user_id)
+
+  const signals: BurnoutSignal[] = []
+  if (hoursLast24 >= 9) {
+    signals.push({
+      type: "long_hours",
+      severity: hoursLast24 >= 12 ? "high" : "medium",
+      detail: `${Math.round(hoursLast24)}h logged in the last day`,
+    })
+  }
+  if (longestStretchHours >= 4) {
+    signals.push({
+      type: "no_breaks",
+      severity: longestStretchHours >= 6 ? "high" : "medium",
+      detail: `${longestStretchHours.toFixed(1)}h without a break`,
+    })
+  }
+  if (lateNightEvents >= 3) {
+    signals.push({
+      type: "late_night",
+      severity: lateNightEvents >= 8 ? "high" : "medium",
+      detail: `${lateNightEvents} commits or updates between midnight and 5am`,
+    })
+  }
+  if (teamAverageEffort > 0 && openEffortHours >= 8 && openEffortHours >= teamAverageEffort * 1.75) {
+    signals.push({
+      type: "overloaded",
+      severity: openEffortHours >= teamAverageEffort * 2.5 ? "high" : "medium",
+      detail: `${openEffortHours}h of open work vs a team average of ${Math.round(teamAverageEffort)}h`,
+    })
+  }
+
+  return { hoursLast24, longestStretchHours, lateNightEvents, openEffortHours, signals }
+}
+
+/**
+ * Moves the member's not-yet-started tasks to the least loaded teammates who are not at risk
+ * themselves, preferring someone whose skills match the task's tags.
+ */
+function suggestReassignments(
+  member: ProjectMember,
+  tasks: Task[],
+  candidates: ProjectMember[],
+  load: Map<string, number>
+): ReassignmentSuggestion[] {
+  if (candidates.length === 0) return []
+
+  const movable = tasks
+    .filter((task) => task.assigned_to === member.user_id && task.status === "ToDo")
+    .sort((a, b) => EFFORT_HOURS[b.effort] - EFFORT_HOURS[a.effort])
+
+  const suggestions: ReassignmentSuggestion[] = []
+  for (const task of movable) {
+    const ownLoad = load.get(member.user_id) || 0
+    const tags = (task.tags || []).map((tag) => tag.toLowerCase())
+    const ranked = [...candidates].sort((a, b) => {
+      const skillMatch = (m: ProjectMember) => (m.skills || []).some((skill) => tags.includes(skill.toLowerCase())) ? 0 : 1
+      return skillMatch(a) - skillMatch(b) || (load.get(a.user_id) || 0) - (load.get(b.user_id) || 0)
+    })
+    const target = ranked[0]
+    const targetLoad = load.get(target.user_id) || 0
+    const effort = EFFORT_HOURS[task.effort]
+
+    // Skip tasks that would leave the teammate busier than the member
+    if (targetLoad + effort > ownLoad - effort) continue
+
+    suggestions.push({ taskId: task.task_id, title: task.title, fromUserId: member.user_id, toUserId: target.user_id, toName: target.name })
+    load.set(member.user_id, ownLoad - effort)
+    load.set(target.user_id, targetLoad + effort)
+  }
+  return suggestions
+}
+
+export function analyzeBurnoutRisk(input: BurnoutInput): MemberBurnoutReport[] {
+  const now = input.now ?? Date.now()
+  const tracked = input.members.filter((member) => !member.wellbeing_opt_out)
+  const load = new Map(input.members.map((m) => [m.user_id, getOpenEffortHours(input.tasks, m.user_id)]))
+  const teamAverageEffort =
+    input.members.length > 0 ? Array.from(load.values()).reduce((sum, h) => sum + h, 0) / input.members.length : 0
+
+  const analyses = tracked.map((member) => ({ member, ...analyzeMember(member, input, teamAverageEffort, now) }))
+  const atRisk = new Set(analyses.filter((a) => a.signals.length > 0).map((a) => a.member.user_id))
+  const candidates = input.members.filter((m) => !atRisk.has(m.user_id) && m.availability !== "offline")
+
+  return analyses.map(({ member, signals, ...metrics }) => {
+    const risk = getRisk(signals)
+    return {
+      userId: member.user_id,
+      name: member.name || "Unknown Member",
+      risk,
+      ...metrics,
+      signals,
+      nudge: buildNudge(member.name || "", signals),
+      reassignments: risk === "low" ? [] : suggestReassignments(member, input.tasks, candidates, load),
+    }
+  })
+}
+
+/** Team-level rating for TeamAnalytics.burnout_risk: the worst member, or high when several are at risk */
+export function getTeamBurnoutRisk(reports: MemberBurnoutReport[]): BurnoutRisk {
+  const atRisk = reports.filter((r) => r.risk !== "low")
+  if (atRisk.some((r) => r.risk === "high") || (atRisk.length >= 2 && atRisk.length / reports.length > 0.5)) return "high"
+  return atRisk.length > 0 ? "medium" : "low"
+}
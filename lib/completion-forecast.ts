@@ -0,0 +1,169 @@
+/**
+ * Monte Carlo completion forecast. Each trial burns down the remaining effort by replaying hourly
+ * throughput sampled from the project's own history; the spread of finish times gives the chance
+ * of making the submission deadline. Before anything has been completed there is no throughput to
+ * sample, so trials fall back to the effort estimates with a random overrun, split across the team.
+ */
+
+import { EFFORT_HOURS } from "./constants"
+import { getCompletedAt, getProjectWindow, groupHistory } from "./task-flow"
+import type { Project, Task, TaskStatusTransition } from "./types"
+
+const HOUR = 60 * 60 * 1000
+const DEFAULT_SIMULATIONS = 2000
+// Trials that have not finished after this many multiples of the project window count as never finishing
+const MAX_WINDOW_MULTIPLE = 4
+const HISTOGRAM_BUCKETS = 12
+
+export interface ForecastBucket {
+  label: string
+  time: number
+  probability: number // Share of trials finishing in this bucket, 0-100
+  cumulative: number // Share of trials finished by the end of this bucket, 0-100
+  afterDeadline: boolean
+}
+
+export interface CompletionForecast {
+  deadline: Date
+  onTimeProbability: number // 0-100
+  p50: Date | null // null when fewer than that share of trials finish at all
+  p85: Date | null
+  p95: Date | null
+  remainingEffort: number // Estimated hours left on unfinished tasks
+  basis: "throughput" | "estimate"
+  throughputSamples: number // Hourly samples the throughput trials draw from
+  simulations: number
+  histogram: ForecastBucket[]
+}
+
+export interface ForecastOptions {
+  now?: number
+  simulations?: number
+  teamSize?: number
+  random?: () => number
+}
+
+/** Small seeded PRNG (mulberry32) so the forecast is stable between renders */
+export function seededRandom(seed: string): () => number {
+  let state = 0
+  for (let i = 0; i < seed.length; i++) state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Submission deadline if one is set, otherwise the end of the 24h/48h window */
+export function getForecastDeadline(project: Project): Date {
+  return project.submission_deadline ? new Date(project.submission_deadline) : getProjectWindow(project).end
+}
+
+/** Effort hours completed in each whole hour elapsed since the project started */
+export function getHourlyThroughput(tasks: Task[], history: TaskStatusTransition[], start: number, now: number): number[] {
+  const hours = Math.floor((now - start) / HOUR)
+  if (hours < 1) return []
+
+  const samples = new Array<number>(hours).fill(0)
+  const byTask = groupHistory(history)
+  for (const task of tasks) {
+    const completedAt = getCompletedAt(task, byTask.get(task.task_id) || [])?.getTime()
+    if (completedAt === undefined || completedAt < start) continue
+    const hour = Math.floor((completedAt - start) / HOUR)
+    if (hour < hours) samples[hour] += EFFORT_HOURS[task.effort]
+  }
+  return samples
+}
+
+function percentile(sorted: number[], share: number, trials: number): number | null {
+  const index = Math.ceil(share * trials) - 1
+  return index < sorted.length ? sorted[index] : null
+}
+
+export function forecastCompletion(
+  project: Project,
+  tasks: Task[],
+  history: TaskStatusTransition[],
+  options: ForecastOptions = {}
+): CompletionForecast {
+  const now = options.now ?? Date.now()
+  const simulations = options.simulations ?? DEFAULT_SIMULATIONS
+  const random = options.random ?? seededRandom(project.id)
+  const deadline = getForecastDeadline(project)
+  const window = getProjectWindow(project)
+  const maxHours = ((window.end.getTime() - window.start.getTime()) / HOUR) * MAX_WINDOW_MULTIPLE
+
+  const remainingTasks = tasks.filter((task) => task.status !== "Done")
+  const remainingEffort = remainingTasks.reduce((sum, task) => sum + EFFORT_HOURS[task.effort], 0)
+  const samples = getHourlyThroughput(tasks, history, window.start.getTime(), now)
+  const basis = samples.some((s) => s > 0) ? "throughput" : "estimate"
+  const parallelism = Math.max(1, options.teamSize ?? 1)
+
+  // Hours from now until each finishing trial completes
+  const finishes: number[] = []
+  if (remainingEffort === 0) {
+    for (let i = 0; i < simulations; i++) finishes.push(0)
+  } else {
+    for (let i = 0; i < simulations; i++) {
+      if (basis === "throughput") {
+        let left = remainingEffort
+        let hours = 0
+        while (left > 0 && hours < maxHours) {
+          left -= samples[Math.floor(random() * samples.length)]
+          hours++
+        }
+        if (left <= 0) finishes.push(hours)
+      } else {
+        // Estimates tend to run over: each task takes 0.75x to 2x its estimate
+        const effort = remainingTasks.reduce((sum, task) => sum + EFFORT_HOURS[task.effort] * (0.75 + random() * 1.25), 0)
+        const hours = effort / parallelism
+        if (hours <= maxHours) finishes.push(hours)
+      }
+    }
+  }
+  finishes.sort((a, b) => a - b)
+
+  const hoursToDeadline = (deadline.getTime() - now) / HOUR
+  const onTime = finishes.filter((h) => h <= hoursToDeadline).length
+  const toDate = (hours: number | null) => (hours === null ? null : new Date(now + hours * HOUR))
+
+  return {
+    deadline,
+    onTimeProbability: Math.round((onTime / simulations) * 100),
+    p50: toDate(percentile(finishes, 0.5, simulations)),
+    p85: toDate(percentile(finishes, 0.85, simulations)),
+    p95: toDate(percentile(finishes, 0.95, simulations)),
+    remainingEffort,
+    basis,
+    throughputSamples: samples.length,
+    simulations,
+    histogram: buildHistogram(finishes, simulations, now, deadline.getTime()),
+  }
+}
+
+function buildHistogram(finishes: number[], simulations: number, now: number, deadline: number): ForecastBucket[] {
+  if (finishes.length === 0) return []
+
+  const last = finishes[finishes.length - 1]
+  const size = Math.max(1, Math.ceil(last / HISTOGRAM_BUCKETS))
+  const buckets: ForecastBucket[] = []
+  let finished = 0
+
+  for (let i = 0; i * size <= last; i++) {
+    const from = i * size
+    const to = from + size
+    const count = finishes.filter((h) => (i === 0 ? h >= from : h > from) && h <= to).length
+    finished += count
+    const time = now + to * HOUR
+    buckets.push({
+      label: `+${to}h`,
+      time,
+      probability: Math.round((count / simulations) * 1000) / 10,
+      cumulative: Math.round((finished / simulations) * 1000) / 10,
+      afterDeadline: time > deadline,
+    })
+  }
+  return buckets
+}
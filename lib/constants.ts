@@ -1,18 +1,22 @@
 // Optimized constants extracted outside components to prevent re-creation
-export const STATUS_MAP: Record<string, "ToDo" | "InProgress" | "Done"> = {
+export const STATUS_MAP: Record<string, "ToDo" | "InProgress" | "Blocked" | "Done"> = {
   "todo-column": "ToDo",
   "inprogress-column": "InProgress", 
+  "blocked-column": "Blocked",
   "done-column": "Done"
 }
 
-export const COLUMN_MAP: Record<"ToDo" | "InProgress" | "Done", string> = {
+export const COLUMN_MAP: Record<"ToDo" | "InProgress" | "Blocked" | "Done", string> = {
   "ToDo": "todo-column",
   "InProgress": "inprogress-column",
+  "Blocked": "blocked-column",
   "Done": "done-column"
 }
 
 export const TASK_PRIORITIES = ["Low", "Medium", "High", "Critical"] as const
 export const TASK_EFFORTS = ["Low", "Medium", "High"] as const
+// Hour estimates per effort level, used for scheduling (critical path, forecasts)
+export const EFFORT_HOURS: Record<(typeof TASK_EFFORTS)[number], number> = { Low: 2, Medium: 4, High: 8 }
 export const USER_ROLES = ["lead", "developer", "designer", "researcher"] as const
 export const AVAILABILITY_OPTIONS = ["available", "busy", "offline"] as const
 
@@ -80,6 +84,9 @@ export const AI_CREDIT_COSTS = {
   mentor_message: 2,
   feature_suggestion: 8,
   task_regeneration: 3,
+  docs_generation: 8,
+  checklist_generation: 2,
+  history_summary: 1, // Summarizing older mentor chat turns, added to that message's charge
 } as const;
 
 // Invitation expiry duration (7 days)
@@ -0,0 +1,220 @@
+/**
+ * Documentation generator section schema
+ * Shared by the AI route (prompting + validation) and the docs generator page (rendering)
+ */
+
+import type { ApiEndpointDoc, DocSection, DocSectionId, SetupStep } from "./types"
+
+export interface DocsInput {
+  projectName: string
+  techStack: string
+  description: string
+  features: string[]
+  context?: string
+}
+
+interface DocSectionSpec {
+  title: string
+  instructions: string
+  template: string
+}
+
+export const DOC_SECTION_SPECS: Record<DocSectionId, DocSectionSpec> = {
+  overview: {
+    title: "Overview",
+    instructions:
+      "Write the README introduction: the problem, the solution and who it is for. 2-3 short paragraphs of Markdown.",
+    template: `{
+  "markdown": "Markdown paragraphs"
+}`,
+  },
+  features: {
+    title: "Features",
+    instructions:
+      "Describe each key feature as a Markdown bullet with a bold name followed by one sentence on what it does for the user.",
+    template: `{
+  "markdown": "- **Feature**: what it does"
+}`,
+  },
+  setup: {
+    title: "Getting Started",
+    instructions:
+      "List prerequisites in Markdown, then give ordered setup steps for this tech stack. Include a shell command where one applies.",
+    template: `{
+  "markdown": "Prerequisites as Markdown bullets",
+  "steps": [
+    {"title": "Install dependencies", "command": "npm install"},
+    {"title": "Configure environment variables"}
+  ]
+}`,
+  },
+  api: {
+    title: "API Reference",
+    instructions:
+      "Document the HTTP endpoints this project exposes or would need. Infer them from the features and context.",
+    template: `{
+  "markdown": "One paragraph on authentication and base URL",
+  "endpoints": [
+    {"method": "GET", "path": "/api/resource", "description": "What it returns"}
+  ]
+}`,
+  },
+  architecture: {
+    title: "Architecture",
+    instructions:
+      "Explain the main components and how data flows between them, then provide a Mermaid flowchart of the architecture. Use only 'graph TD' syntax with simple alphanumeric node ids.",
+    template: `{
+  "markdown": "Markdown explanation of components",
+  "diagram": "graph TD\\n  Client[Web Client] --> API[API Server]\\n  API --> DB[(Database)]"
+}`,
+  },
+}
+
+export const DOC_SECTION_ORDER: DocSectionId[] = ["overview", "features", "setup", "api", "architecture"]
+
+export function isDocSectionId(value: unknown): value is DocSectionId {
+  return typeof value === "string" && value in DOC_SECTION_SPECS
+}
+
+export function buildDocSectionPrompt(id: DocSectionId, input: DocsInput): string {
+  const spec = DOC_SECTION_SPECS[id]
+  return `You are a technical writer documenting a hackathon project. Write the "${spec.title}" section and return ONLY valid JSON.
+
+Project: ${input.projectName}
+Tech Stack: ${input.techStack}
+Description: ${input.description}
+Features: ${input.features.join(", ") || "Not specified"}
+${input.context ? `\nAdditional Context:\n${input.context}\n` : ""}
+${spec.instructions}
+
+Return this EXACT JSON structure with NO extra text:
+${spec.template}`
+}
+
+/**
+ * Coerces an AI response into a valid section, dropping malformed rows.
+ * Throws when nothing usable is left so the caller can fall back.
+ */
+export function normalizeDocSection(id: DocSectionId, raw: any): DocSection {
+  const section: DocSection = {
+    id,
+    title: DOC_SECTION_SPECS[id].title,
+    markdown: typeof raw?.markdown === "string" ? raw.markdown.trim() : "",
+  }
+
+  if (id === "setup" && Array.isArray(raw?.steps)) {
+    section.steps = raw.steps
+      .filter((step: any) => typeof step?.title === "string" && step.title.trim())
+      .map((step: any): SetupStep => ({
+        title: step.title.trim(),
+        ...(typeof step.command === "string" && step.command.trim() ? { command: step.command.trim() } : {}),
+      }))
+  }
+
+  if (id === "api" && Array.isArray(raw?.endpoints)) {
+    section.endpoints = raw.endpoints
+      .filter((endpoint: any) => typeof endpoint?.path === "string" && endpoint.path.trim())
+      .map((endpoint: any): ApiEndpointDoc => ({
+        method: String(endpoint.method || "GET").toUpperCase(),
+        path: endpoint.path.trim(),
+        description: String(endpoint.description || ""),
+      }))
+  }
+
+  if (id === "architecture" && typeof raw?.diagram === "string") {
+    // Models often wrap the diagram in a fenced block despite instructions
+    section.diagram = raw.diagram.replace(/```(mermaid)?/g, "").trim()
+  }
+
+  if (!section.markdown && !section.steps?.length && !section.endpoints?.length && !section.diagram) {
+    throw new Error(`Empty ${id} section`)
+  }
+
+  return section
+}
+
+/**
+ * Deterministic section built from the form input when the AI fails
+ */
+export function getFallbackDocSection(id: DocSectionId, input: DocsInput): DocSection {
+  const title = DOC_SECTION_SPECS[id].title
+
+  switch (id) {
+    case "overview":
+      return { id, title, markdown: `**${input.projectName}** — ${input.description}` }
+    case "features":
+      return {
+        id,
+        title,
+        markdown: input.features.length
+          ? input.features.map((f) => `- ${f.replace(/^[-*]\s*/, "")}`).join("\n")
+          : "- Core functionality",
+      }
+    case "setup":
+      return {
+        id,
+        title,
+        markdown: `Built with ${input.techStack}.`,
+        steps: [
+          { title: "Clone the repository", command: "git clone <repository-url>" },
+          { title: "Install dependencies", command: "npm install" },
+          { title: "Configure environment variables in `.env.local`" },
+          { title: "Start the development server", command: "npm run dev" },
+        ],
+      }
+    case "api":
+      return { id, title, markdown: "API documentation is not available yet.", endpoints: [] }
+    case "architecture": {
+      const layers = input.techStack.split(",").map((t) => t.trim()).filter(Boolean)
+      const diagram = ["graph TD", "  User[User]"]
+      let previous = "User"
+      layers.forEach((layer, i) => {
+        const node = `L${i}`
+        diagram.push(`  ${previous} --> ${node}["${layer.replace(/"/g, "'")}"]`)
+        previous = node
+      })
+      return { id, title, markdown: `${input.projectName} is built with ${input.techStack}.`, diagram: diagram.join("\n") }
+    }
+  }
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ")
+}
+
+export function renderDocSection(section: DocSection): string {
+  const parts = [`## ${section.title}`]
+
+  if (section.markdown) parts.push(section.markdown)
+
+  if (section.steps?.length) {
+    parts.push(
+      section.steps
+        .map((step, i) => {
+          const line = `${i + 1}. **${step.title}**`
+          return step.command ? `${line}\n   \`\`\`bash\n   ${step.command}\n   \`\`\`` : line
+        })
+        .join("\n")
+    )
+  }
+
+  if (section.endpoints?.length) {
+    parts.push(
+      [
+        "| Method | Endpoint | Description |",
+        "| --- | --- | --- |",
+        ...section.endpoints.map(
+          (e) => `| \`${e.method}\` | \`${escapeTableCell(e.path)}\` | ${escapeTableCell(e.description)} |`
+        ),
+      ].join("\n")
+    )
+  }
+
+  if (section.diagram) parts.push("```mermaid\n" + section.diagram + "\n```")
+
+  return parts.join("\n\n")
+}
+
+export function renderDocs(projectName: string, sections: DocSection[]): string {
+  return [`# ${projectName}`, ...sections.map(renderDocSection)].join("\n\n")
+}
@@ -3,6 +3,22 @@
  * Helps debug environment variable issues
  */
 
+import { resolveProviderName } from "./ai-provider"
+
+// Only the selected AI provider needs credentials; the mock provider needs none
+function getAIProviderEnvVars(): Record<string, string | undefined> {
+  switch (resolveProviderName()) {
+    case "openrouter":
+      return { OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY }
+    case "gemini":
+      return { GEMINI_API_KEY: process.env.GEMINI_API_KEY }
+    case "openai-compatible":
+      return { AI_BASE_URL: process.env.AI_BASE_URL }
+    default:
+      return {}
+  }
+}
+
 export function validateEnvironment() {
   const requiredEnvVars = {
     // Firebase config
@@ -13,8 +29,8 @@ export function validateEnvironment() {
     NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
     NEXT_PUBLIC_FIREBASE_APP_ID: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
     
-    // OpenRouter API
-    OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY,
+    // AI provider credentials (see lib/ai-provider.ts)
+    ...getAIProviderEnvVars(),
   }
 
   const missing: string[] = []
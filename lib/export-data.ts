@@ -0,0 +1,120 @@
+import { getAdminDb } from "./firebase-admin"
+import { calculateProjectAnalytics, type ExportOptions, type ProjectExportData } from "./export-service"
+import type { ChatMessage, CustomBranding, Milestone, Project, ProjectMember, SharedResource, Task } from "./types"
+
+/**
+ * Server-side loading of a project for export, with the Admin SDK.
+ * Mirrors the shapes the client subscriptions produce so ExportService renders the same output.
+ */
+
+export class ExportAccessError extends Error {
+  constructor(message = "You do not have access to this project") {
+    super(message)
+    this.name = "ExportAccessError"
+  }
+}
+
+export class ExportNotFoundError extends Error {
+  constructor(message = "Project not found") {
+    super(message)
+    this.name = "ExportNotFoundError"
+  }
+}
+
+const toDate = (value: any): Date | undefined => value?.toDate?.() || (value instanceof Date ? value : undefined)
+
+/**
+ * Loads the project and checks the user may export it: the creator or a member
+ */
+export async function getExportableProject(projectId: string, userId: string): Promise<Project> {
+  const projectSnap = await getAdminDb().collection("projects").doc(projectId).get()
+  if (!projectSnap.exists) throw new ExportNotFoundError()
+
+  const data = projectSnap.data()!
+  if (data.created_by !== userId && !(data.members || []).includes(userId)) {
+    throw new ExportAccessError()
+  }
+
+  return {
+    ...data,
+    id: projectSnap.id,
+    createdAt: toDate(data.created_at) || new Date(),
+    submission_deadline: toDate(data.submission_deadline),
+  } as Project
+}
+
+export async function loadProjectExportData(
+  projectId: string,
+  userId: string,
+  options: ExportOptions
+): Promise<ProjectExportData> {
+  const db = getAdminDb()
+  const project = await getExportableProject(projectId, userId)
+
+  const tasksSnap = await db.collection("tasks").where("project_id", "==", projectId).get()
+  const tasks = tasksSnap.docs.map((doc) => {
+    const task = doc.data()
+    return {
+      ...task,
+      task_id: doc.id,
+      last_updated: toDate(task.last_updated) || new Date(),
+      created_at: toDate(task.created_at),
+      due_date: toDate(task.due_date),
+      checklist: task.checklist?.map((item: any) => ({ ...item, completed_at: toDate(item.completed_at) || null })),
+    } as Task
+  })
+
+  const memberIds: string[] = project.members || []
+  const memberSnaps = memberIds.length > 0
+    ? await db.getAll(...memberIds.map((id) => db.collection("users").doc(id)))
+    : []
+  const members = memberSnaps.filter((snap) => snap.exists).map((snap) => snap.data() as ProjectMember)
+
+  let messages: ChatMessage[] | undefined
+  if (options.includeChat) {
+    const messagesSnap = await db.collection("messages").where("project_id", "==", projectId).get()
+    messages = messagesSnap.docs
+      .map((doc) => ({ ...doc.data(), message_id: doc.id, timestamp: toDate(doc.get("timestamp")) || new Date() }) as ChatMessage)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+  }
+
+  let milestones: Milestone[] | undefined
+  // Only the README and the JSON snapshot use milestones; resources are part of the snapshot
+  if (options.format === "markdown" || options.format === "json") {
+    const milestonesSnap = await db.collection("milestones").where("project_id", "==", projectId).get()
+    milestones = milestonesSnap.docs
+      .map((doc) => {
+        const milestone = doc.data()
+        return {
+          ...milestone,
+          deadline: toDate(milestone.deadline) || new Date(),
+          created_at: toDate(milestone.created_at) || new Date(),
+        } as Milestone
+      })
+      .sort((a, b) => a.deadline.getTime() - b.deadline.getTime())
+  }
+
+  let resources: SharedResource[] | undefined
+  if (options.format === "json") {
+    const resourcesSnap = await db.collection("shared_resources").where("project_id", "==", projectId).get()
+    resources = resourcesSnap.docs.map(
+      (doc) => ({ ...doc.data(), created_at: toDate(doc.get("created_at")) || new Date() }) as SharedResource
+    )
+  }
+
+  // Decks pick up the branding of the hackathon the team is competing in
+  const hackathonId = project.hackathonId || project.hackathon_event
+  const hackathonSnap = hackathonId ? await db.collection("hackathons").doc(hackathonId).get() : null
+  const branding: CustomBranding | undefined = hackathonSnap?.get("settings.customBranding") || undefined
+
+  return {
+    project,
+    tasks,
+    members,
+    messages,
+    milestones,
+    resources,
+    branding,
+    analytics: options.includeAnalytics ? calculateProjectAnalytics(project, tasks) : undefined,
+  }
+}
@@ -0,0 +1,120 @@
+import { collection, limit, onSnapshot, orderBy, query, where } from "firebase/firestore"
+import { getFirebaseDb } from "./firebase"
+import { getAIRequestHeaders } from "./ai-client"
+import type { ExportJob, ExportJobType } from "./types"
+
+/**
+ * Client side of the background export queue: requests go through the /api/exports routes,
+ * progress is read live from export_jobs.
+ */
+
+function getDb() {
+  const db = getFirebaseDb()
+  if (!db) throw new Error("Database not available")
+  return db
+}
+
+const toDate = (value: any): Date | null => value?.toDate?.() || null
+
+async function postExportRequest(url: string, body?: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: await getAIRequestHeaders(),
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) throw new Error(result.error || `Export request failed with status ${response.status}`)
+  return result
+}
+
+export async function requestExport(
+  projectId: string,
+  type: ExportJobType,
+  options: ExportJob["options"] = {}
+): Promise<string> {
+  const { jobId } = await postExportRequest("/api/exports", { projectId, type, options })
+  return jobId
+}
+
+export async function cancelExportJob(jobId: string): Promise<void> {
+  await postExportRequest(`/api/exports/${jobId}`, { action: "cancel" })
+}
+
+// Retrying queues a new job and returns its id; the original stays in the history
+export async function retryExportJob(jobId: string): Promise<string> {
+  const { jobId: retryJobId } = await postExportRequest(`/api/exports/${jobId}`, { action: "retry" })
+  return retryJobId
+}
+
+// Runs the caller's queued jobs whose retry backoff has passed
+export async function runDueExportJobs(): Promise<void> {
+  await postExportRequest("/api/exports/worker")
+}
+
+// The download route needs the ID token, so the file is fetched and saved rather than linked
+export async function downloadExportJob(job: ExportJob): Promise<void> {
+  if (!job.result) throw new Error("This export has no file")
+
+  const { Authorization } = await getAIRequestHeaders()
+  const response = await fetch(job.result.url, { headers: Authorization ? { Authorization } : {} })
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}))
+    throw new Error(result.error || "Download failed")
+  }
+
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement("a")
+  link.href = url
+  link.download = job.result.filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+export function subscribeToExportJobs(
+  userId: string,
+  projectId: string,
+  callback: (jobs: ExportJob[]) => void,
+  maxResults = 20
+) {
+  try {
+    const db = getDb()
+    const q = query(
+      collection(db, "export_jobs"),
+      where("userId", "==", userId),
+      where("projectId", "==", projectId),
+      orderBy("createdAt", "desc"),
+      limit(maxResults)
+    )
+
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        callback(
+          snapshot.docs.map((doc) => {
+            const data = doc.data()
+            return {
+              ...data,
+              id: doc.id,
+              createdAt: toDate(data.createdAt) || new Date(),
+              startedAt: toDate(data.startedAt),
+              completedAt: toDate(data.completedAt),
+              nextAttemptAt: toDate(data.nextAttemptAt),
+              leaseExpiresAt: toDate(data.leaseExpiresAt),
+              result: data.result ? { ...data.result, expiresAt: toDate(data.result.expiresAt) || new Date() } : null,
+            } as ExportJob
+          })
+        )
+      },
+      (error) => {
+        console.error("Error subscribing to export jobs:", error)
+        callback([])
+      }
+    )
+  } catch (error) {
+    console.error("Error setting up export jobs subscription:", error)
+    callback([])
+    return () => {}
+  }
+}
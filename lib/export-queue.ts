@@ -1,346 +1,348 @@
-import { Project, Task, ProjectMember, ChatMessage } from './types';
-import { ExportService } from './export-service';
-
-export interface ExportJob {
-  id: string;
-  userId: string;
-  projectId: string;
-  type: 'pdf' | 'json' | 'csv' | 'pitch_deck' | 'html';
-  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
-  priority: 'low' | 'normal' | 'high' | 'urgent';
-  progress: number;
-  createdAt: Date;
-  startedAt?: Date;
-  completedAt?: Date;
-  error?: string;
-  result?: {
-    url: string;
-    filename: string;
-    size: number;
-    expiresAt: Date;
-  };
-  options: {
-    includeAnalytics?: boolean;
-    includeTasks?: boolean;
-    includeMessages?: boolean;
-    customBranding?: boolean;
-    format?: string;
-  };
+import { Timestamp, type DocumentReference, type DocumentSnapshot } from 'firebase-admin/firestore';
+import { getAdminBucket, getAdminDb } from './firebase-admin';
+import { getUserBillingTier } from './ai-credits';
+import { exportService, type ExportOptions } from './export-service';
+import { ExportAccessError, ExportNotFoundError, getExportableProject, loadProjectExportData } from './export-data';
+import { PPTX_CONTENT_TYPE } from './pptx-deck';
+import type { ExportJob, ExportJobType } from './types';
+
+/**
+ * Server-side export queue backed by the `export_jobs` collection.
+ * The export API routes add jobs and run the worker after responding; a scheduled call to the worker
+ * route picks up retries and jobs left behind by a worker that died. Finished files are stored in
+ * Cloud Storage under `exports/` and deleted once `result.expiresAt` passes.
+ * Server-only: uses the Admin SDK. Browsers read job progress from Firestore through lib/export-jobs.
+ */
+
+const JOBS_COLLECTION = 'export_jobs';
+
+const ARTIFACT_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 30 * 1000; // Doubles after each failed attempt
+const LEASE_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 20;
+
+const PRIORITY_ORDER: Record<ExportJob['priority'], number> = { urgent: 4, high: 3, normal: 2, low: 1 };
+
+const CONTENT_TYPES: Record<ExportJobType, { contentType: string; extension: string; suffix: string }> = {
+  pdf: { contentType: 'application/pdf', extension: 'pdf', suffix: 'report' },
+  json: { contentType: 'application/json', extension: 'json', suffix: 'data' },
+  csv: { contentType: 'text/csv', extension: 'csv', suffix: 'tasks' },
+  markdown: { contentType: 'text/markdown', extension: 'md', suffix: 'README' },
+  pitch_deck: { contentType: PPTX_CONTENT_TYPE, extension: 'pptx', suffix: 'pitch_deck' },
+};
+
+// Markdown exports with includeStaticSite are a zip of the README and the site
+const SITE_ARCHIVE = { contentType: 'application/zip', extension: 'zip', suffix: 'site' };
+
+export class ExportLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportLimitError';
+  }
 }
 
-export interface QueueStats {
-  total: number;
-  queued: number;
-  processing: number;
-  completed: number;
-  failed: number;
-  averageProcessingTime: number;
-  queueWaitTime: number;
+export class ExportJobNotFoundError extends Error {
+  constructor(message = 'Export not found') {
+    super(message);
+    this.name = 'ExportJobNotFoundError';
+  }
+}
+
+// Failures that a retry cannot fix
+class PermanentExportError extends Error {}
+
+const toDate = (value: any): Date | null => value?.toDate?.() || null;
+
+function fromSnapshot(snapshot: DocumentSnapshot): ExportJob {
+  const data = snapshot.data()!;
+  return {
+    ...data,
+    id: snapshot.id,
+    createdAt: toDate(data.createdAt) || new Date(),
+    startedAt: toDate(data.startedAt),
+    completedAt: toDate(data.completedAt),
+    nextAttemptAt: toDate(data.nextAttemptAt),
+    leaseExpiresAt: toDate(data.leaseExpiresAt),
+    result: data.result ? { ...data.result, expiresAt: toDate(data.result.expiresAt) || new Date() } : null,
+  } as ExportJob;
 }
 
 export class ExportQueue {
-  private static jobs: Map<string, ExportJob> = new Map();
-  private static processing: Set<string> = new Set();
-  private static maxConcurrent = 3;
-  private static processingInterval: NodeJS.Timeout | null = null;
-
-  // Initialize the export queue
-  static initialize() {
-    if (!this.processingInterval) {
-      this.processingInterval = setInterval(() => {
-        this.processQueue();
-      }, 1000);
-    }
+  private static jobs() {
+    return getAdminDb().collection(JOBS_COLLECTION);
   }
 
   // Add export job to queue
   static async addJob(
     userId: string,
     projectId: string,
-    type: ExportJob['type'],
-    options: ExportJob['options'] = {},
-    priority: ExportJob['priority'] = 'normal'
+    type: ExportJobType,
+    options: ExportJob['options'] = {}
   ): Promise<string> {
-    const jobId = `export_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    const job: ExportJob = {
-      id: jobId,
+    await getExportableProject(projectId, userId);
+
+    const limits = this.getExportLimits(await getUserBillingTier(userId));
+    if (!limits.allowedFormats.includes(type)) {
+      throw new ExportLimitError(`Your plan does not include ${type.replace('_', ' ')} exports`);
+    }
+
+    if (limits.maxDaily !== -1) {
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const todayJobs = await this.jobs()
+        .where('userId', '==', userId)
+        .where('createdAt', '>=', Timestamp.fromDate(today))
+        .count()
+        .get();
+      if (todayJobs.data().count >= limits.maxDaily) {
+        throw new ExportLimitError(`Daily export limit reached (${limits.maxDaily})`);
+      }
+    }
+
+    const jobRef = this.jobs().doc();
+    const now = Timestamp.now();
+    await jobRef.set({
       userId,
       projectId,
       type,
       status: 'queued',
-      priority,
+      priority: limits.priority,
       progress: 0,
-      createdAt: new Date(),
-      options
-    };
-
-    this.jobs.set(jobId, job);
-    
-    // Start processing if not already running
-    this.initialize();
-    
-    return jobId;
+      attempts: 0,
+      createdAt: now,
+      nextAttemptAt: now,
+      error: null,
+      result: null,
+      options,
+    });
+
+    return jobRef.id;
   }
 
-  // Process the export queue
-  private static async processQueue() {
-    // Get queued jobs sorted by priority and creation time
-    const queuedJobs = Array.from(this.jobs.values())
-      .filter(job => job.status === 'queued')
-      .sort((a, b) => {
-        // Priority order: urgent > high > normal > low
-        const priorityOrder = { urgent: 4, high: 3, normal: 2, low: 1 };
-        const priorityDiff = priorityOrder[b.priority] - priorityOrder[a.priority];
-        
-        if (priorityDiff !== 0) return priorityDiff;
-        
-        // If same priority, process older jobs first
-        return a.createdAt.getTime() - b.createdAt.getTime();
-      });
+  /**
+   * Runs queued jobs that are due, highest priority first, one at a time.
+   * Jobs beyond a user's concurrency limit stay queued for a later run.
+   * Returns the number of jobs processed.
+   */
+  static async processQueue(options: { userId?: string; maxJobs?: number } = {}): Promise<number> {
+    await this.requeueAbandonedJobs();
+
+    let query = this.jobs()
+      .where('status', '==', 'queued')
+      .where('nextAttemptAt', '<=', Timestamp.now());
+    if (options.userId) query = query.where('userId', '==', options.userId);
+
+    const snapshot = await query.orderBy('nextAttemptAt').limit(BATCH_SIZE).get();
+    const due = snapshot.docs.map(fromSnapshot).sort((a, b) => {
+      const priorityDiff = PRIORITY_ORDER[b.priority] - PRIORITY_ORDER[a.priority];
+      if (priorityDiff !== 0) return priorityDiff;
+      return a.createdAt.getTime() - b.createdAt.getTime();
+    });
+
+    let processed = 0;
+    for (const job of due) {
+      if (options.maxJobs && processed >= options.maxJobs) break;
+      if (!(await this.claimJob(job))) continue;
+      await this.processJob(job.id);
+      processed++;
+    }
+    return processed;
+  }
 
-    // Process jobs up to max concurrent limit
-    const availableSlots = this.maxConcurrent - this.processing.size;
-    const jobsToProcess = queuedJobs.slice(0, availableSlots);
+  // Moves a job to processing unless another worker took it or the user is at their concurrency limit
+  private static async claimJob(job: ExportJob): Promise<boolean> {
+    const db = getAdminDb();
+    const jobRef = this.jobs().doc(job.id);
+    const { maxConcurrent } = this.getExportLimits(await getUserBillingTier(job.userId));
 
-    for (const job of jobsToProcess) {
-      this.processJob(job.id);
-    }
+    return db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(jobRef);
+      if (snapshot.get('status') !== 'queued') return false;
+
+      const running = await transaction.get(
+        this.jobs().where('userId', '==', job.userId).where('status', '==', 'processing')
+      );
+      if (running.size >= maxConcurrent) return false;
+
+      transaction.update(jobRef, {
+        status: 'processing',
+        progress: 5,
+        attempts: (snapshot.get('attempts') || 0) + 1,
+        startedAt: Timestamp.now(),
+        leaseExpiresAt: Timestamp.fromMillis(Date.now() + LEASE_MS),
+        error: null,
+      });
+      return true;
+    });
   }
 
   // Process individual export job
   private static async processJob(jobId: string) {
-    const job = this.jobs.get(jobId);
-    if (!job || job.status !== 'queued') return;
-
-    this.processing.add(jobId);
-    
-    // Update job status
-    job.status = 'processing';
-    job.startedAt = new Date();
-    job.progress = 0;
-    this.jobs.set(jobId, job);
+    const jobRef = this.jobs().doc(jobId);
+    const job = fromSnapshot(await jobRef.get());
 
     try {
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        const currentJob = this.jobs.get(jobId);
-        if (currentJob && currentJob.status === 'processing') {
-          currentJob.progress = Math.min(currentJob.progress + Math.random() * 20, 90);
-          this.jobs.set(jobId, currentJob);
-        } else {
-          clearInterval(progressInterval);
-        }
-      }, 500);
-
-      // Process the export based on type
-      let result;
-      
-      switch (job.type) {
-        case 'pdf':
-          result = await this.processPDFExport(job);
-          break;
-        case 'json':
-          result = await this.processJSONExport(job);
-          break;
-        case 'csv':
-          result = await this.processCSVExport(job);
-          break;
-        case 'pitch_deck':
-          result = await this.processPitchDeckExport(job);
-          break;
-        case 'html':
-          result = await this.processHTMLExport(job);
-          break;
-        default:
-          throw new Error(`Unsupported export type: ${job.type}`);
+      const format = job.type === 'pitch_deck' ? 'pdf' : job.type;
+      const exportOptions: ExportOptions = { ...job.options, format };
+
+      const data = await loadProjectExportData(job.projectId, job.userId, exportOptions);
+      await jobRef.update({ progress: 30 });
+
+      const blob = job.type === 'pitch_deck'
+        ? await exportService.generatePitchDeck(data)
+        : await exportService.exportProject(data, exportOptions);
+      const bytes = Buffer.from(await blob.arrayBuffer());
+
+      const limits = this.getExportLimits(await getUserBillingTier(job.userId));
+      if (bytes.length > limits.maxFileSize) {
+        throw new PermanentExportError(`Export is larger than your plan allows (${Math.round(limits.maxFileSize / 1024 / 1024)}MB)`);
       }
 
-      clearInterval(progressInterval);
+      // The user may have cancelled while the file was being generated
+      if ((await jobRef.get()).get('status') !== 'processing') return;
+      await jobRef.update({ progress: 70 });
+
+      const { contentType, extension, suffix } =
+        job.type === 'markdown' && job.options.includeStaticSite ? SITE_ARCHIVE : CONTENT_TYPES[job.type];
+      const safeName = data.project.name.replace(/[^a-zA-Z0-9]/g, '_');
+      const filename = `${safeName}_${suffix}.${extension}`;
+      const storagePath = `exports/${job.userId}/${job.id}/${filename}`;
+      const expiresAt = new Date(Date.now() + ARTIFACT_TTL_MS);
 
-      // Complete the job
-      job.status = 'completed';
-      job.progress = 100;
-      job.completedAt = new Date();
-      job.result = result;
-      
+      await getAdminBucket().file(storagePath).save(bytes, {
+        contentType,
+        metadata: { metadata: { jobId: job.id, expiresAt: expiresAt.toISOString() } },
+      });
+
+      const completed = await getAdminDb().runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(jobRef);
+        if (snapshot.get('status') !== 'processing') return false;
+        transaction.update(jobRef, {
+          status: 'completed',
+          progress: 100,
+          completedAt: Timestamp.now(),
+          leaseExpiresAt: null,
+          result: {
+            url: `/api/exports/${job.id}/download`,
+            filename,
+            contentType,
+            size: bytes.length,
+            expiresAt: Timestamp.fromDate(expiresAt),
+            storagePath,
+          },
+        });
+        return true;
+      });
+
+      if (!completed) await this.deleteArtifact(storagePath);
     } catch (error: any) {
-      job.status = 'failed';
-      job.error = error.message;
-      job.completedAt = new Date();
-    } finally {
-      this.processing.delete(jobId);
-      this.jobs.set(jobId, job);
+      console.error(`Export job ${jobId} failed:`, error);
+      await this.failJob(jobRef, error);
     }
   }
 
-  // Process PDF export
-  private static async processPDFExport(job: ExportJob): Promise<ExportJob['result']> {
-    // Simulate processing time
-    await this.delay(2000 + Math.random() * 3000);
-    
-    const filename = `${job.projectId}_report_${Date.now()}.pdf`;
-    const url = `/api/exports/${job.id}/download`;
-    
-    return {
-      url,
-      filename,
-      size: Math.floor(Math.random() * 5000000) + 1000000, // 1-5MB
-      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000) // 24 hours
-    };
-  }
+  // Requeues with exponential backoff until the attempts run out
+  private static async failJob(jobRef: DocumentReference, error: any) {
+    const permanent =
+      error instanceof PermanentExportError || error instanceof ExportAccessError || error instanceof ExportNotFoundError;
+
+    await getAdminDb().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(jobRef);
+      if (snapshot.get('status') !== 'processing') return;
+
+      const attempts: number = snapshot.get('attempts') || 1;
+      const message = error?.message || 'Export failed';
+
+      if (permanent || attempts >= MAX_ATTEMPTS) {
+        transaction.update(jobRef, {
+          status: 'failed',
+          error: message,
+          completedAt: Timestamp.now(),
+          leaseExpiresAt: null,
+        });
+        return;
+      }
 
-  // Process JSON export
-  private static async processJSONExport(job: ExportJob): Promise<ExportJob['result']> {
-    await this.delay(1000 + Math.random() * 2000);
-    
-    const filename = `${job.projectId}_data_${Date.now()}.json`;
-    const url = `/api/exports/${job.id}/download`;
-    
-    return {
-      url,
-      filename,
-      size: Math.floor(Math.random() * 1000000) + 100000, // 100KB-1MB
-      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
-    };
+      transaction.update(jobRef, {
+        status: 'queued',
+        progress: 0,
+        error: message,
+        leaseExpiresAt: null,
+        nextAttemptAt: Timestamp.fromMillis(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)),
+      });
+    });
   }
 
-  // Process CSV export
-  private static async processCSVExport(job: ExportJob): Promise<ExportJob['result']> {
-    await this.delay(500 + Math.random() * 1500);
-    
-    const filename = `${job.projectId}_tasks_${Date.now()}.csv`;
-    const url = `/api/exports/${job.id}/download`;
-    
-    return {
-      url,
-      filename,
-      size: Math.floor(Math.random() * 500000) + 50000, // 50KB-500KB
-      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
-    };
-  }
+  // Processing jobs whose lease ran out belong to a worker that stopped mid-export
+  private static async requeueAbandonedJobs() {
+    const stale = await this.jobs()
+      .where('status', '==', 'processing')
+      .where('leaseExpiresAt', '<=', Timestamp.now())
+      .limit(BATCH_SIZE)
+      .get();
 
-  // Process pitch deck export
-  private static async processPitchDeckExport(job: ExportJob): Promise<ExportJob['result']> {
-    await this.delay(3000 + Math.random() * 5000);
-    
-    const filename = `${job.projectId}_pitch_${Date.now()}.pptx`;
-    const url = `/api/exports/${job.id}/download`;
-    
-    return {
-      url,
-      filename,
-      size: Math.floor(Math.random() * 10000000) + 5000000, // 5-10MB
-      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
-    };
+    for (const doc of stale.docs) {
+      await this.failJob(doc.ref, new Error('Export timed out'));
+    }
   }
 
-  // Process HTML export
-  private static async processHTMLExport(job: ExportJob): Promise<ExportJob['result']> {
-    await this.delay(1500 + Math.random() * 2500);
-    
-    const filename = `${job.projectId}_report_${Date.now()}.html`;
-    const url = `/api/exports/${job.id}/download`;
-    
-    return {
-      url,
-      filename,
-      size: Math.floor(Math.random() * 2000000) + 500000, // 500KB-2MB
-      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
-    };
+  // Get job status
+  static async getJob(jobId: string, userId: string): Promise<ExportJob> {
+    const snapshot = await this.jobs().doc(jobId).get();
+    if (!snapshot.exists || snapshot.get('userId') !== userId) throw new ExportJobNotFoundError();
+    return fromSnapshot(snapshot);
   }
 
-  // Utility delay function
-  private static delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  // Cancel a job
+  static async cancelJob(jobId: string, userId: string): Promise<boolean> {
+    const jobRef = this.jobs().doc(jobId);
+    return getAdminDb().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(jobRef);
+      if (!snapshot.exists || snapshot.get('userId') !== userId) throw new ExportJobNotFoundError();
+      if (!['queued', 'processing'].includes(snapshot.get('status'))) return false;
+
+      transaction.update(jobRef, { status: 'cancelled', completedAt: Timestamp.now(), leaseExpiresAt: null });
+      return true;
+    });
   }
 
-  // Get job status
-  static getJob(jobId: string): ExportJob | null {
-    return this.jobs.get(jobId) || null;
-  }
+  // Retry a failed job as a new one, so reruns count against the daily limit; also restarts cancelled and expired exports
+  static async retryJob(jobId: string, userId: string): Promise<string | null> {
+    const job = await this.getJob(jobId, userId);
+    if (!['failed', 'cancelled', 'expired'].includes(job.status)) return null;
 
-  // Get user's jobs
-  static getUserJobs(userId: string): ExportJob[] {
-    return Array.from(this.jobs.values())
-      .filter(job => job.userId === userId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return this.addJob(userId, job.projectId, job.type, job.options);
   }
 
-  // Cancel a job
-  static cancelJob(jobId: string, userId: string): boolean {
-    const job = this.jobs.get(jobId);
-    if (!job || job.userId !== userId) return false;
-
-    if (job.status === 'queued' || job.status === 'processing') {
-      job.status = 'cancelled';
-      job.completedAt = new Date();
-      this.jobs.set(jobId, job);
-      this.processing.delete(jobId);
-      return true;
+  // Reads a finished export's file for its owner
+  static async getArtifact(jobId: string, userId: string): Promise<{ bytes: Buffer; filename: string; contentType: string }> {
+    const job = await this.getJob(jobId, userId);
+    if (job.status !== 'completed' || !job.result || job.result.expiresAt.getTime() <= Date.now()) {
+      throw new ExportJobNotFoundError('This export has expired or is not ready');
     }
 
-    return false;
-  }
-
-  // Retry a failed job
-  static retryJob(jobId: string, userId: string): boolean {
-    const job = this.jobs.get(jobId);
-    if (!job || job.userId !== userId || job.status !== 'failed') return false;
-
-    job.status = 'queued';
-    job.progress = 0;
-    job.error = undefined;
-    job.startedAt = undefined;
-    job.completedAt = undefined;
-    job.result = undefined;
-    
-    this.jobs.set(jobId, job);
-    return true;
+    const [bytes] = await getAdminBucket().file(job.result.storagePath).download();
+    return { bytes, filename: job.result.filename, contentType: job.result.contentType };
   }
 
-  // Get queue statistics
-  static getQueueStats(): QueueStats {
-    const jobs = Array.from(this.jobs.values());
-    const completedJobs = jobs.filter(job => job.status === 'completed' && job.startedAt && job.completedAt);
-    
-    const averageProcessingTime = completedJobs.length > 0 
-      ? completedJobs.reduce((sum, job) => {
-          const processingTime = job.completedAt!.getTime() - job.startedAt!.getTime();
-          return sum + processingTime;
-        }, 0) / completedJobs.length
-      : 0;
-
-    const queuedJobs = jobs.filter(job => job.status === 'queued');
-    const queueWaitTime = queuedJobs.length > 0
-      ? Math.max(...queuedJobs.map(job => Date.now() - job.createdAt.getTime()))
-      : 0;
-
-    return {
-      total: jobs.length,
-      queued: jobs.filter(job => job.status === 'queued').length,
-      processing: jobs.filter(job => job.status === 'processing').length,
-      completed: jobs.filter(job => job.status === 'completed').length,
-      failed: jobs.filter(job => job.status === 'failed').length,
-      averageProcessingTime,
-      queueWaitTime
-    };
+  private static async deleteArtifact(storagePath: string) {
+    await getAdminBucket().file(storagePath).delete({ ignoreNotFound: true });
   }
 
-  // Clean up old jobs
-  static cleanupOldJobs(olderThanHours: number = 24) {
-    const cutoffTime = new Date(Date.now() - olderThanHours * 60 * 60 * 1000);
-    
-    for (const [jobId, job] of this.jobs.entries()) {
-      if (job.completedAt && job.completedAt < cutoffTime) {
-        this.jobs.delete(jobId);
-      }
+  // Deletes stored files past their expiry and marks the jobs expired
+  static async cleanupExpiredArtifacts(): Promise<number> {
+    const expired = await this.jobs()
+      .where('status', '==', 'completed')
+      .where('result.expiresAt', '<=', Timestamp.now())
+      .limit(BATCH_SIZE * 5)
+      .get();
+
+    for (const doc of expired.docs) {
+      await this.deleteArtifact(doc.get('result.storagePath'));
+      await doc.ref.update({ status: 'expired', result: null });
     }
-  }
-
-  // Set maximum concurrent exports
-  static setMaxConcurrent(max: number) {
-    this.maxConcurrent = Math.max(1, Math.min(max, 10)); // Limit between 1-10
+    return expired.size;
   }
 
   // Get export limits based on subscription
@@ -348,7 +350,8 @@ export class ExportQueue {
     maxConcurrent: number;
     maxDaily: number;
     maxFileSize: number;
-    allowedFormats: string[];
+    allowedFormats: ExportJobType[];
+    priority: ExportJob['priority']; // Queue priority for the tier's jobs
   } {
     switch (subscriptionTier) {
       case 'free':
@@ -356,109 +359,47 @@ export class ExportQueue {
           maxConcurrent: 1,
           maxDaily: 5,
           maxFileSize: 10 * 1024 * 1024, // 10MB
-          allowedFormats: ['json']
+          allowedFormats: ['json'],
+          priority: 'low'
         };
-      
+
       case 'student_pro':
       case 'hackathon_free':
         return {
           maxConcurrent: 2,
           maxDaily: 20,
           maxFileSize: 50 * 1024 * 1024, // 50MB
-          allowedFormats: ['pdf', 'json', 'csv']
+          allowedFormats: ['pdf', 'json', 'csv', 'markdown'],
+          priority: 'normal'
         };
-      
+
       case 'hackathon_pro':
         return {
           maxConcurrent: 3,
           maxDaily: 50,
           maxFileSize: 100 * 1024 * 1024, // 100MB
-          allowedFormats: ['pdf', 'json', 'csv', 'pitch_deck', 'html']
+          allowedFormats: ['pdf', 'json', 'csv', 'markdown', 'pitch_deck'],
+          priority: 'high'
         };
-      
+
       case 'organizer':
       case 'corporate':
         return {
           maxConcurrent: 5,
           maxDaily: -1, // Unlimited
           maxFileSize: 500 * 1024 * 1024, // 500MB
-          allowedFormats: ['pdf', 'json', 'csv', 'pitch_deck', 'html']
+          allowedFormats: ['pdf', 'json', 'csv', 'markdown', 'pitch_deck'],
+          priority: 'high'
         };
-      
+
       default:
         return {
           maxConcurrent: 1,
           maxDaily: 5,
           maxFileSize: 10 * 1024 * 1024,
-          allowedFormats: ['json']
+          allowedFormats: ['json'],
+          priority: 'low'
         };
     }
   }
-
-  // Check if user can export
-  static canUserExport(userId: string, subscriptionTier: string): {
-    canExport: boolean;
-    reason?: string;
-    dailyUsage?: number;
-    dailyLimit?: number;
-  } {
-    const limits = this.getExportLimits(subscriptionTier);
-    const userJobs = this.getUserJobs(userId);
-    
-    // Check daily limit
-    if (limits.maxDaily !== -1) {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      const todayJobs = userJobs.filter(job => 
-        job.createdAt >= today && 
-        (job.status === 'completed' || job.status === 'processing' || job.status === 'queued')
-      );
-      
-      if (todayJobs.length >= limits.maxDaily) {
-        return {
-          canExport: false,
-          reason: `Daily export limit reached (${limits.maxDaily})`,
-          dailyUsage: todayJobs.length,
-          dailyLimit: limits.maxDaily
-        };
-      }
-    }
-
-    // Check concurrent limit
-    const activeJobs = userJobs.filter(job => 
-      job.status === 'processing' || job.status === 'queued'
-    );
-    
-    if (activeJobs.length >= limits.maxConcurrent) {
-      return {
-        canExport: false,
-        reason: `Maximum concurrent exports reached (${limits.maxConcurrent})`,
-        dailyUsage: userJobs.filter(job => {
-          const today = new Date();
-          today.setHours(0, 0, 0, 0);
-          return job.createdAt >= today;
-        }).length,
-        dailyLimit: limits.maxDaily
-      };
-    }
-
-    return {
-      canExport: true,
-      dailyUsage: userJobs.filter(job => {
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        return job.createdAt >= today;
-      }).length,
-      dailyLimit: limits.maxDaily
-    };
-  }
-
-  // Shutdown the queue
-  static shutdown() {
-    if (this.processingInterval) {
-      clearInterval(this.processingInterval);
-      this.processingInterval = null;
-    }
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,49 @@
+import { cert, getApps, initializeApp, applicationDefault, type App } from "firebase-admin/app"
+import { getAuth, type Auth } from "firebase-admin/auth"
+import { getFirestore, type Firestore } from "firebase-admin/firestore"
+import { getStorage } from "firebase-admin/storage"
+
+/**
+ * Server-side Firebase Admin SDK for API routes.
+ * Credentials come from FIREBASE_SERVICE_ACCOUNT_KEY (the service account JSON), or
+ * FIREBASE_CLIENT_EMAIL + FIREBASE_PRIVATE_KEY, falling back to application default credentials.
+ */
+function getAdminApp(): App {
+  const existing = getApps()[0]
+  if (existing) return existing
+
+  const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID
+
+  if (process.env.FIREBASE_SERVICE_ACCOUNT_KEY) {
+    return initializeApp({ credential: cert(JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY)), projectId })
+  }
+
+  if (process.env.FIREBASE_CLIENT_EMAIL && process.env.FIREBASE_PRIVATE_KEY) {
+    return initializeApp({
+      credential: cert({
+        projectId,
+        clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+        // Env files usually store the key with escaped newlines
+        privateKey: process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, "\n"),
+      }),
+      projectId,
+    })
+  }
+
+  return initializeApp({ credential: applicationDefault(), projectId })
+}
+
+export function getAdminAuth(): Auth {
+  return getAuth(getAdminApp())
+}
+
+export function getAdminDb(): Firestore {
+  return getFirestore(getAdminApp())
+}
+
+// Cloud Storage bucket for server-generated files; FIREBASE_STORAGE_BUCKET overrides the client config
+export function getAdminBucket() {
+  const bucketName = process.env.FIREBASE_STORAGE_BUCKET || process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET
+  if (!bucketName) throw new Error("FIREBASE_STORAGE_BUCKET is not configured")
+  return getStorage(getAdminApp()).bucket(bucketName)
+}
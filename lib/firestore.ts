@@ -13,10 +13,15 @@ import {
   arrayUnion,
   writeBatch,
   orderBy,
+  runTransaction,
+  collectionGroup,
+  increment,
   limit as limitTo,
+  type DocumentSnapshot,
+  type Transaction,
 } from "firebase/firestore"
-import { getFirebaseDb } from "./firebase"
-import type { Project, Task, ChatMessage, ProjectMember, SharedResource, LiveActivity, TeamNotification, Milestone, HackathonEvent } from "./types"
+import { getFirebaseAuth, getFirebaseDb } from "./firebase"
+import type { AICredit, Project, Task, ChatMessage, ProjectMember, SharedResource, LiveActivity, TeamNotification, Milestone, HackathonEvent, TaskStatusTransition, ChecklistItem } from "./types"
 
 function getDb() {
   const db = getFirebaseDb()
@@ -48,6 +53,7 @@ export interface CreateProjectParams {
   techStack?: string[];
   category?: string;
   privacy?: "private" | "team" | "public";
+  defaultMilestones?: boolean; // Defaults to true; imports bring their own milestones
 }
 
 export async function createProject(
@@ -114,7 +120,9 @@ export async function createProject(
   }).catch(() => {})
 
   // Create default milestones in background
-  createDefaultMilestones(projectRef.id, projectData.duration).catch(() => {})
+  if (typeof nameOrParams === "string" || nameOrParams.defaultMilestones !== false) {
+    createDefaultMilestones(projectRef.id, projectData.duration).catch(() => {})
+  }
 
   return projectRef.id
 }
@@ -129,6 +137,7 @@ export async function getProject(projectId: string): Promise<Project | null> {
       ...data,
       id: projectDoc.id, // Ensure the document ID is included
       createdAt: data.created_at?.toDate?.() || new Date(),
+      submission_deadline: data.submission_deadline?.toDate?.() || undefined,
     } as Project
   } catch (error) {
     console.error("Error getting project:", error)
@@ -209,6 +218,15 @@ export async function updateProjectUrls(projectId: string, urls: { github_repo?:
   await updateDoc(doc(db, "projects", projectId), urls)
 }
 
+export async function updateProjectDetails(
+  projectId: string,
+  updates: Partial<Pick<Project, "description" | "techStack" | "category" | "github_repo" | "demo_url">>
+): Promise<void> {
+  const db = getDb()
+  const cleanUpdates = Object.fromEntries(Object.entries(updates).filter(([_, value]) => value !== undefined))
+  await updateDoc(doc(db, "projects", projectId), cleanUpdates)
+}
+
 export async function updateProjectStatus(projectId: string, status: Project["status"]): Promise<void> {
   const db = getDb()
   await updateDoc(doc(db, "projects", projectId), { status })
@@ -267,7 +285,9 @@ export function subscribeToProject(projectId: string, callback: (project: Projec
           const data = doc.data()
           callback({
             ...data,
+            id: doc.id,
             createdAt: data.created_at?.toDate?.() || new Date(),
+            submission_deadline: data.submission_deadline?.toDate?.() || undefined,
           } as Project)
         } else {
           callback(null)
@@ -345,12 +365,21 @@ export async function addTask(task: Omit<Task, "task_id" | "last_updated">): Pro
   }
 }
 
-export async function createTasks(tasks: Omit<Task, "task_id" | "last_updated">[]): Promise<void> {
+/** Allocates task ids up front so tasks created together can reference each other as dependencies. */
+export function reserveTaskIds(count: number): string[] {
+  const db = getDb()
+  return Array.from({ length: count }, () => doc(collection(db, "tasks")).id)
+}
+
+export async function createTasks(
+  tasks: (Omit<Task, "task_id" | "last_updated"> & { task_id?: string })[]
+): Promise<Task[]> {
   const db = getDb()
   const batch = writeBatch(db)
+  const created: Task[] = []
 
   for (const task of tasks) {
-    const taskRef = doc(collection(db, "tasks"))
+    const taskRef = task.task_id ? doc(db, "tasks", task.task_id) : doc(collection(db, "tasks"))
     
     // Filter out undefined values to avoid Firestore errors
     const cleanTask = Object.fromEntries(
@@ -358,27 +387,81 @@ export async function createTasks(tasks: Omit<Task, "task_id" | "last_updated">[
         ...task,
         task_id: taskRef.id,
         last_updated: serverTimestamp(),
+        created_at: serverTimestamp(),
       }).filter(([_, value]) => value !== undefined)
     )
     
     batch.set(taskRef, cleanTask)
+    created.push({ ...task, task_id: taskRef.id, last_updated: new Date(), created_at: new Date() })
   }
 
   await batch.commit()
+  return created
 }
 
-export async function updateTask(taskId: string, updates: Partial<Task>): Promise<void> {
-  const db = getDb()
-  
+// Every task edit bumps version and records its author so concurrent edits can be detected
+function buildTaskUpdate(updates: Partial<Task>, version: number | ReturnType<typeof increment>) {
   // Filter out undefined values to avoid Firestore errors
-  const cleanUpdates = Object.fromEntries(
+  return Object.fromEntries(
     Object.entries({
       ...updates,
+      version,
+      updated_by: getFirebaseAuth()?.currentUser?.uid ?? null,
       last_updated: serverTimestamp(),
     }).filter(([_, value]) => value !== undefined)
   )
-  
-  await updateDoc(doc(db, "tasks", taskId), cleanUpdates)
+}
+
+/**
+ * Writes a task update inside a transaction that has already read the task, logging a status change
+ * to the task's status_history alongside it.
+ */
+export function writeTaskUpdate(transaction: Transaction, snapshot: DocumentSnapshot, updates: Partial<Task>): void {
+  const db = getDb()
+  const data = snapshot.data()
+  transaction.update(snapshot.ref, buildTaskUpdate(updates, (data?.version || 0) + 1))
+
+  const from = data?.status as Task["status"] | undefined
+  if (updates.status === undefined || !snapshot.exists() || !from || from === updates.status) return
+
+  const transitionRef = doc(collection(db, "tasks", snapshot.id, "status_history"))
+  transaction.set(transitionRef, {
+    transition_id: transitionRef.id,
+    task_id: snapshot.id,
+    project_id: data?.project_id,
+    from,
+    to: updates.status,
+    changed_by: getFirebaseAuth()?.currentUser?.uid ?? null,
+    changed_at: serverTimestamp(),
+  })
+}
+
+export async function updateTask(taskId: string, updates: Partial<Task>): Promise<void> {
+  const db = getDb()
+  const taskRef = doc(db, "tasks", taskId)
+  if (updates.status === undefined) {
+    await updateDoc(taskRef, buildTaskUpdate(updates, increment(1)))
+    return
+  }
+
+  // Status changes need the previous status for the history entry
+  await runTransaction(db, async (transaction) => {
+    writeTaskUpdate(transaction, await transaction.get(taskRef), updates)
+  })
+}
+
+/** Applies a checklist edit to the latest stored items so concurrent edits to other items are kept */
+export async function updateTaskChecklist(taskId: string, change: (items: ChecklistItem[]) => ChecklistItem[]): Promise<void> {
+  const db = getDb()
+  const taskRef = doc(db, "tasks", taskId)
+
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(taskRef)
+    if (!snapshot.exists()) throw new Error("Task not found")
+
+    const checklist = change((snapshot.data().checklist || []) as ChecklistItem[])
+    writeTaskUpdate(transaction, snapshot, { checklist })
+  })
 }
 
 export async function deleteTask(taskId: string): Promise<void> {
@@ -387,6 +470,37 @@ export async function deleteTask(taskId: string): Promise<void> {
 }
 
 // Optimized: Add pagination and debouncing for tasks
+function toTask(data: any): Task {
+  return {
+    ...data,
+    last_updated: data.last_updated?.toDate?.() || new Date(),
+    created_at: data.created_at?.toDate?.() || undefined,
+    checklist: data.checklist?.map((item: any) => ({ ...item, completed_at: item.completed_at?.toDate?.() || null })),
+    blocker: data.blocker ? { ...data.blocker, since: data.blocker.since?.toDate?.() || new Date() } : null,
+    active_timers: data.active_timers
+      ? Object.fromEntries(
+          Object.entries(data.active_timers).map(([userId, timer]: [string, any]) => [
+            userId,
+            { ...timer, started_at: timer.started_at?.toDate?.() || new Date() },
+          ])
+        )
+      : undefined,
+  } as Task
+}
+
+export async function getTask(taskId: string): Promise<Task | null> {
+  const db = getDb()
+  const snapshot = await getDoc(doc(db, "tasks", taskId))
+  return snapshot.exists() ? toTask(snapshot.data()) : null
+}
+
+/** All of a project's tasks, without the limit the live subscription applies */
+export async function getProjectTasks(projectId: string): Promise<Task[]> {
+  const db = getDb()
+  const snapshot = await getDocs(query(collection(db, "tasks"), where("project_id", "==", projectId)))
+  return snapshot.docs.map((doc) => toTask(doc.data()))
+}
+
 export function subscribeToTasks(projectId: string, callback: (tasks: Task[]) => void, maxResults = 50) {
   try {
     const db = getDb()
@@ -406,14 +520,7 @@ export function subscribeToTasks(projectId: string, callback: (tasks: Task[]) =>
         if (debounceTimer) clearTimeout(debounceTimer)
         
         debounceTimer = setTimeout(() => {
-          const tasks = snapshot.docs.map((doc) => {
-            const data = doc.data()
-            return {
-              ...data,
-              last_updated: data.last_updated?.toDate?.() || new Date(),
-            } as Task
-          })
-          callback(tasks)
+          callback(snapshot.docs.map((doc) => toTask(doc.data())))
         }, 100) // 100ms debounce
       },
       (error) => {
@@ -427,6 +534,34 @@ export function subscribeToTasks(projectId: string, callback: (tasks: Task[]) =>
   }
 }
 
+export function subscribeToTaskStatusHistory(projectId: string, callback: (transitions: TaskStatusTransition[]) => void) {
+  try {
+    const db = getDb()
+    const q = query(collectionGroup(db, "status_history"), where("project_id", "==", projectId))
+
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        const transitions = snapshot.docs.map((doc) => {
+          const data = doc.data()
+          return {
+            ...data,
+            changed_at: data.changed_at?.toDate?.() || new Date(),
+          } as TaskStatusTransition
+        })
+        callback(transitions.sort((a, b) => a.changed_at.getTime() - b.changed_at.getTime()))
+      },
+      (error) => {
+        console.error("Error subscribing to task status history:", error)
+        callback([])
+      },
+    )
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
 // Chat Messages
 export async function sendMessage(message: Omit<ChatMessage, "message_id" | "timestamp">): Promise<string> {
   const db = getDb()
@@ -509,6 +644,33 @@ export async function getUserRole(projectId: string, userId: string): Promise<"a
   return "viewer"
 }
 
+// AI credit balance kept by the server-side meter; a period past its reset date has nothing used yet
+export function subscribeToAICredits(userId: string, callback: (credits: AICredit | null) => void) {
+  try {
+    const db = getDb()
+    return onSnapshot(
+      doc(db, "ai_credits", userId),
+      (snapshot) => {
+        if (!snapshot.exists()) return callback(null)
+        const data = snapshot.data()
+        const resetDate: Date = data.resetDate?.toDate?.() || new Date()
+        callback({
+          ...data,
+          usedCredits: resetDate.getTime() <= Date.now() ? 0 : data.usedCredits || 0,
+          resetDate,
+        } as AICredit)
+      },
+      (error) => {
+        console.error("Error subscribing to AI credits:", error)
+        callback(null)
+      },
+    )
+  } catch {
+    callback(null)
+    return () => {}
+  }
+}
+
 // Optimized: Batch member queries instead of N individual listeners
 export function subscribeToProjectMembers(memberIds: string[], callback: (members: ProjectMember[]) => void) {
   if (memberIds.length === 0) {
@@ -553,9 +715,11 @@ export function subscribeToProjectMembers(memberIds: string[], callback: (member
 }
 
 // Milestones
-export async function createMilestone(milestone: Omit<Milestone, "milestone_id" | "created_at">): Promise<string> {
+export async function createMilestone(
+  milestone: Omit<Milestone, "milestone_id" | "created_at"> & { milestone_id?: string }
+): Promise<string> {
   const db = getDb()
-  const milestoneRef = doc(collection(db, "milestones"))
+  const milestoneRef = milestone.milestone_id ? doc(db, "milestones", milestone.milestone_id) : doc(collection(db, "milestones"))
   await setDoc(milestoneRef, {
     ...milestone,
     milestone_id: milestoneRef.id,
@@ -574,6 +738,29 @@ export async function deleteMilestone(milestoneId: string): Promise<void> {
   await deleteDoc(doc(db, "milestones", milestoneId))
 }
 
+function toMilestones(docs: { data: () => any }[]): Milestone[] {
+  const milestones = docs.map((doc) => {
+    const data = doc.data()
+    return {
+      ...data,
+      deadline: data.deadline?.toDate?.() || new Date(),
+      created_at: data.created_at?.toDate?.() || new Date(),
+    } as Milestone
+  })
+  return milestones.sort((a, b) => new Date(a.deadline).getTime() - new Date(b.deadline).getTime())
+}
+
+export async function getProjectMilestones(projectId: string): Promise<Milestone[]> {
+  try {
+    const db = getDb()
+    const snapshot = await getDocs(query(collection(db, "milestones"), where("project_id", "==", projectId)))
+    return toMilestones(snapshot.docs)
+  } catch (error) {
+    console.error("Error getting milestones:", error)
+    return []
+  }
+}
+
 export function subscribeToMilestones(projectId: string, callback: (milestones: Milestone[]) => void) {
   try {
     const db = getDb()
@@ -581,16 +768,7 @@ export function subscribeToMilestones(projectId: string, callback: (milestones:
     return onSnapshot(
       q,
       (snapshot) => {
-        const milestones = snapshot.docs.map((doc) => {
-          const data = doc.data()
-          return {
-            ...data,
-            deadline: data.deadline?.toDate?.() || new Date(),
-            created_at: data.created_at?.toDate?.() || new Date(),
-          } as Milestone
-        })
-        milestones.sort((a, b) => new Date(a.deadline).getTime() - new Date(b.deadline).getTime())
-        callback(milestones)
+        callback(toMilestones(snapshot.docs))
       },
       (error) => {
         console.error("Error subscribing to milestones:", error)
@@ -646,9 +824,11 @@ export async function createDefaultMilestones(projectId: string, duration: "24h"
 }
 
 // Shared Resources
-export async function uploadResource(resource: Omit<SharedResource, "resource_id" | "created_at">): Promise<string> {
+export async function uploadResource(
+  resource: Omit<SharedResource, "resource_id" | "created_at"> & { resource_id?: string }
+): Promise<string> {
   const db = getDb()
-  const resourceRef = doc(collection(db, "shared_resources"))
+  const resourceRef = resource.resource_id ? doc(db, "shared_resources", resource.resource_id) : doc(collection(db, "shared_resources"))
   
   // Filter out undefined values to avoid Firestore errors
   const cleanResource = Object.fromEntries(
@@ -678,6 +858,16 @@ export async function getProjectResources(projectId: string): Promise<SharedReso
   }
 }
 
+export async function getResource(resourceId: string): Promise<SharedResource | null> {
+  const db = getDb()
+  const snapshot = await getDoc(doc(db, "shared_resources", resourceId))
+  if (!snapshot.exists()) return null
+  return {
+    ...snapshot.data(),
+    created_at: snapshot.data().created_at?.toDate?.() || new Date(),
+  } as SharedResource
+}
+
 export function subscribeToResources(projectId: string, callback: (resources: SharedResource[]) => void) {
   try {
     const db = getDb()
@@ -777,6 +967,11 @@ export async function markNotificationRead(notificationId: string): Promise<void
   await updateDoc(doc(db, "team_notifications", notificationId), { read: true })
 }
 
+export async function updateResource(resourceId: string, updates: Partial<SharedResource>): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "shared_resources", resourceId), updates)
+}
+
 export async function deleteResource(resourceId: string): Promise<void> {
   const db = getDb()
   await deleteDoc(doc(db, "shared_resources", resourceId))
@@ -818,28 +1013,32 @@ export async function createHackathon(hackathon: Omit<HackathonEvent, "event_id"
   return hackathonData as HackathonEvent
 }
 
+// Hackathon documents mix legacy snake_case and newer camelCase fields
+function toHackathonEvent(id: string, data: any, organizerId = ''): HackathonEvent {
+  return {
+    event_id: id,
+    name: data.name || '',
+    description: data.description || '',
+    start_date: data.startDate?.toDate() || data.start_date?.toDate() || new Date(),
+    end_date: data.endDate?.toDate() || data.end_date?.toDate() || new Date(),
+    theme: data.theme || '',
+    max_team_size: data.max_team_size || 5,
+    prizes: data.prizes || [],
+    rules: data.rules || [],
+    organizer: data.organizer || data.organizer_id || organizerId,
+    status: data.status || 'upcoming',
+    judgeIds: data.judgeIds || [],
+    settings: data.settings,
+  } as HackathonEvent
+}
+
 export async function getOrganizerHackathons(organizerId: string): Promise<HackathonEvent[]> {
   try {
     const db = getDb()
     const q = query(collection(db, "hackathons"), where("organizerId", "==", organizerId))
     const querySnapshot = await getDocs(q)
     
-    return querySnapshot.docs.map(doc => {
-      const data = doc.data()
-      return {
-        event_id: doc.id,
-        name: data.name || '',
-        description: data.description || '',
-        start_date: data.startDate?.toDate() || data.start_date?.toDate() || new Date(),
-        end_date: data.endDate?.toDate() || data.end_date?.toDate() || new Date(),
-        theme: data.theme || '',
-        max_team_size: data.max_team_size || 5,
-        prizes: data.prizes || [],
-        rules: data.rules || [],
-        organizer: data.organizer || data.organizer_id || organizerId,
-        status: data.status || 'upcoming',
-      } as HackathonEvent
-    })
+    return querySnapshot.docs.map(doc => toHackathonEvent(doc.id, doc.data(), organizerId))
   } catch (error) {
     console.error("Error fetching organizer hackathons:", error)
     return []
@@ -855,27 +1054,25 @@ export async function getHackathonByJoinCode(joinCode: string): Promise<Hackatho
     if (querySnapshot.empty) return null
     
     const doc = querySnapshot.docs[0]
-    const data = doc.data()
-    
-    return {
-      event_id: doc.id,
-      name: data.name || '',
-      description: data.description || '',
-      start_date: data.startDate?.toDate() || data.start_date?.toDate() || new Date(),
-      end_date: data.endDate?.toDate() || data.end_date?.toDate() || new Date(),
-      theme: data.theme || '',
-      max_team_size: data.max_team_size || 5,
-      prizes: data.prizes || [],
-      rules: data.rules || [],
-      organizer: data.organizer || data.organizer_id || '',
-      status: data.status || 'upcoming',
-    } as HackathonEvent
+    return toHackathonEvent(doc.id, doc.data())
   } catch (error) {
     console.error("Error fetching hackathon by join code:", error)
     return null
   }
 }
 
+export async function getHackathon(hackathonId: string): Promise<HackathonEvent | null> {
+  try {
+    const db = getDb()
+    const hackathonDoc = await withTimeout(getDoc(doc(db, "hackathons", hackathonId)), 3000, null as any)
+    if (!hackathonDoc || !hackathonDoc.exists?.()) return null
+    return toHackathonEvent(hackathonDoc.id, hackathonDoc.data())
+  } catch (error) {
+    console.error("Error fetching hackathon:", error)
+    return null
+  }
+}
+
 export async function getHackathonTeams(hackathonId: string): Promise<Project[]> {
   try {
     const db = getDb()
@@ -892,6 +1089,7 @@ export async function getHackathonTeams(hackathonId: string): Promise<Project[]>
         status: data.status || 'planning',
         teamId: data.teamId || data.team_id || '',
         hackathonId: data.hackathonId || data.hackathon_event || hackathonId,
+        track: data.track || undefined,
         techStack: data.techStack || data.tech_stack || [],
         category: data.category,
         privacy: data.privacy || 'team',
@@ -963,12 +1161,24 @@ export async function updateHackathonStatus(hackathonId: string, status: Hackath
   await updateDoc(doc(db, "hackathons", hackathonId), { status })
 }
 
-export async function joinHackathon(hackathonId: string, projectId: string): Promise<void> {
+// Hackathons with tracks need one of them picked; the track decides which rubric judges score against
+export async function joinHackathon(hackathonId: string, projectId: string, track?: string): Promise<void> {
   const db = getDb()
-  await updateDoc(doc(db, "projects", projectId), { hackathon_event: hackathonId })
+  const hackathon = await getHackathon(hackathonId)
+  if (!hackathon) throw new Error("Hackathon not found")
+
+  const tracks = hackathon.settings?.tracks || []
+  if (tracks.length > 0 && (!track || !tracks.includes(track))) {
+    throw new Error("Choose one of this hackathon's tracks")
+  }
+
+  await updateDoc(doc(db, "projects", projectId), {
+    hackathon_event: hackathonId,
+    track: tracks.length > 0 ? track : null,
+  })
 }
 
 export async function leaveHackathon(projectId: string): Promise<void> {
   const db = getDb()
-  await updateDoc(doc(db, "projects", projectId), { hackathon_event: null })
+  await updateDoc(doc(db, "projects", projectId), { hackathon_event: null, track: null })
 }
\ No newline at end of file
@@ -0,0 +1,228 @@
+import { doc, getDoc, setDoc, updateDoc, serverTimestamp } from "firebase/firestore"
+import { getFirebaseDb } from "./firebase"
+import { getHackathonTeams, updateHackathonStatus } from "./firestore"
+import {
+  aggregateProjectFeedback,
+  calculateOverallScore,
+  calculateStatistics,
+  getCriteriaForTrack,
+  getHackathonFeedback,
+  getRubricCriteria,
+} from "./judging-service"
+import type {
+  HackathonEvent,
+  HackathonResults,
+  JudgeFeedback,
+  JudgingCriteria,
+  LeaderboardEntry,
+  PrizeCategory,
+  PrizeWinner,
+  Project,
+  ResultsConfig,
+} from "./types"
+
+export const DEFAULT_RESULTS_CONFIG: ResultsConfig = {
+  normalizeJudgeScores: true,
+  tieBreakers: [],
+}
+
+const SCORE_EPSILON = 1e-9
+
+function getDb() {
+  const db = getFirebaseDb()
+  if (!db) throw new Error("Database not available")
+  return db
+}
+
+/**
+ * Converts every review into a z-score against the judge's own scoring history, so a judge
+ * who scores everything 9/10 and one who scores everything 5/10 count equally. Judges with a
+ * single review or no spread carry no information about their bias and get a z-score of 0.
+ */
+export function calculateJudgeZScores(
+  feedback: JudgeFeedback[],
+  criteriaForProject: (projectId: string) => JudgingCriteria[]
+): Map<string, number> {
+  const overallScores = new Map(
+    feedback.map((f) => [f.id, calculateOverallScore(f.scores, criteriaForProject(f.projectId))])
+  )
+  const zScores = new Map<string, number>()
+
+  const judgeIds = Array.from(new Set(feedback.map((f) => f.judgeId)))
+  for (const judgeId of judgeIds) {
+    const judgeFeedback = feedback.filter((f) => f.judgeId === judgeId)
+    const stats = calculateStatistics(judgeFeedback.map((f) => overallScores.get(f.id)!))
+
+    for (const f of judgeFeedback) {
+      const z = stats.stdDev > SCORE_EPSILON ? (overallScores.get(f.id)! - stats.mean) / stats.stdDev : 0
+      zScores.set(f.id, z)
+    }
+  }
+
+  return zScores
+}
+
+function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry, config: ResultsConfig): number {
+  const primaryA = config.normalizeJudgeScores ? a.normalizedScore ?? 0 : a.score
+  const primaryB = config.normalizeJudgeScores ? b.normalizedScore ?? 0 : b.score
+  if (Math.abs(primaryA - primaryB) > SCORE_EPSILON) return primaryB - primaryA
+
+  // Fall back to the raw score when normalised scores tie
+  if (config.normalizeJudgeScores && Math.abs(a.score - b.score) > SCORE_EPSILON) return b.score - a.score
+
+  for (const criterion of config.tieBreakers) {
+    const scoreA = a.criteria[criterion] ?? -Infinity
+    const scoreB = b.criteria[criterion] ?? -Infinity
+    if (Math.abs(scoreA - scoreB) > SCORE_EPSILON) return scoreB - scoreA
+  }
+
+  return 0
+}
+
+// Ranks every reviewed project. Fully tied projects share a rank (1, 1, 3).
+export function rankProjects(
+  projects: Project[],
+  feedback: JudgeFeedback[],
+  criteriaForProject: (projectId: string) => JudgingCriteria[],
+  config: ResultsConfig = DEFAULT_RESULTS_CONFIG
+): LeaderboardEntry[] {
+  const zScores = config.normalizeJudgeScores ? calculateJudgeZScores(feedback, criteriaForProject) : null
+
+  const entries: LeaderboardEntry[] = projects
+    .filter((project) => feedback.some((f) => f.projectId === project.id))
+    .map((project) => {
+      const result = aggregateProjectFeedback(project.id, feedback, criteriaForProject(project.id))
+      const projectFeedback = feedback.filter((f) => f.projectId === project.id)
+      const criteriaMeans = Object.fromEntries(
+        Object.entries(result.criteria).map(([name, stats]) => [name, stats.mean])
+      )
+
+      return {
+        projectId: project.id,
+        projectName: project.name,
+        ...(project.track ? { track: project.track } : {}),
+        rank: 0,
+        score: result.overall.mean,
+        ...(zScores
+          ? {
+              normalizedScore:
+                projectFeedback.reduce((sum, f) => sum + (zScores.get(f.id) || 0), 0) / projectFeedback.length,
+            }
+          : {}),
+        judgeCount: result.judgeCount,
+        criteria: criteriaMeans,
+      }
+    })
+
+  entries.sort((a, b) => compareEntries(a, b, config) || a.projectName.localeCompare(b.projectName))
+
+  entries.forEach((entry, index) => {
+    const previous = entries[index - 1]
+    entry.rank = previous && compareEntries(previous, entry, config) === 0 ? previous.rank : index + 1
+  })
+
+  return entries
+}
+
+/**
+ * Picks a winner for each prize in the order the organizer listed them. General prizes go to
+ * successive projects on the leaderboard (first prize to #1, second to the next project, ...);
+ * track and criterion prizes go to the best project in that category and may be won on top of
+ * a general prize.
+ */
+export function selectPrizeWinners(
+  prizes: string[],
+  categories: PrizeCategory[],
+  leaderboard: LeaderboardEntry[]
+): PrizeWinner[] {
+  const winners: PrizeWinner[] = []
+  const generalWinners = new Set<string>()
+
+  for (const prize of prizes) {
+    const category = categories.find((c) => c.prize === prize) || { prize }
+    let candidates = category.track ? leaderboard.filter((entry) => entry.track === category.track) : leaderboard
+
+    if (category.criterion) {
+      const criterion = category.criterion
+      candidates = candidates
+        .filter((entry) => entry.criteria[criterion] !== undefined)
+        .sort((a, b) => b.criteria[criterion] - a.criteria[criterion] || a.rank - b.rank)
+    }
+
+    const isGeneral = !category.track && !category.criterion
+    const winner = isGeneral ? candidates.find((entry) => !generalWinners.has(entry.projectId)) : candidates[0]
+    if (!winner) continue
+
+    if (isGeneral) generalWinners.add(winner.projectId)
+    winners.push({ prize, projectId: winner.projectId, projectName: winner.projectName })
+  }
+
+  return winners
+}
+
+export async function computeHackathonResults(
+  hackathon: HackathonEvent,
+  config: ResultsConfig = hackathon.settings?.resultsConfig || DEFAULT_RESULTS_CONFIG,
+  categories: PrizeCategory[] = hackathon.settings?.prizeCategories || []
+): Promise<Omit<HackathonResults, "publishedAt">> {
+  const [projects, feedback] = await Promise.all([
+    getHackathonTeams(hackathon.event_id),
+    getHackathonFeedback(hackathon.event_id),
+  ])
+
+  const rubric = getRubricCriteria(hackathon.settings)
+  const tracks = new Map(projects.map((project) => [project.id, project.track]))
+  const criteriaForProject = (projectId: string) => getCriteriaForTrack(rubric, tracks.get(projectId))
+
+  const leaderboard = rankProjects(projects, feedback, criteriaForProject, config)
+
+  return {
+    hackathonId: hackathon.event_id,
+    hackathonName: hackathon.name,
+    leaderboard,
+    winners: selectPrizeWinners(hackathon.prizes, categories, leaderboard),
+    config,
+  }
+}
+
+export async function saveResultsSettings(
+  hackathonId: string,
+  config: ResultsConfig,
+  categories: PrizeCategory[]
+): Promise<void> {
+  const db = getDb()
+  // Firestore rejects undefined fields, so unset track/criterion are left out
+  const cleanCategories = categories.map((category) =>
+    Object.fromEntries(Object.entries(category).filter(([_, value]) => value !== undefined))
+  )
+  await updateDoc(doc(db, "hackathons", hackathonId), {
+    "settings.resultsConfig": config,
+    "settings.prizeCategories": cleanCategories,
+  })
+}
+
+// Publishing freezes the leaderboard into a public document and closes the hackathon
+export async function publishHackathonResults(results: Omit<HackathonResults, "publishedAt">): Promise<void> {
+  const db = getDb()
+  await setDoc(doc(db, "hackathon_results", results.hackathonId), {
+    ...results,
+    publishedAt: serverTimestamp(),
+  })
+  await updateHackathonStatus(results.hackathonId, "completed")
+}
+
+export async function getPublishedResults(hackathonId: string): Promise<HackathonResults | null> {
+  try {
+    const db = getDb()
+    const resultsDoc = await getDoc(doc(db, "hackathon_results", hackathonId))
+    if (!resultsDoc.exists()) return null
+    const data = resultsDoc.data()
+    return {
+      ...data,
+      publishedAt: data.publishedAt?.toDate?.() || new Date(),
+    } as HackathonResults
+  } catch (error) {
+    console.error("Error getting published results:", error)
+    return null
+  }
+}
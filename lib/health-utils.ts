@@ -1,4 +1,5 @@
 import { Project, Task, ProjectMember } from "./types"
+import { getBlockedMinutes } from "./task-blockers"
 
 export interface HealthScore {
     score: number
@@ -24,7 +25,7 @@ export function calculateProjectHealth(
     const completedTasks = tasks.filter((t) => t.status === "Done").length
     const taskScore = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 100
 
-    // 2. Time Pressure (25%)
+    // 2. Time Pressure (20%)
     const start = new Date(project.createdAt)
     const duration = project.duration === "24h" ? 24 : 48
     const end = new Date(start.getTime() + duration * 60 * 60 * 1000)
@@ -40,12 +41,12 @@ export function calculateProjectHealth(
         ? Math.min((completionRatio / (progressRatio * 0.8)) * 100, 100)
         : 100
 
-    // 3. Commit Frequency (30%)
+    // 3. Commit Frequency (25%)
     // Expecting at least 2 commits per member per 24h phase for "Full Health"
     const expectedCommits = Math.max(members.length * (duration / 12), 1)
     const commitScore = Math.min((commitsCount / expectedCommits) * 100, 100)
 
-    // 4. Contributor Activity (15%)
+    // 4. Contributor Activity (10%)
     // Check if tasks are balanced among members or if one or two people are carrying everyone
     const assignedTasks = tasks.filter(t => t.assigned_to).length
     const memberActivityMap = tasks.reduce((acc, t) => {
@@ -60,12 +61,20 @@ export function calculateProjectHealth(
         ? (activeMembersCount / members.length) * 100
         : 100
 
+    // 5. Blockers (15%)
+    // Team-hours lost to blocked tasks as a share of the team-hours elapsed so far;
+    // losing a quarter of the team's time to blockers drops this factor to zero
+    const blockedHours = tasks.reduce((sum, t) => sum + getBlockedMinutes(t, now), 0) / 60
+    const elapsedTeamHours = Math.max(elapsedMs / (60 * 60 * 1000), 1) * Math.max(members.length, 1)
+    const blockerScore = Math.max(0, 100 - (blockedHours / elapsedTeamHours) * 400)
+
     // Final Weighted Score
     const weightedScore = Math.round(
         taskScore * 0.3 +
-        timeScore * 0.25 +
-        commitScore * 0.3 +
-        activityScore * 0.15
+        timeScore * 0.2 +
+        commitScore * 0.25 +
+        activityScore * 0.1 +
+        blockerScore * 0.15
     )
 
     let status: HealthScore["status"] = "Healthy"
@@ -89,9 +98,10 @@ export function calculateProjectHealth(
         color,
         factors: [
             { label: "Tasks", score: Math.round(taskScore), weight: 0.3 },
-            { label: "Time", score: Math.round(timeScore), weight: 0.25 },
-            { label: "Code", score: Math.round(commitScore), weight: 0.3 },
-            { label: "Team", score: Math.round(activityScore), weight: 0.15 },
+            { label: "Time", score: Math.round(timeScore), weight: 0.2 },
+            { label: "Code", score: Math.round(commitScore), weight: 0.25 },
+            { label: "Team", score: Math.round(activityScore), weight: 0.1 },
+            { label: "Blockers", score: Math.round(blockerScore), weight: 0.15 },
         ],
     }
 }
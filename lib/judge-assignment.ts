@@ -0,0 +1,76 @@
+import type { Project } from "./types"
+
+export interface AssignmentPair {
+  projectId: string
+  judgeId: string
+}
+
+export interface AssignmentPlan {
+  assignments: AssignmentPair[]
+  judgeLoads: Record<string, number>
+  understaffed: { projectId: string; missing: number }[]
+}
+
+// A judge may not review a project they built
+export function hasConflictOfInterest(project: Project, judgeId: string): boolean {
+  return (project.members || []).includes(judgeId) || project.created_by === judgeId
+}
+
+/**
+ * Distributes projects across judges so each project gets `reviewsPerProject` independent
+ * reviews. Projects with the fewest eligible judges are staffed first, and each slot goes to
+ * the least-loaded eligible judge, with ties broken round-robin so load stays balanced.
+ * `existing` pairs (e.g. reviews already submitted) are kept and count towards both totals.
+ */
+export function planJudgeAssignments(
+  projects: Project[],
+  judgeIds: string[],
+  reviewsPerProject: number,
+  existing: AssignmentPair[] = []
+): AssignmentPlan {
+  const judgeLoads: Record<string, number> = Object.fromEntries(judgeIds.map((judgeId) => [judgeId, 0]))
+  const assignedJudges = new Map<string, Set<string>>(projects.map((project) => [project.id, new Set<string>()]))
+
+  for (const pair of existing) {
+    assignedJudges.get(pair.projectId)?.add(pair.judgeId)
+    if (pair.judgeId in judgeLoads) judgeLoads[pair.judgeId]++
+  }
+
+  const eligibleJudges = new Map(
+    projects.map((project) => [project.id, judgeIds.filter((judgeId) => !hasConflictOfInterest(project, judgeId))])
+  )
+
+  const orderedProjects = [...projects].sort(
+    (a, b) => eligibleJudges.get(a.id)!.length - eligibleJudges.get(b.id)!.length
+  )
+
+  const assignments: AssignmentPair[] = []
+  const understaffed: AssignmentPlan["understaffed"] = []
+  let cursor = 0
+
+  for (const project of orderedProjects) {
+    const assigned = assignedJudges.get(project.id)!
+    let needed = reviewsPerProject - assigned.size
+
+    while (needed > 0) {
+      const candidates = eligibleJudges.get(project.id)!.filter((judgeId) => !assigned.has(judgeId))
+      if (candidates.length === 0) break
+
+      const rotation = (judgeId: string) => (judgeIds.indexOf(judgeId) - cursor + judgeIds.length) % judgeIds.length
+      candidates.sort((a, b) => judgeLoads[a] - judgeLoads[b] || rotation(a) - rotation(b))
+
+      const judgeId = candidates[0]
+      assigned.add(judgeId)
+      judgeLoads[judgeId]++
+      assignments.push({ projectId: project.id, judgeId })
+      cursor = (judgeIds.indexOf(judgeId) + 1) % judgeIds.length
+      needed--
+    }
+
+    if (needed > 0) {
+      understaffed.push({ projectId: project.id, missing: needed })
+    }
+  }
+
+  return { assignments, judgeLoads, understaffed }
+}
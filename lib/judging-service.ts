@@ -0,0 +1,483 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  query,
+  where,
+  onSnapshot,
+  serverTimestamp,
+  writeBatch,
+  arrayUnion,
+  arrayRemove,
+  runTransaction,
+} from "firebase/firestore"
+import { getFirebaseDb } from "./firebase"
+import { getHackathon, getHackathonTeams } from "./firestore"
+import { planJudgeAssignments, type AssignmentPlan } from "./judge-assignment"
+import type {
+  HackathonEvent,
+  HackathonSettings,
+  JudgeAssignment,
+  JudgeFeedback,
+  JudgeRecommendation,
+  JudgeScores,
+  JudgingCriteria,
+  ProjectJudgingResult,
+  ScoreStatistics,
+} from "./types"
+
+export const DEFAULT_CRITERIA: JudgingCriteria[] = [
+  {
+    name: "innovation",
+    description: "Originality and creativity of the solution",
+    weight: 0.25,
+    maxScore: 10,
+  },
+  {
+    name: "technical",
+    description: "Technical complexity and implementation quality",
+    weight: 0.25,
+    maxScore: 10,
+  },
+  {
+    name: "design",
+    description: "User experience and interface design",
+    weight: 0.2,
+    maxScore: 10,
+  },
+  {
+    name: "presentation",
+    description: "Quality of pitch and demonstration",
+    weight: 0.15,
+    maxScore: 10,
+  },
+  {
+    name: "impact",
+    description: "Potential real-world impact and market viability",
+    weight: 0.15,
+    maxScore: 10,
+  },
+]
+
+function getDb() {
+  const db = getFirebaseDb()
+  if (!db) throw new Error("Database not available")
+  return db
+}
+
+// One feedback document per judge per project, so resubmitting overwrites instead of duplicating
+export function getFeedbackId(projectId: string, judgeId: string): string {
+  return `${projectId}_${judgeId}`
+}
+
+function toJudgeFeedback(id: string, data: any): JudgeFeedback {
+  return {
+    ...data,
+    id,
+    submittedAt: data.submittedAt?.toDate?.() || new Date(),
+    updatedAt: data.updatedAt?.toDate?.() || undefined,
+  } as JudgeFeedback
+}
+
+export async function createJudgeFeedback(
+  feedback: Omit<JudgeFeedback, "id" | "submittedAt" | "updatedAt">
+): Promise<string> {
+  const db = getDb()
+  const feedbackId = getFeedbackId(feedback.projectId, feedback.judgeId)
+  const feedbackRef = doc(db, "judge_feedback", feedbackId)
+
+  // Resubmitting keeps the original submission time
+  await runTransaction(db, async (transaction) => {
+    const existing = await transaction.get(feedbackRef)
+    transaction.set(feedbackRef, {
+      ...feedback,
+      submittedAt: (existing.exists() && existing.get("submittedAt")) || serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    })
+  })
+  return feedbackId
+}
+
+export async function updateJudgeFeedback(
+  feedbackId: string,
+  updates: Partial<Omit<JudgeFeedback, "id" | "projectId" | "hackathonId" | "judgeId" | "submittedAt">>
+): Promise<void> {
+  const db = getDb()
+
+  // Filter out undefined values to avoid Firestore errors
+  const cleanUpdates = Object.fromEntries(
+    Object.entries({
+      ...updates,
+      updatedAt: serverTimestamp(),
+    }).filter(([_, value]) => value !== undefined)
+  )
+
+  await updateDoc(doc(db, "judge_feedback", feedbackId), cleanUpdates)
+}
+
+export async function getJudgeFeedback(projectId: string, judgeId: string): Promise<JudgeFeedback | null> {
+  try {
+    const db = getDb()
+    const feedbackDoc = await getDoc(doc(db, "judge_feedback", getFeedbackId(projectId, judgeId)))
+    if (!feedbackDoc.exists()) return null
+    return toJudgeFeedback(feedbackDoc.id, feedbackDoc.data())
+  } catch (error) {
+    console.error("Error getting judge feedback:", error)
+    return null
+  }
+}
+
+export async function getProjectFeedback(projectId: string): Promise<JudgeFeedback[]> {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "judge_feedback"), where("projectId", "==", projectId))
+    const snapshot = await getDocs(q)
+    return snapshot.docs.map((feedbackDoc) => toJudgeFeedback(feedbackDoc.id, feedbackDoc.data()))
+  } catch (error) {
+    console.error("Error getting project feedback:", error)
+    return []
+  }
+}
+
+export async function getHackathonFeedback(hackathonId: string): Promise<JudgeFeedback[]> {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "judge_feedback"), where("hackathonId", "==", hackathonId))
+    const snapshot = await getDocs(q)
+    return snapshot.docs.map((feedbackDoc) => toJudgeFeedback(feedbackDoc.id, feedbackDoc.data()))
+  } catch (error) {
+    console.error("Error getting hackathon feedback:", error)
+    return []
+  }
+}
+
+// Queries have to constrain the fields the read rule checks or Firestore rejects them: team members filter on
+// isPublic, judges and organizers on the hackathon, and a judge without one only reads their own entry
+export function subscribeToProjectFeedback(
+  projectId: string,
+  callback: (feedback: JudgeFeedback[]) => void,
+  options: { publicOnly?: boolean; hackathonId?: string; judgeId?: string } = {}
+) {
+  try {
+    const db = getDb()
+    const constraints = [where("projectId", "==", projectId)]
+    if (options.publicOnly) {
+      constraints.push(where("isPublic", "==", true))
+    } else if (options.hackathonId) {
+      constraints.push(where("hackathonId", "==", options.hackathonId))
+    } else if (options.judgeId) {
+      constraints.push(where("judgeId", "==", options.judgeId))
+    } else {
+      callback([])
+      return () => {}
+    }
+    const q = query(collection(db, "judge_feedback"), ...constraints)
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        const feedback = snapshot.docs.map((feedbackDoc) => toJudgeFeedback(feedbackDoc.id, feedbackDoc.data()))
+        feedback.sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime())
+        callback(feedback)
+      },
+      (error) => {
+        console.error("Error subscribing to judge feedback:", error)
+        callback([])
+      },
+    )
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+export function subscribeToJudgeFeedback(judgeId: string, callback: (feedback: JudgeFeedback[]) => void) {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "judge_feedback"), where("judgeId", "==", judgeId))
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        callback(snapshot.docs.map((feedbackDoc) => toJudgeFeedback(feedbackDoc.id, feedbackDoc.data())))
+      },
+      (error) => {
+        console.error("Error subscribing to judge feedback:", error)
+        callback([])
+      },
+    )
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+// Judges
+export async function addHackathonJudge(hackathonId: string, email: string): Promise<string> {
+  const db = getDb()
+  const q = query(collection(db, "users"), where("email", "==", email.trim()))
+  const snapshot = await getDocs(q)
+  if (snapshot.empty) {
+    throw new Error(`No HackMate account found for ${email}`)
+  }
+
+  const judgeId = snapshot.docs[0].id
+  await updateDoc(doc(db, "hackathons", hackathonId), { judgeIds: arrayUnion(judgeId) })
+  return judgeId
+}
+
+export async function removeHackathonJudge(hackathonId: string, judgeId: string): Promise<void> {
+  const db = getDb()
+  await updateDoc(doc(db, "hackathons", hackathonId), { judgeIds: arrayRemove(judgeId) })
+}
+
+export async function getJudgeHackathons(judgeId: string): Promise<HackathonEvent[]> {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "hackathons"), where("judgeIds", "array-contains", judgeId))
+    const snapshot = await getDocs(q)
+    const hackathons = await Promise.all(snapshot.docs.map((hackathonDoc) => getHackathon(hackathonDoc.id)))
+    return hackathons.filter((hackathon): hackathon is HackathonEvent => hackathon !== null)
+  } catch (error) {
+    console.error("Error getting judge hackathons:", error)
+    return []
+  }
+}
+
+// Judge Assignments
+function toJudgeAssignment(id: string, data: any): JudgeAssignment {
+  return {
+    ...data,
+    id,
+    assignedAt: data.assignedAt?.toDate?.() || new Date(),
+  } as JudgeAssignment
+}
+
+export async function getJudgeAssignment(projectId: string, judgeId: string): Promise<JudgeAssignment | null> {
+  try {
+    const db = getDb()
+    const assignmentDoc = await getDoc(doc(db, "judge_assignments", getFeedbackId(projectId, judgeId)))
+    if (!assignmentDoc.exists()) return null
+    return toJudgeAssignment(assignmentDoc.id, assignmentDoc.data())
+  } catch (error) {
+    console.error("Error getting judge assignment:", error)
+    return null
+  }
+}
+
+export async function getHackathonAssignments(hackathonId: string): Promise<JudgeAssignment[]> {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "judge_assignments"), where("hackathonId", "==", hackathonId))
+    const snapshot = await getDocs(q)
+    return snapshot.docs.map((assignmentDoc) => toJudgeAssignment(assignmentDoc.id, assignmentDoc.data()))
+  } catch (error) {
+    console.error("Error getting hackathon assignments:", error)
+    return []
+  }
+}
+
+export function subscribeToJudgeAssignments(judgeId: string, callback: (assignments: JudgeAssignment[]) => void) {
+  try {
+    const db = getDb()
+    const q = query(collection(db, "judge_assignments"), where("judgeId", "==", judgeId))
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        const assignments = snapshot.docs.map((assignmentDoc) => toJudgeAssignment(assignmentDoc.id, assignmentDoc.data()))
+        assignments.sort((a, b) => a.projectName.localeCompare(b.projectName))
+        callback(assignments)
+      },
+      (error) => {
+        console.error("Error subscribing to judge assignments:", error)
+        callback([])
+      },
+    )
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+/**
+ * Rebuilds a hackathon's judge assignments. Reviews that were already submitted are kept,
+ * every other pending assignment is replaced by a fresh balanced plan.
+ */
+export async function generateJudgeAssignments(hackathonId: string, reviewsPerProject: number): Promise<AssignmentPlan> {
+  const db = getDb()
+  const hackathon = await getHackathon(hackathonId)
+  if (!hackathon) throw new Error("Hackathon not found")
+
+  const judgeIds = hackathon.judgeIds || []
+  if (judgeIds.length === 0) throw new Error("Add judges before generating assignments")
+
+  const [projects, currentAssignments, feedback] = await Promise.all([
+    getHackathonTeams(hackathonId),
+    getHackathonAssignments(hackathonId),
+    getHackathonFeedback(hackathonId),
+  ])
+
+  const reviewedIds = new Set(feedback.map((f) => f.id))
+  const completed = currentAssignments.filter((assignment) => reviewedIds.has(assignment.id))
+  const plan = planJudgeAssignments(projects, judgeIds, reviewsPerProject, completed)
+  const projectNames = new Map(projects.map((project) => [project.id, project.name]))
+
+  const writes: ((batch: ReturnType<typeof writeBatch>) => void)[] = []
+  for (const assignment of currentAssignments) {
+    if (!reviewedIds.has(assignment.id)) {
+      writes.push((batch) => batch.delete(doc(db, "judge_assignments", assignment.id)))
+    }
+  }
+  for (const pair of plan.assignments) {
+    const assignmentId = getFeedbackId(pair.projectId, pair.judgeId)
+    writes.push((batch) =>
+      batch.set(doc(db, "judge_assignments", assignmentId), {
+        hackathonId,
+        projectId: pair.projectId,
+        projectName: projectNames.get(pair.projectId) || "",
+        judgeId: pair.judgeId,
+        assignedAt: serverTimestamp(),
+      })
+    )
+  }
+  writes.push((batch) =>
+    batch.update(doc(db, "hackathons", hackathonId), { "settings.reviewsPerProject": reviewsPerProject })
+  )
+
+  // Firestore batches are capped at 500 writes
+  for (let i = 0; i < writes.length; i += 500) {
+    const batch = writeBatch(db)
+    writes.slice(i, i + 500).forEach((write) => write(batch))
+    await batch.commit()
+  }
+
+  return plan
+}
+
+// Rubrics
+const WEIGHT_TOLERANCE = 0.001
+
+// Hackathons without a custom rubric are judged on the default criteria
+export function getRubricCriteria(settings?: Partial<HackathonSettings>): JudgingCriteria[] {
+  return settings?.judgingCriteria?.length ? settings.judgingCriteria : DEFAULT_CRITERIA
+}
+
+// A track with its own criteria is judged on those alone; every other project uses the general criteria
+export function getCriteriaForTrack(criteria: JudgingCriteria[], track?: string): JudgingCriteria[] {
+  if (track) {
+    const trackCriteria = criteria.filter((criterion) => criterion.track === track)
+    if (trackCriteria.length > 0) return trackCriteria
+  }
+  return criteria.filter((criterion) => !criterion.track)
+}
+
+export function getDefaultScores(criteria: JudgingCriteria[]): JudgeScores {
+  return Object.fromEntries(criteria.map((criterion) => [criterion.name, criterion.maxScore / 2]))
+}
+
+export function validateRubric(criteria: JudgingCriteria[]): string | null {
+  const general = criteria.filter((criterion) => !criterion.track)
+  if (general.length === 0) return "The rubric needs at least one general criterion"
+
+  for (const criterion of criteria) {
+    if (!criterion.name.trim()) return "Every criterion needs a name"
+    if (!(criterion.maxScore > 0)) return `Max score for "${criterion.name}" must be greater than 0`
+    if (!(criterion.weight > 0)) return `Weight for "${criterion.name}" must be greater than 0`
+  }
+
+  const tracks = Array.from(new Set(criteria.map((criterion) => criterion.track).filter((track): track is string => !!track)))
+  const rubrics: [string, JudgingCriteria[]][] = [
+    ["general criteria", general],
+    ...tracks.map((track): [string, JudgingCriteria[]] => [`the ${track} track`, getCriteriaForTrack(criteria, track)]),
+  ]
+
+  for (const [label, rubric] of rubrics) {
+    const names = rubric.map((criterion) => criterion.name.trim().toLowerCase())
+    if (new Set(names).size !== names.length) return `Criterion names for ${label} must be unique`
+
+    const totalWeight = rubric.reduce((sum, criterion) => sum + criterion.weight, 0)
+    if (Math.abs(totalWeight - 1) > WEIGHT_TOLERANCE) {
+      return `Weights for ${label} must sum to 100% (currently ${(totalWeight * 100).toFixed(0)}%)`
+    }
+  }
+
+  return null
+}
+
+// Scoring & Aggregation
+// Each score is normalised against its criterion's max so the overall score is always out of 10
+export function calculateOverallScore(scores: JudgeScores, criteria: JudgingCriteria[] = DEFAULT_CRITERIA): number {
+  return criteria.reduce((total, criterion) => {
+    const score = scores[criterion.name] || 0
+    return total + (score / criterion.maxScore) * 10 * criterion.weight
+  }, 0)
+}
+
+export function calculateStatistics(values: number[]): ScoreStatistics {
+  if (values.length === 0) {
+    return { mean: 0, median: 0, stdDev: 0, min: 0, max: 0, count: 0 }
+  }
+
+  const sorted = [...values].sort((a, b) => a - b)
+  const count = sorted.length
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / count
+  const middle = Math.floor(count / 2)
+  const median = count % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+  // Population standard deviation: every judge who scored the project is part of the sample
+  const variance = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / count
+
+  return {
+    mean,
+    median,
+    stdDev: Math.sqrt(variance),
+    min: sorted[0],
+    max: sorted[count - 1],
+    count,
+  }
+}
+
+export function aggregateProjectFeedback(
+  projectId: string,
+  feedback: JudgeFeedback[],
+  criteria: JudgingCriteria[] = DEFAULT_CRITERIA
+): ProjectJudgingResult {
+  const projectFeedback = feedback.filter((f) => f.projectId === projectId)
+
+  const criteriaStats: Record<string, ScoreStatistics> = {}
+  for (const criterion of criteria) {
+    const scores = projectFeedback
+      .map((f) => f.scores[criterion.name])
+      .filter((score): score is number => typeof score === "number")
+    criteriaStats[criterion.name] = calculateStatistics(scores)
+  }
+
+  const recommendations: Record<JudgeRecommendation, number> = {
+    winner: 0,
+    finalist: 0,
+    honorable_mention: 0,
+    participant: 0,
+  }
+  projectFeedback.forEach((f) => {
+    recommendations[f.recommendation] = (recommendations[f.recommendation] || 0) + 1
+  })
+
+  return {
+    projectId,
+    judgeCount: projectFeedback.length,
+    criteria: criteriaStats,
+    overall: calculateStatistics(projectFeedback.map((f) => calculateOverallScore(f.scores, criteria))),
+    recommendations,
+  }
+}
+
+// Pass a function when projects in different tracks are judged on different criteria
+export function aggregateHackathonFeedback(
+  feedback: JudgeFeedback[],
+  criteria: JudgingCriteria[] | ((projectId: string) => JudgingCriteria[]) = DEFAULT_CRITERIA
+): ProjectJudgingResult[] {
+  const projectIds = Array.from(new Set(feedback.map((f) => f.projectId)))
+  return projectIds.map((projectId) =>
+    aggregateProjectFeedback(projectId, feedback, typeof criteria === "function" ? criteria(projectId) : criteria)
+  )
+}
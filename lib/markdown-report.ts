@@ -0,0 +1,340 @@
+import type { ExportOptions, ProjectExportData } from './export-service';
+import { Milestone, Task } from './types';
+import { getChecklistProgress } from './task-checklist';
+
+/**
+ * Project writeup for a team's repository: a README.md and a static HTML site.
+ * Both follow the sections chosen in ExportOptions; milestones are included whenever the
+ * export data carries them.
+ */
+
+const STATUS_ORDER: Task['status'][] = ['InProgress', 'Blocked', 'ToDo', 'Done'];
+
+const STATUS_LABELS: Record<Task['status'], string> = {
+  ToDo: 'To Do',
+  InProgress: 'In Progress',
+  Blocked: 'Blocked',
+  Done: 'Done',
+};
+
+const MILESTONE_LABELS: Record<Milestone['status'], string> = {
+  upcoming: 'Upcoming',
+  active: 'Active',
+  completed: 'Completed',
+  overdue: 'Overdue',
+};
+
+function formatDate(value: unknown): string {
+  const date = value instanceof Date ? value : new Date(value as any);
+  if (isNaN(date.getTime())) return 'N/A';
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+// Project tech stack first, then the idea's suggestions it does not already list
+function getTechStack(data: ProjectExportData): string[] {
+  return Array.from(new Set([...(data.project.techStack || []), ...(data.project.idea?.tech_stack_suggestions || [])]));
+}
+
+function getAssigneeName(data: ProjectExportData, task: Task): string {
+  if (!task.assigned_to) return 'Unassigned';
+  return data.members.find(m => m.user_id === task.assigned_to)?.name || 'Unknown';
+}
+
+const escapeCell = (value: unknown) => String(value ?? '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+function markdownTable(headers: string[], rows: unknown[][]): string {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`),
+  ].join('\n');
+}
+
+/** Renders the project as a README.md for the team's repository. */
+export function renderProjectMarkdown(data: ProjectExportData, options: ExportOptions): string {
+  const { project, tasks, members, analytics, milestones } = data;
+  const sections: string[] = [`# ${project.name}`];
+
+  if (project.description) sections.push(`> ${project.description.replace(/\n/g, '\n> ')}`);
+
+  const meta = [
+    project.track ? `**Track:** ${project.track}` : null,
+    project.duration ? `**Duration:** ${project.duration}` : null,
+    `**Status:** ${project.status}`,
+    `**Started:** ${formatDate(project.createdAt)}`,
+  ].filter(Boolean);
+  const links = [
+    project.demo_url ? `[Live demo](${project.demo_url})` : null,
+    project.github_repo ? `[Source code](${project.github_repo})` : null,
+  ].filter(Boolean);
+  sections.push([meta.join(' · '), links.join(' · ')].filter(Boolean).join('  \n'));
+
+  if (options.includeIdea && project.idea) {
+    const { idea } = project;
+    const lines = ['## The Idea', '', '### Problem', '', idea.problem_statement];
+    if (idea.target_users?.length) lines.push('', '### Target Users', '', ...idea.target_users.map(user => `- ${user}`));
+    if (idea.risks?.length) lines.push('', '### Risks', '', ...idea.risks.map(risk => `- ${risk}`));
+    sections.push(lines.join('\n'));
+
+    if (idea.features?.length) {
+      sections.push(['## Features', '', ...idea.features.map(feature => `- ${feature}`)].join('\n'));
+    }
+  }
+
+  const techStack = getTechStack(data);
+  if (techStack.length > 0) {
+    sections.push(['## Tech Stack', '', techStack.map(tech => `\`${tech.replace(/`/g, "'")}\``).join(' · ')].join('\n'));
+  }
+
+  if (options.includeTeam && members.length > 0) {
+    sections.push([
+      '## Team',
+      '',
+      markdownTable(['Name', 'Role', 'Skills'], members.map(member => [
+        member.github_username ? `[${member.name}](https://github.com/${member.github_username})` : member.name,
+        member.role || 'Team Member',
+        member.skills?.join(', ') || '-',
+      ])),
+    ].join('\n'));
+  }
+
+  if (options.includeTasks) {
+    const done = tasks.filter(t => t.status === 'Done').length;
+    const lines = [
+      '## Task Summary',
+      '',
+      `${done} of ${tasks.length} tasks done (${tasks.length > 0 ? Math.round((done / tasks.length) * 100) : 0}%).`,
+      '',
+      markdownTable(['Status', 'Tasks'], STATUS_ORDER.map(status => [STATUS_LABELS[status], tasks.filter(t => t.status === status).length])),
+    ];
+
+    for (const status of STATUS_ORDER) {
+      const group = tasks.filter(t => t.status === status);
+      if (group.length === 0) continue;
+      lines.push('', `### ${STATUS_LABELS[status]}`, '');
+      for (const task of group) {
+        const checklist = task.checklist?.length ? `, checklist ${getChecklistProgress(task).done}/${task.checklist.length}` : '';
+        lines.push(`- [${status === 'Done' ? 'x' : ' '}] ${task.title.replace(/\n/g, ' ')} (${task.priority || 'No priority'}, ${getAssigneeName(data, task)}${checklist})`);
+      }
+    }
+    sections.push(lines.join('\n'));
+  }
+
+  if (options.includeAnalytics && analytics) {
+    sections.push([
+      '## Analytics',
+      '',
+      markdownTable(['Metric', 'Value'], [
+        ['Tasks completed', `${analytics.completedTasks} / ${analytics.totalTasks}`],
+        ['Completion rate', `${Math.round(analytics.completionRate * 100)}%`],
+        ['Team velocity', `${analytics.teamVelocity.toFixed(1)} tasks/hour`],
+        ['Time elapsed', analytics.timeElapsed],
+      ]),
+    ].join('\n'));
+  }
+
+  if (milestones?.length) {
+    sections.push([
+      '## Milestones',
+      '',
+      markdownTable(['Milestone', 'Deadline', 'Status'], milestones.map(milestone => [
+        milestone.description ? `**${milestone.name}** - ${milestone.description}` : `**${milestone.name}**`,
+        formatDate(milestone.deadline),
+        MILESTONE_LABELS[milestone.status] || milestone.status,
+      ])),
+    ].join('\n'));
+  }
+
+  sections.push(`---\n\n_Generated by HackMate AI on ${formatDate(new Date())}._`);
+  return `${sections.join('\n\n')}\n`;
+}
+
+export const SITE_STYLES = `body {
+  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+  line-height: 1.6;
+  color: #333;
+  max-width: 800px;
+  margin: 0 auto;
+  padding: 20px;
+}
+a { color: #2563eb; }
+.header { text-align: center; border-bottom: 2px solid #eee; padding-bottom: 20px; margin-bottom: 30px; }
+.project-title { font-size: 2.5em; margin: 0; color: #2563eb; }
+.project-description { font-size: 1.15em; color: #4b5563; }
+.project-meta { color: #666; margin-top: 10px; }
+.section { margin-bottom: 30px; }
+.section-title { font-size: 1.5em; color: #1f2937; border-bottom: 1px solid #e5e7eb; padding-bottom: 5px; margin-bottom: 15px; }
+.idea-section { background: #f8fafc; padding: 20px; border-radius: 8px; margin-bottom: 20px; }
+.problem-statement { font-style: italic; color: #4b5563; margin-bottom: 15px; }
+.features-list { list-style-type: none; padding: 0; }
+.features-list li { border-left: 3px solid #10b981; padding: 5px 0 5px 15px; margin-bottom: 5px; }
+.tech-stack { display: flex; flex-wrap: wrap; gap: 8px; margin-top: 10px; }
+.tech-badge { background: #e5e7eb; padding: 4px 8px; border-radius: 4px; font-size: 0.9em; }
+.data-table { width: 100%; border-collapse: collapse; margin-top: 15px; }
+.data-table th, .data-table td { border: 1px solid #e5e7eb; padding: 8px 12px; text-align: left; }
+.data-table th { background: #f9fafb; font-weight: 600; }
+.status-badge { padding: 2px 8px; border-radius: 12px; font-size: 0.8em; font-weight: 500; white-space: nowrap; }
+.status-todo, .status-upcoming { background: #fef3c7; color: #92400e; }
+.status-inprogress, .status-active { background: #dbeafe; color: #1e40af; }
+.status-blocked, .status-overdue { background: #fee2e2; color: #991b1b; }
+.status-done, .status-completed { background: #d1fae5; color: #065f46; }
+.analytics-grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(170px, 1fr)); gap: 20px; margin-top: 15px; }
+.metric-card { background: #f8fafc; padding: 15px; border-radius: 8px; text-align: center; }
+.metric-value { font-size: 2em; font-weight: bold; color: #2563eb; }
+.metric-label { color: #6b7280; font-size: 0.9em; }
+.team-grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(230px, 1fr)); gap: 15px; margin-top: 15px; }
+.member-card { border: 1px solid #e5e7eb; padding: 15px; border-radius: 8px; }
+.member-name { font-weight: 600; margin-bottom: 5px; }
+.member-role { color: #6b7280; font-size: 0.9em; text-transform: capitalize; }
+.footer { text-align: center; margin-top: 50px; padding-top: 20px; border-top: 1px solid #e5e7eb; color: #6b7280; font-size: 0.9em; }
+@media print {
+  body { margin: 0; padding: 15px; }
+  .section { page-break-inside: avoid; }
+}
+`;
+
+const statusBadge = (key: string, label: string) =>
+  `<span class="status-badge status-${key.toLowerCase()}">${escapeHtml(label)}</span>`;
+
+/** Renders the project as a standalone index.html that links to styles.css next to it. */
+export function renderProjectSite(data: ProjectExportData, options: ExportOptions): string {
+  const { project, tasks, members, analytics, milestones } = data;
+  const sections: string[] = [];
+
+  if (options.includeIdea && project.idea) {
+    const { idea } = project;
+    sections.push(`
+    <section class="section">
+      <h2 class="section-title">Project Idea</h2>
+      <div class="idea-section">
+        <div class="problem-statement"><strong>Problem Statement:</strong><br>${escapeHtml(idea.problem_statement)}</div>
+        ${idea.target_users?.length ? `<div><strong>Target Users:</strong><br>${escapeHtml(idea.target_users.join(', '))}</div>` : ''}
+        ${idea.features?.length ? `
+        <div>
+          <strong>Key Features:</strong>
+          <ul class="features-list">${idea.features.map(feature => `<li>${escapeHtml(feature)}</li>`).join('')}</ul>
+        </div>` : ''}
+        ${idea.risks?.length ? `
+        <div>
+          <strong>Identified Risks:</strong>
+          <ul>${idea.risks.map(risk => `<li>${escapeHtml(risk)}</li>`).join('')}</ul>
+        </div>` : ''}
+      </div>
+    </section>`);
+  }
+
+  const techStack = getTechStack(data);
+  if (techStack.length > 0) {
+    sections.push(`
+    <section class="section">
+      <h2 class="section-title">Tech Stack</h2>
+      <div class="tech-stack">${techStack.map(tech => `<span class="tech-badge">${escapeHtml(tech)}</span>`).join('')}</div>
+    </section>`);
+  }
+
+  if (options.includeTasks) {
+    sections.push(`
+    <section class="section">
+      <h2 class="section-title">Tasks (${tasks.length})</h2>
+      <table class="data-table">
+        <thead><tr><th>Task</th><th>Status</th><th>Effort</th><th>Priority</th><th>Assigned To</th></tr></thead>
+        <tbody>${tasks.map(task => `
+          <tr>
+            <td><strong>${escapeHtml(task.title)}</strong>${task.description ? `<br><small style="color: #6b7280;">${escapeHtml(task.description)}</small>` : ''}</td>
+            <td>${statusBadge(task.status, STATUS_LABELS[task.status] || task.status)}</td>
+            <td>${escapeHtml(task.effort)}</td>
+            <td>${escapeHtml(task.priority || '-')}</td>
+            <td>${escapeHtml(getAssigneeName(data, task))}</td>
+          </tr>`).join('')}
+        </tbody>
+      </table>
+    </section>`);
+  }
+
+  if (milestones?.length) {
+    sections.push(`
+    <section class="section">
+      <h2 class="section-title">Milestones</h2>
+      <table class="data-table">
+        <thead><tr><th>Milestone</th><th>Deadline</th><th>Status</th></tr></thead>
+        <tbody>${milestones.map(milestone => `
+          <tr>
+            <td><strong>${escapeHtml(milestone.name)}</strong>${milestone.description ? `<br><small style="color: #6b7280;">${escapeHtml(milestone.description)}</small>` : ''}</td>
+            <td>${formatDate(milestone.deadline)}</td>
+            <td>${statusBadge(milestone.status, MILESTONE_LABELS[milestone.status] || milestone.status)}</td>
+          </tr>`).join('')}
+        </tbody>
+      </table>
+    </section>`);
+  }
+
+  if (options.includeAnalytics && analytics) {
+    const metrics = [
+      { value: String(analytics.completedTasks), label: 'Tasks Completed' },
+      { value: `${Math.round(analytics.completionRate * 100)}%`, label: 'Completion Rate' },
+      { value: analytics.teamVelocity.toFixed(1), label: 'Tasks/Hour' },
+      { value: analytics.timeElapsed, label: 'Time Elapsed' },
+    ];
+    sections.push(`
+    <section class="section">
+      <h2 class="section-title">Project Analytics</h2>
+      <div class="analytics-grid">${metrics.map(metric => `
+        <div class="metric-card"><div class="metric-value">${escapeHtml(metric.value)}</div><div class="metric-label">${metric.label}</div></div>`).join('')}
+      </div>
+    </section>`);
+  }
+
+  if (options.includeTeam) {
+    sections.push(`
+    <section class="section">
+      <h2 class="section-title">Team Members (${members.length})</h2>
+      <div class="team-grid">${members.map(member => `
+        <div class="member-card">
+          <div class="member-name">${escapeHtml(member.name)}</div>
+          <div class="member-role">${escapeHtml(member.role || 'Team Member')}</div>
+          ${member.github_username ? `<a href="https://github.com/${encodeURIComponent(member.github_username)}">@${escapeHtml(member.github_username)}</a>` : ''}
+          ${member.skills?.length ? `<div class="tech-stack">${member.skills.map(skill => `<span class="tech-badge">${escapeHtml(skill)}</span>`).join('')}</div>` : ''}
+        </div>`).join('')}
+      </div>
+    </section>`);
+  }
+
+  const links = [
+    project.demo_url ? `<a href="${escapeHtml(project.demo_url)}">Live demo</a>` : '',
+    project.github_repo ? `<a href="${escapeHtml(project.github_repo)}">Source code</a>` : '',
+  ].filter(Boolean);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(project.name)}</title>
+  <link rel="stylesheet" href="styles.css">
+</head>
+<body>
+  <header class="header">
+    <h1 class="project-title">${escapeHtml(project.name)}</h1>
+    ${project.description ? `<p class="project-description">${escapeHtml(project.description)}</p>` : ''}
+    <div class="project-meta">
+      ${project.duration ? `<strong>Duration:</strong> ${escapeHtml(project.duration)} | ` : ''}<strong>Status:</strong> ${escapeHtml(project.status)} |
+      <strong>Started:</strong> ${formatDate(project.createdAt)}
+    </div>
+    ${links.length > 0 ? `<p>${links.join(' · ')}</p>` : ''}
+  </header>
+  <main>${sections.join('\n')}
+  </main>
+  <footer class="footer">
+    <p>Generated by HackMate AI on ${formatDate(new Date())}</p>
+  </footer>
+</body>
+</html>
+`;
+}
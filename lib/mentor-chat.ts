@@ -0,0 +1,222 @@
+/**
+ * AI mentor chat prompt construction
+ * Shared by the buffered (/api/gemini) and streaming (/api/gemini/stream) routes.
+ * Builds a conversation from the persona, the most relevant project facts, a summary of older
+ * turns and a rolling window of recent turns, all within the provider's prompt budget.
+ */
+
+import { createHash } from "crypto"
+import { completeWithBudget, estimateTokens, truncateToTokens, type AIMessage } from "./ai-provider"
+import type { MentorFact, MentorFactKind, MentorTurn } from "./mentor-context"
+
+export type MentorPersona = "general" | "technical" | "product" | "pitch"
+
+export interface MentorChatInput {
+  question?: string
+  persona?: string
+  history?: MentorTurn[]
+  facts?: MentorFact[]
+  context?: unknown // Legacy flattened context, used when no facts are sent
+}
+
+export interface MentorChatOptions {
+  scope: string // Cached summaries are only reused within this scope, e.g. the verified user id
+  onSummarize?: () => Promise<void> // Meters the summarization call; throwing skips it for an extractive summary
+}
+
+const PERSONA_INSTRUCTIONS: Record<MentorPersona, string> = {
+  technical:
+    "You are a Senior Chief Technology Officer (CTO) mentor. Focus on architecture, code quality, best practices, scalability, and solving specific bugs. Provide code snippets where helpful.",
+  product:
+    "You are a Lead Product Manager mentor. Focus on user value, MVP definition, feature prioritization, 'jobs to be done', and user experience. Helps cut scope to meet deadlines.",
+  pitch:
+    "You are a Pitch Deck Coach and Venture Capitalist. Focus on storytelling, the 'hook', business model, market size, and presentation delivery. Critique the pitch.",
+  general:
+    "You are an experienced Hackathon Guide. You provide balanced advice on teamwork, time management, stress reduction, and overall project success.",
+}
+
+// Share of the prompt budget left after the instructions and question
+const BUDGET_SHARES = { facts: 0.4, summary: 0.15, history: 0.45 }
+
+// Baseline relevance per fact kind, so blockers and the idea surface even without keyword overlap
+const KIND_PRIORS: Record<MentorFactKind, number> = {
+  blocker: 1.5,
+  project: 1.2,
+  idea: 0.8,
+  milestone: 0.7,
+  task: 0.4,
+  commit: 0.3,
+  team: 0.2,
+  activity: 0.1,
+}
+
+const STOPWORDS = new Set(
+  "the and for are but not you your our with this that what how why when who can should could would will have has was were from into about there their them they its it's just than then also any all some more most very been being does did doing which".split(
+    " "
+  )
+)
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 2 && !STOPWORDS.has(word))
+    .map((word) => (word.length > 4 && word.endsWith("s") ? word.slice(0, -1) : word))
+}
+
+/**
+ * Orders facts by relevance to the question: keyword overlap weighted by inverse document
+ * frequency (rare words like a feature name count more than "task"), plus a per-kind prior.
+ */
+export function rankFacts(question: string, facts: MentorFact[]): MentorFact[] {
+  const questionTerms = new Set(tokenize(question))
+  const factTerms = facts.map((fact) => new Set(tokenize(fact.text)))
+
+  const documentFrequency = new Map<string, number>()
+  factTerms.forEach((terms) => terms.forEach((term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)))
+
+  const scored = facts.map((fact, index) => {
+    let score = KIND_PRIORS[fact.kind] ?? 0
+    questionTerms.forEach((term) => {
+      if (factTerms[index].has(term)) {
+        score += Math.log(1 + facts.length / (documentFrequency.get(term) || 1))
+      }
+    })
+    return { fact, score, index }
+  })
+
+  return scored.sort((a, b) => b.score - a.score || a.index - b.index).map((s) => s.fact)
+}
+
+function takeWithinBudget<T>(items: T[], budget: number, toText: (item: T) => string): T[] {
+  const taken: T[] = []
+  let used = 0
+  for (const item of items) {
+    const cost = estimateTokens(toText(item))
+    if (used + cost > budget) continue
+    taken.push(item)
+    used += cost
+  }
+  return taken
+}
+
+/**
+ * Splits history into turns that fit the rolling window (newest first) and older turns
+ * that need to be summarized. The window never starts with an orphaned assistant reply.
+ */
+export function splitHistory(history: MentorTurn[], budget: number): { older: MentorTurn[]; recent: MentorTurn[] } {
+  let used = 0
+  let start = history.length
+
+  while (start > 0) {
+    const cost = estimateTokens(history[start - 1].content)
+    if (used + cost > budget) break
+    used += cost
+    start--
+  }
+
+  while (start < history.length && history[start].role === "assistant") start++
+
+  return { older: history.slice(0, start), recent: history.slice(start) }
+}
+
+// Summaries are reused while the same older turns keep falling out of the window
+const summaryCache = new Map<string, string>()
+const SUMMARY_CACHE_LIMIT = 200
+
+function getSummaryKey(scope: string, turns: MentorTurn[]): string {
+  const hash = createHash("sha256")
+  for (const turn of turns) hash.update(`${turn.role}\0${turn.content}\0`)
+  return `${scope}:${hash.digest("hex")}`
+}
+
+// Used when the summarization call fails: keep the user's earlier questions verbatim
+function extractiveSummary(turns: MentorTurn[]): string {
+  return turns
+    .filter((t) => t.role === "user")
+    .map((t) => `- Asked: ${t.content.split("\n")[0]}`)
+    .join("\n")
+}
+
+export async function summarizeTurns(
+  turns: MentorTurn[],
+  maxTokens: number,
+  options: MentorChatOptions
+): Promise<string> {
+  if (turns.length === 0 || maxTokens <= 0) return ""
+
+  const key = getSummaryKey(options.scope, turns)
+  const cached = summaryCache.get(key)
+  if (cached) return truncateToTokens(cached, maxTokens)
+
+  const transcript = turns.map((t) => `${t.role === "user" ? "Team" : "Mentor"}: ${t.content}`).join("\n\n")
+  let summary: string
+
+  try {
+    await options.onSummarize?.()
+    summary = await completeWithBudget(
+      [
+        {
+          role: "user",
+          content: `Summarize this conversation between a hackathon team and their mentor in under ${Math.max(
+            40,
+            Math.floor(maxTokens * 0.7)
+          )} words. Keep decisions made, advice given and open questions. Plain text, no preamble.
+
+${transcript}`,
+        },
+      ],
+      { temperature: 0.2, maxTokens }
+    )
+  } catch (error) {
+    console.warn("Mentor history summarization failed, using extractive summary:", error)
+    summary = extractiveSummary(turns)
+  }
+
+  if (summaryCache.size >= SUMMARY_CACHE_LIMIT) {
+    summaryCache.delete(summaryCache.keys().next().value as string)
+  }
+  summaryCache.set(key, summary)
+
+  return truncateToTokens(summary, maxTokens)
+}
+
+export async function buildMentorMessages(
+  data: MentorChatInput,
+  promptBudget: number,
+  options: MentorChatOptions
+): Promise<AIMessage[]> {
+  const persona = (data.persona && data.persona in PERSONA_INSTRUCTIONS ? data.persona : "general") as MentorPersona
+  const question = data.question || ""
+
+  const instructions = `${PERSONA_INSTRUCTIONS[persona]}
+
+You are helping a team at a hackathon. Time is critical.
+Be encouraging but direct. Use Markdown formatting.
+Ground your advice in the project facts below and refer to tasks and teammates by name.`
+
+  const available = Math.max(0, promptBudget - estimateTokens(instructions) - estimateTokens(question))
+
+  // Facts
+  let factsSection = ""
+  if (data.facts?.length) {
+    const facts = takeWithinBudget(rankFacts(question, data.facts), available * BUDGET_SHARES.facts, (f) => f.text)
+    factsSection = `Project facts (most relevant first):\n${facts.map((f) => `- ${f.text}`).join("\n")}`
+  } else if (data.context) {
+    const context = typeof data.context === "string" ? data.context : JSON.stringify(data.context)
+    factsSection = `Project Context:\n${truncateToTokens(context, available * BUDGET_SHARES.facts)}`
+  }
+
+  // Conversation memory
+  const { older, recent } = splitHistory(data.history || [], available * BUDGET_SHARES.history)
+  const summary = await summarizeTurns(older, Math.floor(available * BUDGET_SHARES.summary), options)
+  const summarySection = summary ? `Earlier in this conversation:\n${summary}` : ""
+
+  const system = [instructions, factsSection, summarySection].filter(Boolean).join("\n\n")
+
+  return [
+    { role: "system", content: system },
+    ...recent.map((turn) => ({ role: turn.role, content: turn.content })),
+    { role: "user", content: question },
+  ]
+}
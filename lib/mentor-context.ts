@@ -0,0 +1,135 @@
+/**
+ * Project facts and conversation history sent with mentor chat requests.
+ * Built on the client from live project state; the server ranks and budgets them (lib/mentor-chat.ts).
+ */
+
+import type { ChatMessage, LiveActivity, Milestone, Project, ProjectMember, Task } from "./types"
+
+export type MentorFactKind = "project" | "idea" | "blocker" | "task" | "milestone" | "commit" | "activity" | "team"
+
+export interface MentorFact {
+  kind: MentorFactKind
+  text: string
+}
+
+export interface MentorTurn {
+  role: "user" | "assistant"
+  content: string
+}
+
+export interface MentorCommit {
+  message: string
+  author: string
+  date: string
+}
+
+export interface MentorProjectSnapshot {
+  project: Project
+  tasks: Task[]
+  members: ProjectMember[]
+  activities: LiveActivity[]
+  milestones: Milestone[]
+  commits: MentorCommit[]
+}
+
+// Older turns beyond this are dropped client-side; the server summarizes whatever does not fit its window
+export const MENTOR_HISTORY_LIMIT = 40
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric" })
+
+export function toMentorHistory(messages: ChatMessage[], limit = MENTOR_HISTORY_LIMIT): MentorTurn[] {
+  return messages
+    .filter((m) => m.content?.trim())
+    .slice(-limit)
+    .map((m) => ({ role: m.sender_type === "ai" ? "assistant" : "user", content: m.content }))
+}
+
+export function buildProjectFacts(snapshot: MentorProjectSnapshot): MentorFact[] {
+  const { project, tasks, members, activities, milestones, commits } = snapshot
+  const facts: MentorFact[] = []
+  const now = Date.now()
+
+  const memberName = (userId: string | null) =>
+    (userId && members.find((m) => m.user_id === userId)?.name) || "unassigned"
+  const taskTitle = (taskId: string) => tasks.find((t) => t.task_id === taskId)?.title || taskId
+
+  facts.push({
+    kind: "project",
+    text: `Project "${project.name}" (${project.status})${project.description ? `: ${project.description}` : ""}${
+      project.techStack?.length ? `. Tech stack: ${project.techStack.join(", ")}` : ""
+    }`,
+  })
+
+  const done = tasks.filter((t) => t.status === "Done").length
+  facts.push({ kind: "project", text: `Progress: ${done}/${tasks.length} tasks done, team of ${members.length}` })
+
+  if (project.idea) {
+    const idea = project.idea
+    facts.push({ kind: "idea", text: `Problem statement: ${idea.problem_statement}` })
+    if (idea.target_users?.length) facts.push({ kind: "idea", text: `Target users: ${idea.target_users.join(", ")}` })
+    idea.features?.forEach((feature) => facts.push({ kind: "idea", text: `Planned feature: ${feature}` }))
+    idea.risks?.forEach((risk) => facts.push({ kind: "idea", text: `Known risk: ${risk}` }))
+    if (idea.tech_stack_suggestions?.length) {
+      facts.push({ kind: "idea", text: `Suggested tech: ${idea.tech_stack_suggestions.join(", ")}` })
+    }
+  }
+
+  for (const task of tasks) {
+    if (task.status === "Done") continue
+
+    const pendingDeps = (task.dependencies || []).filter(
+      (depId) => tasks.find((t) => t.task_id === depId)?.status !== "Done"
+    )
+    const overdue = task.due_date && new Date(task.due_date).getTime() < now
+
+    if (pendingDeps.length > 0) {
+      facts.push({
+        kind: "blocker",
+        text: `Blocked: "${task.title}" waits on ${pendingDeps.map((id) => `"${taskTitle(id)}"`).join(", ")}`,
+      })
+    } else if (overdue) {
+      facts.push({
+        kind: "blocker",
+        text: `Overdue: "${task.title}" was due ${formatDate(task.due_date!)} (${memberName(task.assigned_to)})`,
+      })
+    }
+
+    facts.push({
+      kind: "task",
+      text: `Open task "${task.title}" — ${task.status}, ${task.priority} priority, ${task.effort} effort, ${memberName(
+        task.assigned_to
+      )}${task.description ? `. ${task.description}` : ""}`,
+    })
+  }
+
+  for (const milestone of milestones) {
+    if (milestone.status === "completed") continue
+    facts.push({
+      kind: "milestone",
+      text: `Milestone "${milestone.name}" (${milestone.status}) due ${formatDate(milestone.deadline)}${
+        milestone.description ? `: ${milestone.description}` : ""
+      }`,
+    })
+  }
+
+  for (const commit of commits) {
+    facts.push({
+      kind: "commit",
+      text: `Commit by ${commit.author} on ${formatDate(commit.date)}: ${commit.message.split("\n")[0]}`,
+    })
+  }
+
+  activities.slice(0, 10).forEach((activity) => facts.push({ kind: "activity", text: activity.description }))
+
+  for (const member of members) {
+    facts.push({
+      kind: "team",
+      text: `${member.name} (${member.role}, ${member.availability})${
+        member.skills?.length ? ` skills: ${member.skills.join(", ")}` : ""
+      }`,
+    })
+  }
+
+  return facts
+}
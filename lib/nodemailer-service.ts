@@ -476,6 +476,107 @@ The HackMate AI Team
     });
   }
 
+  static async sendMentionEmail(
+    recipientEmail: string,
+    authorName: string,
+    projectName: string,
+    taskTitle: string,
+    comment: string,
+    taskUrl: string
+  ): Promise<void> {
+    const subject = `${authorName} mentioned you on "${taskTitle}"`;
+    const excerpt = comment.length > 500 ? `${comment.slice(0, 500)}…` : comment;
+    const escape = (value: string) =>
+      value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>You were mentioned</title>
+        <style>
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+          }
+          .header {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+            padding: 30px;
+            border-radius: 10px 10px 0 0;
+            text-align: center;
+          }
+          .content {
+            background: #f8f9fa;
+            padding: 30px;
+            border-radius: 0 0 10px 10px;
+          }
+          .comment {
+            background: white;
+            border-left: 4px solid #667eea;
+            padding: 15px;
+            border-radius: 4px;
+            margin: 20px 0;
+            white-space: pre-wrap;
+          }
+          .cta-button {
+            display: inline-block;
+            background: #667eea;
+            color: white;
+            padding: 15px 30px;
+            text-decoration: none;
+            border-radius: 8px;
+            font-weight: 600;
+            margin: 20px 0;
+            text-align: center;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>💬 You were mentioned</h1>
+          <p>${escape(projectName)}</p>
+        </div>
+        
+        <div class="content">
+          <p><strong>${escape(authorName)}</strong> mentioned you in a comment on <strong>${escape(taskTitle)}</strong>:</p>
+          
+          <div class="comment">${escape(excerpt)}</div>
+          
+          <div style="text-align: center;">
+            <a href="${escape(taskUrl)}" class="cta-button">Reply on HackMate AI</a>
+          </div>
+          
+          <p><strong>The HackMate AI Team</strong></p>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+${authorName} mentioned you on "${taskTitle}" (${projectName})
+
+${excerpt}
+
+Reply: ${taskUrl}
+
+The HackMate AI Team
+    `;
+
+    await this.sendEmail({
+      to: recipientEmail,
+      subject,
+      html,
+      text,
+    });
+  }
+
   static async testConnection(): Promise<boolean> {
     try {
       const transporter = this.createTransporter();
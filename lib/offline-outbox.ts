@@ -0,0 +1,514 @@
+/**
+ * Offline outbox for task, milestone and resource writes
+ * Writes go straight to Firestore while the connection is up. When it is down, or a write fails for
+ * network reasons, the change is kept in IndexedDB and replayed in order once the browser is back
+ * online, so edits survive a reload at a venue with flaky Wi-Fi.
+ *
+ * Each queued update remembers the values it replaced. On replay a field is only written if the stored
+ * value is still the one the user saw; if a teammate changed it in the meantime the change is held back
+ * as a conflict for the user to keep or discard. Task updates, queued or not, are written against the
+ * task version through ConflictResolver, whose merge dialog handles their conflicts.
+ *
+ * A replay the server rejects (permissions, a missing document) stays in the outbox marked as failed
+ * until the user retries or discards it, and the affected record is re-fetched so the UI stops showing
+ * the change.
+ */
+
+import { collection as collectionRef, doc, getDoc } from "firebase/firestore"
+import { getFirebaseDb, isFirebaseOnline } from "./firebase"
+import { ConflictResolver } from "./conflict-resolution"
+import {
+  createMilestone,
+  createTasks,
+  deleteMilestone,
+  deleteResource,
+  deleteTask,
+  updateMilestone,
+  updateResource,
+  updateTask,
+  uploadResource,
+} from "./firestore"
+
+export type OutboxCollection = "tasks" | "milestones" | "shared_resources"
+export type OutboxOperation = "create" | "update" | "delete"
+
+export interface OutboxConflict {
+  fields: string[] // Empty when the document was deleted remotely
+  remote: Record<string, any> | null
+  detectedAt: number
+}
+
+export interface OutboxFailure {
+  message: string
+  failedAt: number
+}
+
+export interface OutboxMutation {
+  mutationId: string
+  projectId: string
+  collection: OutboxCollection
+  operation: OutboxOperation
+  docId: string
+  data?: Record<string, any> // The whole document for creates, the changed fields for updates
+  base?: Record<string, any> // Values of the changed fields when the change was made
+  baseVersion?: number // Task.version when the change was made
+  label: string // Shown in the sync indicator, e.g. Moved "Login page" to Done
+  createdAt: number
+  conflict?: OutboxConflict
+  failure?: OutboxFailure
+}
+
+export interface NewOutboxMutation {
+  projectId: string
+  collection: OutboxCollection
+  operation: OutboxOperation
+  docId: string
+  data?: Record<string, any>
+  previous?: Record<string, any> // The document as the user saw it, for updates
+  label: string
+}
+
+export interface SyncStatus {
+  online: boolean
+  syncing: boolean
+  pending: OutboxMutation[]
+  conflicts: OutboxMutation[]
+  failed: OutboxMutation[]
+  lastSyncedAt: number | null
+  error: string | null
+}
+
+const DB_NAME = "hackmate-outbox"
+const DB_VERSION = 1
+const STORE = "mutations"
+const WRITE_TIMEOUT_MS = 8000
+const RETRY_DELAY_MS = 30000
+const TIMEOUT_MESSAGE = "Write timed out"
+
+const ID_FIELDS: Record<OutboxCollection, string> = {
+  tasks: "task_id",
+  milestones: "milestone_id",
+  shared_resources: "resource_id",
+}
+
+let mutations: OutboxMutation[] = []
+let loading: Promise<void> | null = null
+let started = false
+let syncing = false
+let lastSyncedAt: number | null = null
+let lastError: string | null = null
+let retryTimer: ReturnType<typeof setTimeout> | null = null
+let dbPromise: Promise<IDBDatabase> | null = null
+const listeners = new Set<(status: SyncStatus) => void>()
+const refreshListeners = new Set<(mutation: OutboxMutation) => void>()
+
+// Conflicted and failed changes wait for the user and are neither replayed nor shown over the server copy
+const isHeld = (mutation: OutboxMutation) => !!mutation.conflict || !!mutation.failure
+
+function isOnline(): boolean {
+  const browserOnline = typeof navigator === "undefined" || navigator.onLine
+  return browserOnline && isFirebaseOnline()
+}
+
+function isNetworkError(error: any): boolean {
+  return (
+    error?.code === "unavailable" ||
+    error?.code === "deadline-exceeded" ||
+    error?.message === TIMEOUT_MESSAGE ||
+    !isOnline()
+  )
+}
+
+// Firestore holds writes made while its network is disabled instead of failing them
+function withWriteTimeout<T>(promise: Promise<T>): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error(TIMEOUT_MESSAGE)), WRITE_TIMEOUT_MS)),
+  ])
+}
+
+// IndexedDB persistence. Without it (private browsing, old browsers) the outbox still works for the session.
+
+function openOutbox(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB not available"))
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "mutationId" })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+  return dbPromise
+}
+
+async function writeStore(write: (store: IDBObjectStore) => void): Promise<void> {
+  try {
+    const db = await openOutbox()
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE, "readwrite")
+      write(transaction.objectStore(STORE))
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  } catch (error) {
+    console.warn("Outbox not persisted:", error)
+  }
+}
+
+function loadOutbox(): Promise<void> {
+  if (!loading) {
+    loading = openOutbox()
+      .then(
+        (db) =>
+          new Promise<OutboxMutation[]>((resolve, reject) => {
+            const request = db.transaction(STORE, "readonly").objectStore(STORE).getAll()
+            request.onsuccess = () => resolve(request.result as OutboxMutation[])
+            request.onerror = () => reject(request.error)
+          })
+      )
+      .then((stored) => {
+        const known = new Set(mutations.map((m) => m.mutationId))
+        mutations = [...mutations, ...stored.filter((m) => !known.has(m.mutationId))].sort((a, b) => a.createdAt - b.createdAt)
+        notify()
+      })
+      .catch((error) => console.warn("Could not load the offline outbox:", error))
+  }
+  return loading
+}
+
+async function putMutation(mutation: OutboxMutation) {
+  const index = mutations.findIndex((m) => m.mutationId === mutation.mutationId)
+  mutations = index >= 0 ? mutations.map((m, i) => (i === index ? mutation : m)) : [...mutations, mutation]
+  notify()
+  await writeStore((store) => store.put(mutation))
+}
+
+async function removeMutation(mutationId: string) {
+  mutations = mutations.filter((m) => m.mutationId !== mutationId)
+  notify()
+  await writeStore((store) => store.delete(mutationId))
+}
+
+// Sync status
+
+export function getSyncStatus(): SyncStatus {
+  return {
+    online: isOnline(),
+    syncing,
+    pending: mutations.filter((m) => !isHeld(m)),
+    conflicts: mutations.filter((m) => m.conflict),
+    failed: mutations.filter((m) => m.failure),
+    lastSyncedAt,
+    error: lastError,
+  }
+}
+
+function notify() {
+  const status = getSyncStatus()
+  listeners.forEach((listener) => listener(status))
+}
+
+function startOutboxSync() {
+  if (started || typeof window === "undefined") return
+  started = true
+
+  window.addEventListener("online", () => {
+    notify()
+    // Give Firestore a moment to re-enable its network first
+    setTimeout(() => flushOutbox(), 1000)
+  })
+  window.addEventListener("offline", notify)
+
+  loadOutbox().then(() => flushOutbox())
+}
+
+export function subscribeToSyncStatus(callback: (status: SyncStatus) => void) {
+  startOutboxSync()
+  listeners.add(callback)
+  callback(getSyncStatus())
+  return () => {
+    listeners.delete(callback)
+  }
+}
+
+/**
+ * Called with a mutation whose record no longer matches what the UI shows, because the server rejected
+ * the change or the user discarded it. Snapshot listeners do not fire for a write that never landed, so
+ * the caller re-fetches the record and drops its optimistic copy.
+ */
+export function subscribeToOutboxRefreshes(callback: (mutation: OutboxMutation) => void) {
+  refreshListeners.add(callback)
+  return () => {
+    refreshListeners.delete(callback)
+  }
+}
+
+function refreshRecord(mutation: OutboxMutation) {
+  refreshListeners.forEach((listener) => listener(mutation))
+}
+
+// Replay
+
+function normalize(value: any): any {
+  if (value?.toDate) return value.toDate().getTime()
+  if (value instanceof Date) return value.getTime()
+  if (Array.isArray(value)) return value.map(normalize)
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.keys(value).sort().map((key) => [key, normalize(value[key])]))
+  }
+  return value ?? null
+}
+
+const sameValue = (a: any, b: any) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b))
+
+async function writeMutation(mutation: OutboxMutation, data: Record<string, any> = mutation.data || {}) {
+  const { collection, operation, docId } = mutation
+
+  if (operation === "delete") {
+    if (collection === "tasks") return deleteTask(docId)
+    if (collection === "milestones") return deleteMilestone(docId)
+    return deleteResource(docId)
+  }
+
+  if (operation === "create") {
+    const document = { ...data, [ID_FIELDS[collection]]: docId } as any
+    if (collection === "tasks") return void (await createTasks([document]))
+    if (collection === "milestones") return void (await createMilestone(document))
+    return void (await uploadResource(document))
+  }
+
+  if (collection === "tasks") return updateTask(docId, data)
+  if (collection === "milestones") return updateMilestone(docId, data)
+  return updateResource(docId, data)
+}
+
+/**
+ * Writes a queued mutation. Updates are checked field by field against the stored document: fields
+ * nobody else touched are written, fields that already hold our value are skipped, and fields a
+ * teammate changed since are returned as a conflict.
+ */
+async function replayMutation(mutation: OutboxMutation): Promise<OutboxConflict | null> {
+  if (mutation.operation !== "update" || !mutation.base) {
+    await writeMutation(mutation)
+    return null
+  }
+
+  if (mutation.collection === "tasks") {
+    const result = await ConflictResolver.commitTaskUpdate(mutation.docId, mutation.data || {}, {
+      version: mutation.baseVersion,
+      values: mutation.base,
+    })
+    if (result.status === "missing") return { fields: [], remote: null, detectedAt: Date.now() }
+    if (result.status === "conflict") ConflictResolver.reportConflict(result.conflict)
+    return null
+  }
+
+  const db = getFirebaseDb()
+  if (!db) throw new Error("Database not available")
+
+  const snapshot = await getDoc(doc(db, mutation.collection, mutation.docId))
+  if (!snapshot.exists()) return { fields: [], remote: null, detectedAt: Date.now() }
+
+  const remote = snapshot.data()
+  const safe: Record<string, any> = {}
+  const conflicting: string[] = []
+  for (const [field, value] of Object.entries(mutation.data || {})) {
+    if (sameValue(remote[field], value)) continue
+    if (sameValue(remote[field], mutation.base[field])) safe[field] = value
+    else conflicting.push(field)
+  }
+
+  if (Object.keys(safe).length > 0) await writeMutation(mutation, safe)
+  if (conflicting.length === 0) return null
+
+  return {
+    fields: conflicting,
+    remote: Object.fromEntries(conflicting.map((field) => [field, remote[field] ?? null])),
+    detectedAt: Date.now(),
+  }
+}
+
+function scheduleRetry() {
+  if (retryTimer) return
+  retryTimer = setTimeout(() => {
+    retryTimer = null
+    flushOutbox()
+  }, RETRY_DELAY_MS)
+}
+
+/** Replays queued mutations oldest first; stops at the first network failure and retries later. */
+export async function flushOutbox(): Promise<void> {
+  if (syncing || !isOnline()) return
+  await loadOutbox()
+
+  syncing = true
+  lastError = null
+  notify()
+
+  let interrupted = false
+  const attempted = new Set<string>()
+  let mutation: OutboxMutation | undefined
+  try {
+    // Changes queued while the flush runs are picked up in the same pass
+    while ((mutation = mutations.find((m) => !isHeld(m) && !attempted.has(m.mutationId)))) {
+      attempted.add(mutation.mutationId)
+      try {
+        const conflict = await withWriteTimeout(replayMutation(mutation))
+        if (!conflict) {
+          await removeMutation(mutation.mutationId)
+          continue
+        }
+
+        // Keep only the conflicting fields; the rest were written
+        const fields = conflict.fields
+        await putMutation({
+          ...mutation,
+          data: fields.length > 0 ? pick(mutation.data, fields) : mutation.data,
+          base: fields.length > 0 ? pick(mutation.base, fields) : mutation.base,
+          conflict,
+        })
+      } catch (error: any) {
+        if (isNetworkError(error)) {
+          interrupted = true
+          lastError = "Waiting for a connection"
+          scheduleRetry()
+          break
+        }
+
+        // Rejected by the server, e.g. permissions; set it aside so it does not hold up the rest of the queue
+        console.error(`Could not sync queued change "${mutation.label}":`, error)
+        await putMutation({
+          ...mutation,
+          failure: { message: error?.message || "The change was rejected", failedAt: Date.now() },
+        })
+        refreshRecord(mutation)
+      }
+    }
+    if (!interrupted) lastSyncedAt = Date.now()
+  } finally {
+    syncing = false
+    notify()
+  }
+}
+
+function pick(values: Record<string, any> | undefined, fields: string[]) {
+  return Object.fromEntries(fields.map((field) => [field, values?.[field] ?? null]))
+}
+
+// Writes
+
+/** Allocates a document id up front so a create can be queued and replayed without duplicating it */
+export function newDocumentId(collection: OutboxCollection): string {
+  const db = getFirebaseDb()
+  if (!db) throw new Error("Database not available")
+  return doc(collectionRef(db, collection)).id
+}
+
+/**
+ * Writes the change now when online, or queues it for replay. Resolves "queued" when the change is
+ * waiting in the outbox; rejects only for errors a retry would not fix, so callers can roll back.
+ */
+export async function saveOrQueue(input: NewOutboxMutation): Promise<"saved" | "queued"> {
+  startOutboxSync()
+  await loadOutbox()
+
+  const { previous, ...rest } = input
+  const mutation: OutboxMutation = {
+    ...rest,
+    base:
+      input.operation === "update" && previous
+        ? Object.fromEntries(Object.keys(input.data || {}).map((field) => [field, previous[field] ?? null]))
+        : undefined,
+    baseVersion: input.collection === "tasks" && input.operation === "update" && previous ? previous.version || 0 : undefined,
+    mutationId: `mutation_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    createdAt: Date.now(),
+  }
+
+  // Queued changes go first so writes land in the order they were made
+  if (isOnline() && !mutations.some((m) => !isHeld(m))) {
+    try {
+      // Task updates are version-checked; a teammate's concurrent edit surfaces in the merge dialog
+      const conflict = await withWriteTimeout(
+        mutation.collection === "tasks" ? replayMutation(mutation) : writeMutation(mutation).then(() => null)
+      )
+      if (conflict) throw new Error("A teammate deleted this task")
+      lastSyncedAt = Date.now()
+      notify()
+      return "saved"
+    } catch (error) {
+      if (!isNetworkError(error)) throw error
+    }
+  }
+
+  await putMutation(mutation)
+  if (isOnline()) flushOutbox()
+  return "queued"
+}
+
+/**
+ * Settles a conflict. "theirs" drops the queued change. "mine" re-queues it against the teammate's
+ * values, so it is written unless the fields change yet again before the replay.
+ */
+export async function resolveOutboxConflict(mutationId: string, keep: "mine" | "theirs"): Promise<void> {
+  const mutation = mutations.find((m) => m.mutationId === mutationId)
+  if (!mutation?.conflict) return
+
+  if (keep === "theirs" || !mutation.conflict.remote) {
+    await removeMutation(mutationId)
+    return
+  }
+
+  const { conflict, ...queued } = mutation
+  await putMutation({ ...queued, base: { ...queued.base, ...conflict.remote } })
+  flushOutbox()
+}
+
+/** Puts a failed change back in the queue and replays it */
+export async function retryOutboxMutation(mutationId: string): Promise<void> {
+  const mutation = mutations.find((m) => m.mutationId === mutationId)
+  if (!mutation?.failure) return
+
+  const { failure, ...queued } = mutation
+  await putMutation(queued)
+  flushOutbox()
+}
+
+/** Drops a failed change for good */
+export async function discardOutboxMutation(mutationId: string): Promise<void> {
+  const mutation = mutations.find((m) => m.mutationId === mutationId)
+  if (!mutation?.failure) return
+
+  await removeMutation(mutationId)
+  refreshRecord(mutation)
+}
+
+/**
+ * Layers queued changes over documents from a snapshot so the UI keeps showing them until they are
+ * written. Conflicted and failed changes are left out; the stored values win until the user keeps or
+ * retries theirs.
+ */
+export function applyPendingMutations<T extends Record<string, any>>(
+  collection: OutboxCollection,
+  projectId: string,
+  documents: T[]
+): T[] {
+  const idField = ID_FIELDS[collection]
+  const pending = mutations.filter((m) => !isHeld(m) && m.collection === collection && m.projectId === projectId)
+  if (pending.length === 0) return documents
+
+  return pending.reduce((docs, mutation) => {
+    if (mutation.operation === "delete") return docs.filter((d) => d[idField] !== mutation.docId)
+    if (mutation.operation === "update") {
+      return docs.map((d) => (d[idField] === mutation.docId ? { ...d, ...mutation.data } : d))
+    }
+    return docs.some((d) => d[idField] === mutation.docId)
+      ? docs
+      : [...docs, { ...mutation.data, [idField]: mutation.docId } as unknown as T]
+  }, documents)
+}
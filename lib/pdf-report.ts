@@ -0,0 +1,590 @@
+import { measureText, pdf, type PageContext } from 'tinypdf';
+import type { ExportOptions, ProjectExportData } from './export-service';
+import { Task } from './types';
+import { getChecklistProgress } from './task-checklist';
+
+/**
+ * PDF project report built with tinypdf, which has no DOM or Node dependencies, so the same
+ * renderer runs in the export dialog and in API routes.
+ * Pages are laid out first and drawn at the end, once the page count for the footers is known.
+ */
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 36;
+
+const COLORS = {
+  primary: '#2563eb',
+  text: '#1f2937',
+  muted: '#6b7280',
+  border: '#e5e7eb',
+  panel: '#f8fafc',
+  white: '#ffffff',
+  track: '#e5e7eb',
+};
+
+const STATUS_ORDER: Task['status'][] = ['InProgress', 'Blocked', 'ToDo', 'Done'];
+
+const STATUS_LABELS: Record<Task['status'], string> = {
+  ToDo: 'To Do',
+  InProgress: 'In Progress',
+  Blocked: 'Blocked',
+  Done: 'Done',
+};
+
+const STATUS_COLORS: Record<Task['status'], string> = {
+  ToDo: '#f59e0b',
+  InProgress: '#3b82f6',
+  Blocked: '#ef4444',
+  Done: '#10b981',
+};
+
+const PRIORITY_ORDER: Task['priority'][] = ['Critical', 'High', 'Medium', 'Low'];
+
+const PRIORITY_COLORS: Record<Task['priority'], string> = {
+  Critical: '#dc2626',
+  High: '#f97316',
+  Medium: '#eab308',
+  Low: '#94a3b8',
+};
+
+const TASK_COLUMNS = [
+  { label: 'Task', width: 232 },
+  { label: 'Effort', width: 58 },
+  { label: 'Priority', width: 62 },
+  { label: 'Assignee', width: 100 },
+  { label: 'Checklist', width: 52 },
+];
+
+type DrawOp = (ctx: PageContext) => void;
+
+// The built-in Helvetica only covers ASCII, so typographic characters are mapped and the rest dropped
+export function toPdfText(value: unknown): string {
+  return String(value ?? '')
+    .replace(/[\u2018\u2019\u201a\u2032]/g, "'")
+    .replace(/[\u201c\u201d\u201e\u2033]/g, '"')
+    .replace(/[\u2013\u2014\u2212]/g, '-')
+    .replace(/[\u2022\u00b7]/g, '*')
+    .replace(/\u2026/g, '...')
+    .replace(/\u00a0/g, ' ')
+    .replace(/\t/g, '  ')
+    .normalize('NFKD')
+    .replace(/[^\x20-\x7E\n]/g, '');
+}
+
+export function wrapText(text: string, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of toPdfText(text).split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/ +/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+
+      // Words wider than the line, such as URLs, are broken by character
+      line = word;
+      while (measureText(line, size) > maxWidth) {
+        let cut = line.length - 1;
+        while (cut > 1 && measureText(line.slice(0, cut), size) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+function truncateLines(lines: string[], maxLines: number): string[] {
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].replace(/\s*\S*$/, '')}...`;
+  return kept;
+}
+
+function formatDate(value: unknown): string {
+  const date = value instanceof Date ? value : new Date(value as any);
+  if (isNaN(date.getTime())) return 'N/A';
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+class ReportLayout {
+  readonly pages: DrawOp[][] = [];
+  y = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  addPage() {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  draw(op: DrawOp) {
+    this.pages[this.pages.length - 1].push(op);
+  }
+
+  // Starts a new page unless `height` still fits above the footer
+  ensureSpace(height: number): boolean {
+    if (this.y - height >= MARGIN + FOOTER_HEIGHT) return false;
+    this.addPage();
+    return true;
+  }
+
+  text(str: string, x: number, size: number, color = COLORS.text, opts: { align?: 'left' | 'center' | 'right'; width?: number } = {}) {
+    const y = this.y;
+    this.draw((ctx) => ctx.text(toPdfText(str), x, y, size, { ...opts, color }));
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: string) {
+    this.draw((ctx) => ctx.rect(x, y, width, height, fill));
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, stroke = COLORS.border, width = 0.75) {
+    this.draw((ctx) => ctx.line(x1, y1, x2, y2, stroke, width));
+  }
+
+  space(height: number) {
+    this.y -= height;
+  }
+
+  paragraph(text: string, opts: { size?: number; color?: string; indent?: number; maxLines?: number } = {}) {
+    const size = opts.size ?? 10;
+    const indent = opts.indent ?? 0;
+    const lineHeight = size * 1.45;
+    let lines = wrapText(text, size, CONTENT_WIDTH - indent);
+    if (opts.maxLines) lines = truncateLines(lines, opts.maxLines);
+
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      this.y -= size;
+      this.text(line, MARGIN + indent, size, opts.color);
+      this.y -= lineHeight - size;
+    }
+  }
+
+  bullets(items: string[], color = COLORS.primary) {
+    for (const item of items) {
+      this.ensureSpace(15);
+      const top = this.y;
+      this.rect(MARGIN + 4, top - 7, 4, 4, color);
+      this.paragraph(item, { indent: 16 });
+    }
+  }
+
+  // Section titles keep at least a few lines of content with them
+  heading(title: string) {
+    this.ensureSpace(90);
+    if (this.y < PAGE_HEIGHT - MARGIN) this.y -= 18;
+    this.y -= 16;
+    this.text(title, MARGIN, 16, COLORS.primary);
+    this.y -= 8;
+    this.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, COLORS.border, 1);
+    this.y -= 16;
+  }
+
+  subheading(title: string, swatch?: string) {
+    this.ensureSpace(50);
+    this.y -= 11;
+    if (swatch) this.rect(MARGIN, this.y - 1, 9, 9, swatch);
+    this.text(title, MARGIN + (swatch ? 15 : 0), 11, COLORS.text);
+    this.y -= 9;
+  }
+}
+
+function renderCover(layout: ReportLayout, data: ProjectExportData, options: ExportOptions) {
+  const { project, tasks, members, analytics } = data;
+  const bandHeight = 300;
+  const bandBottom = PAGE_HEIGHT - bandHeight;
+
+  layout.rect(0, bandBottom, PAGE_WIDTH, bandHeight, COLORS.primary);
+  layout.y = PAGE_HEIGHT - 90;
+  layout.text('PROJECT REPORT', MARGIN, 11, '#bfdbfe');
+  layout.y -= 44;
+  for (const line of truncateLines(wrapText(project.name, 30, CONTENT_WIDTH), 3)) {
+    layout.text(line, MARGIN, 30, COLORS.white);
+    layout.y -= 36;
+  }
+
+  const meta = [
+    project.duration ? `${project.duration} hackathon` : null,
+    project.status ? project.status.charAt(0).toUpperCase() + project.status.slice(1) : null,
+    project.track ? `${project.track} track` : null,
+  ].filter(Boolean);
+  if (meta.length > 0) {
+    layout.text(meta.join('  |  '), MARGIN, 12, '#dbeafe');
+  }
+
+  layout.y = bandBottom - 40;
+  const details = [
+    ['Created', formatDate(project.createdAt)],
+    ['Generated', formatDate(new Date())],
+    ['Team', `${members.length} member${members.length === 1 ? '' : 's'}`],
+  ];
+  details.forEach(([label, value], index) => {
+    const x = MARGIN + index * (CONTENT_WIDTH / 3);
+    layout.text(label.toUpperCase(), x, 8, COLORS.muted);
+    layout.y -= 16;
+    layout.text(value, x, 12, COLORS.text);
+    layout.y += 16;
+  });
+  layout.y -= 40;
+
+  const completed = analytics?.completedTasks ?? tasks.filter((t) => t.status === 'Done').length;
+  const rate = analytics?.completionRate ?? (tasks.length > 0 ? completed / tasks.length : 0);
+  renderMetricCards(layout, [
+    { value: String(tasks.length), label: 'Tasks' },
+    { value: String(completed), label: 'Completed' },
+    { value: `${Math.round(rate * 100)}%`, label: 'Completion' },
+    { value: String(tasks.filter((t) => t.status === 'Blocked').length), label: 'Blocked' },
+  ]);
+
+  if (options.includeIdea && project.idea?.problem_statement) {
+    layout.y -= 30;
+    layout.text('THE PROBLEM', MARGIN, 8, COLORS.muted);
+    layout.y -= 8;
+    layout.paragraph(project.idea.problem_statement, { size: 11, maxLines: 8 });
+  }
+
+  layout.y = MARGIN;
+  layout.text('Generated by HackMate AI', MARGIN, 9, COLORS.muted);
+  if (project.join_code) {
+    layout.text(`Project code: ${project.join_code}`, MARGIN, 9, COLORS.muted, { align: 'right', width: CONTENT_WIDTH });
+  }
+}
+
+function renderMetricCards(layout: ReportLayout, metrics: { value: string; label: string }[]) {
+  const gap = 12;
+  const height = 62;
+  const width = (CONTENT_WIDTH - gap * (metrics.length - 1)) / metrics.length;
+
+  layout.ensureSpace(height);
+  const top = layout.y;
+  metrics.forEach((metric, index) => {
+    const x = MARGIN + index * (width + gap);
+    layout.rect(x, top - height, width, height, COLORS.panel);
+    layout.y = top - 30;
+    layout.text(metric.value, x, 20, COLORS.primary, { align: 'center', width });
+    layout.y = top - 48;
+    layout.text(metric.label, x, 9, COLORS.muted, { align: 'center', width });
+  });
+  layout.y = top - height;
+}
+
+function renderIdea(layout: ReportLayout, data: ProjectExportData) {
+  const idea = data.project.idea;
+  if (!idea) return;
+
+  layout.heading('Project Idea');
+  layout.subheading('Problem Statement');
+  layout.paragraph(idea.problem_statement);
+
+  const lists: [string, string[] | undefined][] = [
+    ['Target Users', idea.target_users],
+    ['Key Features', idea.features],
+    ['Suggested Tech Stack', idea.tech_stack_suggestions],
+    ['Identified Risks', idea.risks],
+  ];
+  for (const [title, items] of lists) {
+    if (!items || items.length === 0) continue;
+    layout.space(10);
+    layout.subheading(title);
+    layout.bullets(items);
+  }
+}
+
+function renderTaskTableHeader(layout: ReportLayout) {
+  const height = 20;
+  layout.rect(MARGIN, layout.y - height, CONTENT_WIDTH, height, COLORS.panel);
+  const baseline = layout.y;
+  layout.y -= 13;
+  let x = MARGIN;
+  for (const column of TASK_COLUMNS) {
+    layout.text(column.label.toUpperCase(), x + 5, 8, COLORS.muted);
+    x += column.width;
+  }
+  layout.y = baseline - height;
+}
+
+function renderTasks(layout: ReportLayout, data: ProjectExportData) {
+  const { tasks, members } = data;
+  const memberName = (userId: string | null) =>
+    userId ? members.find((m) => m.user_id === userId)?.name || 'Former member' : 'Unassigned';
+
+  layout.heading(`Tasks (${tasks.length})`);
+  if (tasks.length === 0) {
+    layout.paragraph('No tasks yet.', { color: COLORS.muted });
+    return;
+  }
+
+  for (const status of STATUS_ORDER) {
+    const group = tasks.filter((t) => t.status === status);
+    if (group.length === 0) continue;
+
+    layout.space(8);
+    layout.subheading(`${STATUS_LABELS[status]} (${group.length})`, STATUS_COLORS[status]);
+    layout.space(4);
+    renderTaskTableHeader(layout);
+
+    for (const task of group) {
+      const titleWidth = TASK_COLUMNS[0].width - 10;
+      const titleLines = wrapText(task.title, 9.5, titleWidth);
+      const descriptionLines = task.description ? truncateLines(wrapText(task.description, 8, titleWidth), 2) : [];
+      const progress = getChecklistProgress(task);
+      const cells = [
+        task.effort,
+        task.priority || '-',
+        truncateLines(wrapText(memberName(task.assigned_to), 9, TASK_COLUMNS[3].width - 10), 2).join('\n'),
+        progress.total > 0 ? `${progress.done}/${progress.total}` : '-',
+      ];
+      const cellLines = cells.map((cell) => cell.split('\n'));
+      const height = 10 + Math.max(titleLines.length * 12 + descriptionLines.length * 10, ...cellLines.map((l) => l.length * 12));
+
+      // A row never splits across pages; the column header repeats on the next one
+      if (layout.ensureSpace(height)) {
+        layout.subheading(`${STATUS_LABELS[status]} (continued)`, STATUS_COLORS[status]);
+        layout.space(4);
+        renderTaskTableHeader(layout);
+      }
+
+      const top = layout.y;
+      layout.y = top - 15;
+      for (const line of titleLines) {
+        layout.text(line, MARGIN + 5, 9.5, COLORS.text);
+        layout.y -= 12;
+      }
+      layout.y += 2;
+      for (const line of descriptionLines) {
+        layout.text(line, MARGIN + 5, 8, COLORS.muted);
+        layout.y -= 10;
+      }
+
+      let x = MARGIN + TASK_COLUMNS[0].width;
+      cellLines.forEach((lines, index) => {
+        layout.y = top - 15;
+        for (const line of lines) {
+          layout.text(line, x + 5, 9, COLORS.text);
+          layout.y -= 12;
+        }
+        x += TASK_COLUMNS[index + 1].width;
+      });
+
+      layout.y = top - height;
+      layout.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y);
+    }
+  }
+}
+
+/**
+ * Horizontal bar chart. Each bar may be split into segments, e.g. done and open tasks per member.
+ */
+function renderBarChart(
+  layout: ReportLayout,
+  title: string,
+  rows: { label: string; segments: { value: number; color: string }[] }[],
+  legend?: { label: string; color: string }[]
+) {
+  const labelWidth = 120;
+  const valueWidth = 36;
+  const barHeight = 12;
+  const rowHeight = 20;
+  const trackWidth = CONTENT_WIDTH - labelWidth - valueWidth;
+  const max = Math.max(1, ...rows.map((row) => row.segments.reduce((sum, s) => sum + s.value, 0)));
+
+  layout.ensureSpace(40 + Math.min(rows.length, 6) * rowHeight);
+  layout.space(10);
+  layout.subheading(title);
+
+  if (legend) {
+    layout.y -= 12;
+    let x = MARGIN;
+    for (const item of legend) {
+      layout.rect(x, layout.y - 1, 8, 8, item.color);
+      layout.text(item.label, x + 12, 8, COLORS.muted);
+      x += 24 + measureText(item.label, 8);
+    }
+    layout.y -= 4;
+  }
+  layout.space(6);
+
+  for (const row of rows) {
+    layout.ensureSpace(rowHeight);
+    const barTop = layout.y - 4;
+    const total = row.segments.reduce((sum, s) => sum + s.value, 0);
+
+    layout.y = barTop - 9;
+    layout.text(truncateLines(wrapText(row.label, 9, labelWidth - 8), 1)[0], MARGIN, 9, COLORS.text);
+    layout.rect(MARGIN + labelWidth, barTop - barHeight, trackWidth, barHeight, COLORS.panel);
+
+    let x = MARGIN + labelWidth;
+    for (const segment of row.segments) {
+      const width = (segment.value / max) * trackWidth;
+      if (width > 0) layout.rect(x, barTop - barHeight, width, barHeight, segment.color);
+      x += width;
+    }
+    layout.text(String(total), MARGIN + labelWidth + trackWidth, 9, COLORS.muted, { align: 'right', width: valueWidth });
+
+    layout.y = barTop - rowHeight + 4;
+  }
+}
+
+function renderAnalytics(layout: ReportLayout, data: ProjectExportData) {
+  const { tasks, members, analytics } = data;
+
+  layout.heading('Project Analytics');
+
+  if (analytics) {
+    renderMetricCards(layout, [
+      { value: String(analytics.completedTasks), label: 'Tasks Completed' },
+      { value: `${Math.round(analytics.completionRate * 100)}%`, label: 'Completion Rate' },
+      { value: analytics.teamVelocity.toFixed(1), label: 'Tasks/Hour' },
+      { value: analytics.timeElapsed, label: 'Time Elapsed' },
+    ]);
+    layout.space(10);
+  }
+
+  if (tasks.length === 0) {
+    layout.paragraph('Charts appear once the project has tasks.', { color: COLORS.muted });
+    return;
+  }
+
+  // Overall progress
+  const done = tasks.filter((t) => t.status === 'Done').length;
+  layout.space(10);
+  layout.subheading('Progress');
+  layout.ensureSpace(30);
+  const barTop = layout.y - 6;
+  layout.rect(MARGIN, barTop - 16, CONTENT_WIDTH, 16, COLORS.track);
+  if (done > 0) layout.rect(MARGIN, barTop - 16, (done / tasks.length) * CONTENT_WIDTH, 16, STATUS_COLORS.Done);
+  layout.y = barTop - 30;
+  layout.text(`${done} of ${tasks.length} tasks done (${Math.round((done / tasks.length) * 100)}%)`, MARGIN, 9, COLORS.muted);
+  layout.y -= 6;
+
+  renderBarChart(
+    layout,
+    'Tasks by Status',
+    STATUS_ORDER.map((status) => ({
+      label: STATUS_LABELS[status],
+      segments: [{ value: tasks.filter((t) => t.status === status).length, color: STATUS_COLORS[status] }],
+    }))
+  );
+
+  renderBarChart(
+    layout,
+    'Tasks by Priority',
+    PRIORITY_ORDER.map((priority) => ({
+      label: priority,
+      segments: [{ value: tasks.filter((t) => t.priority === priority).length, color: PRIORITY_COLORS[priority] }],
+    }))
+  );
+
+  const workload = members.map((member) => ({ label: member.name, tasks: tasks.filter((t) => t.assigned_to === member.user_id) }));
+  const unassigned = tasks.filter((t) => !t.assigned_to || !members.some((m) => m.user_id === t.assigned_to));
+  if (unassigned.length > 0) workload.push({ label: 'Unassigned', tasks: unassigned });
+
+  renderBarChart(
+    layout,
+    'Workload by Member',
+    workload.map(({ label, tasks: assigned }) => ({
+      label,
+      segments: [
+        { value: assigned.filter((t) => t.status === 'Done').length, color: STATUS_COLORS.Done },
+        { value: assigned.filter((t) => t.status !== 'Done').length, color: STATUS_COLORS.InProgress },
+      ],
+    })),
+    [
+      { label: 'Done', color: STATUS_COLORS.Done },
+      { label: 'Open', color: STATUS_COLORS.InProgress },
+    ]
+  );
+}
+
+function renderTeam(layout: ReportLayout, data: ProjectExportData) {
+  const { members, tasks } = data;
+
+  layout.heading(`Team Members (${members.length})`);
+
+  for (const member of members) {
+    const skills = member.skills?.length ? wrapText(`Skills: ${member.skills.join(', ')}`, 9, CONTENT_WIDTH - 150) : [];
+    const height = 38 + skills.length * 12;
+    layout.ensureSpace(height);
+
+    const top = layout.y;
+    const assigned = tasks.filter((t) => t.assigned_to === member.user_id);
+    const completed = assigned.filter((t) => t.status === 'Done').length;
+
+    layout.y = top - 16;
+    layout.text(member.name || 'Team member', MARGIN, 11, COLORS.text);
+    layout.text(`${assigned.length} assigned, ${completed} done`, MARGIN, 9, COLORS.muted, { align: 'right', width: CONTENT_WIDTH });
+    layout.y -= 14;
+    layout.text(member.role ? member.role.charAt(0).toUpperCase() + member.role.slice(1) : 'Team Member', MARGIN, 9, COLORS.muted);
+    for (const line of skills) {
+      layout.y -= 12;
+      layout.text(line, MARGIN, 9, COLORS.text);
+    }
+
+    layout.y = top - height;
+    layout.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y);
+  }
+}
+
+function renderChat(layout: ReportLayout, data: ProjectExportData) {
+  const messages = data.messages || [];
+
+  layout.heading(`Team Chat (${messages.length})`);
+  for (const message of messages) {
+    const sender = message.sender_type === 'ai'
+      ? 'AI Mentor'
+      : data.members.find((m) => m.user_id === message.sender)?.name || 'Team member';
+    layout.ensureSpace(30);
+    layout.space(6);
+    layout.paragraph(`${sender}, ${formatDate(message.timestamp)}`, { size: 8, color: COLORS.muted });
+    layout.paragraph(message.content, { size: 9.5 });
+  }
+}
+
+/** Renders the project report as PDF bytes. */
+export function renderProjectReport(data: ProjectExportData, options: ExportOptions): Uint8Array<ArrayBuffer> {
+  const layout = new ReportLayout();
+
+  renderCover(layout, data, options);
+
+  layout.addPage();
+  const contentStart = layout.pages.length - 1;
+  if (options.includeIdea && data.project.idea) renderIdea(layout, data);
+  if (options.includeTasks) renderTasks(layout, data);
+  if (options.includeAnalytics) renderAnalytics(layout, data);
+  if (options.includeTeam) renderTeam(layout, data);
+  if (options.includeChat && data.messages?.length) renderChat(layout, data);
+
+  // Nothing selected beyond the cover
+  if (layout.pages[contentStart].length === 0) layout.pages.pop();
+
+  const doc = pdf();
+  const projectName = toPdfText(data.project.name);
+  layout.pages.forEach((ops, index) => {
+    doc.page(PAGE_WIDTH, PAGE_HEIGHT, (ctx) => {
+      ops.forEach((op) => op(ctx));
+      if (index === 0) return;
+
+      ctx.line(MARGIN, MARGIN - 6, MARGIN + CONTENT_WIDTH, MARGIN - 6, COLORS.border, 0.75);
+      ctx.text(projectName, MARGIN, MARGIN - 20, 8, { color: COLORS.muted });
+      ctx.text(`Page ${index + 1} of ${layout.pages.length}`, MARGIN, MARGIN - 20, 8, {
+        align: 'right',
+        width: CONTENT_WIDTH,
+        color: COLORS.muted,
+      });
+    });
+  });
+
+  // tinypdf types its output over any buffer; copying pins it to an ArrayBuffer so it can back a Blob
+  return new Uint8Array(doc.build());
+}
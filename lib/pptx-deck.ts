@@ -0,0 +1,690 @@
+import type { ProjectExportData } from './export-service';
+import { createZip, type ZipEntry } from './zip';
+
+/**
+ * Editable PowerPoint pitch deck written as Office Open XML.
+ * Every slide is built from native text boxes and shapes, so teams can keep editing it in
+ * PowerPoint, Keynote or Google Slides. The hackathon's CustomBranding sets the theme colors
+ * and the logo placed on each slide.
+ */
+
+export const PPTX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+export interface PitchDeckLogo {
+  data: Uint8Array;
+  extension: 'png' | 'jpeg' | 'gif';
+  width: number;
+  height: number;
+}
+
+const SLIDE_WIDTH = 13.333; // inches, 16:9
+const SLIDE_HEIGHT = 7.5;
+const EMU_PER_INCH = 914400;
+
+const DEFAULT_PRIMARY = '2563EB';
+const DEFAULT_SECONDARY = '64748B';
+const TEXT = '1F2937';
+const MUTED = '6B7280';
+const WHITE = 'FFFFFF';
+
+const NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PKG_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+interface Palette {
+  primary: string;
+  secondary: string;
+  onPrimary: string; // Text color readable on the primary color
+  tint: string; // Light panel fill derived from the primary color
+}
+
+interface Run {
+  text: string;
+  size: number; // points
+  color?: string;
+  bold?: boolean;
+  link?: string; // Relationship id of an external hyperlink
+}
+
+interface Paragraph {
+  runs: Run[];
+  align?: 'l' | 'ctr' | 'r';
+  bullet?: boolean;
+  spaceAfter?: number; // points
+}
+
+interface ShapeOptions {
+  name: string;
+  x: number; // inches
+  y: number;
+  w: number;
+  h: number;
+  fill?: string;
+  geometry?: 'rect' | 'roundRect' | 'ellipse';
+  paragraphs?: Paragraph[];
+  anchor?: 't' | 'ctr' | 'b';
+  inset?: number; // inches
+}
+
+const emu = (inches: number) => Math.round(inches * EMU_PER_INCH);
+
+const escapeXml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const truncate = (text: string, max: number) => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > max ? `${clean.slice(0, max - 1).replace(/\s+\S*$/, '')}…` : clean;
+};
+
+function normalizeColor(value: string | undefined, fallback: string): string {
+  const hex = value?.trim().replace(/^#/, '') || '';
+  if (/^[0-9a-f]{6}$/i.test(hex)) return hex.toUpperCase();
+  if (/^[0-9a-f]{3}$/i.test(hex)) return hex.split('').map((c) => c + c).join('').toUpperCase();
+  return fallback;
+}
+
+function mixWithWhite(hex: string, amount: number): string {
+  return [0, 2, 4]
+    .map((i) => {
+      const channel = parseInt(hex.slice(i, i + 2), 16);
+      return Math.round(channel + (255 - channel) * amount).toString(16).padStart(2, '0');
+    })
+    .join('')
+    .toUpperCase();
+}
+
+function getPalette(data: ProjectExportData): Palette {
+  const primary = normalizeColor(data.branding?.primaryColor, DEFAULT_PRIMARY);
+  const secondary = normalizeColor(data.branding?.secondaryColor, DEFAULT_SECONDARY);
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(primary.slice(i, i + 2), 16));
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+
+  return { primary, secondary, onPrimary: luminance > 0.6 ? TEXT : WHITE, tint: mixWithWhite(primary, 0.9) };
+}
+
+// Reads width and height from PNG, GIF and JPEG headers
+function readImageSize(data: Uint8Array, extension: PitchDeckLogo['extension']): { width: number; height: number } | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (extension === 'png' && data.length > 24) return { width: view.getUint32(16), height: view.getUint32(20) };
+  if (extension === 'gif' && data.length > 10) return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+
+  let offset = 2;
+  while (extension === 'jpeg' && offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    // Start-of-frame markers carry the dimensions
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
+
+/**
+ * Loads a branding logo from a URL or data: URL. Returns null for formats a deck cannot embed
+ * (such as SVG) or when the image cannot be fetched, so a deck is still produced without it.
+ */
+export async function loadDeckLogo(source: string): Promise<PitchDeckLogo | null> {
+  try {
+    let data: Uint8Array;
+    const dataUrl = source.match(/^data:[^;,]*(;base64)?,([\s\S]*)$/);
+    if (dataUrl) {
+      data = dataUrl[1]
+        ? Uint8Array.from(atob(dataUrl[2]), (c) => c.charCodeAt(0))
+        : new TextEncoder().encode(decodeURIComponent(dataUrl[2]));
+    } else {
+      const response = await fetch(source);
+      if (!response.ok) return null;
+      data = new Uint8Array(await response.arrayBuffer());
+    }
+
+    const extension =
+      data[0] === 0x89 && data[1] === 0x50 ? 'png' : data[0] === 0xff && data[1] === 0xd8 ? 'jpeg' : data[0] === 0x47 && data[1] === 0x49 ? 'gif' : null;
+    if (!extension) return null;
+
+    const size = readImageSize(data, extension);
+    return size && size.width > 0 && size.height > 0 ? { data, extension, ...size } : null;
+  } catch (error) {
+    console.warn('Could not load branding logo:', error);
+    return null;
+  }
+}
+
+class SlideBuilder {
+  private shapes: string[] = [];
+  private nextId = 2;
+  readonly rels: { id: string; type: string; target: string; external?: boolean }[] = [
+    { id: 'rId1', type: `${REL_NS}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+  ];
+
+  constructor(readonly background: string) {}
+
+  addLink(url: string): string {
+    const id = `rId${this.rels.length + 1}`;
+    this.rels.push({ id, type: `${REL_NS}/hyperlink`, target: url, external: true });
+    return id;
+  }
+
+  shape(options: ShapeOptions) {
+    const id = this.nextId++;
+    const fill = options.fill ? `<a:solidFill><a:srgbClr val="${options.fill}"/></a:solidFill>` : '<a:noFill/>';
+    const inset = emu(options.inset ?? 0.1);
+    const body = (options.paragraphs || [{ runs: [] }]).map(renderParagraph).join('');
+
+    this.shapes.push(
+      `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${escapeXml(options.name)}"/><p:cNvSpPr${options.paragraphs ? ' txBox="1"' : ''}/><p:nvPr/></p:nvSpPr>` +
+        `<p:spPr><a:xfrm><a:off x="${emu(options.x)}" y="${emu(options.y)}"/><a:ext cx="${emu(options.w)}" cy="${emu(options.h)}"/></a:xfrm>` +
+        `<a:prstGeom prst="${options.geometry || 'rect'}"><a:avLst/></a:prstGeom>${fill}<a:ln><a:noFill/></a:ln></p:spPr>` +
+        `<p:txBody><a:bodyPr wrap="square" lIns="${inset}" tIns="${inset}" rIns="${inset}" bIns="${inset}" anchor="${options.anchor || 't'}"><a:normAutofit/></a:bodyPr>` +
+        `<a:lstStyle/>${body}</p:txBody></p:sp>`
+    );
+  }
+
+  text(name: string, x: number, y: number, w: number, h: number, paragraphs: Paragraph[], anchor: ShapeOptions['anchor'] = 't') {
+    this.shape({ name, x, y, w, h, paragraphs, anchor, inset: 0.05 });
+  }
+
+  image(name: string, logo: PitchDeckLogo, box: { x: number; y: number; w: number; h: number }, relId: string) {
+    const scale = Math.min(box.w / logo.width, box.h / logo.height);
+    const w = logo.width * scale;
+    const h = logo.height * scale;
+    const id = this.nextId++;
+
+    this.shapes.push(
+      `<p:pic><p:nvPicPr><p:cNvPr id="${id}" name="${escapeXml(name)}"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr>` +
+        `<p:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>` +
+        `<p:spPr><a:xfrm><a:off x="${emu(box.x + box.w - w)}" y="${emu(box.y + (box.h - h) / 2)}"/><a:ext cx="${emu(w)}" cy="${emu(h)}"/></a:xfrm>` +
+        '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>'
+    );
+  }
+
+  toXml(): string {
+    return (
+      `${XML_HEADER}<p:sld ${NS}><p:cSld><p:bg><p:bgPr><a:solidFill><a:srgbClr val="${this.background}"/></a:solidFill><a:effectLst/></p:bgPr></p:bg>` +
+      '<p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+      '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>' +
+      `${this.shapes.join('')}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`
+    );
+  }
+
+  relsXml(): string {
+    return (
+      `${XML_HEADER}<Relationships xmlns="${PKG_REL_NS}">` +
+      this.rels
+        .map((rel) => `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${escapeXml(rel.target)}"${rel.external ? ' TargetMode="External"' : ''}/>`)
+        .join('') +
+      '</Relationships>'
+    );
+  }
+}
+
+function renderParagraph(paragraph: Paragraph): string {
+  const bullet = paragraph.bullet
+    ? '<a:buFont typeface="Arial"/><a:buChar char="&#8226;"/>'
+    : '<a:buNone/>';
+  const indent = paragraph.bullet ? ' marL="285750" indent="-285750"' : '';
+  const spacing = paragraph.spaceAfter ? `<a:spcAft><a:spcPts val="${paragraph.spaceAfter * 100}"/></a:spcAft>` : '';
+  const runs = paragraph.runs
+    .map(
+      (run) =>
+        `<a:r><a:rPr lang="en-US" sz="${Math.round(run.size * 100)}"${run.bold ? ' b="1"' : ''}${run.link ? ' u="sng"' : ''} dirty="0">` +
+        `<a:solidFill><a:srgbClr val="${run.color || TEXT}"/></a:solidFill><a:latin typeface="+mn-lt"/>` +
+        `${run.link ? `<a:hlinkClick r:id="${run.link}"/>` : ''}</a:rPr><a:t>${escapeXml(run.text)}</a:t></a:r>`
+    )
+    .join('');
+  const endSize = Math.round((paragraph.runs[0]?.size || 18) * 100);
+
+  return `<a:p><a:pPr algn="${paragraph.align || 'l'}"${indent}>${spacing}${bullet}</a:pPr>${runs}<a:endParaRPr lang="en-US" sz="${endSize}" dirty="0"/></a:p>`;
+}
+
+const line = (text: string, size: number, extra: Partial<Run> & Omit<Partial<Paragraph>, 'runs'> = {}): Paragraph => {
+  const { align, bullet, spaceAfter, ...run } = extra;
+  return { runs: [{ text, size, ...run }], align, bullet, spaceAfter };
+};
+
+interface DeckContext {
+  data: ProjectExportData;
+  palette: Palette;
+  logo: PitchDeckLogo | null;
+  slideCount: number;
+}
+
+const LOGO_REL = 'rId2';
+
+// Content slide layout: accent bar, title, logo and footer; returns the builder for the body
+function contentSlide(context: DeckContext, index: number, title: string, kicker: string): SlideBuilder {
+  const { palette, logo, data } = context;
+  const slide = new SlideBuilder(WHITE);
+  if (logo) slide.rels.push({ id: LOGO_REL, type: `${REL_NS}/image`, target: `../media/logo.${logo.extension}` });
+
+  slide.shape({ name: 'Accent', x: 0, y: 0, w: 0.18, h: SLIDE_HEIGHT, fill: palette.primary });
+  slide.text('Kicker', 0.7, 0.45, 9, 0.4, [line(kicker.toUpperCase(), 12, { color: palette.secondary, bold: true })]);
+  slide.text('Title', 0.7, 0.8, 10, 0.9, [line(title, 34, { color: palette.primary, bold: true })]);
+  if (logo) slide.image('Logo', logo, { x: SLIDE_WIDTH - 2.3, y: 0.45, w: 1.7, h: 0.8 }, LOGO_REL);
+
+  slide.text('Footer', 0.7, SLIDE_HEIGHT - 0.55, 9, 0.3, [line(data.project.name, 10, { color: MUTED })]);
+  slide.text('Slide number', SLIDE_WIDTH - 1.6, SLIDE_HEIGHT - 0.55, 1, 0.3, [
+    line(`${index} / ${context.slideCount}`, 10, { color: MUTED, align: 'r' }),
+  ]);
+  return slide;
+}
+
+function titleSlide(context: DeckContext): SlideBuilder {
+  const { palette, logo, data } = context;
+  const { project, members } = data;
+  const slide = new SlideBuilder(palette.primary);
+  if (logo) {
+    slide.rels.push({ id: LOGO_REL, type: `${REL_NS}/image`, target: `../media/logo.${logo.extension}` });
+    // White panel keeps dark and transparent logos visible on the brand color
+    slide.shape({ name: 'Logo panel', x: SLIDE_WIDTH - 3, y: 0.5, w: 2.4, h: 1.2, fill: WHITE, geometry: 'roundRect' });
+    slide.image('Logo', logo, { x: SLIDE_WIDTH - 2.85, y: 0.6, w: 2.1, h: 1 }, LOGO_REL);
+  }
+
+  const subtitle = [project.track ? `${project.track} track` : null, project.duration ? `${project.duration} hackathon` : null]
+    .filter(Boolean)
+    .join(' · ');
+  const tagline = project.description || project.idea?.problem_statement || '';
+
+  slide.shape({ name: 'Band', x: 0.8, y: 2.35, w: 0.12, h: 2.2, fill: palette.secondary });
+  slide.text('Title', 1.15, 2.2, 10.5, 1.4, [line(truncate(project.name, 60), 54, { color: palette.onPrimary, bold: true })], 'b');
+  if (subtitle) slide.text('Subtitle', 1.15, 3.65, 10.5, 0.5, [line(subtitle, 20, { color: palette.onPrimary })]);
+  if (tagline) slide.text('Tagline', 1.15, 4.2, 10, 1, [line(truncate(tagline, 160), 18, { color: palette.onPrimary })]);
+  if (members.length > 0) {
+    slide.text('Team', 1.15, SLIDE_HEIGHT - 1.2, 11, 0.5, [
+      line(truncate(members.map((m) => m.name).join(' · '), 140), 14, { color: palette.onPrimary }),
+    ]);
+  }
+  return slide;
+}
+
+function problemSlide(context: DeckContext, index: number): SlideBuilder {
+  const idea = context.data.project.idea;
+  const slide = contentSlide(context, index, 'The Problem', 'Why this matters');
+  const users = idea?.target_users?.slice(0, 5) || [];
+
+  slide.text('Problem statement', 0.7, 2, users.length > 0 ? 7.2 : 11.8, 4.4, [
+    line(truncate(idea?.problem_statement || context.data.project.description || 'Describe the problem you are solving.', 420), 24, { color: TEXT }),
+  ]);
+
+  if (users.length > 0) {
+    slide.shape({
+      name: 'Audience',
+      x: 8.4,
+      y: 2,
+      w: 4.3,
+      h: 4.4,
+      fill: context.palette.tint,
+      geometry: 'roundRect',
+      inset: 0.3,
+      paragraphs: [
+        line('Who it affects', 16, { color: context.palette.primary, bold: true, spaceAfter: 10 }),
+        ...users.map((user) => line(truncate(user, 80), 15, { bullet: true, spaceAfter: 6 })),
+      ],
+    });
+  }
+  return slide;
+}
+
+function solutionSlide(context: DeckContext, index: number): SlideBuilder {
+  const { project } = context.data;
+  const slide = contentSlide(context, index, 'Our Solution', 'What we built');
+  const steps = project.idea?.features?.slice(0, 3) || [];
+
+  slide.text('Summary', 0.7, 1.9, 11.8, 1.6, [
+    line(truncate(project.description || `${project.name} tackles the problem with a focused, working product.`, 260), 22),
+  ]);
+
+  const width = (11.8 - 0.4 * (steps.length - 1)) / Math.max(steps.length, 1);
+  steps.forEach((step, i) => {
+    const x = 0.7 + i * (width + 0.4);
+    slide.shape({ name: `Step ${i + 1} number`, x, y: 3.8, w: 0.7, h: 0.7, fill: context.palette.primary, geometry: 'ellipse', anchor: 'ctr', paragraphs: [
+      line(String(i + 1), 20, { color: context.palette.onPrimary, bold: true, align: 'ctr' }),
+    ] });
+    slide.text(`Step ${i + 1}`, x, 4.65, width, 1.9, [line(truncate(step, 140), 16)]);
+  });
+  return slide;
+}
+
+function featuresSlide(context: DeckContext, index: number): SlideBuilder {
+  const features = context.data.project.idea?.features?.slice(0, 8) || [];
+  const slide = contentSlide(context, index, 'Key Features', 'Highlights');
+  const rows = Math.ceil(features.length / 2);
+  const height = Math.min(1.1, (4.6 - 0.25 * (rows - 1)) / Math.max(rows, 1));
+
+  features.forEach((feature, i) => {
+    const x = 0.7 + (i % 2) * 6.05;
+    const y = 1.95 + Math.floor(i / 2) * (height + 0.25);
+    slide.shape({ name: `Feature ${i + 1} marker`, x, y, w: 0.12, h: height, fill: context.palette.primary });
+    slide.shape({
+      name: `Feature ${i + 1}`,
+      x: x + 0.12,
+      y,
+      w: 5.63,
+      h: height,
+      fill: context.palette.tint,
+      anchor: 'ctr',
+      inset: 0.2,
+      paragraphs: [line(truncate(feature, 110), 16)],
+    });
+  });
+  return slide;
+}
+
+function techStackSlide(context: DeckContext, index: number): SlideBuilder {
+  const { project } = context.data;
+  const stack = Array.from(new Set([...(project.techStack || []), ...(project.idea?.tech_stack_suggestions || [])])).slice(0, 18);
+  const slide = contentSlide(context, index, 'Tech Stack', 'How it is built');
+
+  // Chips flow left to right and wrap like tags
+  let x = 0.7;
+  let y = 2;
+  stack.forEach((tech, i) => {
+    const label = truncate(tech, 36);
+    const width = Math.min(5.5, 0.6 + label.length * 0.13);
+    if (x + width > SLIDE_WIDTH - 0.7) {
+      x = 0.7;
+      y += 0.85;
+    }
+    slide.shape({
+      name: `Tech ${i + 1}`,
+      x,
+      y,
+      w: width,
+      h: 0.6,
+      fill: i % 3 === 0 ? context.palette.primary : context.palette.tint,
+      geometry: 'roundRect',
+      anchor: 'ctr',
+      paragraphs: [line(label, 16, { color: i % 3 === 0 ? context.palette.onPrimary : TEXT, bold: i % 3 === 0, align: 'ctr' })],
+    });
+    x += width + 0.25;
+  });
+  return slide;
+}
+
+function teamSlide(context: DeckContext, index: number): SlideBuilder {
+  const members = context.data.members.slice(0, 8);
+  const slide = contentSlide(context, index, 'The Team', 'Who built it');
+  const columns = Math.min(4, Math.max(members.length, 1));
+  const width = (11.8 - 0.35 * (columns - 1)) / columns;
+
+  members.forEach((member, i) => {
+    const x = 0.7 + (i % columns) * (width + 0.35);
+    const y = 1.95 + Math.floor(i / columns) * 2.35;
+    const initials = member.name.split(/\s+/).map((part) => part[0]).join('').slice(0, 2).toUpperCase();
+
+    slide.shape({ name: `${member.name} card`, x, y, w: width, h: 2.1, fill: context.palette.tint, geometry: 'roundRect' });
+    slide.shape({
+      name: `${member.name} initials`,
+      x: x + 0.25,
+      y: y + 0.25,
+      w: 0.8,
+      h: 0.8,
+      fill: context.palette.primary,
+      geometry: 'ellipse',
+      anchor: 'ctr',
+      paragraphs: [line(initials || '?', 18, { color: context.palette.onPrimary, bold: true, align: 'ctr' })],
+    });
+    slide.text(`${member.name} name`, x + 1.2, y + 0.25, width - 1.35, 0.8, [
+      line(truncate(member.name, 40), 16, { bold: true }),
+      line(member.role ? member.role.charAt(0).toUpperCase() + member.role.slice(1) : 'Team member', 12, { color: context.palette.secondary }),
+    ], 'ctr');
+    if (member.skills?.length) {
+      slide.text(`${member.name} skills`, x + 0.25, y + 1.2, width - 0.5, 0.8, [line(truncate(member.skills.slice(0, 4).join(' · '), 70), 11, { color: MUTED })]);
+    }
+  });
+  return slide;
+}
+
+function tractionSlide(context: DeckContext, index: number): SlideBuilder {
+  const { tasks, members, analytics } = context.data;
+  const { palette } = context;
+  const slide = contentSlide(context, index, 'Traction & Progress', 'Where we are');
+
+  const done = tasks.filter((t) => t.status === 'Done');
+  const rate = tasks.length > 0 ? done.length / tasks.length : 0;
+  const hours = members.reduce((sum, m) => sum + (m.hours_worked || 0), 0);
+  const stats = [
+    { value: `${done.length}/${tasks.length}`, label: 'Tasks shipped' },
+    { value: `${Math.round(rate * 100)}%`, label: 'Complete' },
+    { value: String(tasks.filter((t) => t.status === 'InProgress').length), label: 'In progress' },
+    hours > 0
+      ? { value: `${Math.round(hours)}h`, label: 'Hours logged' }
+      : { value: analytics?.timeElapsed || String(members.length), label: analytics ? 'Time elapsed' : 'Team members' },
+  ];
+
+  const width = (11.8 - 0.3 * 3) / 4;
+  stats.forEach((stat, i) => {
+    slide.shape({
+      name: `Stat ${i + 1}`,
+      x: 0.7 + i * (width + 0.3),
+      y: 1.95,
+      w: width,
+      h: 1.45,
+      fill: palette.tint,
+      geometry: 'roundRect',
+      anchor: 'ctr',
+      paragraphs: [
+        line(stat.value, 32, { color: palette.primary, bold: true, align: 'ctr' }),
+        line(stat.label, 12, { color: MUTED, align: 'ctr' }),
+      ],
+    });
+  });
+
+  slide.shape({ name: 'Progress track', x: 0.7, y: 3.75, w: 11.8, h: 0.28, fill: 'E5E7EB', geometry: 'roundRect' });
+  if (rate > 0) slide.shape({ name: 'Progress', x: 0.7, y: 3.75, w: Math.max(0.28, 11.8 * rate), h: 0.28, fill: palette.primary, geometry: 'roundRect' });
+
+  const shipped = [...done].sort((a, b) => new Date(b.last_updated).getTime() - new Date(a.last_updated).getTime()).slice(0, 4);
+  if (shipped.length > 0) {
+    slide.text('Recently shipped', 0.7, 4.3, 11.8, 2.4, [
+      line('Recently shipped', 16, { color: palette.primary, bold: true, spaceAfter: 6 }),
+      ...shipped.map((task) => line(truncate(task.title, 100), 15, { bullet: true, spaceAfter: 4 })),
+    ]);
+  }
+  return slide;
+}
+
+function demoSlide(context: DeckContext, index: number): SlideBuilder {
+  const { project } = context.data;
+  const { palette } = context;
+  const slide = contentSlide(context, index, 'See It in Action', 'Demo');
+
+  const links: Paragraph[] = [];
+  if (project.demo_url) {
+    links.push(line('Live demo', 14, { color: MUTED }));
+    links.push(line(project.demo_url, 24, { color: palette.primary, link: slide.addLink(project.demo_url), spaceAfter: 18 }));
+  }
+  if (project.github_repo) {
+    links.push(line('Source code', 14, { color: MUTED }));
+    links.push(line(project.github_repo, 20, { color: palette.primary, link: slide.addLink(project.github_repo), spaceAfter: 18 }));
+  }
+  if (links.length === 0) links.push(line('Live demo available on request.', 22, { color: MUTED }));
+
+  slide.text('Links', 0.7, 2.1, 11.8, 2.8, links);
+  slide.shape({
+    name: 'Thank you',
+    x: 0.7,
+    y: 5.1,
+    w: 11.8,
+    h: 1.3,
+    fill: palette.primary,
+    geometry: 'roundRect',
+    anchor: 'ctr',
+    inset: 0.35,
+    paragraphs: [line(`Thank you! Questions for the ${project.name} team?`, 24, { color: palette.onPrimary, bold: true })],
+  });
+  return slide;
+}
+
+function themeXml(palette: Palette): string {
+  const color = (name: string, value: string) => `<a:${name}><a:srgbClr val="${value}"/></a:${name}>`;
+  const fill = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>';
+  const lineStyle = (w: number) => `<a:ln w="${w}"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>`;
+
+  return (
+    `${XML_HEADER}<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="HackMate"><a:themeElements>` +
+    '<a:clrScheme name="Branding">' +
+    '<a:dk1><a:srgbClr val="000000"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1>' +
+    color('dk2', TEXT) + color('lt2', palette.tint) +
+    color('accent1', palette.primary) + color('accent2', palette.secondary) +
+    color('accent3', '10B981') + color('accent4', 'F59E0B') + color('accent5', 'EF4444') + color('accent6', '8B5CF6') +
+    color('hlink', palette.primary) + color('folHlink', palette.secondary) +
+    '</a:clrScheme>' +
+    '<a:fontScheme name="HackMate">' +
+    '<a:majorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>' +
+    '<a:minorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont>' +
+    '</a:fontScheme>' +
+    '<a:fmtScheme name="HackMate">' +
+    `<a:fillStyleLst>${fill}${fill}${fill}</a:fillStyleLst>` +
+    `<a:lnStyleLst>${lineStyle(6350)}${lineStyle(12700)}${lineStyle(19050)}</a:lnStyleLst>` +
+    '<a:effectStyleLst><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle></a:effectStyleLst>' +
+    `<a:bgFillStyleLst>${fill}${fill}${fill}</a:bgFillStyleLst>` +
+    '</a:fmtScheme></a:themeElements></a:theme>'
+  );
+}
+
+const EMPTY_TREE =
+  '<p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr></p:spTree>';
+
+function packageEntries(slides: SlideBuilder[], palette: Palette, logo: PitchDeckLogo | null, title: string): ZipEntry[] {
+  const rels = (items: [string, string][]) =>
+    `${XML_HEADER}<Relationships xmlns="${PKG_REL_NS}">` +
+    items.map(([type, target], i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/${type}" Target="${target}"/>`).join('') +
+    '</Relationships>';
+  const pml = 'application/vnd.openxmlformats-officedocument.presentationml';
+
+  const entries: ZipEntry[] = [
+    {
+      path: '[Content_Types].xml',
+      data:
+        `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        (logo ? `<Default Extension="${logo.extension}" ContentType="image/${logo.extension}"/>` : '') +
+        `<Override PartName="/ppt/presentation.xml" ContentType="${pml}.presentation.main+xml"/>` +
+        `<Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="${pml}.slideMaster+xml"/>` +
+        `<Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="${pml}.slideLayout+xml"/>` +
+        slides.map((_, i) => `<Override PartName="/ppt/slides/slide${i + 1}.xml" ContentType="${pml}.slide+xml"/>`).join('') +
+        '<Override PartName="/ppt/theme/theme1.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/>' +
+        `<Override PartName="/ppt/presProps.xml" ContentType="${pml}.presProps+xml"/>` +
+        `<Override PartName="/ppt/viewProps.xml" ContentType="${pml}.viewProps+xml"/>` +
+        `<Override PartName="/ppt/tableStyles.xml" ContentType="${pml}.tableStyles+xml"/>` +
+        '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+        '<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>' +
+        '</Types>',
+    },
+    {
+      path: '_rels/.rels',
+      data:
+        `${XML_HEADER}<Relationships xmlns="${PKG_REL_NS}">` +
+        `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="ppt/presentation.xml"/>` +
+        `<Relationship Id="rId2" Type="${PKG_REL_NS}/metadata/core-properties" Target="docProps/core.xml"/>` +
+        `<Relationship Id="rId3" Type="${REL_NS}/extended-properties" Target="docProps/app.xml"/>` +
+        '</Relationships>',
+    },
+    {
+      path: 'docProps/core.xml',
+      data:
+        `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+        'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+        `<dc:title>${escapeXml(title)}</dc:title><dc:creator>HackMate AI</dc:creator>` +
+        `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>` +
+        '</cp:coreProperties>',
+    },
+    {
+      path: 'docProps/app.xml',
+      data:
+        `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">` +
+        `<Application>HackMate AI</Application><Slides>${slides.length}</Slides></Properties>`,
+    },
+    {
+      path: 'ppt/presentation.xml',
+      data:
+        `${XML_HEADER}<p:presentation ${NS}>` +
+        '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>' +
+        `<p:sldIdLst>${slides.map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 2}"/>`).join('')}</p:sldIdLst>` +
+        `<p:sldSz cx="${emu(SLIDE_WIDTH)}" cy="${emu(SLIDE_HEIGHT)}"/><p:notesSz cx="6858000" cy="9144000"/>` +
+        '</p:presentation>',
+    },
+    {
+      path: 'ppt/_rels/presentation.xml.rels',
+      data: rels([
+        ['slideMaster', 'slideMasters/slideMaster1.xml'],
+        ...slides.map((_, i): [string, string] => ['slide', `slides/slide${i + 1}.xml`]),
+        ['presProps', 'presProps.xml'],
+        ['viewProps', 'viewProps.xml'],
+        ['theme', 'theme/theme1.xml'],
+        ['tableStyles', 'tableStyles.xml'],
+      ]),
+    },
+    { path: 'ppt/presProps.xml', data: `${XML_HEADER}<p:presentationPr ${NS}/>` },
+    { path: 'ppt/viewProps.xml', data: `${XML_HEADER}<p:viewPr ${NS}><p:gridSpacing cx="76200" cy="76200"/></p:viewPr>` },
+    {
+      path: 'ppt/tableStyles.xml',
+      data: `${XML_HEADER}<a:tblStyleLst xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`,
+    },
+    { path: 'ppt/theme/theme1.xml', data: themeXml(palette) },
+    {
+      path: 'ppt/slideMasters/slideMaster1.xml',
+      data:
+        `${XML_HEADER}<p:sldMaster ${NS}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>${EMPTY_TREE}</p:cSld>` +
+        '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>' +
+        '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst></p:sldMaster>',
+    },
+    {
+      path: 'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+      data: rels([
+        ['slideLayout', '../slideLayouts/slideLayout1.xml'],
+        ['theme', '../theme/theme1.xml'],
+      ]),
+    },
+    {
+      path: 'ppt/slideLayouts/slideLayout1.xml',
+      data:
+        `${XML_HEADER}<p:sldLayout ${NS} type="blank" preserve="1"><p:cSld name="Blank">${EMPTY_TREE}</p:cSld>` +
+        '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>',
+    },
+    { path: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels', data: rels([['slideMaster', '../slideMasters/slideMaster1.xml']]) },
+  ];
+
+  slides.forEach((slide, i) => {
+    entries.push({ path: `ppt/slides/slide${i + 1}.xml`, data: slide.toXml() });
+    entries.push({ path: `ppt/slides/_rels/slide${i + 1}.xml.rels`, data: slide.relsXml() });
+  });
+  if (logo) entries.push({ path: `ppt/media/logo.${logo.extension}`, data: logo.data });
+
+  return entries;
+}
+
+/**
+ * Builds the pitch deck. Slides without content, such as features before the idea is analyzed,
+ * are left out.
+ */
+export function renderPitchDeck(data: ProjectExportData, logo: PitchDeckLogo | null = null): Uint8Array<ArrayBuffer> {
+  const { project } = data;
+  const palette = getPalette(data);
+
+  const layouts: ((context: DeckContext, index: number) => SlideBuilder)[] = [
+    problemSlide,
+    solutionSlide,
+    ...(project.idea?.features?.length ? [featuresSlide] : []),
+    ...(project.techStack?.length || project.idea?.tech_stack_suggestions?.length ? [techStackSlide] : []),
+    ...(data.members.length > 0 ? [teamSlide] : []),
+    tractionSlide,
+    demoSlide,
+  ];
+
+  const context: DeckContext = { data, palette, logo, slideCount: layouts.length + 1 };
+  const slides = [titleSlide(context), ...layouts.map((layout, i) => layout(context, i + 2))];
+
+  return createZip(packageEntries(slides, palette, logo, `${project.name} - Pitch Deck`));
+}
@@ -0,0 +1,468 @@
+/**
+ * Project import from a JSON export (ProjectSnapshot): validation against the snapshot's schema
+ * version, then recreating the project, tasks, milestones and resources with new ids. Importing into
+ * an existing project matches records by name and either merges the imported fields into them or
+ * skips them.
+ */
+
+import {
+  createMilestone,
+  createProject,
+  createTasks,
+  getProject,
+  getProjectMilestones,
+  getProjectResources,
+  getProjectTasks,
+  reserveTaskIds,
+  updateMilestone,
+  updateProjectDetails,
+  updateProjectIdea,
+  updateResource,
+  updateTask,
+  uploadResource,
+} from "./firestore"
+import { PROJECT_SNAPSHOT_VERSION } from "./export-service"
+import { createChecklistItem } from "./task-checklist"
+import { validateTaskGraph } from "./task-breakdown"
+import type {
+  ChecklistItem,
+  Milestone,
+  Project,
+  ProjectSnapshot,
+  ProjectSnapshotMilestone,
+  ProjectSnapshotResource,
+  ProjectSnapshotTask,
+  SharedResource,
+  Task,
+} from "./types"
+
+export class ProjectImportError extends Error {
+  constructor(
+    message: string,
+    readonly issues: string[] = []
+  ) {
+    super(message)
+    this.name = "ProjectImportError"
+  }
+}
+
+export type ImportConflictMode = "merge" | "skip"
+
+export interface ProjectImportOptions {
+  userId: string
+  projectId?: string // Import into this project instead of creating a new one
+  conflictMode?: ImportConflictMode // Records matching existing ones by name; defaults to skip
+  name?: string // New projects only; defaults to the snapshot's project name
+  shiftDates?: boolean // Moves due dates and deadlines so the snapshot's timeline starts now
+  resetProgress?: boolean // Tasks come in as To Do with open checklists, milestones as upcoming
+}
+
+export interface ImportCounts {
+  tasks: number
+  milestones: number
+  resources: number
+}
+
+export interface ProjectImportResult {
+  projectId: string
+  created: ImportCounts
+  merged: ImportCounts
+  skipped: ImportCounts
+}
+
+const TASK_STATUSES: Task["status"][] = ["ToDo", "InProgress", "Blocked", "Done"]
+const EFFORTS: Task["effort"][] = ["Low", "Medium", "High"]
+const PRIORITIES: Task["priority"][] = ["Low", "Medium", "High", "Critical"]
+const MILESTONE_STATUSES: Milestone["status"][] = ["upcoming", "active", "completed", "overdue"]
+const MILESTONE_TYPES: Milestone["type"][] = ["idea_submission", "prototype", "final_presentation", "custom"]
+const RESOURCE_TYPES: SharedResource["type"][] = ["file", "link", "note", "image", "document"]
+
+const MAX_ISSUES = 20
+const BATCH_SIZE = 400 // Firestore batches take at most 500 writes
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && v.trim() !== "") : []
+
+const isDateString = (value: unknown) => typeof value === "string" && !isNaN(new Date(value).getTime())
+
+const matchKey = (name: string) => name.trim().toLowerCase()
+
+/**
+ * Validates a parsed or raw JSON export and returns it upgraded to the current schema version.
+ * Throws ProjectImportError listing every problem found, so a bad file is rejected before anything is written.
+ */
+export function parseProjectSnapshot(input: unknown): ProjectSnapshot {
+  let data = input
+  if (typeof input === "string") {
+    try {
+      data = JSON.parse(input)
+    } catch {
+      throw new ProjectImportError("The file is not valid JSON")
+    }
+  }
+
+  if (!isObject(data) || !isObject(data.project)) {
+    throw new ProjectImportError("This is not a HackMate project export", ["project: missing"])
+  }
+
+  // Exports made before the schema was versioned have no schema_version
+  const version = data.schema_version ?? 1
+  if (!Number.isInteger(version) || version < 1) {
+    throw new ProjectImportError("This is not a HackMate project export", [`schema_version: ${JSON.stringify(version)} is not valid`])
+  }
+  if (version > PROJECT_SNAPSHOT_VERSION) {
+    throw new ProjectImportError(
+      `This export uses schema version ${version}, but this version of HackMate reads up to ${PROJECT_SNAPSHOT_VERSION}`
+    )
+  }
+
+  const issues: string[] = []
+  const check = (ok: boolean, issue: string) => {
+    if (!ok) issues.push(issue)
+    return ok
+  }
+
+  const project = data.project
+  check(typeof project.name === "string" && project.name.trim() !== "", "project.name: must be a non-empty string")
+  check(project.duration === undefined || project.duration === "24h" || project.duration === "48h", 'project.duration: must be "24h" or "48h"')
+
+  if (data.idea !== undefined) {
+    check(isObject(data.idea) && typeof data.idea.problem_statement === "string", "idea: must have a problem_statement")
+  }
+
+  const tasks: ProjectSnapshotTask[] = []
+  if (check(data.tasks === undefined || Array.isArray(data.tasks), "tasks: must be a list")) {
+    ;(data.tasks || []).forEach((task: any, i: number) => {
+      const path = `tasks[${i}]`
+      if (!check(isObject(task), `${path}: must be an object`)) return
+      check(typeof task.title === "string" && task.title.trim() !== "", `${path}.title: must be a non-empty string`)
+      check(TASK_STATUSES.includes(task.status), `${path}.status: ${JSON.stringify(task.status)} is not a task status`)
+      check(EFFORTS.includes(task.effort), `${path}.effort: ${JSON.stringify(task.effort)} is not an effort level`)
+      check(task.priority === undefined || PRIORITIES.includes(task.priority), `${path}.priority: ${JSON.stringify(task.priority)} is not a priority`)
+      check(task.due_date == null || isDateString(task.due_date), `${path}.due_date: must be a date`)
+      check(task.checklist === undefined || Array.isArray(task.checklist), `${path}.checklist: must be a list`)
+
+      tasks.push({
+        // Version 1 exports have no task ids or dependencies
+        id: version >= 2 && typeof task.id === "string" ? task.id : `task_${i}`,
+        title: String(task.title ?? "").trim(),
+        description: typeof task.description === "string" ? task.description : "",
+        status: task.status,
+        effort: task.effort,
+        priority: task.priority || "Medium",
+        assigned_to: typeof task.assigned_to === "string" ? task.assigned_to : null,
+        due_date: task.due_date ?? null,
+        dependencies: toStringList(task.dependencies),
+        tags: toStringList(task.tags),
+        checklist: (Array.isArray(task.checklist) ? task.checklist : [])
+          .filter((item: any) => isObject(item) && typeof item.title === "string" && item.title.trim() !== "")
+          .map((item: any) => ({
+            title: item.title,
+            done: item.done === true,
+            assigned_to: typeof item.assigned_to === "string" ? item.assigned_to : null,
+            completed_at: isDateString(item.completed_at) ? item.completed_at : null,
+          })),
+      })
+    })
+  }
+
+  // Dependencies on tasks that were deleted before the export are dropped; duplicates and cycles are errors
+  const taskIds = new Set(tasks.map((task) => task.id!))
+  tasks.forEach((task) => (task.dependencies = task.dependencies!.filter((dep) => taskIds.has(dep) && dep !== task.id)))
+  const graphIssues = validateTaskGraph(
+    tasks.map((task) => ({ ...task, key: task.id!, depends_on: task.dependencies!, tags: [], skills: [] }))
+  )
+  graphIssues.forEach((issue) => issues.push(`tasks: ${issue.message}`))
+
+  const milestones: ProjectSnapshotMilestone[] = []
+  if (check(data.milestones === undefined || Array.isArray(data.milestones), "milestones: must be a list")) {
+    ;(data.milestones || []).forEach((milestone: any, i: number) => {
+      const path = `milestones[${i}]`
+      if (!check(isObject(milestone), `${path}: must be an object`)) return
+      check(typeof milestone.name === "string" && milestone.name.trim() !== "", `${path}.name: must be a non-empty string`)
+      check(milestone.deadline == null || isDateString(milestone.deadline), `${path}.deadline: must be a date`)
+      check(MILESTONE_STATUSES.includes(milestone.status), `${path}.status: ${JSON.stringify(milestone.status)} is not a milestone status`)
+
+      milestones.push({
+        id: typeof milestone.id === "string" ? milestone.id : undefined,
+        name: String(milestone.name ?? "").trim(),
+        description: typeof milestone.description === "string" ? milestone.description : "",
+        deadline: milestone.deadline ?? null,
+        status: milestone.status,
+        type: MILESTONE_TYPES.includes(milestone.type) ? milestone.type : "custom",
+      })
+    })
+  }
+
+  const resources: ProjectSnapshotResource[] = []
+  if (check(data.resources === undefined || Array.isArray(data.resources), "resources: must be a list")) {
+    ;(data.resources || []).forEach((resource: any, i: number) => {
+      const path = `resources[${i}]`
+      if (!check(isObject(resource), `${path}: must be an object`)) return
+      check(typeof resource.name === "string" && resource.name.trim() !== "", `${path}.name: must be a non-empty string`)
+      check(RESOURCE_TYPES.includes(resource.type), `${path}.type: ${JSON.stringify(resource.type)} is not a resource type`)
+
+      resources.push({
+        id: typeof resource.id === "string" ? resource.id : undefined,
+        name: String(resource.name ?? "").trim(),
+        type: resource.type,
+        tags: toStringList(resource.tags),
+        url: typeof resource.url === "string" ? resource.url : undefined,
+        content: typeof resource.content === "string" ? resource.content : undefined,
+        size: typeof resource.size === "number" ? resource.size : undefined,
+        file_type: typeof resource.file_type === "string" ? resource.file_type : undefined,
+        original_name: typeof resource.original_name === "string" ? resource.original_name : undefined,
+      })
+    })
+  }
+
+  if (issues.length > 0) {
+    const shown = issues.slice(0, MAX_ISSUES)
+    if (issues.length > MAX_ISSUES) shown.push(`...and ${issues.length - MAX_ISSUES} more`)
+    throw new ProjectImportError(`The export has ${issues.length} problem${issues.length === 1 ? "" : "s"}`, shown)
+  }
+
+  return {
+    schema_version: PROJECT_SNAPSHOT_VERSION,
+    exported_at: typeof data.exported_at === "string" ? data.exported_at : undefined,
+    project: {
+      name: project.name.trim(),
+      description: typeof project.description === "string" ? project.description : undefined,
+      duration: project.duration,
+      status: project.status,
+      createdAt: isDateString(project.createdAt) ? project.createdAt : undefined,
+      techStack: toStringList(project.techStack),
+      category: typeof project.category === "string" ? project.category : undefined,
+      privacy: ["private", "team", "public"].includes(project.privacy) ? project.privacy : undefined,
+      github_repo: typeof project.github_repo === "string" ? project.github_repo : undefined,
+      demo_url: typeof project.demo_url === "string" ? project.demo_url : undefined,
+    },
+    idea: data.idea
+      ? {
+          problem_statement: data.idea.problem_statement,
+          target_users: toStringList(data.idea.target_users),
+          features: toStringList(data.idea.features),
+          risks: toStringList(data.idea.risks),
+          tech_stack_suggestions: toStringList(data.idea.tech_stack_suggestions),
+        }
+      : undefined,
+    tasks,
+    milestones,
+    resources,
+  }
+}
+
+/**
+ * Writes a validated snapshot to Firestore. Every imported record gets a new id and task dependencies
+ * are rewritten to match; records matching an existing one by name reuse its id, so dependencies on a
+ * skipped or merged task still resolve.
+ */
+export async function importProjectSnapshot(
+  snapshot: ProjectSnapshot,
+  options: ProjectImportOptions
+): Promise<ProjectImportResult> {
+  const { userId, conflictMode = "skip", resetProgress = false } = options
+  const merge = conflictMode === "merge"
+  const created: ImportCounts = { tasks: 0, milestones: 0, resources: 0 }
+  const merged: ImportCounts = { tasks: 0, milestones: 0, resources: 0 }
+  const skipped: ImportCounts = { tasks: 0, milestones: 0, resources: 0 }
+
+  const exportedStart = snapshot.project.createdAt ? new Date(snapshot.project.createdAt).getTime() : null
+  const dateOffset = options.shiftDates && exportedStart ? Date.now() - exportedStart : 0
+  const shiftDate = (value: string) => new Date(new Date(value).getTime() + dateOffset)
+
+  let projectId: string
+  let members: string[]
+  let existingProject: Project | null = null
+  let existingTasks: Task[] = []
+  let existingMilestones: Milestone[] = []
+  let existingResources: SharedResource[] = []
+
+  if (options.projectId) {
+    const project = await getProject(options.projectId)
+    if (!project) throw new ProjectImportError("Project not found")
+    if (project.created_by !== userId && !(project.members || []).includes(userId)) {
+      throw new ProjectImportError("You do not have access to this project")
+    }
+
+    projectId = project.id
+    members = project.members || []
+    existingProject = project
+    ;[existingTasks, existingMilestones, existingResources] = await Promise.all([
+      getProjectTasks(projectId),
+      getProjectMilestones(projectId),
+      getProjectResources(projectId),
+    ])
+  } else {
+    projectId = await createProject({
+      name: options.name?.trim() || snapshot.project.name,
+      duration: snapshot.project.duration || "24h",
+      userId,
+      techStack: snapshot.project.techStack,
+      category: snapshot.project.category,
+      privacy: snapshot.project.privacy,
+      // Version 1 exports carry no milestones, so those projects still get the defaults
+      defaultMilestones: !snapshot.milestones?.length,
+    })
+    members = [userId]
+
+    if (snapshot.idea) await updateProjectIdea(projectId, snapshot.idea)
+    await updateProjectDetails(projectId, {
+      description: snapshot.project.description || undefined,
+      github_repo: snapshot.project.github_repo || undefined,
+      demo_url: snapshot.project.demo_url || undefined,
+    })
+  }
+
+  // Assignees only carry over when they belong to the target project
+  const memberOrNull = (uid: string | null) => (uid && members.includes(uid) ? uid : null)
+
+  // Tasks: resolve every snapshot id to an existing or reserved task id before writing dependencies.
+  // Each existing task matches at most one snapshot task, so repeated titles pair up in order.
+  const snapshotTasks = snapshot.tasks || []
+  const unmatchedTasks = new Map<string, Task[]>()
+  existingTasks.forEach((task) => {
+    const key = matchKey(task.title)
+    unmatchedTasks.set(key, [...(unmatchedTasks.get(key) || []), task])
+  })
+  const matches = snapshotTasks.map((task) => unmatchedTasks.get(matchKey(task.title))?.shift())
+  const reserved = reserveTaskIds(matches.filter((match) => !match).length)
+  const idMap = new Map<string, string>()
+  snapshotTasks.forEach((task, i) => idMap.set(task.id!, matches[i]?.task_id || reserved.shift()!))
+
+  const toTaskFields = (task: ProjectSnapshotTask) => {
+    const checklist: ChecklistItem[] = task.checklist.map((item) => ({
+      ...createChecklistItem(item.title, memberOrNull(item.assigned_to)),
+      done: resetProgress ? false : item.done,
+      completed_at: !resetProgress && item.done && item.completed_at ? new Date(item.completed_at) : null,
+    }))
+    return {
+      title: task.title,
+      description: task.description,
+      // Blocker details are not exported, so blocked tasks come back as To Do
+      status: resetProgress || task.status === "Blocked" ? ("ToDo" as const) : task.status,
+      effort: task.effort,
+      priority: task.priority,
+      due_date: task.due_date ? shiftDate(task.due_date) : undefined,
+      dependencies: (task.dependencies || []).map((dep) => idMap.get(dep)!).filter(Boolean),
+      tags: task.tags || [],
+      checklist,
+    }
+  }
+
+  // Merged tasks keep their existing dependencies too, which can close a cycle through the imported ones
+  const mergedDependencies = new Map<string, string[]>()
+  if (merge) {
+    snapshotTasks.forEach((task, i) => {
+      const existing = matches[i]
+      if (!existing) return
+      const imported = (task.dependencies || []).map((dep) => idMap.get(dep)!).filter(Boolean)
+      mergedDependencies.set(existing.task_id, Array.from(new Set([...(existing.dependencies || []), ...imported])))
+    })
+
+    const graph = [
+      ...existingTasks.map((task) => ({ ...task, key: task.task_id, depends_on: mergedDependencies.get(task.task_id) || task.dependencies || [] })),
+      ...snapshotTasks
+        .filter((_, i) => !matches[i])
+        .map((task) => ({ ...task, key: idMap.get(task.id!)!, depends_on: toTaskFields(task).dependencies })),
+    ]
+    const taskIds = new Set(graph.map((task) => task.key))
+    const cycles = validateTaskGraph(
+      graph.map((task) => ({ ...task, depends_on: task.depends_on.filter((dep) => taskIds.has(dep)), tags: [], skills: [] }))
+    ).filter((issue) => issue.type === "cycle")
+    if (cycles.length > 0) {
+      throw new ProjectImportError(
+        "Merging would create dependency cycles with this project's tasks. Import with skip instead, or remove the dependencies from the export.",
+        cycles.slice(0, MAX_ISSUES).map((issue) => `tasks: ${issue.message}`)
+      )
+    }
+  }
+
+  // Skip only fills in what the project is missing
+  if (existingProject) {
+    if (snapshot.idea && (merge || !existingProject.idea)) await updateProjectIdea(projectId, snapshot.idea)
+    await updateProjectDetails(projectId, {
+      description: merge || !existingProject.description ? snapshot.project.description || undefined : undefined,
+      techStack: snapshot.project.techStack?.length
+        ? Array.from(new Set([...(existingProject.techStack || []), ...snapshot.project.techStack]))
+        : undefined,
+      github_repo: merge || !existingProject.github_repo ? snapshot.project.github_repo || undefined : undefined,
+      demo_url: merge || !existingProject.demo_url ? snapshot.project.demo_url || undefined : undefined,
+    })
+  }
+
+  const newTasks: (Omit<Task, "task_id" | "last_updated"> & { task_id: string })[] = []
+  const taskUpdates: Promise<void>[] = []
+  snapshotTasks.forEach((task, i) => {
+    const existing = matches[i]
+    if (!existing) {
+      newTasks.push({ ...toTaskFields(task), task_id: idMap.get(task.id!)!, project_id: projectId, assigned_to: memberOrNull(task.assigned_to) })
+      created.tasks++
+    } else if (merge) {
+      const fields = toTaskFields(task)
+      taskUpdates.push(
+        updateTask(existing.task_id, {
+          ...fields,
+          dependencies: mergedDependencies.get(existing.task_id)!,
+          assigned_to: memberOrNull(task.assigned_to) ?? existing.assigned_to,
+          blocker: null,
+        })
+      )
+      merged.tasks++
+    } else {
+      skipped.tasks++
+    }
+  })
+
+  for (let i = 0; i < newTasks.length; i += BATCH_SIZE) {
+    await createTasks(newTasks.slice(i, i + BATCH_SIZE))
+  }
+  await Promise.all(taskUpdates)
+
+  // Milestones match by name; one exported without a deadline can only be merged, never created
+  const existingMilestoneIds = new Map(existingMilestones.map((milestone) => [matchKey(milestone.name), milestone.milestone_id]))
+  await Promise.all(
+    (snapshot.milestones || []).map((milestone) => {
+      const fields = {
+        name: milestone.name,
+        description: milestone.description,
+        status: resetProgress ? ("upcoming" as const) : milestone.status,
+        type: milestone.type,
+      }
+      const deadline = milestone.deadline ? shiftDate(milestone.deadline) : null
+      const existingId = existingMilestoneIds.get(matchKey(milestone.name))
+      if (!existingId && deadline) {
+        created.milestones++
+        return createMilestone({ ...fields, deadline, project_id: projectId })
+      }
+      if (existingId && merge) {
+        merged.milestones++
+        return updateMilestone(existingId, deadline ? { ...fields, deadline } : fields)
+      }
+      skipped.milestones++
+    })
+  )
+
+  // Resources match by name and type; file resources keep pointing at the original upload
+  const existingResourceIds = new Map(existingResources.map((resource) => [`${resource.type}:${matchKey(resource.name)}`, resource.resource_id]))
+  await Promise.all(
+    (snapshot.resources || []).map((resource) => {
+      const { id: _id, ...fields } = resource
+      const existingId = existingResourceIds.get(`${resource.type}:${matchKey(resource.name)}`)
+      if (!existingId) {
+        created.resources++
+        return uploadResource({ ...fields, project_id: projectId, uploaded_by: userId })
+      }
+      if (merge) {
+        merged.resources++
+        return updateResource(existingId, Object.fromEntries(Object.entries(fields).filter(([_, value]) => value !== undefined)))
+      }
+      skipped.resources++
+    })
+  )
+
+  return { projectId, created, merged, skipped }
+}
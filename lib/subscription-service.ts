@@ -11,11 +11,14 @@ export interface SubscriptionLimits {
   apiAccess: boolean;
 }
 
+// Tiers users can switch between themselves; paid tiers are only set server-side (see firestore.rules)
+export const SELF_SERVICE_TIERS: SubscriptionTier[] = ['free', 'hackathon_free'];
+
 export const SUBSCRIPTION_LIMITS: Record<SubscriptionTier, SubscriptionLimits> = {
   free: {
     maxProjects: 1,
     maxTeamSize: 3,
-    aiCreditsPerMonth: 0,
+    aiCreditsPerMonth: 50, // Same allowance as the free plan in lib/subscription.ts
     exportFormats: [],
     advancedAnalytics: false,
     prioritySupport: false,
@@ -0,0 +1,71 @@
+/**
+ * Blocked task state: the updates for entering and leaving Blocked, blocked-time accounting
+ * and who gets a blocker_alert notification.
+ */
+
+import type { ProjectMember, Task, TaskBlocker } from "./types"
+
+export interface BlockerInput {
+  reason: string
+  blockingTaskId?: string
+  blockingUserId?: string
+}
+
+const minutesBetween = (from: Date | string, to: number) => Math.max(0, (to - new Date(from).getTime()) / 60000)
+
+/** Total time the task has spent Blocked, including the current block if it is still open. */
+export function getBlockedMinutes(task: Task, now: number = Date.now()): number {
+  const current = task.status === "Blocked" && task.blocker ? minutesBetween(task.blocker.since, now) : 0
+  return (task.blocked_minutes || 0) + current
+}
+
+export function buildBlockUpdate(input: BlockerInput, now: Date = new Date()): Partial<Task> {
+  const reason = input.reason.trim()
+  if (!reason) throw new Error("A blocked task needs a reason")
+
+  const blocker: TaskBlocker = { reason, since: now }
+  if (input.blockingTaskId) blocker.blocking_task_id = input.blockingTaskId
+  if (input.blockingUserId) blocker.blocking_user_id = input.blockingUserId
+
+  return { status: "Blocked", blocker }
+}
+
+/** Closes the open block: its duration is added to blocked_minutes and the blocker is cleared. */
+export function buildUnblockUpdate(task: Task, status: Task["status"], now: number = Date.now()): Partial<Task> {
+  return {
+    status,
+    blocker: null,
+    blocked_minutes: Math.round(getBlockedMinutes(task, now)),
+  }
+}
+
+/**
+ * People to alert about a new blocker: the person blocking, the owner of the blocking task,
+ * the task's assignee and the project leads. The member who reported it is left out.
+ */
+export function getBlockerAlertRecipients(
+  task: Task,
+  blocker: BlockerInput,
+  tasks: Task[],
+  members: ProjectMember[],
+  reporterId: string
+): string[] {
+  const blockingTask = blocker.blockingTaskId ? tasks.find((t) => t.task_id === blocker.blockingTaskId) : undefined
+  const recipients = [
+    blocker.blockingUserId,
+    blockingTask?.assigned_to,
+    task.assigned_to,
+    ...members.filter((m) => m.role === "lead").map((m) => m.user_id),
+  ]
+
+  return Array.from(new Set(recipients.filter((id): id is string => !!id && id !== reporterId)))
+}
+
+export function describeBlocker(blocker: TaskBlocker, tasks: Task[], members: ProjectMember[]): string {
+  const waitingOn = [
+    blocker.blocking_task_id && `"${tasks.find((t) => t.task_id === blocker.blocking_task_id)?.title || "another task"}"`,
+    blocker.blocking_user_id && (members.find((m) => m.user_id === blocker.blocking_user_id)?.name || "a teammate"),
+  ].filter(Boolean)
+
+  return waitingOn.length > 0 ? `${blocker.reason} (waiting on ${waitingOn.join(" and ")})` : blocker.reason
+}
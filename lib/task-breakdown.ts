@@ -0,0 +1,264 @@
+/**
+ * AI task breakdown: a dependency graph of tasks with priorities and suggested assignees
+ * Shared by the AI route (prompting + normalization) and the project page (review + validation)
+ */
+
+import type { ProjectMember, Task, TaskDraft, TaskGraphIssue } from "./types"
+
+export type TaskBreakdownMember = Pick<ProjectMember, "user_id" | "name" | "role" | "skills" | "availability">
+
+export interface TaskBreakdownInput {
+  projectName: string
+  features: string[]
+  duration: string
+  members: TaskBreakdownMember[]
+}
+
+const EFFORTS: Task["effort"][] = ["Low", "Medium", "High"]
+const PRIORITIES: Task["priority"][] = ["Low", "Medium", "High", "Critical"]
+const EFFORT_POINTS: Record<Task["effort"], number> = { Low: 1, Medium: 2, High: 3 }
+
+export function buildTaskBreakdownPrompt(input: TaskBreakdownInput): string {
+  const team = input.members.length
+    ? input.members
+        .map((m) => `- ${m.user_id}: ${m.name} (${m.role}) skills: ${m.skills?.join(", ") || "none listed"}`)
+        .join("\n")
+    : "- No team members yet"
+
+  return `You are a hackathon task planner. Break this project into tasks and return ONLY valid JSON.
+
+Project: ${input.projectName}
+Features: ${input.features.join(", ") || "Basic functionality"}
+Duration: ${input.duration}
+
+Team (user_id: name (role) skills):
+${team}
+
+Rules:
+- Give every task a short unique "id" and list the ids it needs finished first in "depends_on". No cycles.
+- "priority" is "Low", "Medium", "High" or "Critical"; tasks on the path to a working demo are High or Critical.
+- "skills" are the skills the task needs. "assignee" is the user_id of the best matching member, or null.
+- Use only "Low", "Medium", or "High" for effort.
+
+Return this EXACT JSON array with NO extra text:
+[
+  {"id": "t1", "title": "Task name", "description": "Brief description", "effort": "Low", "priority": "High", "depends_on": [], "tags": ["setup"], "skills": ["git"], "assignee": null},
+  {"id": "t2", "title": "Task name", "description": "Brief description", "effort": "High", "priority": "Critical", "depends_on": ["t1"], "tags": ["backend"], "skills": ["node"], "assignee": null},
+  {"id": "t3", "title": "Task name", "description": "Brief description", "effort": "Medium", "priority": "Medium", "depends_on": ["t1"], "tags": ["frontend"], "skills": ["react"], "assignee": null}
+]
+
+Generate 6-10 realistic tasks.`
+}
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && v.trim() !== "").map((v) => v.trim()) : []
+
+const normalizeSkill = (skill: string) => skill.toLowerCase().replace(/[^a-z0-9+#]/g, "")
+
+/**
+ * Scores how well a member fits a task: overlapping skills count most, task tags that match a skill
+ * count a little, and members already carrying more effort in this breakdown are penalized.
+ */
+function scoreMember(draft: TaskDraft, member: TaskBreakdownMember, load: number): number {
+  const memberSkills = (member.skills || []).map(normalizeSkill).filter(Boolean)
+  const matches = (needed: string) => {
+    const skill = normalizeSkill(needed)
+    return skill !== "" && memberSkills.some((s) => s === skill || s.includes(skill) || skill.includes(s))
+  }
+
+  const skillScore = draft.skills.filter(matches).length * 2 + draft.tags.filter(matches).length * 0.5
+  const availabilityPenalty = member.availability === "offline" ? 1 : member.availability === "busy" ? 0.5 : 0
+  return skillScore - load * 0.25 - availabilityPenalty
+}
+
+/**
+ * Fills in assignees for drafts without a valid one, matching task skills against member skills.
+ * Tasks with no skill overlap are left unassigned rather than handed out at random.
+ */
+export function suggestAssignees(drafts: TaskDraft[], members: TaskBreakdownMember[]): TaskDraft[] {
+  const memberIds = new Set(members.map((m) => m.user_id))
+  const load = new Map<string, number>()
+
+  for (const draft of drafts) {
+    if (draft.assigned_to && memberIds.has(draft.assigned_to)) {
+      load.set(draft.assigned_to, (load.get(draft.assigned_to) || 0) + EFFORT_POINTS[draft.effort])
+    }
+  }
+
+  return drafts.map((draft) => {
+    if (draft.assigned_to && memberIds.has(draft.assigned_to)) return draft
+
+    let best: { userId: string; score: number } | null = null
+    for (const member of members) {
+      const score = scoreMember(draft, member, load.get(member.user_id) || 0)
+      if (score > 0 && (!best || score > best.score)) best = { userId: member.user_id, score }
+    }
+
+    if (!best) return { ...draft, assigned_to: null }
+    load.set(best.userId, (load.get(best.userId) || 0) + EFFORT_POINTS[draft.effort])
+    return { ...draft, assigned_to: best.userId }
+  })
+}
+
+/**
+ * Turns the model's JSON into drafts: fills defaults, de-duplicates ids, resolves assignees given
+ * by name, and drops references to ids that do not exist. Cycles are left for validateTaskGraph
+ * to report, since only the team can tell which dependency is wrong.
+ */
+export function normalizeTaskBreakdown(raw: unknown, members: TaskBreakdownMember[]): TaskDraft[] {
+  if (!Array.isArray(raw)) throw new Error("Invalid task array")
+
+  const usedKeys = new Set<string>()
+  const keyMap = new Map<string, string>()
+
+  const drafts = raw
+    .filter((task): task is Record<string, any> => !!task && typeof task === "object")
+    .map((task, index) => {
+      const rawKey = typeof task.id === "string" || typeof task.id === "number" ? String(task.id).trim() : ""
+      let key = rawKey || `t${index + 1}`
+      while (usedKeys.has(key)) key = `${key}-${index + 1}`
+      usedKeys.add(key)
+      if (rawKey && !keyMap.has(rawKey)) keyMap.set(rawKey, key)
+
+      const assignee = typeof task.assignee === "string" ? task.assignee.trim().toLowerCase() : ""
+      const member = members.find((m) => m.user_id.toLowerCase() === assignee || m.name.toLowerCase() === assignee)
+
+      return {
+        key,
+        title: task.title || "Untitled Task",
+        description: task.description || "No description provided",
+        effort: EFFORTS.includes(task.effort) ? task.effort : "Medium",
+        priority: PRIORITIES.includes(task.priority) ? task.priority : "Medium",
+        depends_on: toStringList(task.depends_on ?? task.dependencies),
+        tags: toStringList(task.tags),
+        skills: toStringList(task.skills),
+        assigned_to: member?.user_id ?? null,
+      } as TaskDraft
+    })
+
+  if (drafts.length === 0) throw new Error("Invalid task array")
+
+  for (const draft of drafts) {
+    draft.depends_on = Array.from(
+      new Set(draft.depends_on.map((dep) => keyMap.get(dep)).filter((dep): dep is string => !!dep && dep !== draft.key))
+    )
+  }
+
+  return suggestAssignees(drafts, members)
+}
+
+/**
+ * Checks the graph before it is written: duplicate keys, dependencies on tasks that are not in the
+ * breakdown, and dependency cycles (each cycle is reported once, on the task where it was found).
+ */
+export function validateTaskGraph(drafts: TaskDraft[]): TaskGraphIssue[] {
+  const issues: TaskGraphIssue[] = []
+  const byKey = new Map<string, TaskDraft>()
+
+  for (const draft of drafts) {
+    if (byKey.has(draft.key)) {
+      issues.push({ type: "duplicate", taskKey: draft.key, message: `"${draft.title}" reuses the id "${draft.key}"` })
+    } else {
+      byKey.set(draft.key, draft)
+    }
+  }
+
+  for (const draft of drafts) {
+    for (const dep of draft.depends_on) {
+      if (!byKey.has(dep)) {
+        issues.push({
+          type: "dangling",
+          taskKey: draft.key,
+          message: `"${draft.title}" depends on "${dep}", which is not in this breakdown`,
+        })
+      }
+    }
+  }
+
+  // Depth-first search; reaching a task that is still on the stack closes a cycle
+  const state = new Map<string, "visiting" | "done">()
+  const stack: string[] = []
+
+  const visit = (key: string) => {
+    state.set(key, "visiting")
+    stack.push(key)
+
+    for (const dep of byKey.get(key)?.depends_on || []) {
+      if (!byKey.has(dep)) continue
+      if (state.get(dep) === "visiting") {
+        const cycle = [...stack.slice(stack.indexOf(dep)), dep].map((k) => `"${byKey.get(k)!.title}"`)
+        issues.push({ type: "cycle", taskKey: key, message: `Dependency cycle: ${cycle.join(" → ")}` })
+      } else if (!state.has(dep)) {
+        visit(dep)
+      }
+    }
+
+    stack.pop()
+    state.set(key, "done")
+  }
+
+  byKey.forEach((_, key) => {
+    if (!state.has(key)) visit(key)
+  })
+
+  return issues
+}
+
+/** Removes a draft and any dependencies on it, so deleting a task never leaves dangling references. */
+export function removeTaskDraft(drafts: TaskDraft[], key: string): TaskDraft[] {
+  return drafts
+    .filter((d) => d.key !== key)
+    .map((d) => (d.depends_on.includes(key) ? { ...d, depends_on: d.depends_on.filter((dep) => dep !== key) } : d))
+}
+
+/**
+ * Converts reviewed drafts into tasks, replacing draft keys with the task ids reserved for them.
+ * Expects a graph that passed validateTaskGraph.
+ */
+export function draftsToTasks(
+  drafts: TaskDraft[],
+  projectId: string,
+  taskIds: string[]
+): (Omit<Task, "last_updated">)[] {
+  const idByKey = new Map(drafts.map((d, i) => [d.key, taskIds[i]]))
+
+  return drafts.map((draft, i) => ({
+    task_id: taskIds[i],
+    project_id: projectId,
+    title: draft.title,
+    description: draft.description,
+    status: "ToDo",
+    effort: draft.effort,
+    priority: draft.priority,
+    assigned_to: draft.assigned_to,
+    dependencies: draft.depends_on.map((dep) => idByKey.get(dep)!),
+    tags: Array.from(new Set([...draft.tags, ...draft.skills])),
+    time_spent: 0,
+  }))
+}
+
+export function getFallbackTaskBreakdown(members: TaskBreakdownMember[]): TaskDraft[] {
+  const task = (
+    key: string,
+    title: string,
+    description: string,
+    effort: Task["effort"],
+    priority: Task["priority"],
+    depends_on: string[],
+    skills: string[]
+  ): TaskDraft => ({ key, title, description, effort, priority, depends_on, tags: [], skills, assigned_to: null })
+
+  return suggestAssignees(
+    [
+      task("setup", "Set up project structure", "Initialize the project with basic folder structure and dependencies", "Low", "Critical", [], ["git"]),
+      task("design", "Design user interface", "Create wireframes and basic UI components for the application", "Medium", "High", ["setup"], ["design", "figma"]),
+      task("core", "Implement core functionality", "Build the main features and business logic of the application", "High", "Critical", ["setup"], ["javascript", "node", "backend"]),
+      task("polish", "Add styling and polish", "Improve the visual design and user experience", "Medium", "Medium", ["design", "core"], ["css", "react", "frontend"]),
+      task("test", "Test and debug", "Fix bugs and ensure everything works properly", "Medium", "High", ["core"], ["testing"]),
+      task("deploy", "Deploy application", "Set up hosting and deploy the final version", "Low", "High", ["test"], ["devops"]),
+      task("docs", "Documentation", "Write README and basic documentation", "Low", "Medium", ["core"], ["writing"]),
+      task("pitch", "Prepare presentation", "Create demo materials and presentation for judges", "Low", "High", ["deploy"], ["presentation"]),
+    ],
+    members
+  )
+}
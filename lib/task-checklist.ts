@@ -0,0 +1,112 @@
+/**
+ * Checklist items (subtasks) inside a task: edits as pure functions over the item list so they can be
+ * applied inside a transaction, progress roll-up for cards and exports, and the AI checklist prompt.
+ */
+
+import type { ChecklistItem, Task } from "./types"
+
+export type ChecklistChange = (items: ChecklistItem[]) => ChecklistItem[]
+
+export interface ChecklistProgress {
+  done: number
+  total: number
+  percent: number
+}
+
+const MAX_TITLE_LENGTH = 200
+const MAX_GENERATED_ITEMS = 12
+
+const newItemId = () => `item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+export function getChecklistProgress(task: Pick<Task, "checklist">): ChecklistProgress {
+  const items = task.checklist || []
+  const done = items.filter((item) => item.done).length
+  return { done, total: items.length, percent: items.length > 0 ? Math.round((done / items.length) * 100) : 0 }
+}
+
+export function createChecklistItem(title: string, assignedTo: string | null = null): ChecklistItem {
+  return {
+    item_id: newItemId(),
+    title: title.trim().slice(0, MAX_TITLE_LENGTH),
+    done: false,
+    assigned_to: assignedTo,
+    completed_at: null,
+  }
+}
+
+export const addChecklistItems =
+  (titles: string[], assignedTo: string | null = null): ChecklistChange =>
+  (items) => [...items, ...titles.filter((t) => t.trim()).map((title) => createChecklistItem(title, assignedTo))]
+
+export const toggleChecklistItem =
+  (itemId: string, done: boolean): ChecklistChange =>
+  (items) =>
+    items.map((item) => (item.item_id === itemId ? { ...item, done, completed_at: done ? new Date() : null } : item))
+
+export const updateChecklistItem =
+  (itemId: string, updates: Partial<Pick<ChecklistItem, "title" | "assigned_to">>): ChecklistChange =>
+  (items) =>
+    items.map((item) =>
+      item.item_id === itemId
+        ? { ...item, ...updates, ...(updates.title !== undefined && { title: updates.title.trim().slice(0, MAX_TITLE_LENGTH) }) }
+        : item
+    )
+
+export const removeChecklistItem =
+  (itemId: string): ChecklistChange =>
+  (items) =>
+    items.filter((item) => item.item_id !== itemId)
+
+/** One line per item for CSV cells and plain-text reports, e.g. "[x] Set up auth (Sam)" */
+export function formatChecklist(items: ChecklistItem[], getName: (userId: string) => string | undefined): string {
+  return items
+    .map((item) => {
+      const owner = item.assigned_to ? getName(item.assigned_to) : undefined
+      return `[${item.done ? "x" : " "}] ${item.title}${owner ? ` (${owner})` : ""}`
+    })
+    .join("\n")
+}
+
+export function buildChecklistPrompt(input: { title: string; description?: string; projectName?: string; techStack?: string }): string {
+  return `You are a hackathon task planner. Break this task into a short checklist and return ONLY valid JSON.
+
+Project: ${input.projectName || "Hackathon project"}
+Tech stack: ${input.techStack || "Not specified"}
+Task: ${input.title}
+Description: ${input.description || "No description"}
+
+Rules:
+- 3-8 concrete steps, each small enough to finish in under an hour.
+- Start each step with a verb. No numbering.
+
+Return this EXACT JSON array with NO extra text:
+["Step one", "Step two", "Step three"]`
+}
+
+/** Accepts a list of strings or of {title} objects and returns clean, de-duplicated step titles */
+export function normalizeChecklist(raw: unknown): string[] {
+  if (!Array.isArray(raw)) throw new Error("Checklist must be an array")
+
+  const seen = new Set<string>()
+  const titles: string[] = []
+  for (const entry of raw) {
+    const title = typeof entry === "string" ? entry : typeof entry?.title === "string" ? entry.title : ""
+    const clean = title.replace(/^\s*(\d+[.)]|[-*•])\s*/, "").trim().slice(0, MAX_TITLE_LENGTH)
+    if (!clean || seen.has(clean.toLowerCase())) continue
+    seen.add(clean.toLowerCase())
+    titles.push(clean)
+  }
+
+  if (titles.length === 0) throw new Error("Checklist is empty")
+  return titles.slice(0, MAX_GENERATED_ITEMS)
+}
+
+export function getFallbackChecklist(title: string): string[] {
+  return [
+    `Clarify what "done" means for ${title}`,
+    "Build the smallest working version",
+    "Handle the obvious edge cases",
+    "Test it end to end",
+    "Push and let the team know",
+  ]
+}
@@ -0,0 +1,205 @@
+/**
+ * Threaded comments on a task, stored in tasks/{task_id}/comments. Replies point at their top-level
+ * comment through parent_id. Task.comment_count is kept in step with every post and delete so cards can
+ * show a count without loading the thread. Posting notifies each @mentioned member and logs the
+ * discussion to the live activity feed.
+ */
+
+import {
+  collection,
+  doc,
+  increment,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  updateDoc,
+  writeBatch,
+  type DocumentData,
+} from "firebase/firestore"
+import { getFirebaseDb } from "./firebase"
+import { getAIRequestHeaders } from "./ai-client"
+import { addActivity, createNotification } from "./firestore"
+import type { ProjectMember, Task, TaskComment } from "./types"
+
+export const MAX_COMMENT_LENGTH = 5000
+
+export interface PostCommentInput {
+  task: Task
+  authorId: string
+  authorName: string
+  body: string
+  members: ProjectMember[]
+  parentId?: string | null
+  emailMentions?: boolean
+}
+
+function getDb() {
+  const db = getFirebaseDb()
+  if (!db) throw new Error("Database not available")
+  return db
+}
+
+const commentsRef = (taskId: string) => collection(getDb(), "tasks", taskId, "comments")
+
+const toDate = (value: any): Date => value?.toDate?.() || (value ? new Date(value) : new Date())
+
+function toTaskComment(data: DocumentData): TaskComment {
+  return {
+    ...data,
+    parent_id: data.parent_id ?? null,
+    mentions: data.mentions || [],
+    created_at: toDate(data.created_at),
+    edited_at: data.edited_at ? toDate(data.edited_at) : null,
+  } as TaskComment
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+/**
+ * User ids of the members mentioned as @Name in the body. Names may contain spaces, so longer names
+ * are tried first ("@Sam Lee" is not read as "@Sam"), and matching ignores case.
+ */
+export function extractMentions(body: string, members: ProjectMember[]): string[] {
+  const named = members.filter((m) => m.name?.trim()).sort((a, b) => b.name.length - a.name.length)
+  const mentioned = new Set<string>()
+
+  for (const match of Array.from(body.matchAll(/(^|[^\w@])@(?=\S)/g))) {
+    const rest = body.slice((match.index ?? 0) + match[0].length)
+    const member = named.find((m) => new RegExp(`^${escapeRegExp(m.name.trim())}(?![\\w])`, "i").test(rest))
+    if (member) mentioned.add(member.user_id)
+  }
+  return Array.from(mentioned)
+}
+
+/** The partial @mention being typed at the end of the text, for the autocomplete list */
+export function getMentionQuery(text: string): string | null {
+  const match = text.match(/(?:^|\s)@([\w.-]*(?: [\w.-]*)?)$/)
+  return match ? match[1] : null
+}
+
+/** Replaces the partial @mention at the end of the text with the member's full name */
+export function completeMention(text: string, member: ProjectMember): string {
+  return text.replace(/@([\w.-]*(?: [\w.-]*)?)$/, `@${member.name} `)
+}
+
+/** Top-level comments oldest first, each with its replies; replies whose parent was deleted are shown as top level */
+export function buildCommentThreads(comments: TaskComment[]): { comment: TaskComment; replies: TaskComment[] }[] {
+  const ids = new Set(comments.map((c) => c.comment_id))
+  const byTime = [...comments].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+  return byTime
+    .filter((c) => !c.parent_id || !ids.has(c.parent_id))
+    .map((comment) => ({ comment, replies: byTime.filter((c) => c.parent_id === comment.comment_id) }))
+}
+
+export function subscribeToTaskComments(taskId: string, callback: (comments: TaskComment[]) => void) {
+  try {
+    const q = query(commentsRef(taskId), orderBy("created_at", "asc"))
+    return onSnapshot(
+      q,
+      (snapshot) => callback(snapshot.docs.map((d) => toTaskComment(d.data()))),
+      (error) => {
+        console.error("Error subscribing to comments:", error)
+        callback([])
+      }
+    )
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+export async function postTaskComment(input: PostCommentInput): Promise<TaskComment> {
+  const body = input.body.trim().slice(0, MAX_COMMENT_LENGTH)
+  if (!body) throw new Error("Comment is empty")
+
+  const db = getDb()
+  const commentRef = doc(commentsRef(input.task.task_id))
+  const mentions = extractMentions(body, input.members).filter((id) => id !== input.authorId)
+
+  const comment: TaskComment = {
+    comment_id: commentRef.id,
+    task_id: input.task.task_id,
+    project_id: input.task.project_id,
+    author_id: input.authorId,
+    body,
+    parent_id: input.parentId ?? null,
+    mentions,
+    created_at: new Date(),
+    edited_at: null,
+  }
+
+  const batch = writeBatch(db)
+  batch.set(commentRef, { ...comment, created_at: serverTimestamp() })
+  batch.update(doc(db, "tasks", input.task.task_id), { comment_count: increment(1) })
+  await batch.commit()
+
+  // The comment is saved; notifications and the feed entry are best effort
+  try {
+    await Promise.all([
+      ...mentions.map((userId) =>
+        createNotification({
+          project_id: input.task.project_id,
+          user_id: userId,
+          type: "mention",
+          title: `${input.authorName} mentioned you`,
+          message: `On "${input.task.title}": ${body.length > 140 ? `${body.slice(0, 140)}…` : body}`,
+          read: false,
+          action_url: `/project/${input.task.project_id}`,
+        })
+      ),
+      addActivity({
+        project_id: input.task.project_id,
+        user_id: input.authorId,
+        type: "task_comment",
+        description: `${input.authorName} ${comment.parent_id ? "replied on" : "commented on"} "${input.task.title}"`,
+        metadata: { task_id: input.task.task_id, comment_id: comment.comment_id },
+      }),
+    ])
+  } catch (error) {
+    console.error("Error sending comment notifications:", error)
+  }
+
+  if (input.emailMentions && mentions.length > 0) {
+    await sendMentionEmails(comment)
+  }
+
+  return comment
+}
+
+// The server reads the comment, recipients and link itself; only the ids are sent
+async function sendMentionEmails(comment: TaskComment) {
+  try {
+    const response = await fetch("/api/send-email", {
+      method: "POST",
+      headers: await getAIRequestHeaders(),
+      body: JSON.stringify({ type: "mention", taskId: comment.task_id, commentId: comment.comment_id }),
+    })
+    if (!response.ok) throw new Error(`Email request failed with ${response.status}`)
+  } catch (error) {
+    console.error(`Error emailing mentions for comment ${comment.comment_id}:`, error)
+  }
+}
+
+/** Edits update the mention list but do not notify anyone again */
+export async function editTaskComment(comment: TaskComment, body: string, members: ProjectMember[]): Promise<void> {
+  const clean = body.trim().slice(0, MAX_COMMENT_LENGTH)
+  if (!clean) throw new Error("Comment is empty")
+
+  const mentions = Array.from(
+    new Set([...comment.mentions, ...extractMentions(clean, members).filter((id) => id !== comment.author_id)])
+  )
+  await updateDoc(doc(commentsRef(comment.task_id), comment.comment_id), {
+    body: clean,
+    mentions,
+    edited_at: serverTimestamp(),
+  })
+}
+
+export async function deleteTaskComment(comment: TaskComment): Promise<void> {
+  const db = getDb()
+  const batch = writeBatch(db)
+  batch.delete(doc(commentsRef(comment.task_id), comment.comment_id))
+  batch.update(doc(db, "tasks", comment.task_id), { comment_count: increment(-1) })
+  await batch.commit()
+}
@@ -0,0 +1,206 @@
+/**
+ * Flow metrics from the task status history: burndown/burnup and cumulative-flow series over the
+ * project's 24h/48h window, velocity, and per-task cycle and lead time.
+ * A task with no recorded transitions is treated as having been in its current status since it was created.
+ */
+
+import { EFFORT_HOURS } from "./constants"
+import type { Project, Task, TaskStatusTransition } from "./types"
+
+const HOUR = 60 * 60 * 1000
+
+export interface ProjectWindow {
+  start: Date
+  end: Date
+}
+
+export interface FlowPoint {
+  time: number
+  label: string
+  // Task counts per status (cumulative flow); null for points after now
+  ToDo: number | null
+  InProgress: number | null
+  Blocked: number | null
+  Done: number | null
+  // Effort hours (burndown / burnup); null for points after now
+  remaining: number | null
+  completed: number | null
+  scope: number | null
+  ideal: number
+}
+
+export interface TaskCycleTime {
+  taskId: string
+  title: string
+  completedAt: Date
+  leadHours: number // Created to Done
+  cycleHours: number | null // First InProgress to Done; null if it went straight to Done
+}
+
+export interface VelocityStats {
+  tasksPerHour: number
+  effortPerHour: number // Effort hours completed per elapsed hour
+  completedInWindow: number
+  trend: "increasing" | "decreasing" | "stable"
+}
+
+export function getProjectWindow(project: Project): ProjectWindow {
+  const start = new Date(project.createdAt)
+  const end = new Date(start.getTime() + (project.duration === "24h" ? 24 : 48) * HOUR)
+  return { start, end }
+}
+
+/** Transitions grouped by task, oldest first */
+export function groupHistory(history: TaskStatusTransition[]): Map<string, TaskStatusTransition[]> {
+  const byTask = new Map<string, TaskStatusTransition[]>()
+  for (const transition of history) {
+    const list = byTask.get(transition.task_id) || []
+    list.push(transition)
+    byTask.set(transition.task_id, list)
+  }
+  byTask.forEach((list) => list.sort((a, b) => a.changed_at.getTime() - b.changed_at.getTime()))
+  return byTask
+}
+
+function getCreatedAt(task: Task, transitions: TaskStatusTransition[]): number {
+  if (task.created_at) return new Date(task.created_at).getTime()
+  return transitions[0]?.changed_at.getTime() ?? new Date(task.last_updated).getTime()
+}
+
+/** The task's status at a point in time, or null if it did not exist yet */
+export function getStatusAt(task: Task, transitions: TaskStatusTransition[], at: number): Task["status"] | null {
+  if (at < getCreatedAt(task, transitions)) return null
+
+  let status = transitions[0]?.from ?? task.status
+  for (const transition of transitions) {
+    if (transition.changed_at.getTime() > at) break
+    status = transition.to
+  }
+  return status
+}
+
+/** When the task last moved to Done, if it is Done and the move was recorded */
+export function getCompletedAt(task: Task, transitions: TaskStatusTransition[]): Date | null {
+  if (task.status !== "Done") return null
+  const last = transitions[transitions.length - 1]
+  return last?.to === "Done" ? last.changed_at : null
+}
+
+/**
+ * Hourly points across the project window. The ideal line burns the current scope down to zero
+ * by the deadline; actual values stop at now.
+ */
+export function buildFlowSeries(
+  tasks: Task[],
+  history: TaskStatusTransition[],
+  window: ProjectWindow,
+  now: number = Date.now()
+): FlowPoint[] {
+  const byTask = groupHistory(history)
+  const start = window.start.getTime()
+  const end = window.end.getTime()
+  const totalScope = tasks.reduce((sum, task) => sum + EFFORT_HOURS[task.effort], 0)
+
+  const times: number[] = []
+  for (let t = start; t < end; t += HOUR) times.push(t)
+  times.push(end)
+  // Include the current moment so the actual lines reach now
+  if (now > start && now < end && !times.includes(now)) {
+    times.push(now)
+    times.sort((a, b) => a - b)
+  }
+
+  return times.map((time) => {
+    const point: FlowPoint = {
+      time,
+      label: `${Math.round(((time - start) / HOUR) * 10) / 10}h`,
+      ToDo: null,
+      InProgress: null,
+      Blocked: null,
+      Done: null,
+      remaining: null,
+      completed: null,
+      scope: null,
+      ideal: Math.round(totalScope * Math.max(0, 1 - (time - start) / (end - start)) * 10) / 10,
+    }
+    if (time > now) return point
+
+    const counts = { ToDo: 0, InProgress: 0, Blocked: 0, Done: 0 }
+    let scope = 0
+    let completed = 0
+    for (const task of tasks) {
+      const status = getStatusAt(task, byTask.get(task.task_id) || [], time)
+      if (!status) continue
+      counts[status]++
+      scope += EFFORT_HOURS[task.effort]
+      if (status === "Done") completed += EFFORT_HOURS[task.effort]
+    }
+
+    return { ...point, ...counts, scope, completed, remaining: scope - completed }
+  })
+}
+
+export function getTaskCycleTimes(tasks: Task[], history: TaskStatusTransition[]): TaskCycleTime[] {
+  const byTask = groupHistory(history)
+
+  return tasks
+    .map((task) => {
+      const transitions = byTask.get(task.task_id) || []
+      const completedAt = getCompletedAt(task, transitions)
+      if (!completedAt) return null
+
+      const startedAt = transitions.find((t) => t.to === "InProgress")?.changed_at
+      const done = completedAt.getTime()
+      return {
+        taskId: task.task_id,
+        title: task.title,
+        completedAt,
+        leadHours: Math.max(0, done - getCreatedAt(task, transitions)) / HOUR,
+        cycleHours: startedAt ? Math.max(0, done - startedAt.getTime()) / HOUR : null,
+      }
+    })
+    .filter((entry): entry is TaskCycleTime => entry !== null)
+    .sort((a, b) => b.completedAt.getTime() - a.completedAt.getTime())
+}
+
+export function averageHours(values: (number | null)[]): number | null {
+  const known = values.filter((v): v is number => v !== null)
+  return known.length > 0 ? known.reduce((sum, v) => sum + v, 0) / known.length : null
+}
+
+/**
+ * Completions per elapsed hour of the window. The trend compares the completion rate in the
+ * second half of the elapsed time with the first half.
+ */
+export function getVelocity(
+  tasks: Task[],
+  history: TaskStatusTransition[],
+  window: ProjectWindow,
+  now: number = Date.now()
+): VelocityStats {
+  const start = window.start.getTime()
+  const until = Math.min(now, window.end.getTime())
+  const elapsedHours = Math.max(1, (until - start) / HOUR)
+  const byTask = groupHistory(history)
+
+  const completions = tasks
+    .map((task) => ({ task, at: getCompletedAt(task, byTask.get(task.task_id) || [])?.getTime() }))
+    .filter((c): c is { task: Task; at: number } => c.at !== undefined && c.at >= start && c.at <= until)
+
+  const midpoint = start + (until - start) / 2
+  const early = completions.filter((c) => c.at < midpoint).length
+  const late = completions.length - early
+
+  let trend: VelocityStats["trend"] = "stable"
+  if (completions.length >= 2) {
+    if (late > early * 1.2) trend = "increasing"
+    else if (late < early * 0.8) trend = "decreasing"
+  }
+
+  return {
+    tasksPerHour: completions.length / elapsedHours,
+    effortPerHour: completions.reduce((sum, c) => sum + EFFORT_HOURS[c.task.effort], 0) / elapsedHours,
+    completedInWindow: completions.length,
+    trend,
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Task dependency graph analysis
+ * Critical path over remaining effort, blocked-task detection and the Mermaid chart for the graph view.
+ */
+
+import { EFFORT_HOURS } from "./constants"
+import type { Task } from "./types"
+
+export interface TaskSchedule {
+  taskId: string
+  hours: number // Remaining effort; 0 once Done
+  earliestStart: number // Hours from now
+  earliestFinish: number
+  latestFinish: number
+  slack: number // Hours the task can slip before the project end moves
+  critical: boolean
+}
+
+export interface CriticalPathAnalysis {
+  schedule: Record<string, TaskSchedule>
+  criticalPath: string[] // Task ids in dependency order
+  remainingHours: number // Length of the critical path
+  hasCycle: boolean
+}
+
+const byId = (tasks: Task[]) => new Map(tasks.map((t) => [t.task_id, t]))
+
+// Dependencies on tasks that no longer exist are ignored rather than blocking forever
+const getPrerequisites = (task: Task, tasks: Map<string, Task>): Task[] =>
+  (task.dependencies || []).map((id) => tasks.get(id)).filter((t): t is Task => !!t && t.task_id !== task.task_id)
+
+/** Prerequisites of `task` that are not Done yet. */
+export function getBlockingTasks(task: Task, tasks: Task[]): Task[] {
+  return getPrerequisites(task, byId(tasks)).filter((t) => t.status !== "Done")
+}
+
+export function getRemainingHours(task: Task): number {
+  return task.status === "Done" ? 0 : EFFORT_HOURS[task.effort] ?? EFFORT_HOURS.Medium
+}
+
+/**
+ * Critical path method over the remaining work: a forward pass for earliest finish times and a
+ * backward pass for latest finish times. Tasks with no slack are on the critical path: any slip moves
+ * the project end. Assumes unlimited parallelism across the team; edges that close a cycle are ignored.
+ */
+export function analyzeCriticalPath(tasks: Task[]): CriticalPathAnalysis {
+  const tasksById = byId(tasks)
+  const prerequisites = new Map(tasks.map((t) => [t.task_id, getPrerequisites(t, tasksById).map((p) => p.task_id)]))
+  const dependents = new Map<string, string[]>(tasks.map((t) => [t.task_id, []]))
+  prerequisites.forEach((deps, id) => deps.forEach((dep) => dependents.get(dep)!.push(id)))
+
+  // Kahn's algorithm; whatever is left over sits on a cycle and is appended in board order
+  const inDegree = new Map(tasks.map((t) => [t.task_id, prerequisites.get(t.task_id)!.length]))
+  const queue = tasks.filter((t) => inDegree.get(t.task_id) === 0).map((t) => t.task_id)
+  const order: string[] = []
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    order.push(id)
+    for (const next of dependents.get(id)!) {
+      inDegree.set(next, inDegree.get(next)! - 1)
+      if (inDegree.get(next) === 0) queue.push(next)
+    }
+  }
+  const hasCycle = order.length < tasks.length
+  if (hasCycle) {
+    const ordered = new Set(order)
+    tasks.forEach((t) => !ordered.has(t.task_id) && order.push(t.task_id))
+  }
+  const position = new Map(order.map((id, i) => [id, i]))
+  const isForwardEdge = (from: string, to: string) => position.get(from)! < position.get(to)!
+
+  const schedule: Record<string, TaskSchedule> = {}
+  for (const id of order) {
+    const hours = getRemainingHours(tasksById.get(id)!)
+    const earliestStart = Math.max(
+      0,
+      ...prerequisites
+        .get(id)!
+        .filter((dep) => isForwardEdge(dep, id))
+        .map((dep) => schedule[dep].earliestFinish)
+    )
+    schedule[id] = {
+      taskId: id,
+      hours,
+      earliestStart,
+      earliestFinish: earliestStart + hours,
+      latestFinish: 0,
+      slack: 0,
+      critical: false,
+    }
+  }
+
+  const remainingHours = Math.max(0, ...order.map((id) => schedule[id].earliestFinish))
+
+  for (const id of [...order].reverse()) {
+    const entry = schedule[id]
+    entry.latestFinish = Math.min(
+      remainingHours,
+      ...dependents
+        .get(id)!
+        .filter((next) => isForwardEdge(id, next))
+        .map((next) => schedule[next].latestFinish - schedule[next].hours)
+    )
+    entry.slack = entry.latestFinish - entry.earliestFinish
+    entry.critical = entry.hours > 0 && entry.slack <= 1e-9
+  }
+
+  // Walk the critical chain from its first task, always following a critical dependent that starts when this one ends
+  const criticalPath: string[] = []
+  let current = order.find((id) => schedule[id].critical && schedule[id].earliestStart === 0)
+  while (current) {
+    criticalPath.push(current)
+    const finish = schedule[current].earliestFinish
+    current = dependents
+      .get(current)!
+      .find((next) => schedule[next].critical && schedule[next].earliestStart === finish && isForwardEdge(current!, next))
+  }
+
+  return { schedule, criticalPath, remainingHours, hasCycle }
+}
+
+const escapeLabel = (text: string) => text.replace(/"/g, "#quot;").replace(/[<>]/g, "")
+
+/** Mermaid flowchart of the dependency graph: done, blocked and critical tasks get their own styles. */
+export function buildDependencyChart(tasks: Task[], analysis: CriticalPathAnalysis): string {
+  const tasksById = byId(tasks)
+  const nodeId = new Map(tasks.map((t, i) => [t.task_id, `t${i}`]))
+  const lines = ["flowchart LR"]
+  const criticalEdges: number[] = []
+  let edgeIndex = 0
+
+  for (const task of tasks) {
+    const entry = analysis.schedule[task.task_id]
+    const detail = task.status === "Done" ? "done" : `${entry.hours}h${entry.slack > 0 ? ` · ${entry.slack}h slack` : ""}`
+    lines.push(`  ${nodeId.get(task.task_id)}["${escapeLabel(task.title)}<br/><small>${detail}</small>"]`)
+  }
+
+  for (const task of tasks) {
+    for (const dep of getPrerequisites(task, tasksById)) {
+      lines.push(`  ${nodeId.get(dep.task_id)} --> ${nodeId.get(task.task_id)}`)
+      if (analysis.schedule[dep.task_id].critical && analysis.schedule[task.task_id].critical) {
+        criticalEdges.push(edgeIndex)
+      }
+      edgeIndex++
+    }
+  }
+
+  lines.push("  classDef done fill:#dcfce7,stroke:#16a34a,color:#166534")
+  lines.push("  classDef blocked fill:#f1f5f9,stroke:#94a3b8,color:#475569,stroke-dasharray:4 3")
+  lines.push("  classDef critical fill:#fee2e2,stroke:#dc2626,color:#991b1b,stroke-width:2px")
+
+  for (const task of tasks) {
+    const id = nodeId.get(task.task_id)
+    if (task.status === "Done") lines.push(`  class ${id} done`)
+    else if (analysis.schedule[task.task_id].critical) lines.push(`  class ${id} critical`)
+    else if (getBlockingTasks(task, tasks).length > 0) lines.push(`  class ${id} blocked`)
+  }
+
+  if (criticalEdges.length > 0) {
+    lines.push(`  linkStyle ${criticalEdges.join(",")} stroke:#dc2626,stroke-width:2px`)
+  }
+
+  return lines.join("\n")
+}
@@ -0,0 +1,240 @@
+/**
+ * Per-user task timers and time entries
+ * Entries live in tasks/{task_id}/time_entries. Every change to an entry's duration is rolled up
+ * into Task.time_spent (minutes) and the user's hours_worked in the same write.
+ * A user has at most one running timer (users/{uid}.active_timer); starting another stops it.
+ */
+
+import {
+  collection,
+  collectionGroup,
+  deleteField,
+  doc,
+  getDocs,
+  increment,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  where,
+  writeBatch,
+  type DocumentData,
+  type DocumentReference,
+  type SetOptions,
+  type Transaction,
+  type UpdateData,
+} from "firebase/firestore"
+import { getFirebaseDb } from "./firebase"
+import type { Task, TimeEntry } from "./types"
+
+// The subset of WriteBatch and Transaction used for rollups
+interface DocumentWriter {
+  update(ref: DocumentReference, data: UpdateData<DocumentData>): unknown
+  set(ref: DocumentReference, data: DocumentData, options: SetOptions): unknown
+}
+
+interface UserActiveTimer {
+  task_id: string
+  entry_id: string
+  started_at: Date
+}
+
+function getDb() {
+  const db = getFirebaseDb()
+  if (!db) throw new Error("Database not available")
+  return db
+}
+
+const entriesRef = (taskId: string) => collection(getDb(), "tasks", taskId, "time_entries")
+
+const toDate = (value: any): Date => value?.toDate?.() || (value ? new Date(value) : new Date())
+
+function toTimeEntry(data: DocumentData): TimeEntry {
+  return {
+    ...data,
+    started_at: toDate(data.started_at),
+    ended_at: data.ended_at ? toDate(data.ended_at) : null,
+  } as TimeEntry
+}
+
+export function getElapsedMinutes(startedAt: Date | string, now: number = Date.now()): number {
+  return Math.max(0, (now - new Date(startedAt).getTime()) / 60000)
+}
+
+export function formatDuration(minutes: number): string {
+  const total = Math.max(0, Math.round(minutes))
+  const hours = Math.floor(total / 60)
+  const mins = total % 60
+  return hours > 0 ? `${hours}h ${mins.toString().padStart(2, "0")}m` : `${mins}m`
+}
+
+/** Live stopwatch text for a running timer, e.g. 1:04:09 */
+export function formatElapsed(startedAt: Date | string, now: number = Date.now()): string {
+  const seconds = Math.floor(getElapsedMinutes(startedAt, now) * 60)
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = seconds % 60
+  return `${h}:${m.toString().padStart(2, "0")}:${s.toString().padStart(2, "0")}`
+}
+
+// Applies a duration change to the task and user totals
+function rollUp(writer: DocumentWriter, taskId: string, userId: string, deltaMinutes: number) {
+  if (deltaMinutes === 0) return
+  const db = getDb()
+  writer.update(doc(db, "tasks", taskId), { time_spent: increment(deltaMinutes) })
+  writer.set(doc(db, "users", userId), { hours_worked: increment(deltaMinutes / 60) }, { merge: true })
+}
+
+// Reads the running timer's task so a timer left on a deleted task is dropped instead of failing the transaction
+async function getClosableTimer(transaction: Transaction, timer: UserActiveTimer | null): Promise<UserActiveTimer | null> {
+  if (!timer) return null
+  const taskSnap = await transaction.get(doc(getDb(), "tasks", timer.task_id))
+  return taskSnap.exists() ? timer : null
+}
+
+function closeTimer(transaction: Transaction, userId: string, timer: UserActiveTimer, endedAt: Date) {
+  const db = getDb()
+  const duration = Math.round(getElapsedMinutes(timer.started_at, endedAt.getTime()))
+
+  transaction.update(doc(db, "tasks", timer.task_id, "time_entries", timer.entry_id), {
+    ended_at: endedAt,
+    duration_minutes: duration,
+  })
+  transaction.update(doc(db, "tasks", timer.task_id), { [`active_timers.${userId}`]: deleteField() })
+  rollUp(transaction, timer.task_id, userId, duration)
+}
+
+/** Starts the user's timer on a task, stopping whatever timer they had running elsewhere. */
+export async function startTimer(task: Task, userId: string): Promise<TimeEntry> {
+  const db = getDb()
+  const userRef = doc(db, "users", userId)
+  const entryRef = doc(entriesRef(task.task_id))
+  const now = new Date()
+
+  const entry: TimeEntry = {
+    entry_id: entryRef.id,
+    task_id: task.task_id,
+    project_id: task.project_id,
+    user_id: userId,
+    started_at: now,
+    ended_at: null,
+    duration_minutes: 0,
+  }
+
+  await runTransaction(db, async (transaction) => {
+    const userSnap = await transaction.get(userRef)
+    const running = userSnap.data()?.active_timer
+    const previous = await getClosableTimer(transaction, running ? { ...running, started_at: toDate(running.started_at) } : null)
+    if (previous) closeTimer(transaction, userId, previous, now)
+
+    transaction.set(entryRef, entry)
+    transaction.update(doc(db, "tasks", task.task_id), {
+      [`active_timers.${userId}`]: { entry_id: entry.entry_id, started_at: now },
+    })
+    transaction.set(userRef, { active_timer: { task_id: task.task_id, entry_id: entry.entry_id, started_at: now } }, { merge: true })
+  })
+
+  return entry
+}
+
+export async function stopTimer(task: Task, userId: string): Promise<void> {
+  const db = getDb()
+  const userRef = doc(db, "users", userId)
+
+  await runTransaction(db, async (transaction) => {
+    const userSnap = await transaction.get(userRef)
+    const running = userSnap.data()?.active_timer
+    const taskTimer = task.active_timers?.[userId]
+
+    // The user doc is authoritative; the task copy covers timers started before it was tracked there
+    const timer = await getClosableTimer(
+      transaction,
+      running
+        ? { ...running, started_at: toDate(running.started_at) }
+        : taskTimer
+          ? { task_id: task.task_id, entry_id: taskTimer.entry_id, started_at: toDate(taskTimer.started_at) }
+          : null
+    )
+
+    if (timer) closeTimer(transaction, userId, timer, new Date())
+    transaction.set(userRef, { active_timer: deleteField() }, { merge: true })
+  })
+}
+
+export async function getTimeEntries(taskId: string): Promise<TimeEntry[]> {
+  const snapshot = await getDocs(query(entriesRef(taskId), orderBy("started_at", "desc")))
+  return snapshot.docs.map((d) => toTimeEntry(d.data()))
+}
+
+export function subscribeToProjectTimeEntries(projectId: string, callback: (entries: TimeEntry[]) => void) {
+  try {
+    const q = query(collectionGroup(getDb(), "time_entries"), where("project_id", "==", projectId))
+    return onSnapshot(
+      q,
+      (snapshot) => callback(snapshot.docs.map((d) => toTimeEntry(d.data()))),
+      (error) => {
+        console.error("Error subscribing to time entries:", error)
+        callback([])
+      }
+    )
+  } catch {
+    callback([])
+    return () => {}
+  }
+}
+
+export async function addManualTimeEntry(
+  task: Task,
+  userId: string,
+  input: { startedAt: Date; durationMinutes: number; note?: string }
+): Promise<TimeEntry> {
+  const duration = Math.max(0, Math.round(input.durationMinutes))
+  const entryRef = doc(entriesRef(task.task_id))
+  const entry: TimeEntry = {
+    entry_id: entryRef.id,
+    task_id: task.task_id,
+    project_id: task.project_id,
+    user_id: userId,
+    started_at: input.startedAt,
+    ended_at: new Date(input.startedAt.getTime() + duration * 60000),
+    duration_minutes: duration,
+    manual: true,
+  }
+  if (input.note?.trim()) entry.note = input.note.trim()
+
+  const batch = writeBatch(getDb())
+  batch.set(entryRef, entry)
+  rollUp(batch, task.task_id, userId, duration)
+  await batch.commit()
+
+  return entry
+}
+
+/** Edits a finished entry's duration or note; the difference is applied to the rollups. */
+export async function updateTimeEntry(
+  entry: TimeEntry,
+  updates: { durationMinutes?: number; note?: string }
+): Promise<void> {
+  if (!entry.ended_at) throw new Error("Stop the timer before editing this entry")
+
+  const duration = updates.durationMinutes === undefined ? entry.duration_minutes : Math.max(0, Math.round(updates.durationMinutes))
+  const batch = writeBatch(getDb())
+
+  batch.update(doc(entriesRef(entry.task_id), entry.entry_id), {
+    duration_minutes: duration,
+    ended_at: new Date(entry.started_at.getTime() + duration * 60000),
+    manual: true,
+    ...(updates.note !== undefined && { note: updates.note.trim() }),
+  })
+  rollUp(batch, entry.task_id, entry.user_id, duration - entry.duration_minutes)
+  await batch.commit()
+}
+
+export async function deleteTimeEntry(entry: TimeEntry): Promise<void> {
+  if (!entry.ended_at) throw new Error("Stop the timer before deleting this entry")
+
+  const batch = writeBatch(getDb())
+  batch.delete(doc(entriesRef(entry.task_id), entry.entry_id))
+  rollUp(batch, entry.task_id, entry.user_id, -entry.duration_minutes)
+  await batch.commit()
+}
@@ -71,6 +71,7 @@ export interface Project {
   status: 'planning' | 'active' | 'completed' | 'archived';
   teamId: string;
   hackathonId?: string;
+  track?: string; // hackathon track the project competes in
   techStack: string[];
   category?: string;
   privacy: 'private' | 'team' | 'public';
@@ -114,16 +115,25 @@ export interface Hackathon {
   rules?: string[];
   organizer?: string;
   status?: "upcoming" | "active" | "judging" | "completed";
+  judgeIds?: string[]; // users allowed to submit judge feedback
 }
 
 export interface HackathonSettings {
   allowPublicDemo: boolean;
   requireJudgeApproval: boolean;
-  customBranding?: {
-    logo?: string;
-    primaryColor?: string;
-    secondaryColor?: string;
-  };
+  judgingCriteria?: JudgingCriteria[];
+  tracks?: string[];
+  reviewsPerProject?: number;
+  resultsConfig?: ResultsConfig;
+  prizeCategories?: PrizeCategory[];
+  customBranding?: CustomBranding;
+}
+
+// Organizer branding applied to a hackathon's pages and its teams' exported decks
+export interface CustomBranding {
+  logo?: string; // Image URL or data: URL
+  primaryColor?: string; // #rrggbb
+  secondaryColor?: string;
 }
 
 // Legacy HackathonEvent interface for backward compatibility
@@ -139,6 +149,8 @@ export interface HackathonEvent {
   rules: string[]
   organizer: string
   status: "upcoming" | "active" | "judging" | "completed"
+  judgeIds?: string[] // users allowed to submit judge feedback
+  settings?: Partial<HackathonSettings>
 }
 
 export interface TeamAnalytics {
@@ -172,7 +184,7 @@ export interface LiveActivity {
   activity_id: string
   project_id: string
   user_id: string
-  type: "task_update" | "file_upload" | "message" | "code_commit" | "status_change" | "github_sync" | "conflict_resolved"
+  type: "task_update" | "file_upload" | "message" | "code_commit" | "status_change" | "github_sync" | "conflict_resolved" | "task_comment"
   description: string
   timestamp: Date
   metadata?: any
@@ -182,7 +194,7 @@ export interface TeamNotification {
   notification_id: string
   project_id: string
   user_id: string
-  type: "task_assigned" | "deadline_reminder" | "blocker_alert" | "team_update"
+  type: "task_assigned" | "deadline_reminder" | "blocker_alert" | "team_update" | "mention"
   title: string
   message: string
   read: boolean
@@ -207,7 +219,7 @@ export interface Task {
   title: string
   description: string
   effort: "Low" | "Medium" | "High"
-  status: "ToDo" | "InProgress" | "Done"
+  status: "ToDo" | "InProgress" | "Blocked" | "Done"
   assigned_to: string | null
   last_updated: Date
   created_at?: Date
@@ -216,6 +228,89 @@ export interface Task {
   time_spent?: number // in minutes
   dependencies?: string[] // task_ids that must be completed first
   tags?: string[]
+  blocker?: TaskBlocker | null // Set while status is Blocked
+  blocked_minutes?: number // Time spent Blocked in earlier, resolved blocks
+  active_timers?: Record<string, ActiveTimer> // user_id -> running timer on this task
+  checklist?: ChecklistItem[] // Subtasks; progress rolls up onto the card
+  comment_count?: number
+  version?: number // Bumped on every edit so concurrent edits can be detected; missing means 0
+  updated_by?: string | null // user_id of the last edit
+}
+
+// Stored in tasks/{task_id}/comments; replies point at a top-level comment through parent_id
+export interface TaskComment {
+  comment_id: string
+  task_id: string
+  project_id: string
+  author_id: string
+  body: string // Markdown
+  parent_id: string | null
+  mentions: string[] // user_ids mentioned with @Name
+  created_at: Date
+  edited_at?: Date | null
+}
+
+export interface ChecklistItem {
+  item_id: string
+  title: string
+  done: boolean
+  assigned_to: string | null
+  completed_at?: Date | null
+}
+
+export interface ActiveTimer {
+  entry_id: string
+  started_at: Date
+}
+
+// Stored in tasks/{task_id}/time_entries; durations roll up into Task.time_spent and ProjectMember.hours_worked
+export interface TimeEntry {
+  entry_id: string
+  task_id: string
+  project_id: string
+  user_id: string
+  started_at: Date
+  ended_at: Date | null // null while the timer is running
+  duration_minutes: number
+  manual?: boolean
+  note?: string
+}
+
+// Stored in tasks/{task_id}/status_history; written by updateTask whenever the status changes
+export interface TaskStatusTransition {
+  transition_id: string
+  task_id: string
+  project_id: string
+  from: Task["status"]
+  to: Task["status"]
+  changed_by: string | null
+  changed_at: Date
+}
+
+export interface TaskBlocker {
+  reason: string
+  blocking_task_id?: string
+  blocking_user_id?: string
+  since: Date
+}
+
+// AI task breakdown, reviewed before it is written to the board
+export interface TaskDraft {
+  key: string // Local id used by depends_on until real task_ids are assigned
+  title: string
+  description: string
+  effort: Task["effort"]
+  priority: Task["priority"]
+  depends_on: string[]
+  tags: string[]
+  skills: string[]
+  assigned_to: string | null
+}
+
+export interface TaskGraphIssue {
+  type: "cycle" | "dangling" | "duplicate"
+  taskKey: string
+  message: string
 }
 
 export interface ChatMessage {
@@ -235,6 +330,105 @@ export interface IdeaAnalysis {
   tech_stack_suggestions: string[]
 }
 
+// Judging Types
+export interface JudgingCriteria {
+  name: string
+  description: string
+  weight: number // fraction of the overall score; weights within a rubric sum to 1
+  maxScore: number
+  track?: string // only applies to projects in this track
+}
+
+// Keyed by JudgingCriteria.name
+export type JudgeScores = Record<string, number>
+
+export type JudgeRecommendation = "winner" | "finalist" | "honorable_mention" | "participant"
+
+export interface JudgeFeedback {
+  id: string
+  projectId: string
+  hackathonId: string
+  judgeId: string
+  judgeName: string
+  judgeEmail: string
+  scores: JudgeScores
+  overallScore: number
+  comments: {
+    strengths: string
+    improvements: string
+    general: string
+  }
+  categories: string[]
+  recommendation: JudgeRecommendation
+  submittedAt: Date
+  updatedAt?: Date
+  isPublic: boolean
+}
+
+export interface JudgeAssignment {
+  id: string // `${projectId}_${judgeId}`, the same id as the judge's feedback document
+  hackathonId: string
+  projectId: string
+  projectName: string
+  judgeId: string
+  assignedAt: Date
+}
+
+export interface ScoreStatistics {
+  mean: number
+  median: number
+  stdDev: number
+  min: number
+  max: number
+  count: number
+}
+
+export interface ProjectJudgingResult {
+  projectId: string
+  judgeCount: number
+  criteria: Record<string, ScoreStatistics>
+  overall: ScoreStatistics
+  recommendations: Record<JudgeRecommendation, number>
+}
+
+// Hackathon Results
+export interface ResultsConfig {
+  normalizeJudgeScores: boolean // rank on per-judge z-scores to cancel out harsh/lenient judges
+  tieBreakers: string[] // criterion names, highest priority first
+}
+
+export interface PrizeCategory {
+  prize: string // entry from Hackathon.prizes
+  track?: string // only projects in this track compete
+  criterion?: string // awarded on this criterion's mean instead of the overall rank
+}
+
+export interface LeaderboardEntry {
+  projectId: string
+  projectName: string
+  track?: string
+  rank: number
+  score: number // mean overall score out of 10
+  normalizedScore?: number // mean judge z-score
+  judgeCount: number
+  criteria: Record<string, number> // mean score per criterion
+}
+
+export interface PrizeWinner {
+  prize: string
+  projectId: string
+  projectName: string
+}
+
+export interface HackathonResults {
+  hackathonId: string
+  hackathonName: string
+  leaderboard: LeaderboardEntry[]
+  winners: PrizeWinner[]
+  config: ResultsConfig
+  publishedAt: Date
+}
+
 export interface ProjectMember {
   user_id: string
   name: string
@@ -247,6 +441,7 @@ export interface ProjectMember {
   github_username?: string
   hours_worked?: number
   tasks_completed?: number
+  wellbeing_opt_out?: boolean // Excludes the member from burnout checks
 }
 // AI Types
 export interface AICredit {
@@ -257,16 +452,145 @@ export interface AICredit {
   tier: SubscriptionTier;
 }
 
+// Ledger entry written by the AI route for every metered call
 export interface AIAnalysis {
   id: string;
+  userId: string;
   projectId: string;
-  type: 'idea' | 'task_breakdown' | 'feature_suggestion';
+  type: 'idea' | 'task_breakdown' | 'feature_suggestion' | 'mentor_chat' | 'documentation';
   input: string;
   output: string;
   creditsUsed: number;
+  status: 'charged' | 'refunded';
   createdAt: Date;
 }
 
+// Export Job Types
+export type ExportJobType = 'pdf' | 'json' | 'csv' | 'markdown' | 'pitch_deck';
+
+// Stored in export_jobs; written only by the export API routes
+export interface ExportJob {
+  id: string;
+  userId: string;
+  projectId: string;
+  type: ExportJobType;
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'expired';
+  priority: 'low' | 'normal' | 'high' | 'urgent';
+  progress: number; // 0-100
+  attempts: number;
+  createdAt: Date;
+  startedAt?: Date | null;
+  completedAt?: Date | null;
+  nextAttemptAt?: Date | null; // Earliest time a queued job is picked up; pushed back after a failed attempt
+  leaseExpiresAt?: Date | null; // A processing job past its lease is assumed abandoned and requeued
+  error?: string | null;
+  result?: {
+    url: string;
+    filename: string;
+    contentType: string;
+    size: number;
+    expiresAt: Date; // The stored file is deleted after this
+    storagePath: string;
+  } | null;
+  options: {
+    includeIdea?: boolean;
+    includeTasks?: boolean;
+    includeAnalytics?: boolean;
+    includeTeam?: boolean;
+    includeChat?: boolean;
+    includeStaticSite?: boolean;
+  };
+}
+
+// Project snapshot: the JSON export, and the input of the project importer.
+// Dates are ISO strings; ids are only used to link records within the file and are replaced on import.
+// Exports made before schema_version existed have no ids, milestones or resources and count as version 1.
+export interface ProjectSnapshot {
+  schema_version: number;
+  exported_at?: string;
+  project: {
+    name: string;
+    description?: string;
+    duration?: '24h' | '48h';
+    status?: Project['status'];
+    createdAt?: string;
+    join_code?: string;
+    techStack?: string[];
+    category?: string;
+    privacy?: Project['privacy'];
+    github_repo?: string | null;
+    demo_url?: string | null;
+  };
+  idea?: IdeaAnalysis;
+  tasks?: ProjectSnapshotTask[];
+  milestones?: ProjectSnapshotMilestone[];
+  resources?: ProjectSnapshotResource[];
+  // Exported for reading only; the importer does not recreate these
+  team?: { name: string; email: string; role: ProjectMember['role']; skills: string[] }[];
+  analytics?: unknown;
+  messages?: unknown[];
+}
+
+export interface ProjectSnapshotTask {
+  id?: string;
+  title: string;
+  description: string;
+  status: Task['status'];
+  effort: Task['effort'];
+  priority: Task['priority'];
+  assigned_to: string | null;
+  created_at?: string;
+  due_date?: string | null;
+  dependencies?: string[]; // Snapshot ids of other tasks
+  tags?: string[];
+  checklist_progress?: { done: number; total: number; percent: number };
+  checklist: { title: string; done: boolean; assigned_to: string | null; completed_at?: string | null }[];
+}
+
+export interface ProjectSnapshotMilestone {
+  id?: string;
+  name: string;
+  description: string;
+  deadline: string | null; // Missing when the milestone had no usable deadline at export time
+  status: Milestone['status'];
+  type: Milestone['type'];
+}
+
+export interface ProjectSnapshotResource {
+  id?: string;
+  name: string;
+  type: SharedResource['type'];
+  tags: string[];
+  url?: string;
+  content?: string;
+  size?: number;
+  file_type?: string;
+  original_name?: string;
+}
+
+// Documentation Generator Types
+export type DocSectionId = 'overview' | 'features' | 'setup' | 'api' | 'architecture';
+
+export interface SetupStep {
+  title: string;
+  command?: string;
+}
+
+export interface ApiEndpointDoc {
+  method: string;
+  path: string;
+  description: string;
+}
+
+export interface DocSection {
+  id: DocSectionId;
+  title: string;
+  markdown: string;
+  steps?: SetupStep[];          // setup
+  endpoints?: ApiEndpointDoc[]; // api
+  diagram?: string;             // architecture, mermaid source
+}
+
 // Invitation Types
 export interface Invitation {
   id: string;
@@ -308,7 +632,7 @@ export const SUBSCRIPTION_LIMITS: Record<SubscriptionTier, SubscriptionLimits> =
   free: {
     maxProjects: 1,
     maxTeamSize: 3,
-    aiCreditsPerMonth: 0,
+    aiCreditsPerMonth: 50, // Same allowance as the free plan in lib/subscription.ts
     canExport: false,
     canUseAdvancedAnalytics: false,
     canCreateHackathons: false,